@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+// ERC721 deployed before ERC-165, it doesn't report the interfaces it implements
+contract MockLegacyNft is ERC721 {
+    constructor() ERC721("MockLegacyNFT", "MLE") {}
+
+    function mint(address to, uint256 tokenId) public {
+        _mint(to, tokenId);
+    }
+
+    function supportsInterface(bytes4) public pure override returns (bool) {
+        return false;
+    }
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+// ERC721 claiming every token belongs to `claimedOwner`, while its transfers don't move anything
+contract MockLyingNft is ERC721 {
+    address public claimedOwner;
+
+    constructor() ERC721("MockLyingNFT", "MLI") {}
+
+    function setClaimedOwner(address _claimedOwner) public {
+        claimedOwner = _claimedOwner;
+    }
+
+    function ownerOf(uint256) public view override returns (address) {
+        return claimedOwner;
+    }
+
+    function transferFrom(address, address, uint256) public override {}
+
+    function safeTransferFrom(address, address, uint256, bytes memory) public override {}
+}
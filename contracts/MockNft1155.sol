@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { ERC1155 } from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+
+contract MockNft1155 is ERC1155 {
+    constructor() ERC1155("") {}
+    
+    function mint(address to, uint256 tokenId, uint256 amount) public {
+        _mint(to, tokenId, amount, "");
+    }
+}
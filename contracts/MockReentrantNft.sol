@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+// ERC721 calling back into a contract on its next transfer, recording the outcome of the call
+contract MockReentrantNft is ERC721 {
+    address public target;
+    bytes public callData;
+    bool public reentered;
+    bytes public reentryResult;
+
+    constructor() ERC721("MockReentrantNFT", "MRE") {}
+
+    function mint(address to, uint256 tokenId) public {
+        _mint(to, tokenId);
+    }
+
+    function setReentry(address _target, bytes calldata _callData) public {
+        target = _target;
+        callData = _callData;
+    }
+
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        address reentryTarget = target;
+        if (reentryTarget != address(0)) {
+            target = address(0);
+            (reentered, reentryResult) = reentryTarget.call(callData);
+        }
+        return super._update(to, tokenId, auth);
+    }
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+
+// ERC721 whose transfers revert once frozen, like a collection pausing its transfers
+contract MockRevertingNft is ERC721 {
+    bool public frozen;
+
+    constructor() ERC721("MockRevertingNFT", "MRV") {}
+
+    function mint(address to, uint256 tokenId) public {
+        _mint(to, tokenId);
+    }
+
+    function setFrozen(bool _frozen) public {
+        frozen = _frozen;
+    }
+
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        require(!frozen, "Transfers are frozen");
+        return super._update(to, tokenId, auth);
+    }
+}
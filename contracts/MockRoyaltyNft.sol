@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import { ERC2981 } from "@openzeppelin/contracts/token/common/ERC2981.sol";
+
+contract MockRoyaltyNft is ERC721, ERC2981 {
+    constructor(address royaltyReceiver, uint96 royaltyBps) ERC721("MockRoyaltyNFT", "MRO") {
+        _setDefaultRoyalty(royaltyReceiver, royaltyBps);
+    }
+    
+    function mint(address to, uint256 tokenId) public {
+        _mint(to, tokenId);
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view override(ERC721, ERC2981) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+}
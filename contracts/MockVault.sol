@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { Address } from "@openzeppelin/contracts/utils/Address.sol";
+
+// Contract wallet without NFT receiver hooks, like a game vault: safe ERC721 and ERC1155 transfers to it revert
+contract MockVault {
+    address public immutable owner;
+
+    constructor(address _owner) {
+        owner = _owner;
+    }
+
+    function execute(address target, bytes calldata data) public payable returns (bytes memory) {
+        require(msg.sender == owner, "Only owner can execute");
+        return Address.functionCallWithValue(target, data, msg.value);
+    }
+}
@@ -0,0 +1,25 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { ERC721Holder } from "@openzeppelin/contracts/token/ERC721/utils/ERC721Holder.sol";
+import { ERC1155Holder } from "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+import { IERC1271 } from "@openzeppelin/contracts/interfaces/IERC1271.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import { MockVault } from "./MockVault.sol";
+
+// Contract wallet accepting NFTs and RON, signatures of its owner are valid for the wallet (ERC-1271)
+contract MockWallet is MockVault, ERC721Holder, ERC1155Holder, IERC1271 {
+    uint256 public received;
+
+    constructor(address _owner) MockVault(_owner) {}
+
+    // Records the RON received, like multisigs do, which takes more gas than `transfer` forwards
+    receive() external payable {
+        received += msg.value;
+    }
+
+    function isValidSignature(bytes32 hash, bytes memory signature) external view returns (bytes4) {
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(hash, signature);
+        return error == ECDSA.RecoverError.NoError && signer == owner ? IERC1271.isValidSignature.selector : bytes4(0xffffffff);
+    }
+}
@@ -1,266 +1,304 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
-import { IERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import { Initializable } from "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import { UUPSUpgradeable } from "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { NftSwapBase } from "./NftSwapBase.sol";
+import { TradeAssets } from "./TradeAssets.sol";
 
-contract NftSwap {
-    enum TradeStatus {
-        Proposed,
-        Agreed,
-        Confirmed,
-        Cancelled
-    }
-
-    struct Trade {
-        address fromAddress;
-        address fromNftContract;
-        uint256 fromNftId;
-        bool fromHasAgreed;
-        bool fromHasConfirmed;
-        
-        address toAddress;
-        address toNftContract;
-        uint256 toNftId;
-        bool toHasAgreed;
-        bool toHasConfirmed;
-
-        uint256 createdAt;
-        TradeStatus status;
-    }
-
-    Trade[] public trades;
-    address private immutable owner;
-    uint256 private constant TRADE_TIMEOUT = 1 hours;
+// Implementation behind an ERC-1967 proxy, upgraded by the owner (UUPS)
+contract NftSwap is NftSwapBase, Initializable, UUPSUpgradeable {
+    using EnumerableSet for EnumerableSet.UintSet;
 
-    // Events
-    event TradeProposed(uint256 tradeId);
-    event TradeAgreed(uint256 tradeId, address user);
-    event TradeConfirmed(uint256 tradeId, address user);
-    event TradeCompleted(uint256 tradeId);
-    event TradeCancelled(uint256 tradeId);
+    // Implements the signed and open offers, see fallback. Part of the implementation, upgraded along with it
+    address public immutable extension;
 
     // Constructor
-    constructor() {
-        owner = msg.sender;
+    constructor(address _extension) {
+        extension = _extension;
+        _disableInitializers();
     }
 
-    // Modifiers
-    modifier onlyOwner() {
-        require(msg.sender == owner, "Only owner can perform this action");
-        _;
-    }
-    modifier tradeNotExpired(uint256 _tradeId) {
-        require(_tradeId < trades.length, "Trade does not exist");
-        
-        Trade storage trade = trades[_tradeId];
-        
-        if (block.timestamp > trade.createdAt + TRADE_TIMEOUT && 
-            (trade.status == TradeStatus.Proposed || trade.status == TradeStatus.Agreed)) {
-            trade.status = TradeStatus.Cancelled;
-
-            emit TradeCancelled(_tradeId);
-            revert("Trade has expired");
-        }
-        _;
-    }
-    
-    // Internal
-    function executeTrade(uint256 _tradeId) internal {
-        require(_tradeId < trades.length, "Trade does not exist");
-        Trade storage trade = trades[_tradeId];
-        
-        require(trade.status == TradeStatus.Confirmed, "Trade is not in confirmed state");
-        require(
-            msg.sender == trade.fromAddress || msg.sender == trade.toAddress,
-            "Not authorized to execute this trade"
-        );
-
-        // Get references to both NFT contracts
-        IERC721 fromNft = IERC721(trade.fromNftContract);
-        IERC721 toNft = IERC721(trade.toNftContract);
-
-        // Check if the contract has approval to transfer the NFTs
-        require(
-            fromNft.isApprovedForAll(trade.fromAddress, address(this)) ||
-            fromNft.getApproved(trade.fromNftId) == address(this),
-            "Contract not approved to transfer first NFT"
-        );
-        require(
-            toNft.isApprovedForAll(trade.toAddress, address(this)) ||
-            toNft.getApproved(trade.toNftId) == address(this),
-            "Contract not approved to transfer second NFT"
-        );
-
-        // Verify current ownership
-        require(
-            fromNft.ownerOf(trade.fromNftId) == trade.fromAddress,
-            "Sender no longer owns the offered NFT"
-        );
-        require(
-            toNft.ownerOf(trade.toNftId) == trade.toAddress,
-            "Receiver no longer owns the requested NFT"
-        );
-
-        // Execute the transfers using a try-catch to handle potential transfer failures
-        try fromNft.transferFrom(trade.fromAddress, trade.toAddress, trade.fromNftId) {
-            try toNft.transferFrom(trade.toAddress, trade.fromAddress, trade.toNftId) {
-                // Both transfers successful
-                emit TradeCompleted(_tradeId);
-                return;
-            } catch {
-                // If second transfer fails, revert first transfer
-                fromNft.transferFrom(trade.toAddress, trade.fromAddress, trade.fromNftId);
-                revert("Second NFT transfer failed");
-            }
-        } catch {
-            revert("First NFT transfer failed");
-        }
+    // Called once by the proxy when deployed
+    function initialize(address _owner) external initializer {
+        owner = _owner;
+        feeRecipient = _owner;
+        defaultTradeTimeout = 1 hours;
+        royaltyCapBps = 1000;
     }
 
     // External
     function proposeTrade(
         address _fromAddress,
-        address _toAddress
-    ) external onlyOwner returns (uint256 tradeId)  {
-        require(_fromAddress != _toAddress, "Cannot trade with yourself"); 
-        require(_fromAddress != owner && _toAddress != owner, "Cannot trade with contract owner"); 
-
-        Trade memory newTrade = Trade({
-            fromAddress: _fromAddress, 
-            fromNftContract: address(0),
-            fromNftId: 0,
-            fromHasAgreed: false,
-            fromHasConfirmed: false,
-
-            toAddress: _toAddress, 
-            toNftContract: address(0),
-            toNftId: 0,
-            toHasAgreed: false,
-            toHasConfirmed: false,
+        address _toAddress,
+        uint256 _expiresAt // 0 for the default timeout
+    ) external nonReentrant returns (uint256 tradeId) {
+        return createTrade(_fromAddress, _toAddress, _expiresAt);
+    }
+    function proposeTrade(
+        address _fromAddress,
+        address _toAddress,
+        TradeItem[] calldata _fromItems,
+        TradeItem[] calldata _toItems,
+        Payment calldata _fromPayment,
+        Payment calldata _toPayment,
+        uint256 _expiresAt // 0 for the default timeout
+    ) external nonReentrant returns (uint256 tradeId) {
+        tradeId = createTrade(_fromAddress, _toAddress, _expiresAt);
+        Trade storage trade = trades[tradeId];
 
-            createdAt: block.timestamp,
-            status: TradeStatus.Proposed
-        });
+        checkTerms(trade, _fromItems, _toItems, _fromPayment, _toPayment);
+        setTerms(tradeId, _fromItems, _toItems, _fromPayment, _toPayment);
 
-        trades.push(newTrade);
-        
-        tradeId = trades.length - 1;
-        emit TradeProposed(tradeId);
+        // A user proposing a trade agrees to its terms
+        if (msg.sender != owner) {
+            trade.fromHasAgreed = true;
+            emit TradeAgreed(tradeId, msg.sender);
+        }
 
         return tradeId;
     }
-    function agreeTrade(uint256 _tradeId,
-        address _fromNftContract,
-        uint256 _fromNftId,
-        address _toNftContract,
-        uint256 _toNftId) external payable tradeNotExpired(_tradeId) { 
-        payable(owner).transfer(msg.value);
-
+    function agreeTrade(
+        uint256 _tradeId,
+        TradeItem[] calldata _fromItems,
+        TradeItem[] calldata _toItems,
+        Payment calldata _fromPayment,
+        Payment calldata _toPayment
+    ) external whenNotPaused nonReentrant tradeNotExpired(_tradeId) {
+        agreeTradeFor(msg.sender, _tradeId, _fromItems, _toItems, _fromPayment, _toPayment);
+    }
+    // Replaces the terms of a proposed or agreed trade. The counter-proposer agrees to the new terms, the other party has
+    // to agree again, and escrowed RON and fees of the previous terms are refunded
+    function counterTrade(
+        uint256 _tradeId,
+        TradeItem[] calldata _fromItems,
+        TradeItem[] calldata _toItems,
+        Payment calldata _fromPayment,
+        Payment calldata _toPayment
+    ) external whenNotPaused nonReentrant tradeNotExpired(_tradeId) {
         Trade storage trade = trades[_tradeId];
-        
-        require(trade.status == TradeStatus.Proposed, "Trade is not in proposed state");
+
+        require(
+            trade.status == TradeStatus.Proposed || trade.status == TradeStatus.Agreed,
+            "Trade can no longer be countered"
+        );
         require(
             msg.sender == trade.fromAddress || msg.sender == trade.toAddress,
-            "Not authorized to agree to this trade"
+            "Not authorized to counter this trade"
         );
 
-        // Only agree once
-        if (msg.sender == trade.fromAddress) {
-            require(!trade.fromHasAgreed, "Already agreed to this trade");
-            trade.fromHasAgreed = true;
-        } else {
-            require(!trade.toHasAgreed, "Already agreed to this trade");
-            trade.toHasAgreed = true;
-        }
-        
-        // Check NFT ownership self
-        IERC721 fromNft = IERC721(_fromNftContract);
-        try fromNft.ownerOf(_fromNftId) returns (address _owner) { 
-            require(_owner == trade.fromAddress, "You do not own this NFT");
-        } catch {
-            revert("Requested NFT does not exist");
-        }
-
-        // Check for requested NFT ownership
-        IERC721 toNft = IERC721(_toNftContract); 
-        try toNft.ownerOf(_toNftId) returns (address _owner) {
-            require(_owner == trade.toAddress, "Requested NFT is not owned by target address");
-        } catch {
-            revert("Requested NFT does not exist");
-        } 
+        // Refund before the payments and NFTs change, and clear the confirmations before returning the escrowed NFTs,
+        // which are back with their owners for the ownership checks
+        refundEscrow(_tradeId);
+        trade.fromHasConfirmed = false;
+        trade.toHasConfirmed = false;
+        trade.fee = 0;
+        returnEscrowedItems(_tradeId, trade.fromAddress);
+        returnEscrowedItems(_tradeId, trade.toAddress);
 
-        // If both parties have agreed, update
-        if (trade.fromHasAgreed && trade.toHasAgreed) { 
-            trade.fromNftContract = _fromNftContract; 
-            trade.fromNftId = _fromNftId; 
-            
-            trade.toNftContract = _toNftContract;
-            trade.toNftId = _toNftId;
+        checkTerms(trade, _fromItems, _toItems, _fromPayment, _toPayment);
 
-            trade.status = TradeStatus.Agreed;
+        setTerms(_tradeId, _fromItems, _toItems, _fromPayment, _toPayment);
+        trade.fromHasAgreed = msg.sender == trade.fromAddress;
+        trade.toHasAgreed = msg.sender == trade.toAddress;
+        if (trade.status == TradeStatus.Agreed) {
+            setStatus(_tradeId, TradeStatus.Proposed);
         }
 
-        emit TradeAgreed(_tradeId, msg.sender);
+        emit TradeCountered(_tradeId, msg.sender, trade.version);
     }
-    function confirmTrade(uint256 _tradeId) external payable tradeNotExpired(_tradeId) { 
-        payable(owner).transfer(msg.value);
-
+    // `_version` is the version of the terms the confirmer agreed to, a counter-proposal in between makes it fail
+    function confirmTrade(uint256 _tradeId, uint256 _version) external payable whenNotPaused nonReentrant tradeNotExpired(_tradeId) {
+        confirmTradeFor(msg.sender, _tradeId, _version);
+    }
+    function cancelTrade(uint256 _tradeId) external nonReentrant {
+        require(_tradeId < trades.length, "Trade does not exist");
         Trade storage trade = trades[_tradeId];
-        
-        require(trade.status == TradeStatus.Agreed, "Trade is not in agreed state");
+
         require(
-            msg.sender == trade.fromAddress || msg.sender == trade.toAddress,
-            "Not authorized to confirm this trade"
+            msg.sender == trade.fromAddress || msg.sender == trade.toAddress || msg.sender == owner,
+            "Not authorized to cancel this trade"
+        );
+        require(
+            trade.status == TradeStatus.Proposed || trade.status == TradeStatus.Agreed,
+            "Trade can no longer be cancelled"
         );
 
-        // Add ownership verification before confirming
-        IERC721 fromNft = IERC721(trade.fromNftContract);
-        IERC721 toNft = IERC721(trade.toNftContract);
-        
-        // If ownership has changed, automatically cancel the trade
-        if (fromNft.ownerOf(trade.fromNftId) != trade.fromAddress ||
-            toNft.ownerOf(trade.toNftId) != trade.toAddress) {
-            trade.status = TradeStatus.Cancelled;
-            emit TradeCancelled(_tradeId);
-            revert("Trade cancelled - NFT ownership changed");
-        }
-        
-        // Ownership check condition
-        if(msg.sender == trade.fromAddress){
-            require(
-                fromNft.isApprovedForAll(trade.fromAddress, address(this)) ||
-                fromNft.getApproved(trade.fromNftId) == address(this),
-                "Contract not approved to transfer NFT"
-            );
-        } else { 
-            require(
-                toNft.isApprovedForAll(trade.toAddress, address(this)) ||
-                toNft.getApproved(trade.toNftId) == address(this),
-                "Contract not approved to transfer NFT"
-            );
+        // A participant cancelling terms they didn't agree to rejects the trade
+        TradeStatus status = TradeStatus.Cancelled;
+        string memory reason = msg.sender == owner ? "Cancelled by owner" : "Cancelled by participant";
+        if (block.timestamp > trade.expiresAt) {
+            status = TradeStatus.Expired;
+            reason = "Trade has expired";
+        } else if (
+            (msg.sender == trade.fromAddress && !trade.fromHasAgreed) || (msg.sender == trade.toAddress && !trade.toHasAgreed)
+        ) {
+            status = TradeStatus.Rejected;
+            reason = "Rejected by participant";
         }
 
-        if (msg.sender == trade.fromAddress) {
-            require(!trade.fromHasConfirmed, "Already confirmed this trade");
-            trade.fromHasConfirmed = true;
-        } else {
-            require(!trade.toHasConfirmed, "Already confirmed this trade");
-            trade.toHasConfirmed = true;
+        // Escrowed NFTs are withdrawn by their owners (withdrawEscrow), so a collection rejecting transfers can't block the
+        // cancellation
+        setStatus(_tradeId, status);
+        emit TradeCancelled(_tradeId, msg.sender, reason);
+        refundEscrow(_tradeId);
+    }
+    function setPermissionlessProposals(bool _enabled) external onlyOwner {
+        permissionlessProposals = _enabled;
+        emit PermissionlessProposalsUpdated(_enabled);
+    }
+    function setPaused(bool _paused) external onlyOwner {
+        paused = _paused;
+        emit PausedUpdated(_paused);
+    }
+    function setCollectionBlocked(address _collection, bool _blocked) external onlyOwner {
+        blockedCollections[_collection] = _blocked;
+        emit CollectionBlockedUpdated(_collection, _blocked);
+    }
+    function setAllowlistEnabled(bool _enabled) external onlyOwner {
+        allowlistEnabled = _enabled;
+        emit AllowlistEnabledUpdated(_enabled);
+    }
+    // Only ERC721 and ERC1155 contracts (ERC-165) can be allowed
+    function setCollectionsAllowed(address[] calldata _collections, bool _allowed) external onlyOwner {
+        for (uint256 i = 0; i < _collections.length; i++) {
+            require(!_allowed || TradeAssets.isNftContract(_collections[i]), "Collection is not an NFT contract");
+            allowedCollections[_collections[i]] = _allowed;
+            emit CollectionAllowedUpdated(_collections[i], _allowed);
         }
+    }
+    // Two-step handover, the ownership only moves once the new owner accepts it
+    function transferOwnership(address _newOwner) external onlyOwner {
+        pendingOwner = _newOwner;
+        emit OwnershipTransferStarted(owner, _newOwner);
+    }
+    function acceptOwnership() external {
+        require(msg.sender == pendingOwner, "Not authorized to accept ownership");
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
+    }
+    function setFlatFee(uint256 _fee) external onlyOwner {
+        flatFee = _fee;
+        emit FeeScheduleUpdated(_fee, address(0), false, 0);
+    }
+    function setCollectionFee(address _collection, bool _enabled, uint256 _fee) external onlyOwner {
+        collectionFees[_collection] = CollectionFee(_enabled, _enabled ? _fee : 0);
+        emit FeeScheduleUpdated(flatFee, _collection, _enabled, _enabled ? _fee : 0);
+    }
+    function setFeeExempt(address _account, bool _exempt) external onlyOwner {
+        feeExempt[_account] = _exempt;
+        emit FeeExemptionUpdated(_account, _exempt);
+    }
+    function setFeeRecipient(address _recipient) external onlyOwner {
+        require(_recipient != address(0), "Invalid fee recipient");
+        feeRecipient = _recipient;
+        emit FeeRecipientUpdated(_recipient);
+    }
+    function setRoyaltyCap(uint256 _royaltyCapBps) external onlyOwner {
+        require(_royaltyCapBps <= MAX_BPS, "Invalid royalty cap");
+        royaltyCapBps = _royaltyCapBps;
+        emit RoyaltyCapUpdated(_royaltyCapBps);
+    }
+    function withdrawFees() external nonReentrant {
+        require(msg.sender == owner || msg.sender == feeRecipient, "Not authorized to withdraw fees");
+        uint256 amount = accumulatedFees;
+        require(amount > 0, "No fees to withdraw");
 
-        emit TradeConfirmed(_tradeId, msg.sender);
+        accumulatedFees = 0;
+        // All the gas is forwarded, multisig fee recipients need more than `transfer` gives them
+        (bool success, ) = payable(feeRecipient).call{ value: amount }("");
+        require(success, "RON transfer failed");
+        emit FeesWithdrawn(feeRecipient, amount);
+    }
+    // Sends the RON credited to the caller, with all the gas contract wallets need to receive it. Also while trading is paused
+    function withdrawPayments() external nonReentrant {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        require(amount > 0, "No RON to withdraw");
 
-        // If both parties have confirmed, update status
-        if (trade.fromHasConfirmed && trade.toHasConfirmed) {
-            trade.status = TradeStatus.Confirmed;
+        pendingWithdrawals[msg.sender] = 0;
+        (bool success, ) = payable(msg.sender).call{ value: amount }("");
+        require(success, "RON transfer failed");
+        emit PaymentWithdrawn(msg.sender, amount);
+    }
+    function setDefaultTradeTimeout(uint256 _timeout) external onlyOwner {
+        require(_timeout >= MIN_TRADE_TIMEOUT && _timeout <= MAX_TRADE_TIMEOUT, "Invalid trade timeout");
+        defaultTradeTimeout = _timeout;
+        emit DefaultTradeTimeoutUpdated(_timeout);
+    }
 
-            // Execute the trade
-            executeTrade(_tradeId);
+    // Only the owner can upgrade the implementation (upgradeToAndCall)
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+
+    // Functions of NftSwapExtension run through delegatecall, in the storage and with the balance of NftSwap
+    fallback() external payable {
+        address target = extension;
+        assembly ("memory-safe") {
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(gas(), target, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch success
+            case 0 {
+                revert(0, returndatasize())
+            }
+            default {
+                return(0, returndatasize())
+            }
         }
     }
-    
+
     // Helper
-    function getTrade(uint256 _tradeId) public view returns (Trade memory) {
-        return trades[_tradeId];
+    function getTrade(uint256 _tradeId) external view returns (Trade memory trade, TradeLifecycle memory lifecycle) {
+        return (loadTrade(_tradeId), lifecycles[_tradeId]);
+    }
+    function getTradeCount() external view returns (uint256) {
+        return trades.length;
+    }
+    function getOpenTradeCount() external view returns (uint256) {
+        (, uint256 total) = TradeAssets.currentTradeIds(trades, openTradeIds, openTradeIds, OPEN_STATUSES, false, 0, 0);
+        return total;
+    }
+    // Trades the user takes part in, oldest first
+    function getTradesByUser(
+        address _user,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory tradeIds, Trade[] memory page, uint256 total) {
+        uint256[] storage ids = userTradeIds[_user];
+        total = ids.length;
+        tradeIds = new uint256[](pageLength(total, _offset, _limit));
+        for (uint256 i = 0; i < tradeIds.length; i++) {
+            tradeIds[i] = ids[_offset + i];
+        }
+        return (tradeIds, getTradesPage(tradeIds), total);
+    }
+    // Trades by current status, open trades past their deadline are listed as Expired after the cancelled ones. The order changes
+    // as trades leave a status
+    function getTradesByStatus(
+        TradeStatus _status,
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory tradeIds, Trade[] memory page, uint256 total) {
+        uint256 status = 1 << uint256(_status);
+        if (status & (OPEN_STATUSES | (1 << uint256(TradeStatus.Expired))) == 0) {
+            return getSetPage(statusTradeIds[_status], _offset, _limit);
+        }
+        return getCurrentPage(statusTradeIds[_status], status, _status == TradeStatus.Expired, _offset, _limit);
+    }
+    // Proposed and agreed trades that haven't passed their deadline
+    function getOpenTrades(
+        uint256 _offset,
+        uint256 _limit
+    ) external view returns (uint256[] memory tradeIds, Trade[] memory page, uint256 total) {
+        return getCurrentPage(openTradeIds, OPEN_STATUSES, false, _offset, _limit);
+    }
+    // Fee the payer (toAddress of a trade, taker of an offer) owes for a trade, the highest collection fee replaces the flat fee
+    function quoteFee(
+        address _payer,
+        TradeItem[] calldata _fromItems,
+        TradeItem[] calldata _toItems
+    ) external view returns (uint256) {
+        return getFee(_payer, _fromItems, _toItems);
     }
-} 
+}
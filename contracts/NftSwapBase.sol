@@ -0,0 +1,731 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import { TradeAssets } from "./TradeAssets.sol";
+
+// Storage, events and internal logic shared by NftSwap and NftSwapExtension. Both contracts inherit the same storage
+// layout, NftSwap delegates the functions it doesn't implement to NftSwapExtension.
+// NftSwap is deployed behind a proxy: new state variables are only appended, and set by NftSwap.initialize instead of
+// initial values
+abstract contract NftSwapBase is EIP712 {
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    // New statuses are appended, stored trades keep theirs
+    enum TradeStatus {
+        Proposed,
+        Agreed,
+        Confirmed, // Both parties confirmed, the trade completes in the same transaction
+        Cancelled,
+        Completed,
+        Expired, // Cancelled after its deadline
+        Rejected // Cancelled by a participant who didn't agree to the terms
+    }
+
+    enum TokenStandard {
+        ERC721,
+        ERC1155
+    }
+
+    struct TradeItem {
+        address nftContract;
+        uint256 nftId;
+        TokenStandard standard;
+        uint256 amount; // Always 1 for ERC721
+    }
+
+    // Fungible tokens a side adds on top of its NFTs
+    struct Payment {
+        uint256 nativeAmount; // RON, escrowed when confirming
+        address erc20Token;
+        uint256 erc20Amount; // Pulled when the trade executes
+    }
+
+    struct Trade {
+        address fromAddress;
+        TradeItem[] fromItems;
+        Payment fromPayment;
+        bool fromHasAgreed;
+        bool fromHasConfirmed;
+        
+        address toAddress;
+        TradeItem[] toItems;
+        Payment toPayment;
+        bool toHasAgreed;
+        bool toHasConfirmed;
+
+        OpenOfferCriteria wanted; // Only set for open offers, toAddress is set by whoever accepts them
+        uint256 version; // Incremented whenever the terms change, confirmations are bound to it
+        uint256 fee; // Paid in RON by toAddress, set once both parties agreed
+        uint256 createdAt;
+        uint256 expiresAt;
+        TradeStatus status;
+    }
+
+    // Timestamps of the lifecycle of a trade, 0 until reached. Kept apart from Trade, whose layout is fixed by the stored trades
+    struct TradeLifecycle {
+        uint256 agreedAt; // Both parties agreed, cleared by counter-proposals
+        uint256 confirmedAt;
+        uint256 completedAt;
+        uint256 cancelledAt; // Cancelled, expired or rejected
+        address cancelledBy;
+    }
+
+    // NFT an open offer accepts in exchange, from anyone holding a matching token
+    struct OpenOfferCriteria {
+        address nftContract;
+        TokenStandard standard;
+        uint256 amount;
+        bytes32 idsRoot; // Merkle root of the accepted token ids, bytes32(0) accepts any token of the collection
+    }
+
+    // Replaces the flat fee for trades including the collection
+    struct CollectionFee {
+        bool enabled;
+        uint256 fee;
+    }
+
+    // Trade signed off-chain by the maker (EIP-712), filled by the taker in a single transaction
+    struct Offer {
+        address maker;
+        address taker; // address(0) for an open offer anyone can fill
+        TradeItem[] makerItems;
+        TradeItem[] takerItems;
+        Payment makerPayment; // RON can't be escrowed by the maker, only ERC20 tokens
+        Payment takerPayment;
+        uint256 expiry;
+        uint256 nonce;
+    }
+
+    // Trade proposed in a batch, see NftSwapExtension.proposeTrades
+    struct TradeProposal {
+        address fromAddress;
+        address toAddress;
+        TradeItem[] fromItems;
+        TradeItem[] toItems;
+        Payment fromPayment;
+        Payment toPayment;
+        uint256 expiresAt; // 0 for the default timeout
+    }
+
+    // Terms agreed to in a batch, see NftSwapExtension.agreeTrades
+    struct TradeAgreement {
+        uint256 tradeId;
+        TradeItem[] fromItems;
+        TradeItem[] toItems;
+        Payment fromPayment;
+        Payment toPayment;
+    }
+
+    Trade[] public trades;
+
+    // Indexes of trade ids, for the paginated views
+    mapping(address => uint256[]) internal userTradeIds;
+    mapping(TradeStatus => EnumerableSet.UintSet) internal statusTradeIds;
+    EnumerableSet.UintSet internal openTradeIds; // Proposed or Agreed
+    bool public permissionlessProposals;
+    uint256 public defaultTradeTimeout;
+    uint256 internal constant MIN_TRADE_TIMEOUT = 5 minutes;
+    uint256 internal constant MAX_TRADE_TIMEOUT = 30 days;
+
+    // Emergency controls
+    address public owner;
+    address public pendingOwner; // Has to accept the ownership to become the owner
+    bool public paused; // Blocks new proposals, agreements and confirmations, trades can still be cancelled
+    mapping(address => bool) public blockedCollections;
+
+    // Fees
+    uint256 public flatFee;
+    mapping(address => CollectionFee) public collectionFees;
+    mapping(address => bool) public feeExempt;
+    address public feeRecipient;
+    uint256 public accumulatedFees;
+
+    // Royalties, as a share of the payment for each NFT in basis points
+    uint256 public royaltyCapBps;
+    uint256 internal constant MAX_BPS = 10_000;
+    uint256 internal constant OPEN_STATUSES = (1 << uint256(TradeStatus.Proposed)) | (1 << uint256(TradeStatus.Agreed));
+
+    mapping(address => mapping(uint256 => bool)) public usedNonces;
+    mapping(address => uint256) public minNonces;
+
+    // Curated mode, only allowed collections can be traded while the allowlist is enabled
+    bool public allowlistEnabled;
+    mapping(address => bool) public allowedCollections;
+
+    // Trades sending their ERC721 tokens with transferFrom, for recipients that can't implement onERC721Received
+    mapping(uint256 => bool) public plainTransfers;
+
+    // Batch in progress, its confirmations share the RON sent with it
+    address internal batchSender;
+    uint256 internal batchValue;
+
+    // Escrow mode, the NFTs of each party are held by the contract from its confirmation until the trade completes
+    mapping(uint256 => bool) public escrowMode;
+    mapping(uint256 => mapping(address => bool)) public escrowedItems; // NFTs of the participant held for the trade
+
+    // Reentrancy guard of the functions calling collections, tokens and payment recipients
+    bool internal entered;
+
+    mapping(uint256 => TradeLifecycle) internal lifecycles;
+
+    // RON the account rejected when it was paid (payments, refunds and royalties), withdrawn by the account. Retrying the
+    // payment could let a recipient rejecting RON block trades and cancellations
+    mapping(address => uint256) public pendingWithdrawals;
+
+    // Submitter of a signed confirmation, who sent the RON the participant escrowed and gets it back on a refund
+    mapping(uint256 => mapping(address => address)) internal escrowPayers;
+
+    bytes32 internal constant TRADE_ITEM_TYPEHASH =
+        keccak256("TradeItem(address nftContract,uint256 nftId,uint8 standard,uint256 amount)");
+    bytes32 internal constant PAYMENT_TYPEHASH =
+        keccak256("Payment(uint256 nativeAmount,address erc20Token,uint256 erc20Amount)");
+    bytes32 internal constant OFFER_TYPEHASH =
+        keccak256(
+            "Offer(address maker,address taker,TradeItem[] makerItems,TradeItem[] takerItems,Payment makerPayment,Payment takerPayment,uint256 expiry,uint256 nonce)"
+            "Payment(uint256 nativeAmount,address erc20Token,uint256 erc20Amount)"
+            "TradeItem(address nftContract,uint256 nftId,uint8 standard,uint256 amount)"
+        );
+    // Agreements and confirmations signed by a participant, submitted by a relayer
+    bytes32 internal constant AGREEMENT_TYPEHASH =
+        keccak256(
+            "Agreement(uint256 tradeId,address user,TradeItem[] fromItems,TradeItem[] toItems,Payment fromPayment,Payment toPayment,uint256 nonce,uint256 deadline)"
+            "Payment(uint256 nativeAmount,address erc20Token,uint256 erc20Amount)"
+            "TradeItem(address nftContract,uint256 nftId,uint8 standard,uint256 amount)"
+        );
+    bytes32 internal constant CONFIRMATION_TYPEHASH =
+        keccak256("Confirmation(uint256 tradeId,address user,uint256 version,uint256 nonce,uint256 deadline)");
+
+    // Events
+    event TradeProposed(uint256 indexed tradeId, address indexed fromAddress, address indexed toAddress, uint256 expiresAt);
+    event TradeTermsSet(
+        uint256 indexed tradeId,
+        TradeItem[] fromItems,
+        TradeItem[] toItems,
+        Payment fromPayment,
+        Payment toPayment
+    );
+    event TradeCountered(uint256 indexed tradeId, address indexed user, uint256 version);
+    event TradeAgreed(uint256 indexed tradeId, address indexed user);
+    event TradeConfirmed(uint256 indexed tradeId, address indexed user);
+    event TradeCompleted(uint256 indexed tradeId, address indexed fromAddress, address indexed toAddress);
+    event TradeCancelled(uint256 indexed tradeId, address indexed cancelledBy, string reason);
+    event PermissionlessProposalsUpdated(bool enabled);
+    event DefaultTradeTimeoutUpdated(uint256 timeout);
+    event FeePaid(uint256 indexed tradeId, address indexed payer, uint256 fee);
+    event FeesWithdrawn(address recipient, uint256 amount);
+    event FeeScheduleUpdated(uint256 flatFee, address collection, bool enabled, uint256 collectionFee);
+    event FeeExemptionUpdated(address account, bool exempt);
+    event FeeRecipientUpdated(address recipient);
+    event RoyaltyPaid(
+        uint256 indexed tradeId,
+        address indexed nftContract,
+        uint256 nftId,
+        address indexed receiver,
+        address token,
+        uint256 amount
+    );
+    event RoyaltyCapUpdated(uint256 royaltyCapBps);
+    event OpenOfferProposed(uint256 indexed tradeId, OpenOfferCriteria wanted);
+    event OpenOfferAccepted(uint256 indexed tradeId, address indexed taker, uint256 nftId);
+    event OfferFilled(bytes32 indexed offerHash, uint256 indexed tradeId, address indexed maker, address taker);
+    event OfferCancelled(address indexed maker, uint256 nonce);
+    event NoncesInvalidated(address indexed maker, uint256 minNonce);
+    event PausedUpdated(bool paused);
+    event CollectionBlockedUpdated(address indexed collection, bool blocked);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event AllowlistEnabledUpdated(bool enabled);
+    event CollectionAllowedUpdated(address indexed collection, bool allowed);
+    event PlainTransfersUpdated(uint256 indexed tradeId, address indexed user, bool enabled);
+    event BatchCallFailed(uint256 index, bytes reason);
+    event EscrowModeUpdated(uint256 indexed tradeId, address indexed user, bool enabled);
+    event ItemsEscrowed(uint256 indexed tradeId, address indexed user);
+    event EscrowWithdrawn(uint256 indexed tradeId, address indexed user);
+    event PaymentCredited(address indexed account, uint256 amount);
+    event PaymentWithdrawn(address indexed account, uint256 amount);
+
+    // Constructor
+    constructor() EIP712("NftSwap", "1") {}
+
+    // Modifiers
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner can perform this action");
+        _;
+    }
+    modifier whenNotPaused() {
+        require(!paused, "Trading is paused");
+        _;
+    }
+    // Collections are user supplied contracts, they can't call back into a trade function while one runs
+    modifier nonReentrant() {
+        require(!entered, "Reentrant call");
+        entered = true;
+        _;
+        entered = false;
+    }
+    modifier tradeNotExpired(uint256 _tradeId) {
+        require(_tradeId < trades.length, "Trade does not exist");
+        
+        Trade storage trade = trades[_tradeId];
+        
+        // Expired trades stay open until they are cancelled, cancelTrade records them as Expired
+        if (block.timestamp > trade.expiresAt && 
+            (trade.status == TradeStatus.Proposed || trade.status == TradeStatus.Agreed)) {
+            revert("Trade has expired");
+        }
+        _;
+    }
+    
+    // Internal
+    // Agrees to the terms of a trade on behalf of `_user`, the caller or the signer of the agreement
+    function agreeTradeFor(
+        address _user,
+        uint256 _tradeId,
+        TradeItem[] calldata _fromItems,
+        TradeItem[] calldata _toItems,
+        Payment calldata _fromPayment,
+        Payment calldata _toPayment
+    ) internal {
+        Trade storage trade = trades[_tradeId];
+        
+        require(trade.status == TradeStatus.Proposed, "Trade is not in proposed state");
+        require(
+            _user == trade.fromAddress || _user == trade.toAddress,
+            "Not authorized to agree to this trade"
+        );
+
+        // Only agree once
+        if (_user == trade.fromAddress) {
+            require(!trade.fromHasAgreed, "Already agreed to this trade");
+            trade.fromHasAgreed = true;
+        } else {
+            require(!trade.toHasAgreed, "Already agreed to this trade");
+            trade.toHasAgreed = true;
+        }
+        
+        checkTerms(trade, _fromItems, _toItems, _fromPayment, _toPayment);
+
+        // The terms are set by the proposal or the first party to agree, the other party has to agree to the same terms.
+        // Storing the terms first keeps the second agreement cheaper, so agreeing in the same block doesn't run out of gas
+        if (trade.fromItems.length == 0) {
+            setTerms(_tradeId, _fromItems, _toItems, _fromPayment, _toPayment);
+        } else {
+            require(
+                hashTerms(_fromItems, _toItems, _fromPayment, _toPayment) ==
+                    hashTerms(trade.fromItems, trade.toItems, trade.fromPayment, trade.toPayment),
+                "Trade terms do not match"
+            );
+        }
+
+        // If both parties have agreed, update and fix the fee
+        if (trade.fromHasAgreed && trade.toHasAgreed) { 
+            trade.fee = getFee(trade.toAddress, _fromItems, _toItems);
+            setStatus(_tradeId, TradeStatus.Agreed);
+        }
+
+        emit TradeAgreed(_tradeId, _user);
+    }
+    // Confirms a trade on behalf of `_user`, the RON it escrows is sent by the caller
+    function confirmTradeFor(address _user, uint256 _tradeId, uint256 _version) internal {
+        Trade storage trade = trades[_tradeId];
+        
+        require(trade.status == TradeStatus.Agreed, "Trade is not in agreed state");
+        require(trade.version == _version, "Trade terms have changed");
+        require(
+            _user == trade.fromAddress || _user == trade.toAddress,
+            "Not authorized to confirm this trade"
+        );
+
+        // Both parties still hold their NFTs, escrowed NFTs are held by the contract
+        require(
+            TradeAssets.ownsItems(trade.fromItems, itemsHolder(_tradeId, trade.fromAddress)) &&
+                TradeAssets.ownsItems(trade.toItems, itemsHolder(_tradeId, trade.toAddress)),
+            "NFT ownership changed"
+        );
+        
+        // Approval check condition
+        Payment storage payment;
+        if(_user == trade.fromAddress){
+            require(TradeAssets.isApprovedForItems(trade.fromItems, trade.fromAddress), "Contract not approved to transfer NFT");
+            payment = trade.fromPayment;
+        } else { 
+            require(TradeAssets.isApprovedForItems(trade.toItems, trade.toAddress), "Contract not approved to transfer NFT");
+            payment = trade.toPayment;
+        }
+        require(isApprovedForPayment(payment, _user), "Contract not approved to transfer tokens");
+
+        if (_user == trade.fromAddress) {
+            require(!trade.fromHasConfirmed, "Already confirmed this trade");
+            trade.fromHasConfirmed = true;
+        } else {
+            require(!trade.toHasConfirmed, "Already confirmed this trade");
+            trade.toHasConfirmed = true;
+        }
+
+        emit TradeConfirmed(_tradeId, _user);
+
+        // Escrow the RON payment, and the fee for the receiving side. A sponsor of a signed confirmation only pays the fee,
+        // paying the signer's RON would let signers drain it
+        if (msg.sender != _user) {
+            require(payment.nativeAmount == 0, "Sponsored signer cannot pay RON");
+            escrowPayers[_tradeId][_user] = msg.sender;
+        }
+        uint256 excess = collectNative(payment.nativeAmount + (_user == trade.toAddress ? trade.fee : 0));
+
+        // If both parties have confirmed, update status. Confirmations can land in any order, the second one executes
+        // the trade so its gas limit has to cover the execution (the SDK adds it when estimating)
+        bool bothConfirmed = trade.fromHasConfirmed && trade.toHasConfirmed;
+        if (bothConfirmed) {
+            setStatus(_tradeId, TradeStatus.Confirmed);
+        }
+
+        // In escrow mode the NFTs are pulled on confirmation, so they can't move before the trade executes
+        if (escrowMode[_tradeId]) {
+            escrowedItems[_tradeId][_user] = true;
+            TradeItem[] storage items = _user == trade.fromAddress ? trade.fromItems : trade.toItems;
+            TradeAssets.transferItems(items, _user, address(this), true, "NFT escrow failed");
+            emit ItemsEscrowed(_tradeId, _user);
+        }
+
+        if (bothConfirmed) {
+            executeTrade(_tradeId, _user);
+        }
+        payOrCredit(msg.sender, excess);
+    }
+    function executeTrade(uint256 _tradeId, address _user) internal {
+        require(_tradeId < trades.length, "Trade does not exist");
+        Trade storage trade = trades[_tradeId];
+        
+        require(trade.status == TradeStatus.Confirmed, "Trade is not in confirmed state");
+        require(
+            _user == trade.fromAddress || _user == trade.toAddress,
+            "Not authorized to execute this trade"
+        );
+
+        // Blocking a collection also stops trades agreed before
+        require(
+            !TradeAssets.includesCollection(trade.fromItems, blockedCollections) &&
+                !TradeAssets.includesCollection(trade.toItems, blockedCollections),
+            "Collection is blocked"
+        );
+
+        // Escrowed NFTs are released by the contract, the others are sent by their owner
+        address fromHolder = itemsHolder(_tradeId, trade.fromAddress);
+        address toHolder = itemsHolder(_tradeId, trade.toAddress);
+        delete escrowedItems[_tradeId][trade.fromAddress];
+        delete escrowedItems[_tradeId][trade.toAddress];
+
+        // Check if the contract has approval to transfer the NFTs
+        require(
+            fromHolder == address(this) || TradeAssets.isApprovedForItems(trade.fromItems, fromHolder),
+            "Contract not approved to transfer offered NFT"
+        );
+        require(
+            toHolder == address(this) || TradeAssets.isApprovedForItems(trade.toItems, toHolder),
+            "Contract not approved to transfer requested NFT"
+        );
+
+        // Verify current ownership
+        require(TradeAssets.ownsItems(trade.fromItems, fromHolder), "Sender no longer owns the offered NFT");
+        require(TradeAssets.ownsItems(trade.toItems, toHolder), "Receiver no longer owns the requested NFT");
+
+        // Completed before calling the collections
+        setStatus(_tradeId, TradeStatus.Completed);
+
+        // The fee was escrowed along with the RON payment
+        if (trade.fee > 0) {
+            accumulatedFees += trade.fee;
+            emit FeePaid(_tradeId, trade.toAddress, trade.fee);
+        }
+
+        // Execute the transfers, any failure (including a recipient contract rejecting the NFTs) reverts the whole swap
+        bool safe = !plainTransfers[_tradeId];
+        TradeAssets.transferItems(trade.fromItems, fromHolder, trade.toAddress, safe, "Offered NFT transfer failed");
+        TradeAssets.transferItems(trade.toItems, toHolder, trade.fromAddress, safe, "Requested NFT transfer failed");
+
+        // Pay out the fungible tokens, minus the royalties of the NFTs they pay for
+        TradeAssets.transferPayment(_tradeId, trade.fromPayment, trade.toItems, trade.fromAddress, trade.toAddress, royaltyCapBps, pendingWithdrawals);
+        TradeAssets.transferPayment(_tradeId, trade.toPayment, trade.fromItems, trade.toAddress, trade.fromAddress, royaltyCapBps, pendingWithdrawals);
+
+        emit TradeCompleted(_tradeId, trade.fromAddress, trade.toAddress);
+    }
+    function checkPayment(Payment calldata _payment) internal pure {
+        require(_payment.erc20Amount == 0 || _payment.erc20Token != address(0), "Invalid ERC20 token");
+    }
+    function checkTerms(
+        Trade storage _trade,
+        TradeItem[] calldata _fromItems,
+        TradeItem[] calldata _toItems,
+        Payment calldata _fromPayment,
+        Payment calldata _toPayment
+    ) internal view {
+        // Check NFT ownership self
+        TradeAssets.checkItemsOwnership(_fromItems, _trade.fromAddress, "You do not own this NFT", blockedCollections, allowedCollections, allowlistEnabled);
+
+        // Check for requested NFT ownership
+        TradeAssets.checkItemsOwnership(_toItems, _trade.toAddress, "Requested NFT is not owned by target address", blockedCollections, allowedCollections, allowlistEnabled);
+
+        checkPayment(_fromPayment);
+        checkPayment(_toPayment);
+    }
+    function setTerms(
+        uint256 _tradeId,
+        TradeItem[] calldata _fromItems,
+        TradeItem[] calldata _toItems,
+        Payment calldata _fromPayment,
+        Payment calldata _toPayment
+    ) internal {
+        Trade storage trade = trades[_tradeId];
+        setItems(trade.fromItems, _fromItems);
+        setItems(trade.toItems, _toItems);
+        trade.fromPayment = _fromPayment;
+        trade.toPayment = _toPayment;
+        trade.version++;
+
+        emit TradeTermsSet(_tradeId, _fromItems, _toItems, _fromPayment, _toPayment);
+    }
+    function hashTerms(
+        TradeItem[] memory _fromItems,
+        TradeItem[] memory _toItems,
+        Payment memory _fromPayment,
+        Payment memory _toPayment
+    ) internal pure returns (bytes32) {
+        return keccak256(abi.encode(_fromItems, _toItems, _fromPayment, _toPayment));
+    }
+    function indexTrade(uint256 _tradeId, TradeStatus _status) internal {
+        Trade storage trade = trades[_tradeId];
+        userTradeIds[trade.fromAddress].push(_tradeId);
+        // Open offers are indexed for the taker once accepted
+        if (trade.toAddress != address(0)) {
+            userTradeIds[trade.toAddress].push(_tradeId);
+        }
+
+        trade.status = _status;
+        statusTradeIds[_status].add(_tradeId);
+        if (_status == TradeStatus.Proposed) {
+            openTradeIds.add(_tradeId);
+        } else {
+            recordLifecycle(_tradeId, _status);
+        }
+    }
+    function setStatus(uint256 _tradeId, TradeStatus _status) internal {
+        Trade storage trade = trades[_tradeId];
+        statusTradeIds[trade.status].remove(_tradeId);
+        statusTradeIds[_status].add(_tradeId);
+        trade.status = _status;
+
+        if (_status == TradeStatus.Proposed || _status == TradeStatus.Agreed) {
+            openTradeIds.add(_tradeId);
+        } else {
+            openTradeIds.remove(_tradeId);
+        }
+        recordLifecycle(_tradeId, _status);
+    }
+    function recordLifecycle(uint256 _tradeId, TradeStatus _status) internal {
+        TradeLifecycle storage lifecycle = lifecycles[_tradeId];
+        if (_status == TradeStatus.Proposed) {
+            // Countered, the parties have to agree again
+            lifecycle.agreedAt = 0;
+        } else if (_status == TradeStatus.Agreed) {
+            lifecycle.agreedAt = block.timestamp;
+        } else if (_status == TradeStatus.Confirmed) {
+            // Open and signed offers are agreed and confirmed at once
+            if (lifecycle.agreedAt == 0) {
+                lifecycle.agreedAt = block.timestamp;
+            }
+            lifecycle.confirmedAt = block.timestamp;
+        } else if (_status == TradeStatus.Completed) {
+            lifecycle.completedAt = block.timestamp;
+        } else {
+            lifecycle.cancelledAt = block.timestamp;
+            lifecycle.cancelledBy = msg.sender;
+        }
+    }
+    function loadTrade(uint256 _tradeId) internal view returns (Trade memory trade) {
+        trade = trades[_tradeId];
+        trade.status = TradeAssets.currentStatus(trades[_tradeId]);
+    }
+    function getTradesPage(uint256[] memory _tradeIds) internal view returns (Trade[] memory page) {
+        page = new Trade[](_tradeIds.length);
+        for (uint256 i = 0; i < _tradeIds.length; i++) {
+            page[i] = loadTrade(_tradeIds[i]);
+        }
+        return page;
+    }
+    function pageLength(uint256 _total, uint256 _offset, uint256 _limit) internal pure returns (uint256 length) {
+        if (_offset >= _total) {
+            return 0;
+        }
+        return _total - _offset < _limit ? _total - _offset : _limit;
+    }
+    function getSetPage(
+        EnumerableSet.UintSet storage _set,
+        uint256 _offset,
+        uint256 _limit
+    ) internal view returns (uint256[] memory tradeIds, Trade[] memory page, uint256 total) {
+        total = _set.length();
+        tradeIds = new uint256[](pageLength(total, _offset, _limit));
+        for (uint256 i = 0; i < tradeIds.length; i++) {
+            tradeIds[i] = _set.at(_offset + i);
+        }
+        return (tradeIds, getTradesPage(tradeIds), total);
+    }
+    // Page of the trades in `_set` whose current status is in `_statuses`, followed by the matching open trades when `_withOpen` is set
+    function getCurrentPage(
+        EnumerableSet.UintSet storage _set,
+        uint256 _statuses,
+        bool _withOpen,
+        uint256 _offset,
+        uint256 _limit
+    ) internal view returns (uint256[] memory tradeIds, Trade[] memory page, uint256 total) {
+        (tradeIds, total) = TradeAssets.currentTradeIds(trades, _set, openTradeIds, _statuses, _withOpen, _offset, _limit);
+        return (tradeIds, getTradesPage(tradeIds), total);
+    }
+    function createTrade(address _fromAddress, address _toAddress, uint256 _expiresAt) internal whenNotPaused returns (uint256 tradeId) {
+        // Users can only propose trades for themselves
+        if (msg.sender != owner) {
+            require(permissionlessProposals, "Permissionless proposals are disabled");
+            _fromAddress = msg.sender;
+        }
+
+        require(_fromAddress != _toAddress, "Cannot trade with yourself"); 
+        require(_fromAddress != owner && _toAddress != owner, "Cannot trade with contract owner"); 
+
+        // Without a deadline the trade expires after the default timeout
+        if (_expiresAt == 0) {
+            _expiresAt = block.timestamp + defaultTradeTimeout;
+        }
+        require(
+            _expiresAt >= block.timestamp + MIN_TRADE_TIMEOUT && _expiresAt <= block.timestamp + MAX_TRADE_TIMEOUT,
+            "Invalid trade deadline"
+        );
+
+        Trade storage newTrade = trades.push();
+        newTrade.fromAddress = _fromAddress;
+        newTrade.toAddress = _toAddress;
+        newTrade.createdAt = block.timestamp;
+        newTrade.expiresAt = _expiresAt;
+        
+        tradeId = trades.length - 1;
+        indexTrade(tradeId, TradeStatus.Proposed);
+        emit TradeProposed(tradeId, _fromAddress, _toAddress, _expiresAt);
+
+        return tradeId;
+    }
+    function setItems(TradeItem[] storage _items, TradeItem[] calldata _newItems) internal {
+        while (_items.length > 0) {
+            _items.pop();
+        }
+        for (uint256 i = 0; i < _newItems.length; i++) {
+            _items.push(_newItems[i]);
+        }
+    }
+    function isApprovedForPayment(Payment storage _payment, address _owner) internal view returns (bool) {
+        return _payment.erc20Amount == 0 ||
+            IERC20(_payment.erc20Token).allowance(_owner, address(this)) >= _payment.erc20Amount;
+    }
+    function hashItems(TradeItem[] calldata _items) internal pure returns (bytes32) {
+        bytes32[] memory hashes = new bytes32[](_items.length);
+        for (uint256 i = 0; i < _items.length; i++) {
+            TradeItem calldata item = _items[i];
+            hashes[i] = keccak256(abi.encode(TRADE_ITEM_TYPEHASH, item.nftContract, item.nftId, item.standard, item.amount));
+        }
+        return keccak256(abi.encodePacked(hashes));
+    }
+    function hashPayment(Payment calldata _payment) internal pure returns (bytes32) {
+        return keccak256(abi.encode(PAYMENT_TYPEHASH, _payment.nativeAmount, _payment.erc20Token, _payment.erc20Amount));
+    }
+    function getFee(
+        address _payer,
+        TradeItem[] memory _fromItems,
+        TradeItem[] memory _toItems
+    ) internal view returns (uint256) {
+        if (feeExempt[_payer]) {
+            return 0;
+        }
+
+        (uint256 fee, bool hasOverride) = maxCollectionFee(_fromItems, 0, false);
+        (fee, hasOverride) = maxCollectionFee(_toItems, fee, hasOverride);
+        return hasOverride ? fee : flatFee;
+    }
+    function maxCollectionFee(
+        TradeItem[] memory _items,
+        uint256 _fee,
+        bool _hasOverride
+    ) internal view returns (uint256, bool) {
+        for (uint256 i = 0; i < _items.length; i++) {
+            CollectionFee storage collectionFee = collectionFees[_items[i].nftContract];
+            if (collectionFee.enabled && (!_hasOverride || collectionFee.fee > _fee)) {
+                _fee = collectionFee.fee;
+                _hasOverride = true;
+            }
+        }
+        return (_fee, _hasOverride);
+    }
+    // Returns the RON sent on top of the payment and fee, refunded by the caller once it's done
+    function collectNative(uint256 _required) internal returns (uint256 excess) {
+        // Calls of a batch all see its msg.value, they spend from what's left of it instead
+        if (msg.sender == batchSender) {
+            require(batchValue >= _required, "Insufficient RON sent");
+            batchValue -= _required;
+            return 0;
+        }
+
+        require(msg.value >= _required, "Insufficient RON sent");
+        return msg.value - _required;
+    }
+    function payOrCredit(address _account, uint256 _amount) internal {
+        TradeAssets.payOrCredit(pendingWithdrawals, _account, _amount);
+    }
+    function createFilledTrade(Offer calldata _offer) internal returns (uint256 tradeId) {
+        Trade storage newTrade = trades.push();
+        tradeId = trades.length - 1;
+        newTrade.fromAddress = _offer.maker;
+        newTrade.fromHasAgreed = true;
+        newTrade.fromHasConfirmed = true;
+        newTrade.toAddress = msg.sender;
+        newTrade.toHasAgreed = true;
+        newTrade.toHasConfirmed = true;
+        setTerms(tradeId, _offer.makerItems, _offer.takerItems, _offer.makerPayment, _offer.takerPayment);
+        newTrade.fee = getFee(msg.sender, _offer.makerItems, _offer.takerItems);
+        newTrade.createdAt = block.timestamp;
+        newTrade.expiresAt = _offer.expiry;
+        indexTrade(tradeId, TradeStatus.Confirmed);
+
+        return tradeId;
+    }
+    function itemsHolder(uint256 _tradeId, address _user) internal view returns (address) {
+        return escrowedItems[_tradeId][_user] ? address(this) : _user;
+    }
+    // Sends escrowed NFTs back to the participant with transferFrom, they held them before
+    function returnEscrowedItems(uint256 _tradeId, address _user) internal {
+        if (!escrowedItems[_tradeId][_user]) {
+            return;
+        }
+        Trade storage trade = trades[_tradeId];
+        escrowedItems[_tradeId][_user] = false;
+        TradeItem[] storage items = _user == trade.fromAddress ? trade.fromItems : trade.toItems;
+        TradeAssets.transferItems(items, address(this), _user, false, "Escrowed NFT transfer failed");
+        emit EscrowWithdrawn(_tradeId, _user);
+    }
+    function refundEscrow(uint256 _tradeId) internal {
+        Trade storage trade = trades[_tradeId];
+        if (trade.fromHasConfirmed) {
+            payOrCredit(escrowPayer(_tradeId, trade.fromAddress), trade.fromPayment.nativeAmount);
+        }
+        if (trade.toHasConfirmed) {
+            payOrCredit(escrowPayer(_tradeId, trade.toAddress), trade.toPayment.nativeAmount + trade.fee);
+        }
+    }
+    // The participant sent its escrow itself, unless a relayer submitted its signed confirmation
+    function escrowPayer(uint256 _tradeId, address _user) internal returns (address payer) {
+        payer = escrowPayers[_tradeId][_user];
+        if (payer == address(0)) {
+            return _user;
+        }
+        delete escrowPayers[_tradeId][_user];
+    }
+}
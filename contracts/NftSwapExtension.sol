@@ -0,0 +1,357 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { MerkleProof } from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import { SignatureChecker } from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { NftSwapBase } from "./NftSwapBase.sol";
+import { TradeAssets } from "./TradeAssets.sol";
+
+// Trade functions of NftSwap the batches call
+interface INftSwapTrades {
+    function proposeTrade(
+        address _fromAddress,
+        address _toAddress,
+        NftSwapBase.TradeItem[] calldata _fromItems,
+        NftSwapBase.TradeItem[] calldata _toItems,
+        NftSwapBase.Payment calldata _fromPayment,
+        NftSwapBase.Payment calldata _toPayment,
+        uint256 _expiresAt
+    ) external returns (uint256 tradeId);
+    function agreeTrade(
+        uint256 _tradeId,
+        NftSwapBase.TradeItem[] calldata _fromItems,
+        NftSwapBase.TradeItem[] calldata _toItems,
+        NftSwapBase.Payment calldata _fromPayment,
+        NftSwapBase.Payment calldata _toPayment
+    ) external;
+    function confirmTrade(uint256 _tradeId, uint256 _version) external payable;
+    function cancelTrade(uint256 _tradeId) external;
+}
+
+// Signed and open offers, signed agreements and confirmations, escrow, and batches of NftSwap, kept apart to stay below the contract size limit. Only meant to be called through
+// NftSwap, which delegates these functions to it
+contract NftSwapExtension is NftSwapBase {
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    // Offers the NFTs for any token matching the criteria, accepted in a single call by whoever holds one
+    function proposeOpenOffer(
+        TradeItem[] calldata _fromItems,
+        Payment calldata _fromPayment,
+        Payment calldata _toPayment,
+        OpenOfferCriteria calldata _wanted,
+        uint256 _expiresAt // 0 for the default timeout
+    ) external nonReentrant returns (uint256 tradeId) {
+        tradeId = createTrade(msg.sender, address(0), _expiresAt);
+        Trade storage trade = trades[tradeId];
+
+        TradeAssets.checkItemsOwnership(_fromItems, msg.sender, "You do not own this NFT", blockedCollections, allowedCollections, allowlistEnabled);
+        checkPayment(_fromPayment);
+        checkPayment(_toPayment);
+        require(_fromPayment.nativeAmount == 0, "Offer maker cannot pay RON");
+        require(_wanted.nftContract != address(0), "Invalid open offer criteria");
+        TradeAssets.checkCollection(_wanted.nftContract, _wanted.standard, blockedCollections, allowedCollections, allowlistEnabled);
+        if (_wanted.standard == TokenStandard.ERC1155) {
+            require(_wanted.amount > 0, "ERC1155 amount must be greater than 0");
+        } else {
+            require(_wanted.amount == 1, "ERC721 amount must be 1");
+        }
+
+        // The requested NFT is only known once the offer is accepted
+        setItems(trade.fromItems, _fromItems);
+        trade.fromPayment = _fromPayment;
+        trade.toPayment = _toPayment;
+        trade.wanted = _wanted;
+        trade.version++;
+        trade.fromHasAgreed = true;
+
+        emit TradeTermsSet(tradeId, _fromItems, new TradeItem[](0), _fromPayment, _toPayment);
+        emit OpenOfferProposed(tradeId, _wanted);
+        emit TradeAgreed(tradeId, msg.sender);
+
+        return tradeId;
+    }
+    // Accepts an open offer with a matching token, `_proof` proves the token id is in the criteria's Merkle root
+    function acceptOpenOffer(
+        uint256 _tradeId,
+        uint256 _nftId,
+        bytes32[] calldata _proof
+    ) external payable whenNotPaused nonReentrant tradeNotExpired(_tradeId) {
+        Trade storage trade = trades[_tradeId];
+        OpenOfferCriteria storage wanted = trade.wanted;
+
+        require(wanted.nftContract != address(0), "Trade is not an open offer");
+        require(trade.status == TradeStatus.Proposed, "Trade is not in proposed state");
+        require(msg.sender != trade.fromAddress, "Cannot trade with yourself");
+        require(msg.sender != owner, "Cannot trade with contract owner");
+        require(
+            wanted.idsRoot == bytes32(0) ||
+                MerkleProof.verifyCalldata(_proof, wanted.idsRoot, keccak256(bytes.concat(keccak256(abi.encode(_nftId))))),
+            "NFT does not match the open offer"
+        );
+
+        // The taker agrees and confirms by accepting, the maker agreed by proposing
+        trade.toAddress = msg.sender;
+        trade.toItems.push(TradeItem(wanted.nftContract, _nftId, wanted.standard, wanted.amount));
+        trade.toHasAgreed = true;
+        trade.fromHasConfirmed = true;
+        trade.toHasConfirmed = true;
+        trade.fee = getFee(msg.sender, trade.fromItems, trade.toItems);
+        userTradeIds[msg.sender].push(_tradeId);
+        setStatus(_tradeId, TradeStatus.Confirmed);
+
+        require(isApprovedForPayment(trade.fromPayment, trade.fromAddress), "Contract not approved to transfer tokens");
+        require(isApprovedForPayment(trade.toPayment, trade.toAddress), "Contract not approved to transfer tokens");
+
+        // Escrow the RON payment and the fee
+        uint256 excess = collectNative(trade.toPayment.nativeAmount + trade.fee);
+
+        // Ownership and approvals of both sides are checked when executing
+        emit OpenOfferAccepted(_tradeId, msg.sender, _nftId);
+        executeTrade(_tradeId, msg.sender);
+        payOrCredit(msg.sender, excess);
+    }
+    function fillOffer(Offer calldata _offer, bytes calldata _signature) external payable whenNotPaused nonReentrant returns (uint256 tradeId) {
+        require(block.timestamp <= _offer.expiry, "Offer has expired");
+        require(_offer.taker == address(0) || _offer.taker == msg.sender, "Not authorized to fill this offer");
+        require(_offer.maker != msg.sender, "Cannot trade with yourself");
+        require(_offer.maker != owner && msg.sender != owner, "Cannot trade with contract owner");
+        require(_offer.nonce >= minNonces[_offer.maker] && !usedNonces[_offer.maker][_offer.nonce], "Offer is no longer valid");
+
+        // Verify the maker signed the offer, contract wallets validate the signature themselves (ERC-1271)
+        bytes32 offerHash = hashOffer(_offer);
+        require(SignatureChecker.isValidSignatureNow(_offer.maker, offerHash, _signature), "Invalid offer signature");
+        usedNonces[_offer.maker][_offer.nonce] = true;
+
+        TradeAssets.checkItemsOwnership(_offer.makerItems, _offer.maker, "Maker does not own the offered NFT", blockedCollections, allowedCollections, allowlistEnabled);
+        TradeAssets.checkItemsOwnership(_offer.takerItems, msg.sender, "You do not own this NFT", blockedCollections, allowedCollections, allowlistEnabled);
+        checkPayment(_offer.makerPayment);
+        checkPayment(_offer.takerPayment);
+        require(_offer.makerPayment.nativeAmount == 0, "Offer maker cannot pay RON");
+
+        // Record the offer as a confirmed trade between the maker and the taker
+        tradeId = createFilledTrade(_offer);
+        Trade storage trade = trades[tradeId];
+        require(isApprovedForPayment(trade.fromPayment, trade.fromAddress), "Contract not approved to transfer tokens");
+        require(isApprovedForPayment(trade.toPayment, trade.toAddress), "Contract not approved to transfer tokens");
+
+        // Escrow the RON payment and the fee
+        uint256 excess = collectNative(_offer.takerPayment.nativeAmount + trade.fee);
+
+        emit OfferFilled(offerHash, tradeId, _offer.maker, msg.sender);
+        executeTrade(tradeId, msg.sender);
+        payOrCredit(msg.sender, excess);
+
+        return tradeId;
+    }
+    // Opts the trade out of safe ERC721 transfers, or back in. Only before both parties agreed, the other party has to
+    // agree again
+    function setPlainTransfers(uint256 _tradeId, bool _enabled) external whenNotPaused nonReentrant tradeNotExpired(_tradeId) {
+        updateTrade(_tradeId);
+        plainTransfers[_tradeId] = _enabled;
+        emit PlainTransfersUpdated(_tradeId, msg.sender, _enabled);
+    }
+    // Opts the trade into escrow mode, or out of it, under the same conditions as setPlainTransfers. In escrow mode the
+    // NFTs of each party are pulled into the contract when it confirms
+    function setEscrowMode(uint256 _tradeId, bool _enabled) external whenNotPaused nonReentrant tradeNotExpired(_tradeId) {
+        updateTrade(_tradeId);
+        escrowMode[_tradeId] = _enabled;
+        emit EscrowModeUpdated(_tradeId, msg.sender, _enabled);
+    }
+    // Returns the caller's escrowed NFTs once the trade is cancelled or expired, also while trading is paused
+    function withdrawEscrow(uint256 _tradeId) external nonReentrant {
+        require(_tradeId < trades.length, "Trade does not exist");
+        Trade storage trade = trades[_tradeId];
+
+        require(escrowedItems[_tradeId][msg.sender], "No NFTs escrowed for this trade");
+        require(!openTradeIds.contains(_tradeId) || block.timestamp > trade.expiresAt, "Trade is still open");
+
+        returnEscrowedItems(_tradeId, msg.sender);
+    }
+    // Only accepts the NFTs the contract pulls into escrow, tokens sent to it directly would get stuck
+    function onERC721Received(address _operator, address, uint256, bytes calldata) external view returns (bytes4) {
+        require(_operator == address(this), "Direct transfers are not accepted");
+        return this.onERC721Received.selector;
+    }
+    function onERC1155Received(address _operator, address, uint256, uint256, bytes calldata) external view returns (bytes4) {
+        require(_operator == address(this), "Direct transfers are not accepted");
+        return this.onERC1155Received.selector;
+    }
+    // Agreement signed by a participant (EIP-712), submitted by anyone, e.g. a relayer paying the gas
+    function agreeTradeBySig(
+        TradeAgreement calldata _agreement,
+        address _user,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) external whenNotPaused nonReentrant tradeNotExpired(_agreement.tradeId) {
+        bytes32 agreementHash = _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    AGREEMENT_TYPEHASH,
+                    _agreement.tradeId,
+                    _user,
+                    hashItems(_agreement.fromItems),
+                    hashItems(_agreement.toItems),
+                    hashPayment(_agreement.fromPayment),
+                    hashPayment(_agreement.toPayment),
+                    _nonce,
+                    _deadline
+                )
+            )
+        );
+        useSignature(_user, agreementHash, _nonce, _deadline, _signature);
+
+        agreeTradeFor(_user, _agreement.tradeId, _agreement.fromItems, _agreement.toItems, _agreement.fromPayment, _agreement.toPayment);
+    }
+    // Confirmation signed by a participant. A submitter other than the signer only sponsors the gas and the fee, and gets the
+    // fee back if the trade is cancelled or countered
+    function confirmTradeBySig(
+        uint256 _tradeId,
+        uint256 _version,
+        address _user,
+        uint256 _nonce,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) external payable whenNotPaused nonReentrant tradeNotExpired(_tradeId) {
+        bytes32 confirmationHash = _hashTypedDataV4(
+            keccak256(abi.encode(CONFIRMATION_TYPEHASH, _tradeId, _user, _version, _nonce, _deadline))
+        );
+        useSignature(_user, confirmationHash, _nonce, _deadline, _signature);
+
+        confirmTradeFor(_user, _tradeId, _version);
+    }
+    function cancelOffer(uint256 _nonce) external {
+        require(!usedNonces[msg.sender][_nonce], "Offer is no longer valid");
+        usedNonces[msg.sender][_nonce] = true;
+        emit OfferCancelled(msg.sender, _nonce);
+    }
+    function invalidateNonces(uint256 _minNonce) external {
+        require(_minNonce > minNonces[msg.sender], "Nonce can only be increased");
+        minNonces[msg.sender] = _minNonce;
+        emit NoncesInvalidated(msg.sender, _minNonce);
+    }
+    // Batches of trade calls. Each call runs on its own: a failing call emits BatchCallFailed with its revert reason and
+    // doesn't revert the others. `successes` and `results` hold the outcome and the return or revert data of every call
+    function proposeTrades(
+        TradeProposal[] calldata _proposals
+    ) external returns (bool[] memory successes, bytes[] memory results) {
+        bytes[] memory calls = new bytes[](_proposals.length);
+        for (uint256 i = 0; i < _proposals.length; i++) {
+            TradeProposal calldata proposal = _proposals[i];
+            calls[i] = abi.encodeCall(
+                INftSwapTrades.proposeTrade,
+                (
+                    proposal.fromAddress,
+                    proposal.toAddress,
+                    proposal.fromItems,
+                    proposal.toItems,
+                    proposal.fromPayment,
+                    proposal.toPayment,
+                    proposal.expiresAt
+                )
+            );
+        }
+        return batch(calls);
+    }
+    function agreeTrades(
+        TradeAgreement[] calldata _agreements
+    ) external returns (bool[] memory successes, bytes[] memory results) {
+        bytes[] memory calls = new bytes[](_agreements.length);
+        for (uint256 i = 0; i < _agreements.length; i++) {
+            TradeAgreement calldata agreement = _agreements[i];
+            calls[i] = abi.encodeCall(
+                INftSwapTrades.agreeTrade,
+                (agreement.tradeId, agreement.fromItems, agreement.toItems, agreement.fromPayment, agreement.toPayment)
+            );
+        }
+        return batch(calls);
+    }
+    // msg.value covers the RON and fees every confirmation escrows, what failed confirmations didn't use is refunded
+    function confirmTrades(
+        uint256[] calldata _tradeIds,
+        uint256[] calldata _versions
+    ) external payable returns (bool[] memory successes, bytes[] memory results) {
+        require(_tradeIds.length == _versions.length, "Batch lengths do not match");
+
+        bytes[] memory calls = new bytes[](_tradeIds.length);
+        for (uint256 i = 0; i < _tradeIds.length; i++) {
+            calls[i] = abi.encodeCall(INftSwapTrades.confirmTrade, (_tradeIds[i], _versions[i]));
+        }
+        return batch(calls);
+    }
+    function cancelTrades(uint256[] calldata _tradeIds) external returns (bool[] memory successes, bytes[] memory results) {
+        bytes[] memory calls = new bytes[](_tradeIds.length);
+        for (uint256 i = 0; i < _tradeIds.length; i++) {
+            calls[i] = abi.encodeCall(INftSwapTrades.cancelTrade, (_tradeIds[i]));
+        }
+        return batch(calls);
+    }
+    function hashOffer(Offer calldata _offer) public view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    OFFER_TYPEHASH,
+                    _offer.maker,
+                    _offer.taker,
+                    hashItems(_offer.makerItems),
+                    hashItems(_offer.takerItems),
+                    hashPayment(_offer.makerPayment),
+                    hashPayment(_offer.takerPayment),
+                    _offer.expiry,
+                    _offer.nonce
+                )
+            )
+        );
+    }
+
+    // Checks a participant can update the options of the trade, the other party has to agree again
+    function updateTrade(uint256 _tradeId) private {
+        Trade storage trade = trades[_tradeId];
+
+        require(trade.status == TradeStatus.Proposed, "Trade is not in proposed state");
+        require(
+            msg.sender == trade.fromAddress || msg.sender == trade.toAddress,
+            "Not authorized to update this trade"
+        );
+
+        if (msg.sender == trade.fromAddress) {
+            trade.toHasAgreed = false;
+        } else {
+            trade.fromHasAgreed = false;
+        }
+    }
+    // Calls NftSwap through delegatecall, keeping msg.sender, so each call can fail without reverting the batch
+    function batch(bytes[] memory _calls) private returns (bool[] memory successes, bytes[] memory results) {
+        require(batchSender == address(0), "Batch already in progress");
+        batchSender = msg.sender;
+        batchValue = msg.value;
+
+        successes = new bool[](_calls.length);
+        results = new bytes[](_calls.length);
+        for (uint256 i = 0; i < _calls.length; i++) {
+            uint256 gasBefore = gasleft();
+            (successes[i], results[i]) = address(this).delegatecall(_calls[i]);
+            if (!successes[i]) {
+                // A call running out of gas would fail for a lack of gas rather than on its own, which gas estimates
+                // can't tell apart from a successful batch
+                require(gasleft() > gasBefore / 64, "Batch ran out of gas");
+                emit BatchCallFailed(i, results[i]);
+            }
+        }
+
+        // Refunds what the calls didn't spend once the batch is closed, the caller can't spend it again from its receive
+        uint256 refund = batchValue;
+        batchSender = address(0);
+        batchValue = 0;
+        payOrCredit(msg.sender, refund);
+        return (successes, results);
+    }
+    // Signatures share the nonces of the offers, `cancelOffer` and `invalidateNonces` revoke them as well
+    function useSignature(address _signer, bytes32 _hash, uint256 _nonce, uint256 _deadline, bytes calldata _signature) private {
+        require(block.timestamp <= _deadline, "Signature has expired");
+        require(_nonce >= minNonces[_signer] && !usedNonces[_signer][_nonce], "Signature is no longer valid");
+        require(SignatureChecker.isValidSignatureNow(_signer, _hash, _signature), "Invalid signature");
+        usedNonces[_signer][_nonce] = true;
+    }
+}
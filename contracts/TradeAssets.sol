@@ -0,0 +1,282 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import { IERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import { IERC1155 } from "@openzeppelin/contracts/token/ERC1155/IERC1155.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { IERC2981 } from "@openzeppelin/contracts/interfaces/IERC2981.sol";
+import { IERC165 } from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import { ERC165Checker } from "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
+import { EnumerableSet } from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import { NftSwapBase } from "./NftSwapBase.sol";
+
+// NFT and payment checks and transfers of NftSwap and its trade listings, linked as an external library to keep NftSwap below the contract size limit.
+// Its functions run through delegatecall, in the storage and with the balance of NftSwap
+library TradeAssets {
+    using SafeERC20 for IERC20;
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    uint256 private constant MAX_TRADE_ITEMS = 20;
+    uint256 private constant MAX_BPS = 10_000;
+    // Enough for multisigs recording what they receive, without letting a recipient burn the gas of the trade
+    uint256 private constant PAYMENT_GAS = 50_000;
+
+    function checkItemsOwnership(
+        NftSwapBase.TradeItem[] calldata _items,
+        address _owner,
+        string memory _notOwnedMessage,
+        mapping(address => bool) storage _blockedCollections,
+        mapping(address => bool) storage _allowedCollections,
+        bool _allowlistEnabled
+    ) public view {
+        require(_items.length > 0, "Trade must include NFTs on both sides");
+        require(_items.length <= MAX_TRADE_ITEMS, "Too many NFTs in trade");
+
+        for (uint256 i = 0; i < _items.length; i++) {
+            NftSwapBase.TradeItem calldata item = _items[i];
+            checkCollection(item.nftContract, item.standard, _blockedCollections, _allowedCollections, _allowlistEnabled);
+
+            if (item.standard == NftSwapBase.TokenStandard.ERC1155) {
+                require(item.amount > 0, "ERC1155 amount must be greater than 0");
+                try IERC1155(item.nftContract).balanceOf(_owner, item.nftId) returns (uint256 _balance) {
+                    require(_balance >= item.amount, _notOwnedMessage);
+                } catch {
+                    revert("Requested NFT does not exist");
+                }
+            } else {
+                require(item.amount == 1, "ERC721 amount must be 1");
+                try IERC721(item.nftContract).ownerOf(item.nftId) returns (address _itemOwner) {
+                    require(_itemOwner == _owner, _notOwnedMessage);
+                } catch {
+                    revert("Requested NFT does not exist");
+                }
+            }
+        }
+    }
+    // Reverts unless the collection can be traded: a contract that isn't blocked, and while the allowlist is enabled, allowed and
+    // implementing the token standard of the item (ERC-165). Without the allowlist collections predating ERC-165 can be traded,
+    // the ownership checks reject the contracts that aren't NFTs
+    function checkCollection(
+        address _nftContract,
+        NftSwapBase.TokenStandard _standard,
+        mapping(address => bool) storage _blockedCollections,
+        mapping(address => bool) storage _allowedCollections,
+        bool _allowlistEnabled
+    ) public view {
+        require(!_blockedCollections[_nftContract], "Collection is blocked");
+        require(_nftContract.code.length > 0, "Collection does not support the token standard");
+        if (!_allowlistEnabled) {
+            return;
+        }
+
+        require(_allowedCollections[_nftContract], "Collection is not allowed");
+        bytes4 interfaceId = _standard == NftSwapBase.TokenStandard.ERC1155 ? type(IERC1155).interfaceId : type(IERC721).interfaceId;
+        require(ERC165Checker.supportsERC165InterfaceUnchecked(_nftContract, interfaceId), "Collection does not support the token standard");
+    }
+    function isNftContract(address _nftContract) public view returns (bool) {
+        return
+            ERC165Checker.supportsERC165InterfaceUnchecked(_nftContract, type(IERC721).interfaceId) ||
+            ERC165Checker.supportsERC165InterfaceUnchecked(_nftContract, type(IERC1155).interfaceId);
+    }
+    function includesCollection(
+        NftSwapBase.TradeItem[] storage _items,
+        mapping(address => bool) storage _collections
+    ) public view returns (bool) {
+        for (uint256 i = 0; i < _items.length; i++) {
+            if (_collections[_items[i].nftContract]) {
+                return true;
+            }
+        }
+        return false;
+    }
+    function ownsItems(NftSwapBase.TradeItem[] storage _items, address _owner) public view returns (bool) {
+        for (uint256 i = 0; i < _items.length; i++) {
+            NftSwapBase.TradeItem storage item = _items[i];
+
+            if (item.standard == NftSwapBase.TokenStandard.ERC1155) {
+                if (IERC1155(item.nftContract).balanceOf(_owner, item.nftId) < item.amount) {
+                    return false;
+                }
+            } else if (IERC721(item.nftContract).ownerOf(item.nftId) != _owner) {
+                return false;
+            }
+        }
+        return true;
+    }
+    function isApprovedForItems(NftSwapBase.TradeItem[] storage _items, address _owner) public view returns (bool) {
+        for (uint256 i = 0; i < _items.length; i++) {
+            NftSwapBase.TradeItem storage item = _items[i];
+
+            if (item.standard == NftSwapBase.TokenStandard.ERC1155) {
+                if (!IERC1155(item.nftContract).isApprovedForAll(_owner, address(this))) {
+                    return false;
+                }
+            } else {
+                IERC721 nft = IERC721(item.nftContract);
+                if (!nft.isApprovedForAll(_owner, address(this)) && nft.getApproved(item.nftId) != address(this)) {
+                    return false;
+                }
+            }
+        }
+        return true;
+    }
+    // ERC721 tokens are sent with safeTransferFrom unless `_safe` is false, ERC1155 transfers are always safe. Collections
+    // are user supplied, the recipient has to hold the tokens after each transfer
+    function transferItems(
+        NftSwapBase.TradeItem[] storage _items,
+        address _from,
+        address _to,
+        bool _safe,
+        string memory _failMessage
+    ) public {
+        for (uint256 i = 0; i < _items.length; i++) {
+            NftSwapBase.TradeItem storage item = _items[i];
+
+            if (item.standard == NftSwapBase.TokenStandard.ERC1155) {
+                IERC1155 nft = IERC1155(item.nftContract);
+                uint256 balance = nft.balanceOf(_to, item.nftId);
+                try nft.safeTransferFrom(_from, _to, item.nftId, item.amount, "") {
+                    // Transfer successful
+                } catch {
+                    revert(_failMessage);
+                }
+                require(nft.balanceOf(_to, item.nftId) >= balance + item.amount, _failMessage);
+            } else {
+                IERC721 nft = IERC721(item.nftContract);
+                if (_safe) {
+                    try nft.safeTransferFrom(_from, _to, item.nftId) {
+                        // Transfer successful
+                    } catch {
+                        revert(_failMessage);
+                    }
+                } else {
+                    try nft.transferFrom(_from, _to, item.nftId) {
+                        // Transfer successful
+                    } catch {
+                        revert(_failMessage);
+                    }
+                }
+                require(nft.ownerOf(item.nftId) == _to, _failMessage);
+            }
+        }
+    }
+    function transferPayment(
+        uint256 _tradeId,
+        NftSwapBase.Payment storage _payment,
+        NftSwapBase.TradeItem[] storage _paidItems,
+        address _from,
+        address _to,
+        uint256 _royaltyCapBps,
+        mapping(address => uint256) storage _pendingWithdrawals
+    ) public {
+        // RON was escrowed on confirmation and is sent to the recipients, ERC20 tokens are pulled from the payer
+        if (_payment.nativeAmount > 0) {
+            uint256 royalties = payRoyalties(_tradeId, _paidItems, address(0), _payment.nativeAmount, _from, _royaltyCapBps, _pendingWithdrawals);
+            payOrCredit(_pendingWithdrawals, _to, _payment.nativeAmount - royalties);
+        }
+        if (_payment.erc20Amount > 0) {
+            uint256 royalties = payRoyalties(_tradeId, _paidItems, _payment.erc20Token, _payment.erc20Amount, _from, _royaltyCapBps, _pendingWithdrawals);
+            IERC20(_payment.erc20Token).safeTransferFrom(_from, _to, _payment.erc20Amount - royalties);
+        }
+    }
+    function payRoyalties(
+        uint256 _tradeId,
+        NftSwapBase.TradeItem[] storage _paidItems,
+        address _token, // address(0) for RON
+        uint256 _amount,
+        address _from,
+        uint256 _royaltyCapBps,
+        mapping(address => uint256) storage _pendingWithdrawals
+    ) private returns (uint256 paid) {
+        // The payment is split evenly between the NFTs it pays for
+        uint256 salePrice = _amount / _paidItems.length;
+        uint256 maxRoyalty = salePrice * _royaltyCapBps / MAX_BPS;
+
+        for (uint256 i = 0; i < _paidItems.length; i++) {
+            NftSwapBase.TradeItem storage item = _paidItems[i];
+            (address receiver, uint256 royalty) = getRoyalty(item, salePrice);
+            if (royalty > maxRoyalty) {
+                royalty = maxRoyalty;
+            }
+            if (receiver == address(0) || royalty == 0) {
+                continue;
+            }
+
+            if (_token == address(0)) {
+                payOrCredit(_pendingWithdrawals, receiver, royalty);
+            } else {
+                IERC20(_token).safeTransferFrom(_from, receiver, royalty);
+            }
+            paid += royalty;
+
+            emit NftSwapBase.RoyaltyPaid(_tradeId, item.nftContract, item.nftId, receiver, _token, royalty);
+        }
+        return paid;
+    }
+    // Sends RON straight away. Recipients rejecting it are credited instead and withdraw it later, so they can't block the
+    // trade or cancellation paying them
+    function payOrCredit(mapping(address => uint256) storage _pendingWithdrawals, address _account, uint256 _amount) public {
+        if (_amount == 0) {
+            return;
+        }
+        (bool success, ) = payable(_account).call{ value: _amount, gas: PAYMENT_GAS }("");
+        if (!success) {
+            _pendingWithdrawals[_account] += _amount;
+            emit NftSwapBase.PaymentCredited(_account, _amount);
+        }
+    }
+    // Ids of the trades in `_set` whose current status is in `_statuses` (a mask of `1 << status`), followed by the matching
+    // `_openTradeIds` when `_withOpen` is set, and the number of matching trades
+    function currentTradeIds(
+        NftSwapBase.Trade[] storage _trades,
+        EnumerableSet.UintSet storage _set,
+        EnumerableSet.UintSet storage _openTradeIds,
+        uint256 _statuses,
+        bool _withOpen,
+        uint256 _offset,
+        uint256 _limit
+    ) public view returns (uint256[] memory tradeIds, uint256 total) {
+        uint256 length = _set.length();
+        uint256 setsLength = length + (_withOpen ? _openTradeIds.length() : 0);
+        tradeIds = new uint256[](_offset >= setsLength ? 0 : setsLength - _offset < _limit ? setsLength - _offset : _limit);
+        uint256 found;
+        for (uint256 i = 0; i < setsLength; i++) {
+            uint256 tradeId = i < length ? _set.at(i) : _openTradeIds.at(i - length);
+            if (_statuses & (1 << uint256(currentStatus(_trades[tradeId]))) == 0) {
+                continue;
+            }
+            if (total >= _offset && found < tradeIds.length) {
+                tradeIds[found++] = tradeId;
+            }
+            total++;
+        }
+        // Trims the ids to the matching trades
+        assembly {
+            mstore(tradeIds, found)
+        }
+    }
+    // Open trades past their deadline are reported as Expired, their stored status only changes once they are cancelled
+    function currentStatus(NftSwapBase.Trade storage _trade) internal view returns (NftSwapBase.TradeStatus status) {
+        status = _trade.status;
+        bool open = status == NftSwapBase.TradeStatus.Proposed || status == NftSwapBase.TradeStatus.Agreed;
+        if (open && block.timestamp > _trade.expiresAt) {
+            return NftSwapBase.TradeStatus.Expired;
+        }
+    }
+    function getRoyalty(NftSwapBase.TradeItem storage _item, uint256 _salePrice) private view returns (address, uint256) {
+        // Collections without ERC-2981 support, or reverting royaltyInfo, don't get royalties
+        try IERC165(_item.nftContract).supportsInterface(type(IERC2981).interfaceId) returns (bool _supported) {
+            if (!_supported) {
+                return (address(0), 0);
+            }
+        } catch {
+            return (address(0), 0);
+        }
+        try IERC2981(_item.nftContract).royaltyInfo(_item.nftId, _salePrice) returns (address _receiver, uint256 _royalty) {
+            return (_receiver, _royalty);
+        } catch {
+            return (address(0), 0);
+        }
+    }
+}
@@ -1,10 +1,54 @@
 // deploy/00_deploy_my_contract.js
+const { checkStorageLayout } = require('../sdk/storageLayout');
+
 module.exports = async ({ getNamedAccounts, deployments }) => {
-  const { deploy } = deployments;
+  const { deploy, getOrNull, getExtendedArtifact, save, delete: deleteDeployment } = deployments;
   const { deployer } = await getNamedAccounts();
-  await deploy('NftSwap', {
+
+  // Refuses upgrades that would corrupt the trades stored by the live proxy, before deploying anything
+  const { storageLayout } = await getExtendedArtifact('NftSwap');
+  const extensionErrors = checkStorageLayout(storageLayout, (await getExtendedArtifact('NftSwapExtension')).storageLayout);
+  if (extensionErrors.length > 0) {
+    throw new Error(`NftSwapExtension doesn't share the storage layout of NftSwap:\n${extensionErrors.join('\n')}`);
+  }
+  const current = await getOrNull('NftSwap_Implementation');
+  const upgradeErrors = current ? checkStorageLayout(current.storageLayout, storageLayout) : [];
+  if (upgradeErrors.length > 0) {
+    throw new Error(`Incompatible storage layout, NftSwap can't be upgraded:\n${upgradeErrors.join('\n')}`);
+  }
+
+  // The first NftSwap was deployed without a proxy, its trades stay on it
+  const legacy = await getOrNull('NftSwap');
+  if (legacy && !legacy.implementation) {
+    await save('NftSwap_Legacy', legacy);
+    await deleteDeployment('NftSwap');
+  }
+
+  // NftSwap links its NFT and payment transfers as an external library
+  const tradeAssets = await deploy('TradeAssets', {
+    from: deployer,
+    args: [],
+    log: true,
+  });
+  // Signed and open offers run in NftSwap's storage through its fallback
+  const extension = await deploy('NftSwapExtension', {
     from: deployer,
     args: [],
+    libraries: { TradeAssets: tradeAssets.address },
+    log: true,
+  });
+  // UUPS proxy, initialized on the first deployment and upgraded by the owner afterwards
+  await deploy('NftSwap', {
+    from: deployer,
+    args: [extension.address],
+    libraries: { TradeAssets: tradeAssets.address },
+    proxy: {
+      proxyContract: 'UUPS',
+      execute: {
+        init: { methodName: 'initialize', args: [deployer] },
+      },
+      upgradeFunction: { methodName: 'upgradeToAndCall', upgradeArgs: ['{implementation}', '{data}'] },
+    },
     log: true,
   });
 };
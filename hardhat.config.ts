@@ -1,11 +1,26 @@
 import '@nomicfoundation/hardhat-toolbox-viem';
 import 'hardhat-deploy';
+import './tasks/allowlist';
+import './tasks/sdk';
+import './tasks/swap';
 import type { HardhatUserConfig } from 'hardhat/config';
 
 const config: HardhatUserConfig = {
-  solidity: '0.8.28',
+  solidity: {
+    version: '0.8.28',
+    settings: {
+      // Keeps NftSwap below the 24KB contract size limit
+      optimizer: { enabled: true, runs: 200 },
+      viaIR: true
+    }
+  },
   namedAccounts: {
-    deployer: 'privatekey://0xe84e5ec68816bed7dc2a17fe293073cc6f34bd7ff42dd8543771370fc8bef672'
+    // The first account of local nodes, to deploy and run the tasks against `npx hardhat node`
+    deployer: {
+      default: 0,
+      ronin: 'privatekey://0xe84e5ec68816bed7dc2a17fe293073cc6f34bd7ff42dd8543771370fc8bef672',
+      saigon: 'privatekey://0xe84e5ec68816bed7dc2a17fe293073cc6f34bd7ff42dd8543771370fc8bef672'
+    }
   },
   networks: {
     ronin: {
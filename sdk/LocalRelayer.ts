@@ -0,0 +1,56 @@
+import { Address } from 'viem';
+import type { NftSwapClient } from './NftSwapClient';
+import { NftSwapError, NftSwapErrorCode } from './NftSwapError';
+import { SignedAgreement, SignedConfirmation, TradeTransaction } from './types';
+
+export type LocalRelayerConfig = {
+  nftSwap: NftSwapClient; // Submits from its wallet client account, which pays the gas
+  maxValue?: bigint; // Fee the relayer escrows at most for a confirmation, none by default
+};
+
+/**
+ * Stand-in for the relayer service, e.g. against a local hardhat node: checks signed agreements and confirmations
+ * before submitting them, so invalid ones don't cost the relayer any gas
+ */
+export class LocalRelayer {
+  readonly nftSwap: NftSwapClient;
+  readonly maxValue: bigint;
+
+  constructor({ nftSwap, maxValue = 0n }: LocalRelayerConfig) {
+    this.nftSwap = nftSwap;
+    this.maxValue = maxValue;
+  }
+
+  async relayAgreement(signedAgreement: SignedAgreement): Promise<TradeTransaction> {
+    const { user, nonce, deadline } = signedAgreement.agreement;
+    await this.checkSignature(await this.nftSwap.verifyAgreement(signedAgreement), user, nonce, deadline);
+
+    return this.nftSwap.agreeTradeBySig(signedAgreement);
+  }
+  async relayConfirmation(signedConfirmation: SignedConfirmation): Promise<TradeTransaction> {
+    const { tradeId, user, nonce, deadline } = signedConfirmation.confirmation;
+    await this.checkSignature(await this.nftSwap.verifyConfirmation(signedConfirmation), user, nonce, deadline);
+
+    // The relayer only sponsors the gas and the fee, the contract rejects signers paying RON
+    const trade = await this.nftSwap.getTrade(tradeId);
+    const isFrom = user.toLowerCase() === trade.fromAddress.toLowerCase();
+    if ((isFrom ? trade.fromPayment : trade.toPayment).nativeAmount > 0n) {
+      const reason = 'Sponsored signer cannot pay RON';
+      throw new NftSwapError(NftSwapErrorCode.InvalidPayment, reason, { reason });
+    }
+    const value = isFrom ? 0n : trade.fee;
+    if (value > this.maxValue) {
+      throw new NftSwapError(NftSwapErrorCode.InvalidPayment, `The confirmation escrows ${value} wei, more than the relayer sponsors`);
+    }
+
+    return this.nftSwap.confirmTradeBySig(signedConfirmation, { value });
+  }
+
+  private async checkSignature(valid: boolean, user: Address, nonce: bigint, deadline: bigint): Promise<void> {
+    const fail = (reason: string) => new NftSwapError(NftSwapErrorCode.InvalidSignature, reason, { reason });
+
+    if (!valid) throw fail('Invalid signature');
+    if ((await this.nftSwap.publicClient.getBlock()).timestamp > deadline) throw fail('Signature has expired');
+    if (!(await this.nftSwap.isNonceUsable(user, nonce))) throw fail('Signature is no longer valid');
+  }
+}
@@ -0,0 +1,786 @@
+import { Abi, Account, Address, Hash, Log, parseEventLogs, PublicClient, TypedDataDomain, WalletClient, zeroAddress, zeroHash } from 'viem';
+import { NftSwapArtifact as NftSwap, NftSwapExtensionArtifact as NftSwapExtension } from './artifacts';
+import { createNftIdsTree } from './merkle';
+import { NftSwapError, NftSwapErrorCode } from './NftSwapError';
+import { agreementTypes, confirmationTypes } from './intents';
+import { createOfferNonce, getOfferDomain, hashOffer, offerTypes } from './offers';
+import {
+  Agreement,
+  BatchResult,
+  BatchTransaction,
+  Confirmation,
+  NftSwapEvent,
+  Offer,
+  OfferInput,
+  OpenOfferInput,
+  PageOptions,
+  Payment,
+  PaymentInput,
+  SignedAgreement,
+  SignedConfirmation,
+  SignedOffer,
+  TokenStandard,
+  Trade,
+  TradeItem,
+  TradeItemInput,
+  TradeLifecycle,
+  TradePage,
+  TradeProposalInput,
+  TradeStatus,
+  TradeTerms,
+  TradeTransaction,
+  WriteOptions
+} from './types';
+
+// NftSwap forwards the calls it does not implement to NftSwapExtension, both share the same events
+export const nftSwapAbi = [
+  ...NftSwap.abi,
+  ...NftSwapExtension.abi.filter(
+    (item) => item.type === 'function' && !NftSwap.abi.some((own) => own.type === 'function' && own.name === item.name)
+  )
+] as Abi;
+
+// Gas the confirmation executing the trade needs on top of a plain confirmation
+const EXECUTION_GAS = 100_000n;
+const EXECUTION_GAS_PER_ITEM = 100_000n;
+const EXECUTION_GAS_PER_TOKEN_PAYMENT = 60_000n;
+// Margin on gas estimates, the block the transaction lands in can differ from the estimated one (e.g. its timestamp)
+const GAS_MARGIN_PERCENT = 20n;
+const DEFAULT_PAGE_SIZE = 50;
+
+export type NftSwapClientConfig = {
+  address: Address;
+  publicClient: PublicClient;
+  walletClient?: WalletClient;
+};
+
+export class NftSwapClient {
+  readonly address: Address;
+  readonly publicClient: PublicClient;
+  readonly walletClient?: WalletClient;
+  private offerDomain?: TypedDataDomain;
+
+  constructor({ address, publicClient, walletClient }: NftSwapClientConfig) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+  }
+
+  // Reads
+  async getTrade(tradeId: bigint | number): Promise<Trade & TradeLifecycle> {
+    const [trade, lifecycle] = (await this.read('getTrade', [BigInt(tradeId)])) as [Trade, TradeLifecycle];
+    return { ...trade, ...lifecycle };
+  }
+  async getTradeCount(): Promise<bigint> {
+    return (await this.read('getTradeCount', [])) as bigint;
+  }
+  async getOpenTradeCount(): Promise<bigint> {
+    return (await this.read('getOpenTradeCount', [])) as bigint;
+  }
+  /**
+   * Trades the user takes part in, oldest first
+   */
+  async getTradesByUser(user: Address, options?: PageOptions): Promise<TradePage> {
+    return this.readPage('getTradesByUser', [user], options);
+  }
+  async getTradesByStatus(status: TradeStatus, options?: PageOptions): Promise<TradePage> {
+    return this.readPage('getTradesByStatus', [status], options);
+  }
+  /**
+   * Proposed and agreed trades that haven't passed their deadline
+   */
+  async getOpenTrades(options?: PageOptions): Promise<TradePage> {
+    return this.readPage('getOpenTrades', [], options);
+  }
+  async getPermissionlessProposals(): Promise<boolean> {
+    return (await this.read('permissionlessProposals', [])) as boolean;
+  }
+  /**
+   * Timeout in seconds of trades proposed without a deadline
+   */
+  async getDefaultTradeTimeout(): Promise<bigint> {
+    return (await this.read('defaultTradeTimeout', [])) as bigint;
+  }
+  /**
+   * RON fee the payer owes for a trade (the receiving side of a trade, the taker of an offer)
+   */
+  async quoteFee(payer: Address, terms: Pick<TradeTerms, 'fromItems' | 'toItems'>): Promise<bigint> {
+    return (await this.read('quoteFee', [payer, toItems(terms.fromItems), toItems(terms.toItems)])) as bigint;
+  }
+  async getFeeSchedule(): Promise<{ flatFee: bigint; feeRecipient: Address; accumulatedFees: bigint }> {
+    const [flatFee, feeRecipient, accumulatedFees] = await Promise.all([
+      this.read('flatFee', []) as Promise<bigint>,
+      this.read('feeRecipient', []) as Promise<Address>,
+      this.read('accumulatedFees', []) as Promise<bigint>
+    ]);
+
+    return { flatFee, feeRecipient, accumulatedFees };
+  }
+  /**
+   * Maximum share of the payment for each NFT routed to its ERC-2981 royalty receiver, in basis points
+   */
+  async getRoyaltyCap(): Promise<bigint> {
+    return (await this.read('royaltyCapBps', [])) as bigint;
+  }
+  async getOwner(): Promise<Address> {
+    return (await this.read('owner', [])) as Address;
+  }
+  /**
+   * Account the ownership is being handed over to, zero when no transfer is pending
+   */
+  async getPendingOwner(): Promise<Address> {
+    return (await this.read('pendingOwner', [])) as Address;
+  }
+  async isPaused(): Promise<boolean> {
+    return (await this.read('paused', [])) as boolean;
+  }
+  async isCollectionBlocked(collection: Address): Promise<boolean> {
+    return (await this.read('blockedCollections', [collection])) as boolean;
+  }
+  async isAllowlistEnabled(): Promise<boolean> {
+    return (await this.read('allowlistEnabled', [])) as boolean;
+  }
+  async isCollectionAllowed(collection: Address): Promise<boolean> {
+    return (await this.read('allowedCollections', [collection])) as boolean;
+  }
+  async hasPlainTransfers(tradeId: bigint | number): Promise<boolean> {
+    return (await this.read('plainTransfers', [BigInt(tradeId)])) as boolean;
+  }
+  async isEscrowMode(tradeId: bigint | number): Promise<boolean> {
+    return (await this.read('escrowMode', [BigInt(tradeId)])) as boolean;
+  }
+  /**
+   * RON the account rejected when it was paid (payments, refunds and royalties), sent to it by `withdrawPayments`
+   */
+  async getPendingWithdrawal(account: Address): Promise<bigint> {
+    return (await this.read('pendingWithdrawals', [account])) as bigint;
+  }
+  // Whether the contract holds the user's NFTs for the trade
+  async hasEscrowedItems(tradeId: bigint | number, user: Address): Promise<boolean> {
+    return (await this.read('escrowedItems', [BigInt(tradeId), user])) as boolean;
+  }
+
+  // Writes
+  /**
+   * Proposes a trade, optionally with its terms and a deadline (defaults to the default timeout).
+   * Non-owner accounts can only propose trades from themselves and agree to the given terms by proposing them
+   */
+  async proposeTrade(
+    fromAddress: Address,
+    toAddress: Address,
+    options: WriteOptions & { terms?: TradeTerms; expiresAt?: bigint | Date } = {}
+  ): Promise<TradeTransaction & { tradeId: bigint }> {
+    const { terms, expiresAt, ...writeOptions } = options;
+    const args: unknown[] = [fromAddress, toAddress];
+    if (terms) {
+      args.push(toItems(terms.fromItems), toItems(terms.toItems), toPayment(terms.fromPayment), toPayment(terms.toPayment));
+    }
+    args.push(expiresAt === undefined ? 0n : toTimestamp(expiresAt));
+
+    const tx = await this.write('proposeTrade', args, writeOptions);
+    const proposed = tx.events.find((event) => event.eventName === 'TradeProposed');
+
+    return { ...tx, tradeId: proposed!.args.tradeId };
+  }
+  async agreeTrade(tradeId: bigint | number, terms: TradeTerms, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write(
+      'agreeTrade',
+      [BigInt(tradeId), toItems(terms.fromItems), toItems(terms.toItems), toPayment(terms.fromPayment), toPayment(terms.toPayment)],
+      options
+    );
+  }
+  /**
+   * Replaces the terms of a proposed or agreed trade, the account agrees to them and the counterparty has to agree again
+   */
+  async counterTrade(tradeId: bigint | number, terms: TradeTerms, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write(
+      'counterTrade',
+      [BigInt(tradeId), toItems(terms.fromItems), toItems(terms.toItems), toPayment(terms.fromPayment), toPayment(terms.toPayment)],
+      options
+    );
+  }
+  /**
+   * Confirms a trade, sending the RON the account has to escrow (payment and fee) unless `value` is given.
+   * The confirmation is bound to `version`, the version of the terms the account agreed to (defaults to the current version).
+   * Unless `gas` is given, the gas limit covers executing the trade even if the counterparty confirms in the same block
+   */
+  async confirmTrade(tradeId: bigint | number, options: WriteOptions & { version?: bigint } = {}): Promise<TradeTransaction> {
+    const { version, ...writeOptions } = options;
+    const trade = await this.getTrade(tradeId);
+    const isFrom = this.getAccountAddress(writeOptions).toLowerCase() === trade.fromAddress.toLowerCase();
+    const value = writeOptions.value ?? (isFrom ? trade.fromPayment.nativeAmount : trade.toPayment.nativeAmount + trade.fee);
+    const args = [BigInt(tradeId), version ?? trade.version];
+
+    let gas = writeOptions.gas;
+    if (gas === undefined) {
+      gas = await this.estimateGas('confirmTrade', args, { ...writeOptions, value });
+
+      // The estimate only includes executing the trade if the counterparty already confirmed on-chain
+      const counterpartyHasConfirmed = isFrom ? trade.toHasConfirmed : trade.fromHasConfirmed;
+      if (!counterpartyHasConfirmed) gas += getExecutionGas(trade);
+    }
+
+    return this.write('confirmTrade', args, { ...writeOptions, value, gas });
+  }
+  async cancelTrade(tradeId: bigint | number, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('cancelTrade', [BigInt(tradeId)], options);
+  }
+
+  // Batches, every call runs on its own: `results` reports the calls that failed, which don't revert the others
+  async proposeTrades(proposals: TradeProposalInput[], options?: WriteOptions): Promise<BatchTransaction> {
+    const tx = await this.write(
+      'proposeTrades',
+      [
+        proposals.map(({ fromAddress, toAddress, terms, expiresAt }) => ({
+          fromAddress,
+          toAddress,
+          fromItems: toItems(terms.fromItems),
+          toItems: toItems(terms.toItems),
+          fromPayment: toPayment(terms.fromPayment),
+          toPayment: toPayment(terms.toPayment),
+          expiresAt: expiresAt === undefined ? 0n : toTimestamp(expiresAt)
+        }))
+      ],
+      options
+    );
+
+    // Every successful proposal emitted TradeProposed, in order
+    const tradeIds = tx.events.flatMap((event) => (event.eventName === 'TradeProposed' ? [event.args.tradeId] : []));
+    const results = getBatchResults(tx.events, new Array(proposals.length).fill(undefined));
+    results.filter((result) => result.success).forEach((result, i) => (result.tradeId = tradeIds[i]));
+
+    return { ...tx, results };
+  }
+  async agreeTrades(agreements: { tradeId: bigint | number; terms: TradeTerms }[], options?: WriteOptions): Promise<BatchTransaction> {
+    const tx = await this.write(
+      'agreeTrades',
+      [
+        agreements.map(({ tradeId, terms }) => ({
+          tradeId: BigInt(tradeId),
+          fromItems: toItems(terms.fromItems),
+          toItems: toItems(terms.toItems),
+          fromPayment: toPayment(terms.fromPayment),
+          toPayment: toPayment(terms.toPayment)
+        }))
+      ],
+      options
+    );
+
+    return {
+      ...tx,
+      results: getBatchResults(
+        tx.events,
+        agreements.map(({ tradeId }) => BigInt(tradeId))
+      )
+    };
+  }
+  /**
+   * Confirms trades in one transaction, sending the RON the account has to escrow for all of them unless `value` is given.
+   * RON of failed confirmations is refunded. Like `confirmTrade`, the gas limit covers executing every trade
+   */
+  async confirmTrades(tradeIds: (bigint | number)[], options: WriteOptions & { versions?: bigint[] } = {}): Promise<BatchTransaction> {
+    const { versions, ...writeOptions } = options;
+    const account = this.getAccountAddress(writeOptions).toLowerCase();
+    const trades = await Promise.all(tradeIds.map((tradeId) => this.getTrade(tradeId)));
+    const isFrom = trades.map((trade) => account === trade.fromAddress.toLowerCase());
+    const value =
+      writeOptions.value ??
+      trades.reduce((sum, trade, i) => sum + (isFrom[i] ? trade.fromPayment.nativeAmount : trade.toPayment.nativeAmount + trade.fee), 0n);
+    const args = [tradeIds.map(BigInt), versions ?? trades.map((trade) => trade.version)];
+
+    let gas = writeOptions.gas;
+    if (gas === undefined) {
+      gas = await this.estimateGas('confirmTrades', args, { ...writeOptions, value });
+      trades.forEach((trade, i) => {
+        const counterpartyHasConfirmed = isFrom[i] ? trade.toHasConfirmed : trade.fromHasConfirmed;
+        if (!counterpartyHasConfirmed) gas! += getExecutionGas(trade);
+      });
+    }
+
+    const tx = await this.write('confirmTrades', args, { ...writeOptions, value, gas });
+    return { ...tx, results: getBatchResults(tx.events, tradeIds.map(BigInt)) };
+  }
+  async cancelTrades(tradeIds: (bigint | number)[], options?: WriteOptions): Promise<BatchTransaction> {
+    const tx = await this.write('cancelTrades', [tradeIds.map(BigInt)], options);
+    return { ...tx, results: getBatchResults(tx.events, tradeIds.map(BigInt)) };
+  }
+
+  /**
+   * Sends the ERC721 tokens of a proposed trade with `transferFrom` instead of `safeTransferFrom`, for recipient contracts
+   * that can't implement `onERC721Received`. The other party has to agree again
+   */
+  async setPlainTransfers(tradeId: bigint | number, enabled: boolean, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('setPlainTransfers', [BigInt(tradeId), enabled], options);
+  }
+  async setEscrowMode(tradeId: bigint | number, enabled: boolean, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('setEscrowMode', [BigInt(tradeId), enabled], options);
+  }
+  // Returns the account's escrowed NFTs once the trade is cancelled or expired
+  async withdrawEscrow(tradeId: bigint | number, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('withdrawEscrow', [BigInt(tradeId)], options);
+  }
+  async setPermissionlessProposals(enabled: boolean, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('setPermissionlessProposals', [enabled], options);
+  }
+  async setFlatFee(fee: bigint, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('setFlatFee', [fee], options);
+  }
+  /**
+   * Overrides the flat fee for trades including the collection, `fee` undefined removes the override
+   */
+  async setCollectionFee(collection: Address, fee: bigint | undefined, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('setCollectionFee', [collection, fee !== undefined, fee ?? 0n], options);
+  }
+  async setFeeExempt(account: Address, exempt: boolean, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('setFeeExempt', [account, exempt], options);
+  }
+  async setFeeRecipient(recipient: Address, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('setFeeRecipient', [recipient], options);
+  }
+  async setRoyaltyCap(royaltyCapBps: bigint | number, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('setRoyaltyCap', [BigInt(royaltyCapBps)], options);
+  }
+  async withdrawFees(options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('withdrawFees', [], options);
+  }
+  async withdrawPayments(options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('withdrawPayments', [], options);
+  }
+  async setDefaultTradeTimeout(timeout: bigint | number, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('setDefaultTradeTimeout', [BigInt(timeout)], options);
+  }
+  /**
+   * Pausing blocks new proposals, agreements, confirmations and offer fills, trades can still be cancelled
+   */
+  async setPaused(paused: boolean, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('setPaused', [paused], options);
+  }
+  /**
+   * Blocked collections cannot be proposed nor traded in already agreed trades
+   */
+  async setCollectionBlocked(collection: Address, blocked: boolean, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('setCollectionBlocked', [collection, blocked], options);
+  }
+  /**
+   * While enabled, only allowed collections can be traded
+   */
+  async setAllowlistEnabled(enabled: boolean, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('setAllowlistEnabled', [enabled], options);
+  }
+  /**
+   * Allows or disallows collections in bulk, allowed collections have to implement ERC721 or ERC1155
+   */
+  async setCollectionsAllowed(collections: Address[], allowed: boolean, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('setCollectionsAllowed', [collections, allowed], options);
+  }
+  /**
+   * Starts handing over the ownership, which only takes effect once `newOwner` accepts it
+   */
+  async transferOwnership(newOwner: Address, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('transferOwnership', [newOwner], options);
+  }
+  async acceptOwnership(options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('acceptOwnership', [], options);
+  }
+
+  /**
+   * Fills a signed offer in a single transaction, sending the RON the taker pays (payment and fee) unless `value` is given
+   */
+  async fillOffer({ offer, signature }: SignedOffer, options: WriteOptions = {}): Promise<TradeTransaction & { tradeId: bigint }> {
+    let value = options.value;
+    if (value === undefined) {
+      const fee = await this.quoteFee(this.getAccountAddress(options), { fromItems: offer.makerItems, toItems: offer.takerItems });
+      value = offer.takerPayment.nativeAmount + fee;
+    }
+
+    const tx = await this.write('fillOffer', [offer, signature], { ...options, value });
+    const filled = tx.events.find((event) => event.eventName === 'OfferFilled');
+
+    return { ...tx, tradeId: filled!.args.tradeId };
+  }
+  async cancelOffer(nonce: bigint, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('cancelOffer', [nonce], options);
+  }
+  /**
+   * Cancels every offer of the account with a nonce below `minNonce`
+   */
+  async invalidateNonces(minNonce: bigint, options?: WriteOptions): Promise<TradeTransaction> {
+    return this.write('invalidateNonces', [minNonce], options);
+  }
+
+  /**
+   * Offers NFTs for any token matching `wanted`, accepted by whoever holds one. Requires permissionless proposals
+   */
+  async proposeOpenOffer(
+    offer: OpenOfferInput,
+    options: WriteOptions & { expiresAt?: bigint | Date } = {}
+  ): Promise<TradeTransaction & { tradeId: bigint }> {
+    const { expiresAt, ...writeOptions } = options;
+    const { wanted } = offer;
+    const criteria = {
+      nftContract: wanted.nftContract,
+      standard: wanted.standard ?? TokenStandard.ERC721,
+      amount: BigInt(wanted.amount ?? 1),
+      idsRoot: wanted.nftIds ? createNftIdsTree(wanted.nftIds).root : zeroHash
+    };
+
+    const tx = await this.write(
+      'proposeOpenOffer',
+      [
+        toItems(offer.fromItems),
+        toPayment(offer.fromPayment),
+        toPayment(offer.toPayment),
+        criteria,
+        expiresAt === undefined ? 0n : toTimestamp(expiresAt)
+      ],
+      writeOptions
+    );
+    const proposed = tx.events.find((event) => event.eventName === 'TradeProposed');
+
+    return { ...tx, tradeId: proposed!.args.tradeId };
+  }
+  /**
+   * Accepts an open offer with a matching token, sending the RON the taker pays (payment and fee) unless `value` is given.
+   * Offers restricted to a set of token ids need the `proof` of the token, or the `nftIds` of the offer to build it
+   */
+  async acceptOpenOffer(
+    tradeId: bigint | number,
+    nftId: bigint | number,
+    options: WriteOptions & { proof?: Hash[]; nftIds?: (bigint | number)[] } = {}
+  ): Promise<TradeTransaction> {
+    const { proof, nftIds, ...writeOptions } = options;
+    const trade = await this.getTrade(tradeId);
+    const { wanted } = trade;
+
+    let nftProof = proof ?? [];
+    if (!proof && wanted.idsRoot !== zeroHash) {
+      if (!nftIds) throw new Error('The token ids of the open offer are required to prove the token matches');
+      nftProof = createNftIdsTree(nftIds).getProof(nftId);
+    }
+
+    let value = writeOptions.value;
+    if (value === undefined) {
+      const toItem = { nftContract: wanted.nftContract, nftId, standard: wanted.standard, amount: wanted.amount };
+      const fee = await this.quoteFee(this.getAccountAddress(writeOptions), { fromItems: trade.fromItems, toItems: [toItem] });
+      value = trade.toPayment.nativeAmount + fee;
+    }
+
+    return this.write('acceptOpenOffer', [BigInt(tradeId), BigInt(nftId), nftProof], { ...writeOptions, value });
+  }
+
+  // Offers
+  async getOfferDomain(): Promise<TypedDataDomain> {
+    this.offerDomain ??= getOfferDomain(await this.publicClient.getChainId(), this.address);
+    return this.offerDomain;
+  }
+  buildOffer(input: OfferInput): Offer {
+    return {
+      maker: input.maker,
+      taker: input.taker ?? zeroAddress,
+      makerItems: toItems(input.makerItems),
+      takerItems: toItems(input.takerItems),
+      makerPayment: toPayment(input.makerPayment),
+      takerPayment: toPayment(input.takerPayment),
+      expiry: toTimestamp(input.expiry),
+      nonce: input.nonce ?? createOfferNonce()
+    };
+  }
+  /**
+   * Signs an offer as its maker, the wallet client account is used unless `account` is given
+   */
+  async signOffer(offer: Offer, options: Pick<WriteOptions, 'account'> = {}): Promise<SignedOffer> {
+    const walletClient = this.walletClient;
+    if (!walletClient) throw new Error('NftSwapClient requires a wallet client to sign offers');
+
+    const account = options.account ?? walletClient.account;
+    if (!account) throw new Error('No account provided to sign the offer with');
+
+    const signature = await walletClient.signTypedData({
+      account,
+      domain: await this.getOfferDomain(),
+      types: offerTypes,
+      primaryType: 'Offer',
+      message: offer
+    });
+
+    return { offer, signature };
+  }
+  /**
+   * Checks the offer was signed by its maker, through the chain so contract wallet makers (ERC-1271) are supported
+   */
+  async verifyOffer({ offer, signature }: SignedOffer): Promise<boolean> {
+    return this.publicClient.verifyTypedData({
+      address: offer.maker,
+      domain: await this.getOfferDomain(),
+      types: offerTypes,
+      primaryType: 'Offer',
+      message: offer,
+      signature
+    });
+  }
+  async hashOffer(offer: Offer): Promise<Hash> {
+    return hashOffer(await this.getOfferDomain(), offer);
+  }
+  async isOfferUsable({ maker, nonce }: Offer): Promise<boolean> {
+    return this.isNonceUsable(maker, nonce);
+  }
+  /**
+   * Whether a nonce of the account can still be used, offers and signed agreements and confirmations share the nonces
+   */
+  async isNonceUsable(account: Address, nonce: bigint): Promise<boolean> {
+    const [used, minNonce] = await Promise.all([
+      this.read('usedNonces', [account, nonce]) as Promise<boolean>,
+      this.read('minNonces', [account]) as Promise<bigint>
+    ]);
+
+    return !used && nonce >= minNonce;
+  }
+
+  // Signed agreements and confirmations, submitted by a relayer paying the gas (see LocalRelayer)
+  /**
+   * Signs an agreement to the terms of a trade, valid until `deadline`. The wallet client account is used unless `account` is given
+   */
+  async signAgreement(
+    tradeId: bigint | number,
+    terms: TradeTerms,
+    options: Pick<WriteOptions, 'account'> & { deadline: bigint | Date; nonce?: bigint }
+  ): Promise<SignedAgreement> {
+    const { walletClient, account } = this.getSigner(options);
+    const agreement: Agreement = {
+      tradeId: BigInt(tradeId),
+      user: typeof account === 'string' ? account : account.address,
+      fromItems: toItems(terms.fromItems),
+      toItems: toItems(terms.toItems),
+      fromPayment: toPayment(terms.fromPayment),
+      toPayment: toPayment(terms.toPayment),
+      nonce: options.nonce ?? createOfferNonce(),
+      deadline: toTimestamp(options.deadline)
+    };
+
+    const signature = await walletClient.signTypedData({
+      account,
+      domain: await this.getOfferDomain(),
+      types: agreementTypes,
+      primaryType: 'Agreement',
+      message: agreement
+    });
+
+    return { agreement, signature };
+  }
+  /**
+   * Signs a confirmation of a trade, bound to `version` (defaults to the current version of the terms)
+   */
+  async signConfirmation(
+    tradeId: bigint | number,
+    options: Pick<WriteOptions, 'account'> & { deadline: bigint | Date; nonce?: bigint; version?: bigint }
+  ): Promise<SignedConfirmation> {
+    const { walletClient, account } = this.getSigner(options);
+    const confirmation: Confirmation = {
+      tradeId: BigInt(tradeId),
+      user: typeof account === 'string' ? account : account.address,
+      version: options.version ?? (await this.getTrade(tradeId)).version,
+      nonce: options.nonce ?? createOfferNonce(),
+      deadline: toTimestamp(options.deadline)
+    };
+
+    const signature = await walletClient.signTypedData({
+      account,
+      domain: await this.getOfferDomain(),
+      types: confirmationTypes,
+      primaryType: 'Confirmation',
+      message: confirmation
+    });
+
+    return { confirmation, signature };
+  }
+  async verifyAgreement({ agreement, signature }: SignedAgreement): Promise<boolean> {
+    return this.publicClient.verifyTypedData({
+      address: agreement.user,
+      domain: await this.getOfferDomain(),
+      types: agreementTypes,
+      primaryType: 'Agreement',
+      message: agreement,
+      signature
+    });
+  }
+  async verifyConfirmation({ confirmation, signature }: SignedConfirmation): Promise<boolean> {
+    return this.publicClient.verifyTypedData({
+      address: confirmation.user,
+      domain: await this.getOfferDomain(),
+      types: confirmationTypes,
+      primaryType: 'Confirmation',
+      message: confirmation,
+      signature
+    });
+  }
+  async agreeTradeBySig({ agreement, signature }: SignedAgreement, options?: WriteOptions): Promise<TradeTransaction> {
+    const { tradeId, user, nonce, deadline, ...terms } = agreement;
+    return this.write('agreeTradeBySig', [{ tradeId, ...terms }, user, nonce, deadline, signature], options);
+  }
+  /**
+   * Submits a signed confirmation, sending the RON the signer has to escrow (payment and fee) unless `value` is given.
+   * Only the signer can send its RON payment, other submitters only sponsor the fee.
+   * Like `confirmTrade`, the gas limit covers executing the trade
+   */
+  async confirmTradeBySig({ confirmation, signature }: SignedConfirmation, options: WriteOptions = {}): Promise<TradeTransaction> {
+    const { tradeId, version, user, nonce, deadline } = confirmation;
+    const trade = await this.getTrade(tradeId);
+    const isFrom = user.toLowerCase() === trade.fromAddress.toLowerCase();
+    const value = options.value ?? (isFrom ? trade.fromPayment.nativeAmount : trade.toPayment.nativeAmount + trade.fee);
+    const args = [tradeId, version, user, nonce, deadline, signature];
+
+    let gas = options.gas;
+    if (gas === undefined) {
+      gas = await this.estimateGas('confirmTradeBySig', args, { ...options, value });
+
+      const counterpartyHasConfirmed = isFrom ? trade.toHasConfirmed : trade.fromHasConfirmed;
+      if (!counterpartyHasConfirmed) gas += getExecutionGas(trade);
+    }
+
+    return this.write('confirmTradeBySig', args, { ...options, value, gas });
+  }
+
+  // Events
+  decodeEvents(logs: Log[]): NftSwapEvent[] {
+    const ownLogs = logs.filter((log) => log.address.toLowerCase() === this.address.toLowerCase());
+    return parseEventLogs({ abi: nftSwapAbi, logs: ownLogs }) as unknown as NftSwapEvent[];
+  }
+  async waitForTransaction(hash: Hash): Promise<TradeTransaction> {
+    const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status === 'reverted') {
+      throw new NftSwapError(NftSwapErrorCode.Unknown, `Transaction ${hash} reverted`);
+    }
+
+    return { hash, receipt, events: this.decodeEvents(receipt.logs) };
+  }
+
+  // Helpers
+  private getAccountAddress(options: WriteOptions): Address {
+    const account = options.account ?? this.walletClient?.account;
+    if (!account) throw new Error('No account provided to send the transaction from');
+
+    return typeof account === 'string' ? account : account.address;
+  }
+  private getSigner(options: Pick<WriteOptions, 'account'>): { walletClient: WalletClient; account: Account | Address } {
+    const walletClient = this.walletClient;
+    if (!walletClient) throw new Error('NftSwapClient requires a wallet client to sign');
+
+    const account = options.account ?? walletClient.account;
+    if (!account) throw new Error('No account provided to sign with');
+
+    return { walletClient, account };
+  }
+  private async read(functionName: string, args: unknown[]): Promise<unknown> {
+    try {
+      return await this.publicClient.readContract({ address: this.address, abi: nftSwapAbi, functionName, args });
+    } catch (error) {
+      throw NftSwapError.from(error);
+    }
+  }
+  private async readPage(
+    functionName: string,
+    args: unknown[],
+    { offset = 0, limit = DEFAULT_PAGE_SIZE }: PageOptions = {}
+  ): Promise<TradePage> {
+    const [tradeIds, trades, total] = (await this.read(functionName, [...args, BigInt(offset), BigInt(limit)])) as [
+      bigint[],
+      Trade[],
+      bigint
+    ];
+
+    return { trades: trades.map((trade, i) => ({ ...trade, id: tradeIds[i] })), total };
+  }
+  private async estimateGas(functionName: string, args: unknown[], options: WriteOptions): Promise<bigint> {
+    const account = options.account ?? this.walletClient?.account;
+    if (!account) throw new Error('No account provided to send the transaction from');
+
+    try {
+      // Estimate against the mined state, so concurrent transactions of the counterparty can land in any order
+      const gas = await this.publicClient.estimateContractGas({
+        address: this.address,
+        abi: nftSwapAbi,
+        functionName,
+        args,
+        account,
+        value: options.value,
+        blockTag: 'latest'
+      });
+
+      return (gas * (100n + GAS_MARGIN_PERCENT)) / 100n;
+    } catch (error) {
+      throw NftSwapError.from(error);
+    }
+  }
+  private async write(functionName: string, args: unknown[], options: WriteOptions = {}): Promise<TradeTransaction> {
+    const walletClient = this.walletClient;
+    if (!walletClient) throw new Error('NftSwapClient requires a wallet client to send transactions');
+
+    const account: Account | Address | undefined = options.account ?? walletClient.account;
+    if (!account) throw new Error('No account provided to send the transaction from');
+
+    const gas = options.gas ?? (await this.estimateGas(functionName, args, { ...options, account }));
+
+    let hash: Hash;
+    try {
+      hash = await walletClient.writeContract({
+        address: this.address,
+        abi: nftSwapAbi,
+        functionName,
+        args,
+        account,
+        chain: walletClient.chain,
+        value: options.value,
+        gas
+      });
+    } catch (error) {
+      throw NftSwapError.from(error);
+    }
+
+    return this.waitForTransaction(hash);
+  }
+}
+
+// Results of the calls of a batch, from the BatchCallFailed events
+function getBatchResults(events: NftSwapEvent[], tradeIds: (bigint | undefined)[]): BatchResult[] {
+  const errors = new Map(
+    events.flatMap((event) =>
+      event.eventName === 'BatchCallFailed' ? [[Number(event.args.index), NftSwapError.fromRevertData(event.args.reason)] as const] : []
+    )
+  );
+
+  return tradeIds.map((tradeId, i) => {
+    const error = errors.get(i);
+    return error ? { success: false, tradeId, error } : { success: true, tradeId };
+  });
+}
+
+function getExecutionGas(trade: Trade): bigint {
+  const tokenPayments = [trade.fromPayment, trade.toPayment].filter((payment) => payment.erc20Amount > 0n).length;
+
+  return (
+    EXECUTION_GAS +
+    BigInt(trade.fromItems.length + trade.toItems.length) * EXECUTION_GAS_PER_ITEM +
+    BigInt(tokenPayments) * EXECUTION_GAS_PER_TOKEN_PAYMENT
+  );
+}
+
+function toTimestamp(date: bigint | Date): bigint {
+  return date instanceof Date ? BigInt(Math.floor(date.getTime() / 1000)) : date;
+}
+
+function toItems(items: TradeItemInput[]): TradeItem[] {
+  return items.map((item) => ({
+    nftContract: item.nftContract,
+    nftId: BigInt(item.nftId),
+    standard: item.standard ?? TokenStandard.ERC721,
+    amount: BigInt(item.amount ?? 1)
+  }));
+}
+
+function toPayment(payment: PaymentInput = {}): Payment {
+  return {
+    nativeAmount: payment.nativeAmount ?? 0n,
+    erc20Token: payment.erc20Token ?? zeroAddress,
+    erc20Amount: payment.erc20Amount ?? 0n
+  };
+}
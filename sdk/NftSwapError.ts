@@ -0,0 +1,168 @@
+import { BaseError, ContractFunctionRevertedError, decodeErrorResult, Hex } from 'viem';
+
+export enum NftSwapErrorCode {
+  Unknown = 'UNKNOWN',
+  NotOwner = 'NOT_OWNER',
+  TradeNotFound = 'TRADE_NOT_FOUND',
+  TradeExpired = 'TRADE_EXPIRED',
+  InvalidState = 'INVALID_STATE',
+  NotParticipant = 'NOT_PARTICIPANT',
+  AlreadyAgreed = 'ALREADY_AGREED',
+  AlreadyConfirmed = 'ALREADY_CONFIRMED',
+  InvalidParticipants = 'INVALID_PARTICIPANTS',
+  NftNotOwned = 'NFT_NOT_OWNED',
+  NftNotFound = 'NFT_NOT_FOUND',
+  InvalidItems = 'INVALID_ITEMS',
+  NotApproved = 'NOT_APPROVED',
+  InvalidPayment = 'INVALID_PAYMENT',
+  OwnershipChanged = 'OWNERSHIP_CHANGED',
+  TransferFailed = 'TRANSFER_FAILED',
+  ProposalsDisabled = 'PROPOSALS_DISABLED',
+  TermsMismatch = 'TERMS_MISMATCH',
+  InvalidOffer = 'INVALID_OFFER',
+  InvalidSignature = 'INVALID_SIGNATURE',
+  InvalidDeadline = 'INVALID_DEADLINE',
+  InvalidFeeRecipient = 'INVALID_FEE_RECIPIENT',
+  InvalidRoyaltyCap = 'INVALID_ROYALTY_CAP',
+  Paused = 'PAUSED',
+  CollectionBlocked = 'COLLECTION_BLOCKED',
+  CollectionNotAllowed = 'COLLECTION_NOT_ALLOWED',
+  InvalidBatch = 'INVALID_BATCH',
+  ReentrantCall = 'REENTRANT_CALL'
+}
+
+// Revert reasons as emitted by NftSwap.sol
+const REVERT_REASONS: Record<string, NftSwapErrorCode> = {
+  'Only owner can perform this action': NftSwapErrorCode.NotOwner,
+  'Not authorized to accept ownership': NftSwapErrorCode.NotOwner,
+  'Trading is paused': NftSwapErrorCode.Paused,
+  'Collection is blocked': NftSwapErrorCode.CollectionBlocked,
+  'Collection is not allowed': NftSwapErrorCode.CollectionNotAllowed,
+  'Collection does not support the token standard': NftSwapErrorCode.InvalidItems,
+  'Collection is not an NFT contract': NftSwapErrorCode.InvalidItems,
+  'Permissionless proposals are disabled': NftSwapErrorCode.ProposalsDisabled,
+  'Trade terms do not match': NftSwapErrorCode.TermsMismatch,
+  'Trade terms have changed': NftSwapErrorCode.TermsMismatch,
+  'Trade does not exist': NftSwapErrorCode.TradeNotFound,
+  'Trade has expired': NftSwapErrorCode.TradeExpired,
+  'Trade is not in proposed state': NftSwapErrorCode.InvalidState,
+  'Trade is not in agreed state': NftSwapErrorCode.InvalidState,
+  'Trade is not in confirmed state': NftSwapErrorCode.InvalidState,
+  'Not authorized to agree to this trade': NftSwapErrorCode.NotParticipant,
+  'Not authorized to confirm this trade': NftSwapErrorCode.NotParticipant,
+  'Not authorized to execute this trade': NftSwapErrorCode.NotParticipant,
+  'Not authorized to cancel this trade': NftSwapErrorCode.NotParticipant,
+  'Trade can no longer be cancelled': NftSwapErrorCode.InvalidState,
+  'Trade can no longer be countered': NftSwapErrorCode.InvalidState,
+  'Not authorized to counter this trade': NftSwapErrorCode.NotParticipant,
+  'Not authorized to update this trade': NftSwapErrorCode.NotParticipant,
+  'Already agreed to this trade': NftSwapErrorCode.AlreadyAgreed,
+  'Already confirmed this trade': NftSwapErrorCode.AlreadyConfirmed,
+  'Cannot trade with yourself': NftSwapErrorCode.InvalidParticipants,
+  'Cannot trade with contract owner': NftSwapErrorCode.InvalidParticipants,
+  'You do not own this NFT': NftSwapErrorCode.NftNotOwned,
+  'Requested NFT is not owned by target address': NftSwapErrorCode.NftNotOwned,
+  'Sender no longer owns the offered NFT': NftSwapErrorCode.NftNotOwned,
+  'Receiver no longer owns the requested NFT': NftSwapErrorCode.NftNotOwned,
+  'Requested NFT does not exist': NftSwapErrorCode.NftNotFound,
+  'Trade must include NFTs on both sides': NftSwapErrorCode.InvalidItems,
+  'Too many NFTs in trade': NftSwapErrorCode.InvalidItems,
+  'ERC721 amount must be 1': NftSwapErrorCode.InvalidItems,
+  'ERC1155 amount must be greater than 0': NftSwapErrorCode.InvalidItems,
+  'Contract not approved to transfer NFT': NftSwapErrorCode.NotApproved,
+  'Contract not approved to transfer offered NFT': NftSwapErrorCode.NotApproved,
+  'Contract not approved to transfer requested NFT': NftSwapErrorCode.NotApproved,
+  'Contract not approved to transfer tokens': NftSwapErrorCode.NotApproved,
+  'Invalid ERC20 token': NftSwapErrorCode.InvalidPayment,
+  'Insufficient RON sent': NftSwapErrorCode.InvalidPayment,
+  'NFT ownership changed': NftSwapErrorCode.OwnershipChanged,
+  'Invalid trade deadline': NftSwapErrorCode.InvalidDeadline,
+  'Invalid trade timeout': NftSwapErrorCode.InvalidDeadline,
+  'Invalid fee recipient': NftSwapErrorCode.InvalidFeeRecipient,
+  'Not authorized to withdraw fees': NftSwapErrorCode.NotOwner,
+  'No fees to withdraw': NftSwapErrorCode.InvalidState,
+  'Invalid royalty cap': NftSwapErrorCode.InvalidRoyaltyCap,
+  'Offer has expired': NftSwapErrorCode.TradeExpired,
+  'Offer is no longer valid': NftSwapErrorCode.InvalidOffer,
+  'Nonce can only be increased': NftSwapErrorCode.InvalidOffer,
+  'Invalid offer signature': NftSwapErrorCode.InvalidSignature,
+  'Invalid signature': NftSwapErrorCode.InvalidSignature,
+  'Signature has expired': NftSwapErrorCode.InvalidSignature,
+  'Signature is no longer valid': NftSwapErrorCode.InvalidSignature,
+  'Not authorized to fill this offer': NftSwapErrorCode.NotParticipant,
+  'Maker does not own the offered NFT': NftSwapErrorCode.NftNotOwned,
+  'Offer maker cannot pay RON': NftSwapErrorCode.InvalidPayment,
+  'Sponsored signer cannot pay RON': NftSwapErrorCode.InvalidPayment,
+  'Invalid open offer criteria': NftSwapErrorCode.InvalidItems,
+  'Trade is not an open offer': NftSwapErrorCode.InvalidState,
+  'NFT does not match the open offer': NftSwapErrorCode.InvalidItems,
+  'Offered NFT transfer failed': NftSwapErrorCode.TransferFailed,
+  'Requested NFT transfer failed': NftSwapErrorCode.TransferFailed,
+  'NFT escrow failed': NftSwapErrorCode.TransferFailed,
+  'Escrowed NFT transfer failed': NftSwapErrorCode.TransferFailed,
+  'No NFTs escrowed for this trade': NftSwapErrorCode.InvalidState,
+  'Trade is still open': NftSwapErrorCode.InvalidState,
+  'Batch lengths do not match': NftSwapErrorCode.InvalidBatch,
+  'Batch already in progress': NftSwapErrorCode.InvalidBatch,
+  'Batch ran out of gas': NftSwapErrorCode.InvalidBatch,
+  'Reentrant call': NftSwapErrorCode.ReentrantCall,
+  'No RON to withdraw': NftSwapErrorCode.InvalidState,
+  'RON transfer failed': NftSwapErrorCode.TransferFailed
+};
+
+export class NftSwapError extends Error {
+  readonly code: NftSwapErrorCode;
+  readonly reason?: string;
+  readonly cause?: unknown;
+
+  constructor(code: NftSwapErrorCode, message: string, options?: { reason?: string; cause?: unknown }) {
+    super(message);
+    this.name = 'NftSwapError';
+    this.code = code;
+    this.reason = options?.reason;
+    this.cause = options?.cause;
+  }
+
+  /**
+   * Wraps an error thrown by viem, mapping the contract revert reason to an error code
+   */
+  static from(error: unknown): NftSwapError {
+    if (error instanceof NftSwapError) return error;
+
+    const reason = getRevertReason(error);
+    if (reason === undefined) {
+      const message = error instanceof Error ? error.message : String(error);
+      return new NftSwapError(NftSwapErrorCode.Unknown, message, { cause: error });
+    }
+
+    return new NftSwapError(REVERT_REASONS[reason] ?? NftSwapErrorCode.Unknown, reason, { reason, cause: error });
+  }
+
+  /**
+   * Maps the revert data of a call that failed without reverting the transaction, e.g. in a batch (`BatchCallFailed`)
+   */
+  static fromRevertData(data: Hex): NftSwapError {
+    try {
+      const { errorName, args } = decodeErrorResult({ abi: [], data });
+      if (errorName !== 'Error') return new NftSwapError(NftSwapErrorCode.Unknown, errorName);
+
+      const reason = args[0] as string;
+      return new NftSwapError(REVERT_REASONS[reason] ?? NftSwapErrorCode.Unknown, reason, { reason });
+    } catch (error) {
+      return new NftSwapError(NftSwapErrorCode.Unknown, `Call reverted with ${data}`, { cause: error });
+    }
+  }
+}
+
+function getRevertReason(error: unknown): string | undefined {
+  if (error instanceof BaseError) {
+    const revertError = error.walk((e) => e instanceof ContractFunctionRevertedError);
+    if (revertError instanceof ContractFunctionRevertedError && revertError.reason) {
+      return revertError.reason;
+    }
+  }
+
+  // Some nodes only return the reason as part of the message
+  const message = error instanceof Error ? error.message : String(error);
+  return Object.keys(REVERT_REASONS).find((reason) => message.includes(reason));
+}
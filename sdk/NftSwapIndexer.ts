@@ -0,0 +1,125 @@
+import { Address, parseEventLogs, PublicClient } from 'viem';
+import { nftSwapAbi } from './NftSwapClient';
+import { IndexedBlock, IndexedEvent, IndexedTrade, MemoryTradeStore, TradeFilter, TradeStore } from './TradeStore';
+
+export type NftSwapIndexerConfig = {
+  address: Address;
+  publicClient: PublicClient;
+  store?: TradeStore;
+  // Block the contract was deployed in
+  fromBlock?: bigint;
+  // Blocks per getLogs request
+  batchSize?: bigint;
+};
+export type SyncResult = {
+  fromBlock: bigint;
+  toBlock: bigint;
+  events: number;
+  // Block the indexer rolled back to after a reorg
+  reorgedFrom?: bigint;
+};
+
+/**
+ * Rebuilds the state of every trade from the NftSwap logs, rolling back blocks that were reorged out
+ */
+export class NftSwapIndexer {
+  readonly address: Address;
+  readonly publicClient: PublicClient;
+  readonly store: TradeStore;
+  readonly fromBlock: bigint;
+  readonly batchSize: bigint;
+
+  constructor({ address, publicClient, store = new MemoryTradeStore(), fromBlock = 0n, batchSize = 1000n }: NftSwapIndexerConfig) {
+    this.address = address;
+    this.publicClient = publicClient;
+    this.store = store;
+    this.fromBlock = fromBlock;
+    this.batchSize = batchSize;
+  }
+
+  // Sync
+  /**
+   * Replays the logs from the last synced block up to `toBlock` (defaults to the latest block)
+   */
+  async sync(toBlock?: bigint): Promise<SyncResult> {
+    const reorgedFrom = await this.handleReorg();
+    const latestBlock = await this.store.getLatestBlock();
+    const fromBlock = latestBlock ? latestBlock.number + 1n : this.fromBlock;
+    toBlock ??= await this.publicClient.getBlockNumber();
+
+    let events = 0;
+    for (let batchFrom = fromBlock; batchFrom <= toBlock; batchFrom += this.batchSize) {
+      const batchTo = batchFrom + this.batchSize - 1n < toBlock ? batchFrom + this.batchSize - 1n : toBlock;
+      events += await this.syncBatch(batchFrom, batchTo);
+    }
+
+    return { fromBlock, toBlock, events, reorgedFrom };
+  }
+  /**
+   * Syncs every `pollingInterval` ms until the returned function is called
+   */
+  watch({ pollingInterval = 4000, onError }: { pollingInterval?: number; onError?: (error: unknown) => void } = {}): () => void {
+    let stopped = false;
+    let timeout: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        await this.sync();
+      } catch (error) {
+        onError?.(error);
+      }
+      if (!stopped) timeout = setTimeout(poll, pollingInterval);
+    };
+    poll();
+
+    return () => {
+      stopped = true;
+      clearTimeout(timeout);
+    };
+  }
+
+  // Queries
+  async getTrade(tradeId: bigint | number): Promise<IndexedTrade | undefined> {
+    return this.store.getTrade(BigInt(tradeId));
+  }
+  async getTrades(filter?: TradeFilter): Promise<IndexedTrade[]> {
+    return this.store.getTrades(filter);
+  }
+  async getEvents(tradeId?: bigint | number): Promise<IndexedEvent[]> {
+    return this.store.getEvents(tradeId === undefined ? undefined : BigInt(tradeId));
+  }
+
+  // Helpers
+  private async syncBatch(fromBlock: bigint, toBlock: bigint): Promise<number> {
+    const logs = await this.publicClient.getLogs({ address: this.address, fromBlock, toBlock });
+    const events = parseEventLogs({ abi: nftSwapAbi, logs }) as unknown as IndexedEvent[];
+
+    const blocks = new Map<bigint, IndexedBlock>();
+    for (const event of events) blocks.set(event.blockNumber, { number: event.blockNumber, hash: event.blockHash });
+    const latestBlock = await this.publicClient.getBlock({ blockNumber: toBlock });
+
+    await this.store.addEvents(events, [...blocks.values()], { number: toBlock, hash: latestBlock.hash });
+    return events.length;
+  }
+  private async handleReorg(): Promise<bigint | undefined> {
+    const latestBlock = await this.store.getLatestBlock();
+    if (!latestBlock || (await this.isCanonical(latestBlock))) return undefined;
+
+    // Roll back to the last synced block still on the chain, blocks are chained so everything before it is canonical too
+    const blocks = await this.store.getBlocks();
+    let rollbackFrom = this.fromBlock;
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      if (await this.isCanonical(blocks[i])) {
+        rollbackFrom = blocks[i].number + 1n;
+        break;
+      }
+    }
+
+    await this.store.rollback(rollbackFrom);
+    return rollbackFrom;
+  }
+  private async isCanonical(block: IndexedBlock): Promise<boolean> {
+    const chainBlock = await this.publicClient.getBlock({ blockNumber: block.number }).catch(() => undefined);
+    return chainBlock?.hash === block.hash;
+  }
+}
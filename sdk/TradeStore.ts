@@ -0,0 +1,231 @@
+import { Address, Hash } from 'viem';
+import { NftSwapEvent, OpenOfferCriteria, Payment, TradeItem, TradeStatus } from './types';
+
+// Event as replayed by the indexer, with the position of its log
+export type IndexedEvent = NftSwapEvent & {
+  blockNumber: bigint;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+};
+export type IndexedBlock = {
+  number: bigint;
+  hash: Hash;
+};
+// Trade state rebuilt from the events
+export type IndexedTrade = {
+  id: bigint;
+  fromAddress: Address;
+  toAddress: Address;
+  fromItems: TradeItem[];
+  toItems: TradeItem[];
+  fromPayment?: Payment;
+  toPayment?: Payment;
+  fromHasAgreed: boolean;
+  toHasAgreed: boolean;
+  fromHasConfirmed: boolean;
+  toHasConfirmed: boolean;
+  status: TradeStatus;
+  version: bigint;
+  expiresAt?: bigint; // Expiry of the offer for filled offers
+  fee: bigint;
+  wanted?: OpenOfferCriteria; // Only set for open offers
+  plainTransfers?: boolean; // ERC721 tokens are sent with transferFrom
+  escrowMode?: boolean; // The NFTs of each party are held by the contract from its confirmation
+  fromEscrowed?: boolean;
+  toEscrowed?: boolean;
+  offerHash?: Hash;
+  cancelledBy?: Address;
+  cancelReason?: string;
+  createdAtBlock: bigint;
+  updatedAtBlock: bigint;
+};
+export type TradeFilter = {
+  user?: Address;
+  status?: TradeStatus;
+  offset?: number;
+  limit?: number;
+};
+
+/**
+ * Storage of the indexer, async so it can be backed by a database (e.g. SQLite) instead of memory
+ */
+export interface TradeStore {
+  // Last synced block, and the blocks the events were in
+  getLatestBlock(): Promise<IndexedBlock | undefined>;
+  getBlocks(): Promise<IndexedBlock[]>;
+  // Adds the events of a synced block range, has to be atomic
+  addEvents(events: IndexedEvent[], blocks: IndexedBlock[], latestBlock: IndexedBlock): Promise<void>;
+  // Removes the events and blocks from `blockNumber` on, after a reorg
+  rollback(blockNumber: bigint): Promise<void>;
+
+  getTrade(tradeId: bigint): Promise<IndexedTrade | undefined>;
+  getTrades(filter?: TradeFilter): Promise<IndexedTrade[]>;
+  getEvents(tradeId?: bigint): Promise<IndexedEvent[]>;
+}
+
+export class MemoryTradeStore implements TradeStore {
+  private events: IndexedEvent[] = [];
+  private blocks = new Map<bigint, Hash>();
+  private latestBlock?: IndexedBlock;
+  private trades = new Map<bigint, IndexedTrade>();
+
+  async getLatestBlock(): Promise<IndexedBlock | undefined> {
+    return this.latestBlock;
+  }
+  async getBlocks(): Promise<IndexedBlock[]> {
+    return [...this.blocks].map(([number, hash]) => ({ number, hash })).sort((a, b) => (a.number < b.number ? -1 : 1));
+  }
+  async addEvents(events: IndexedEvent[], blocks: IndexedBlock[], latestBlock: IndexedBlock): Promise<void> {
+    for (const block of [...blocks, latestBlock]) this.blocks.set(block.number, block.hash);
+    for (const event of events) {
+      this.events.push(event);
+      applyTradeEvent(this.trades, event);
+    }
+    this.latestBlock = latestBlock;
+  }
+  async rollback(blockNumber: bigint): Promise<void> {
+    this.events = this.events.filter((event) => event.blockNumber < blockNumber);
+    for (const number of this.blocks.keys()) {
+      if (number >= blockNumber) this.blocks.delete(number);
+    }
+    const blocks = await this.getBlocks();
+    this.latestBlock = blocks[blocks.length - 1];
+
+    // Replay the remaining events
+    this.trades = new Map();
+    for (const event of this.events) applyTradeEvent(this.trades, event);
+  }
+
+  async getTrade(tradeId: bigint): Promise<IndexedTrade | undefined> {
+    return this.trades.get(tradeId);
+  }
+  async getTrades({ user, status, offset = 0, limit = Infinity }: TradeFilter = {}): Promise<IndexedTrade[]> {
+    const lowerUser = user?.toLowerCase();
+    const trades = [...this.trades.values()]
+      .filter((trade) => !lowerUser || [trade.fromAddress.toLowerCase(), trade.toAddress.toLowerCase()].includes(lowerUser))
+      .filter((trade) => status === undefined || trade.status === status)
+      .sort((a, b) => (a.id < b.id ? -1 : 1));
+
+    return trades.slice(offset, offset + limit);
+  }
+  async getEvents(tradeId?: bigint): Promise<IndexedEvent[]> {
+    return this.events.filter((event) => tradeId === undefined || ('tradeId' in event.args && event.args.tradeId === tradeId));
+  }
+}
+
+// Reasons of TradeCancelled as emitted by NftSwap.sol, the other reasons leave the trade cancelled
+const CANCEL_STATUSES: Record<string, TradeStatus> = {
+  'Trade has expired': TradeStatus.Expired,
+  'Rejected by participant': TradeStatus.Rejected
+};
+
+/**
+ * Applies an event to the trades it affects, events have to be applied in log order
+ */
+export function applyTradeEvent(trades: Map<bigint, IndexedTrade>, event: IndexedEvent): void {
+  if (!('tradeId' in event.args)) return;
+
+  const tradeId = event.args.tradeId;
+  let trade = trades.get(tradeId);
+  if (!trade) {
+    // Filled offers don't emit TradeProposed, the trade is created by its first event
+    trade = {
+      id: tradeId,
+      fromAddress: '0x0000000000000000000000000000000000000000',
+      toAddress: '0x0000000000000000000000000000000000000000',
+      fromItems: [],
+      toItems: [],
+      fromHasAgreed: false,
+      toHasAgreed: false,
+      fromHasConfirmed: false,
+      toHasConfirmed: false,
+      status: TradeStatus.Proposed,
+      version: 0n,
+      fee: 0n,
+      createdAtBlock: event.blockNumber,
+      updatedAtBlock: event.blockNumber
+    };
+    trades.set(tradeId, trade);
+  }
+  trade.updatedAtBlock = event.blockNumber;
+
+  const isFrom = (user: Address) => user.toLowerCase() === trade.fromAddress.toLowerCase();
+  switch (event.eventName) {
+    case 'TradeProposed':
+      trade.fromAddress = event.args.fromAddress;
+      trade.toAddress = event.args.toAddress;
+      trade.expiresAt = event.args.expiresAt;
+      break;
+    case 'TradeTermsSet':
+      trade.fromItems = [...event.args.fromItems];
+      trade.toItems = [...event.args.toItems];
+      trade.fromPayment = event.args.fromPayment;
+      trade.toPayment = event.args.toPayment;
+      trade.version++;
+      break;
+    case 'TradeCountered':
+      // The counter-proposer agrees to the new terms, confirmations were refunded
+      trade.fromHasAgreed = isFrom(event.args.user);
+      trade.toHasAgreed = !trade.fromHasAgreed;
+      trade.fromHasConfirmed = trade.toHasConfirmed = false;
+      trade.fee = 0n;
+      trade.status = TradeStatus.Proposed;
+      break;
+    case 'TradeAgreed':
+      if (isFrom(event.args.user)) trade.fromHasAgreed = true;
+      else trade.toHasAgreed = true;
+      if (trade.fromHasAgreed && trade.toHasAgreed) trade.status = TradeStatus.Agreed;
+      break;
+    case 'TradeConfirmed':
+      if (isFrom(event.args.user)) trade.fromHasConfirmed = true;
+      else trade.toHasConfirmed = true;
+      break;
+    case 'OpenOfferProposed':
+      trade.wanted = event.args.wanted;
+      trade.version++;
+      break;
+    case 'OpenOfferAccepted': {
+      trade.toAddress = event.args.taker;
+      const { nftContract, standard, amount } = trade.wanted!;
+      trade.toItems = [{ nftContract, nftId: event.args.nftId, standard, amount }];
+      trade.toHasAgreed = trade.fromHasConfirmed = trade.toHasConfirmed = true;
+      break;
+    }
+    case 'OfferFilled':
+      trade.fromAddress = event.args.maker;
+      trade.toAddress = event.args.taker;
+      trade.fromHasAgreed = trade.toHasAgreed = trade.fromHasConfirmed = trade.toHasConfirmed = true;
+      trade.offerHash = event.args.offerHash;
+      break;
+    case 'TradeCompleted':
+      trade.status = TradeStatus.Completed;
+      // Escrowed NFTs were released to the other party
+      if (trade.escrowMode) trade.fromEscrowed = trade.toEscrowed = false;
+      break;
+    case 'TradeCancelled':
+      trade.status = CANCEL_STATUSES[event.args.reason] ?? TradeStatus.Cancelled;
+      trade.cancelledBy = event.args.cancelledBy;
+      trade.cancelReason = event.args.reason;
+      break;
+    case 'PlainTransfersUpdated':
+      // The other party has to agree again
+      trade.plainTransfers = event.args.enabled;
+      if (isFrom(event.args.user)) trade.toHasAgreed = false;
+      else trade.fromHasAgreed = false;
+      break;
+    case 'EscrowModeUpdated':
+      trade.escrowMode = event.args.enabled;
+      if (isFrom(event.args.user)) trade.toHasAgreed = false;
+      else trade.fromHasAgreed = false;
+      break;
+    case 'ItemsEscrowed':
+    case 'EscrowWithdrawn':
+      if (isFrom(event.args.user)) trade.fromEscrowed = event.eventName === 'ItemsEscrowed';
+      else trade.toEscrowed = event.eventName === 'ItemsEscrowed';
+      break;
+    case 'FeePaid':
+      trade.fee = event.args.fee;
+      break;
+  }
+}
@@ -0,0 +1,5838 @@
+// Generated by `npx hardhat sdk:artifacts` from the compiled contracts, do not edit
+export const NftSwapArtifact = {
+  "abi": [
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_extension",
+          "type": "address"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "constructor"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "target",
+          "type": "address"
+        }
+      ],
+      "name": "AddressEmptyCode",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "implementation",
+          "type": "address"
+        }
+      ],
+      "name": "ERC1967InvalidImplementation",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "ERC1967NonPayable",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "FailedCall",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidInitialization",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "InvalidShortString",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "NotInitializing",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "string",
+          "name": "str",
+          "type": "string"
+        }
+      ],
+      "name": "StringTooLong",
+      "type": "error"
+    },
+    {
+      "inputs": [],
+      "name": "UUPSUnauthorizedCallContext",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "bytes32",
+          "name": "slot",
+          "type": "bytes32"
+        }
+      ],
+      "name": "UUPSUnsupportedProxiableUUID",
+      "type": "error"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "enabled",
+          "type": "bool"
+        }
+      ],
+      "name": "AllowlistEnabledUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "index",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "bytes",
+          "name": "reason",
+          "type": "bytes"
+        }
+      ],
+      "name": "BatchCallFailed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "collection",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "allowed",
+          "type": "bool"
+        }
+      ],
+      "name": "CollectionAllowedUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "collection",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "blocked",
+          "type": "bool"
+        }
+      ],
+      "name": "CollectionBlockedUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "timeout",
+          "type": "uint256"
+        }
+      ],
+      "name": "DefaultTradeTimeoutUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [],
+      "name": "EIP712DomainChanged",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "enabled",
+          "type": "bool"
+        }
+      ],
+      "name": "EscrowModeUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "EscrowWithdrawn",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "account",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "exempt",
+          "type": "bool"
+        }
+      ],
+      "name": "FeeExemptionUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "payer",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "fee",
+          "type": "uint256"
+        }
+      ],
+      "name": "FeePaid",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "recipient",
+          "type": "address"
+        }
+      ],
+      "name": "FeeRecipientUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "flatFee",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "collection",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "enabled",
+          "type": "bool"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "collectionFee",
+          "type": "uint256"
+        }
+      ],
+      "name": "FeeScheduleUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "recipient",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "amount",
+          "type": "uint256"
+        }
+      ],
+      "name": "FeesWithdrawn",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "uint64",
+          "name": "version",
+          "type": "uint64"
+        }
+      ],
+      "name": "Initialized",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "ItemsEscrowed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "maker",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "minNonce",
+          "type": "uint256"
+        }
+      ],
+      "name": "NoncesInvalidated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "maker",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "nonce",
+          "type": "uint256"
+        }
+      ],
+      "name": "OfferCancelled",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "bytes32",
+          "name": "offerHash",
+          "type": "bytes32"
+        },
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "maker",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "taker",
+          "type": "address"
+        }
+      ],
+      "name": "OfferFilled",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "taker",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "nftId",
+          "type": "uint256"
+        }
+      ],
+      "name": "OpenOfferAccepted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "idsRoot",
+              "type": "bytes32"
+            }
+          ],
+          "indexed": false,
+          "internalType": "struct NftSwapBase.OpenOfferCriteria",
+          "name": "wanted",
+          "type": "tuple"
+        }
+      ],
+      "name": "OpenOfferProposed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "previousOwner",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "newOwner",
+          "type": "address"
+        }
+      ],
+      "name": "OwnershipTransferStarted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "previousOwner",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "newOwner",
+          "type": "address"
+        }
+      ],
+      "name": "OwnershipTransferred",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "paused",
+          "type": "bool"
+        }
+      ],
+      "name": "PausedUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "account",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "amount",
+          "type": "uint256"
+        }
+      ],
+      "name": "PaymentCredited",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "account",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "amount",
+          "type": "uint256"
+        }
+      ],
+      "name": "PaymentWithdrawn",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "enabled",
+          "type": "bool"
+        }
+      ],
+      "name": "PermissionlessProposalsUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "enabled",
+          "type": "bool"
+        }
+      ],
+      "name": "PlainTransfersUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "royaltyCapBps",
+          "type": "uint256"
+        }
+      ],
+      "name": "RoyaltyCapUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "nftContract",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "nftId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "receiver",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "token",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "amount",
+          "type": "uint256"
+        }
+      ],
+      "name": "RoyaltyPaid",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "TradeAgreed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "cancelledBy",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "string",
+          "name": "reason",
+          "type": "string"
+        }
+      ],
+      "name": "TradeCancelled",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "fromAddress",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "toAddress",
+          "type": "address"
+        }
+      ],
+      "name": "TradeCompleted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "TradeConfirmed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "version",
+          "type": "uint256"
+        }
+      ],
+      "name": "TradeCountered",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "fromAddress",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "toAddress",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "expiresAt",
+          "type": "uint256"
+        }
+      ],
+      "name": "TradeProposed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nftId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            }
+          ],
+          "indexed": false,
+          "internalType": "struct NftSwapBase.TradeItem[]",
+          "name": "fromItems",
+          "type": "tuple[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nftId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            }
+          ],
+          "indexed": false,
+          "internalType": "struct NftSwapBase.TradeItem[]",
+          "name": "toItems",
+          "type": "tuple[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "indexed": false,
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "fromPayment",
+          "type": "tuple"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "indexed": false,
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "toPayment",
+          "type": "tuple"
+        }
+      ],
+      "name": "TradeTermsSet",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "implementation",
+          "type": "address"
+        }
+      ],
+      "name": "Upgraded",
+      "type": "event"
+    },
+    {
+      "stateMutability": "payable",
+      "type": "fallback"
+    },
+    {
+      "inputs": [],
+      "name": "UPGRADE_INTERFACE_VERSION",
+      "outputs": [
+        {
+          "internalType": "string",
+          "name": "",
+          "type": "string"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "acceptOwnership",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "accumulatedFees",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_tradeId",
+          "type": "uint256"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nftId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.TradeItem[]",
+          "name": "_fromItems",
+          "type": "tuple[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nftId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.TradeItem[]",
+          "name": "_toItems",
+          "type": "tuple[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "_fromPayment",
+          "type": "tuple"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "_toPayment",
+          "type": "tuple"
+        }
+      ],
+      "name": "agreeTrade",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "allowedCollections",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "allowlistEnabled",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "blockedCollections",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_tradeId",
+          "type": "uint256"
+        }
+      ],
+      "name": "cancelTrade",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "collectionFees",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "enabled",
+          "type": "bool"
+        },
+        {
+          "internalType": "uint256",
+          "name": "fee",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_tradeId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_version",
+          "type": "uint256"
+        }
+      ],
+      "name": "confirmTrade",
+      "outputs": [],
+      "stateMutability": "payable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_tradeId",
+          "type": "uint256"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nftId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.TradeItem[]",
+          "name": "_fromItems",
+          "type": "tuple[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nftId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.TradeItem[]",
+          "name": "_toItems",
+          "type": "tuple[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "_fromPayment",
+          "type": "tuple"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "_toPayment",
+          "type": "tuple"
+        }
+      ],
+      "name": "counterTrade",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "defaultTradeTimeout",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "eip712Domain",
+      "outputs": [
+        {
+          "internalType": "bytes1",
+          "name": "fields",
+          "type": "bytes1"
+        },
+        {
+          "internalType": "string",
+          "name": "name",
+          "type": "string"
+        },
+        {
+          "internalType": "string",
+          "name": "version",
+          "type": "string"
+        },
+        {
+          "internalType": "uint256",
+          "name": "chainId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "verifyingContract",
+          "type": "address"
+        },
+        {
+          "internalType": "bytes32",
+          "name": "salt",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "uint256[]",
+          "name": "extensions",
+          "type": "uint256[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "name": "escrowMode",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "escrowedItems",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "extension",
+      "outputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "feeExempt",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "feeRecipient",
+      "outputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "flatFee",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getOpenTradeCount",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_offset",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_limit",
+          "type": "uint256"
+        }
+      ],
+      "name": "getOpenTrades",
+      "outputs": [
+        {
+          "internalType": "uint256[]",
+          "name": "tradeIds",
+          "type": "uint256[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "fromAddress",
+              "type": "address"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "fromItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "fromPayment",
+              "type": "tuple"
+            },
+            {
+              "internalType": "bool",
+              "name": "fromHasAgreed",
+              "type": "bool"
+            },
+            {
+              "internalType": "bool",
+              "name": "fromHasConfirmed",
+              "type": "bool"
+            },
+            {
+              "internalType": "address",
+              "name": "toAddress",
+              "type": "address"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "toItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "toPayment",
+              "type": "tuple"
+            },
+            {
+              "internalType": "bool",
+              "name": "toHasAgreed",
+              "type": "bool"
+            },
+            {
+              "internalType": "bool",
+              "name": "toHasConfirmed",
+              "type": "bool"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "bytes32",
+                  "name": "idsRoot",
+                  "type": "bytes32"
+                }
+              ],
+              "internalType": "struct NftSwapBase.OpenOfferCriteria",
+              "name": "wanted",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "version",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "fee",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "createdAt",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "expiresAt",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TradeStatus",
+              "name": "status",
+              "type": "uint8"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Trade[]",
+          "name": "page",
+          "type": "tuple[]"
+        },
+        {
+          "internalType": "uint256",
+          "name": "total",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_tradeId",
+          "type": "uint256"
+        }
+      ],
+      "name": "getTrade",
+      "outputs": [
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "fromAddress",
+              "type": "address"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "fromItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "fromPayment",
+              "type": "tuple"
+            },
+            {
+              "internalType": "bool",
+              "name": "fromHasAgreed",
+              "type": "bool"
+            },
+            {
+              "internalType": "bool",
+              "name": "fromHasConfirmed",
+              "type": "bool"
+            },
+            {
+              "internalType": "address",
+              "name": "toAddress",
+              "type": "address"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "toItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "toPayment",
+              "type": "tuple"
+            },
+            {
+              "internalType": "bool",
+              "name": "toHasAgreed",
+              "type": "bool"
+            },
+            {
+              "internalType": "bool",
+              "name": "toHasConfirmed",
+              "type": "bool"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "bytes32",
+                  "name": "idsRoot",
+                  "type": "bytes32"
+                }
+              ],
+              "internalType": "struct NftSwapBase.OpenOfferCriteria",
+              "name": "wanted",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "version",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "fee",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "createdAt",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "expiresAt",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TradeStatus",
+              "name": "status",
+              "type": "uint8"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Trade",
+          "name": "trade",
+          "type": "tuple"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "agreedAt",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "confirmedAt",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "completedAt",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "cancelledAt",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "cancelledBy",
+              "type": "address"
+            }
+          ],
+          "internalType": "struct NftSwapBase.TradeLifecycle",
+          "name": "lifecycle",
+          "type": "tuple"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "getTradeCount",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "enum NftSwapBase.TradeStatus",
+          "name": "_status",
+          "type": "uint8"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_offset",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_limit",
+          "type": "uint256"
+        }
+      ],
+      "name": "getTradesByStatus",
+      "outputs": [
+        {
+          "internalType": "uint256[]",
+          "name": "tradeIds",
+          "type": "uint256[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "fromAddress",
+              "type": "address"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "fromItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "fromPayment",
+              "type": "tuple"
+            },
+            {
+              "internalType": "bool",
+              "name": "fromHasAgreed",
+              "type": "bool"
+            },
+            {
+              "internalType": "bool",
+              "name": "fromHasConfirmed",
+              "type": "bool"
+            },
+            {
+              "internalType": "address",
+              "name": "toAddress",
+              "type": "address"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "toItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "toPayment",
+              "type": "tuple"
+            },
+            {
+              "internalType": "bool",
+              "name": "toHasAgreed",
+              "type": "bool"
+            },
+            {
+              "internalType": "bool",
+              "name": "toHasConfirmed",
+              "type": "bool"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "bytes32",
+                  "name": "idsRoot",
+                  "type": "bytes32"
+                }
+              ],
+              "internalType": "struct NftSwapBase.OpenOfferCriteria",
+              "name": "wanted",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "version",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "fee",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "createdAt",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "expiresAt",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TradeStatus",
+              "name": "status",
+              "type": "uint8"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Trade[]",
+          "name": "page",
+          "type": "tuple[]"
+        },
+        {
+          "internalType": "uint256",
+          "name": "total",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_user",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_offset",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_limit",
+          "type": "uint256"
+        }
+      ],
+      "name": "getTradesByUser",
+      "outputs": [
+        {
+          "internalType": "uint256[]",
+          "name": "tradeIds",
+          "type": "uint256[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "fromAddress",
+              "type": "address"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "fromItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "fromPayment",
+              "type": "tuple"
+            },
+            {
+              "internalType": "bool",
+              "name": "fromHasAgreed",
+              "type": "bool"
+            },
+            {
+              "internalType": "bool",
+              "name": "fromHasConfirmed",
+              "type": "bool"
+            },
+            {
+              "internalType": "address",
+              "name": "toAddress",
+              "type": "address"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "toItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "toPayment",
+              "type": "tuple"
+            },
+            {
+              "internalType": "bool",
+              "name": "toHasAgreed",
+              "type": "bool"
+            },
+            {
+              "internalType": "bool",
+              "name": "toHasConfirmed",
+              "type": "bool"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "bytes32",
+                  "name": "idsRoot",
+                  "type": "bytes32"
+                }
+              ],
+              "internalType": "struct NftSwapBase.OpenOfferCriteria",
+              "name": "wanted",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "version",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "fee",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "createdAt",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "expiresAt",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TradeStatus",
+              "name": "status",
+              "type": "uint8"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Trade[]",
+          "name": "page",
+          "type": "tuple[]"
+        },
+        {
+          "internalType": "uint256",
+          "name": "total",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_owner",
+          "type": "address"
+        }
+      ],
+      "name": "initialize",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "minNonces",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "owner",
+      "outputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "paused",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "pendingOwner",
+      "outputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "pendingWithdrawals",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "permissionlessProposals",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "name": "plainTransfers",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_fromAddress",
+          "type": "address"
+        },
+        {
+          "internalType": "address",
+          "name": "_toAddress",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_expiresAt",
+          "type": "uint256"
+        }
+      ],
+      "name": "proposeTrade",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_fromAddress",
+          "type": "address"
+        },
+        {
+          "internalType": "address",
+          "name": "_toAddress",
+          "type": "address"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nftId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.TradeItem[]",
+          "name": "_fromItems",
+          "type": "tuple[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nftId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.TradeItem[]",
+          "name": "_toItems",
+          "type": "tuple[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "_fromPayment",
+          "type": "tuple"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "_toPayment",
+          "type": "tuple"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_expiresAt",
+          "type": "uint256"
+        }
+      ],
+      "name": "proposeTrade",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "proxiableUUID",
+      "outputs": [
+        {
+          "internalType": "bytes32",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_payer",
+          "type": "address"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nftId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.TradeItem[]",
+          "name": "_fromItems",
+          "type": "tuple[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nftId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.TradeItem[]",
+          "name": "_toItems",
+          "type": "tuple[]"
+        }
+      ],
+      "name": "quoteFee",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "royaltyCapBps",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "bool",
+          "name": "_enabled",
+          "type": "bool"
+        }
+      ],
+      "name": "setAllowlistEnabled",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_collection",
+          "type": "address"
+        },
+        {
+          "internalType": "bool",
+          "name": "_blocked",
+          "type": "bool"
+        }
+      ],
+      "name": "setCollectionBlocked",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_collection",
+          "type": "address"
+        },
+        {
+          "internalType": "bool",
+          "name": "_enabled",
+          "type": "bool"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_fee",
+          "type": "uint256"
+        }
+      ],
+      "name": "setCollectionFee",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address[]",
+          "name": "_collections",
+          "type": "address[]"
+        },
+        {
+          "internalType": "bool",
+          "name": "_allowed",
+          "type": "bool"
+        }
+      ],
+      "name": "setCollectionsAllowed",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_timeout",
+          "type": "uint256"
+        }
+      ],
+      "name": "setDefaultTradeTimeout",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_account",
+          "type": "address"
+        },
+        {
+          "internalType": "bool",
+          "name": "_exempt",
+          "type": "bool"
+        }
+      ],
+      "name": "setFeeExempt",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_recipient",
+          "type": "address"
+        }
+      ],
+      "name": "setFeeRecipient",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_fee",
+          "type": "uint256"
+        }
+      ],
+      "name": "setFlatFee",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "bool",
+          "name": "_paused",
+          "type": "bool"
+        }
+      ],
+      "name": "setPaused",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "bool",
+          "name": "_enabled",
+          "type": "bool"
+        }
+      ],
+      "name": "setPermissionlessProposals",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_royaltyCapBps",
+          "type": "uint256"
+        }
+      ],
+      "name": "setRoyaltyCap",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "name": "trades",
+      "outputs": [
+        {
+          "internalType": "address",
+          "name": "fromAddress",
+          "type": "address"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "fromPayment",
+          "type": "tuple"
+        },
+        {
+          "internalType": "bool",
+          "name": "fromHasAgreed",
+          "type": "bool"
+        },
+        {
+          "internalType": "bool",
+          "name": "fromHasConfirmed",
+          "type": "bool"
+        },
+        {
+          "internalType": "address",
+          "name": "toAddress",
+          "type": "address"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "toPayment",
+          "type": "tuple"
+        },
+        {
+          "internalType": "bool",
+          "name": "toHasAgreed",
+          "type": "bool"
+        },
+        {
+          "internalType": "bool",
+          "name": "toHasConfirmed",
+          "type": "bool"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "idsRoot",
+              "type": "bytes32"
+            }
+          ],
+          "internalType": "struct NftSwapBase.OpenOfferCriteria",
+          "name": "wanted",
+          "type": "tuple"
+        },
+        {
+          "internalType": "uint256",
+          "name": "version",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "fee",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "createdAt",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "expiresAt",
+          "type": "uint256"
+        },
+        {
+          "internalType": "enum NftSwapBase.TradeStatus",
+          "name": "status",
+          "type": "uint8"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_newOwner",
+          "type": "address"
+        }
+      ],
+      "name": "transferOwnership",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "newImplementation",
+          "type": "address"
+        },
+        {
+          "internalType": "bytes",
+          "name": "data",
+          "type": "bytes"
+        }
+      ],
+      "name": "upgradeToAndCall",
+      "outputs": [],
+      "stateMutability": "payable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "name": "usedNonces",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "withdrawFees",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "withdrawPayments",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    }
+  ],
+  "bytecode": "0x6101a080604052346102335760208161642580380380916100208285610238565b83398101031261023357516001600160a01b038116810361023357604051610049604082610238565b6007815260208101906604e6674537761760cc1b82526040519161006e604084610238565b600183526020830191603160f81b835261008781610271565b6101205261009484610433565b61014052519020918260e05251902080610100524660a0526040519060208201927f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f8452604083015260608201524660808201523060a082015260a081526100fd60c082610238565b5190206080523060c0523061016052610180527ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a005460ff8160401c16610222576002600160401b03196001600160401b038216016101b9575b604051615e5390816105d2823960805181505060a05181505060c05181505060e0518150506101005181505061012051816113400152610140518161136a015261016051818181612b050152612bd5015261018051818181601a015261338a0152f35b6001600160401b0319166001600160401b039081177ff0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00556040519081527fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d290602090a138610156565b63f92ee8a960e01b60005260046000fd5b600080fd5b601f909101601f19168101906001600160401b0382119082101761025b57604052565b634e487b7160e01b600052604160045260246000fd5b90815160208110600014610309575090601f8151116102ad57602081519101516020821061029d571790565b6000198260200360031b1b161790565b6040519063305a27a960e01b8252602060048301528181519182602483015260005b8381106102f15750508160006044809484010152601f80199101168101030190fd5b602082820181015160448784010152859350016102cf565b6001600160401b03811161025b57600054600181811c91168015610429575b602082101461041357601f81116103de575b50602092601f821160011461037a579281929360009261036f575b50508160011b916000199060031b1c19161760005560ff90565b015190503880610355565b601f1982169360008052806000209160005b8681106103c657508360019596106103ad575b505050811b0160005560ff90565b015160001960f88460031b161c1916905538808061039f565b9192602060018192868501518155019401920161038c565b60008052601f6020600020910160051c810190601f830160051c015b818110610407575061033a565b600081556001016103fa565b634e487b7160e01b600052602260045260246000fd5b90607f1690610328565b908151602081106000146104bb575090601f81511161045f57602081519101516020821061029d571790565b6040519063305a27a960e01b8252602060048301528181519182602483015260005b8381106104a35750508160006044809484010152601f80199101168101030190fd5b60208282018101516044878401015285935001610481565b6001600160401b03811161025b57600154600181811c911680156105c7575b602082101461041357601f8111610591575b50602092601f821160011461052c5792819293600092610521575b50508160011b916000199060031b1c19161760015560ff90565b015190503880610507565b601f198216936001600052806000209160005b8681106105795750836001959610610560575b505050811b0160015560ff90565b015160001960f88460031b161c19169055388080610552565b9192602060018192868501518155019401920161053f565b6001600052601f6020600020910160051c810190601f830160051c015b8181106105bb57506104ec565b600081556001016105ae565b90607f16906104da56fe6080604052600436101561004f575b366000803760008036817f00000000000000000000000000000000000000000000000000000000000000005af43d6000803e1561004a573d6000f35b3d6000fd5b6000803560e01c806309ec6cc7146138755780630c63979b14613857578063120bf3041461380e578063148256bc1461362d57806316c38b3c146135b65780631e6c598e1461346557806323fa495a146133f857806329dd7995146133b95780632d5537b0146133745780632db03a62146133455780632db25e051461325e57806337a4cd62146131be578063398daa851461317f5780633ab95990146131465780633eaa00ae146130c35780634299bd1814613094578063439a95a814612fdd57806345bea87314612f5c57806345e8759b14612f005780634690484014612ed7578063476343ee14612d8c5780634f1ef28614612b5a57806352d1902d14612af2578063587f5ed714612ad457806358c24ded146126c45780635c975abb1461269e5780636103d70b146125c65780636a8a68941461257d57806378ea7771146114b157806379ba5097146113f357806384b0196e146113235780638b85a6dc146112125780638c884376146111ef5780638da5cb5b146111c65780638ebfc79614611137578063904cc92914610e1157806394c8e4ff14610dee57806397d7a49014610daf5780639887d9fd14610ce8578063a3031b7714610cca578063a754f87a14610cac578063ad3cb1cc14610c63578063bd2dee7714610878578063be46c28b1461080b578063c228c077146107c7578063c4d66de814610650578063d7644ba2146105e3578063d9eb5947146105c5578063dcc8a72e14610525578063e30c3978146104fc578063e3a22706146104b4578063e74b981b146103f7578063f2fde38b1461037e578063f3f43703146103455763f864784d146102b8575061000e565b34610342576040366003190112610342576102d1613c1c565b7fe0fe23cf345a395e16c37d76c18e6f0adcf72763366cadd79dc070778f67c81860206102fc613c46565b9261031260018060a01b03600954163314614209565b6001600160a01b0316808552600b825260408520805460ff191660ff86151516179055926040519015158152a280f35b80fd5b5034610342576020366003190112610342576020906040906001600160a01b0361036d613c1c565b168152601d83522054604051908152f35b503461034257602036600319011261034257610398613c1c565b6009546001600160a01b0316906103b0338314614209565b600a80546001600160a01b0319166001600160a01b03929092169182179055907f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227008380a380f35b503461034257602036600319011261034257610411613c1c565b61042660018060a01b03600954163314614209565b6001600160a01b03168015610477576020817f7a7b5a0a132f9e0581eb8527f66eae9ee89c2a3e79d4ac7e41a1f1f4d48a7fc2926001600160601b0360a01b600f541617600f55604051908152a180f35b60405162461bcd60e51b8152602060048201526015602482015274125b9d985b1a5908199959481c9958da5c1a595b9d605a1b6044820152606490fd5b50346103425760203660031901126103425760409081906001600160a01b036104db613c1c565b168152600d60205220600160ff825416910154825191151582526020820152f35b5034610342578060031936011261034257600a546040516001600160a01b039091168152602090f35b50346103425760203660031901126103425760043561054f60018060a01b03600954163314614209565b612710811161058a576020817fd6e678cb70dca1cad09d62883e6bc985adc5c8d45224655bd9409f2d0179092592601155604051908152a180f35b60405162461bcd60e51b81526020600482015260136024820152720496e76616c696420726f79616c74792063617606c1b6044820152606490fd5b50346103425780600319360112610342576020600c54604051908152f35b5034610342576020366003190112610342577f8797ceff52507921155b9fd95d66d5e357472079569c9790c22e72a4ee2e736e6020610620613c55565b61063560018060a01b03600954163314614209565b151560ff196014541660ff821617601455604051908152a180f35b50346103425760203660031901126103425761066a613c1c565b600080516020615dfe833981519152549060ff8260401c1615916001600160401b038116801590816107bf575b60011490816107b5575b1590816107ac575b5061079d5767ffffffffffffffff198116600117600080516020615dfe8339815191525582610770575b5060018060a01b0316806001600160601b0360a01b60095416176009556001600160601b0360a01b600f541617600f55610e106008556103e86011556107165780f35b68ff000000000000000019600080516020615dfe8339815191525416600080516020615dfe833981519152557fc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d2602060405160018152a180f35b68ffffffffffffffffff19166801000000000000000117600080516020615dfe83398151915255386106d3565b63f92ee8a960e01b8452600484fd5b905015386106a9565b303b1591506106a1565b849150610697565b503461034257606036600319011261034257600435906007821015610342576108076107f8604435602435856145dd565b60409391935193849384613ff8565b0390f35b5034610342576020366003190112610342577f07140dd8076f6fc2ed199dd275ceb7fd63211d7eeb3be46c517b64b45b5e86c66020610848613c55565b61085d60018060a01b03600954163314614209565b151560ff196007541660ff821617600755604051908152a180f35b50346103425761088736614115565b94919061089f60ff600a9695965460a01c1615614584565b6001601b546108b160ff821615614189565b60ff191617601b556108c660025488106141c6565b6108cf87613c64565b50601181015442119081610c21575b50610be8576108ec87613c64565b509560ff6012880154166007811015610bd457610b8f5786546001600160a01b03163314808015610b73575b15610b205715610aff57600587016001815461093760ff8216156153bf565b60ff19161790555b61094e8183858989898d614ed6565b6001870191825415600014610a565761096c9250838787878c6150c1565b60058501549160ff831680610a48575b6109b5575b8733887f4d1f01cf26f00694da1c91763a062b3a775364e84d15d847abcfe82672901c6f8380a360ff19601b5416601b5580f35b600f946109ca6109d2926109e4963691614479565b923691614479565b9160101c6001600160a01b0316614a43565b910155610a28600160126109f784613c64565b5001610a0f84610a0a60ff8454166145c4565b615bf2565b50610a2284610a1d846145c4565b615d0a565b5061470d565b610a3181615caf565b50610a3d600182615444565b388080808080610981565b5060ff600a8701541661097c565b610a8a610a9091610ab593610a6c368a8a614479565b91610a84610a7c80368b8f614479565b92369061540b565b92615a80565b926147b5565b610a9c600689016147b5565b610aa860028a01613d3d565b90610a8460078b01613d3d565b1461096c5760405162461bcd60e51b815260206004820152601860248201527f5472616465207465726d7320646f206e6f74206d6174636800000000000000006044820152606490fd5b600a870160018154610b1460ff8216156153bf565b60ff191617905561093f565b60405162461bcd60e51b815260206004820152602560248201527f4e6f7420617574686f72697a656420746f20616772656520746f207468697320604482015264747261646560d81b6064820152608490fd5b5060058801543360109190911c6001600160a01b031614610918565b60405162461bcd60e51b815260206004820152601e60248201527f5472616465206973206e6f7420696e2070726f706f73656420737461746500006044820152606490fd5b634e487b7160e01b8a52602160045260248afd5b60405162461bcd60e51b8152602060048201526011602482015270151c985919481a185cc8195e1c1a5c9959607a1b6044820152606490fd5b60ff915060120154166007811015610c4f578015908115610c44575b50386108de565b600191501438610c3d565b634e487b7160e01b89526021600452602489fd5b503461034257806003193601126103425750610807604051610c86604082613d1c565b60058152640352e302e360dc1b60208201526040519182916020835260208301906140d4565b50346103425780600319360112610342576020601154604051908152f35b50346103425780600319360112610342576020600254604051908152f35b503461034257610cf7366140be565b6040516348d7748960e11b8152600260048201526005602482018190526044820152600360648201526084810184905260a481019290925260c482015290808260e48173__$48826f07193b31935384e69d3987c3dc19$__5af4918215610da257818093610d7b575b5050610807610d6e826149b8565b9260405193849384613ff8565b909150610d9a92503d8091833e610d928183613d1c565b810190614377565b903880610d60565b50604051903d90823e3d90fd5b50346103425760203660031901126103425760209060ff906040906001600160a01b03610dda613c1c565b168152601584522054166040519015158152f35b5034610342578060031936011261034257602060ff601454166040519015158152f35b503461034257610e2036614115565b90610e3660ff600a9794975460a01c1615614584565b6001601b54610e4860ff821615614189565b60ff191617601b55610e5d60025488106141c6565b610e6687613c64565b50601181015442119081611109575b50610be857610e8387613c64565b5095601287019460ff86541660078110156110f55780159081156110ea575b50156110a65787546001600160a01b03163314801561108a575b15611039578685610f358686868f8f9d8f9c60ff9f9d610f30610f3b9f8c95610ee482614725565b60058401805461ff0019908116909155600a850180549091169055600f8401558254610f19906001600160a01b031682615281565b600583015460101c6001600160a01b031690615281565b614ed6565b8a6150c1565b610f5f60018060a01b038454163314600585019060ff801983541691151516179055565b610f8960018060a01b03600585015460101c163314600a85019060ff801983541691151516179055565b5416600781101561102557906001600e9214610fdc575b0154906040519182527f2b206f766f9f3c473f2425a5af8f97b7dbd95b22f14a3c23c8e356034c1f390260203393a360ff19601b5416601b5580f35b61100c846012610feb86613c64565b5001610ffe86610a0a60ff8454166145c4565b50610a2286610a1d846145c4565b61101583615caf565b506110208484615444565b610fa0565b634e487b7160e01b84526021600452602484fd5b60405162461bcd60e51b8152602060048201526024808201527f4e6f7420617574686f72697a656420746f20636f756e746572207468697320746044820152637261646560e01b6064820152608490fd5b5060058801543360109190911c6001600160a01b031614610ebc565b606460405162461bcd60e51b815260206004820152602060248201527f54726164652063616e206e6f206c6f6e67657220626520636f756e74657265646044820152fd5b600191501438610ea2565b634e487b7160e01b8b52602160045260248bfd5b60ff915060120154166007811015610c4f57801590811561112c575b5038610e75565b600191501438611125565b5034610342576040366003190112610342577f69e34a174b4a0cce59950c4c852317e9797bdcae125fbf8b5dd8b4311384412f6040611174613c1c565b61117c613c46565b9061119260018060a01b03600954163314614209565b6001600160a01b0316808552600e602052828520805460ff191660ff8415151617905590825191825215156020820152a180f35b50346103425780600319360112610342576009546040516001600160a01b039091168152602090f35b5034610342578060031936011261034257602060ff600754166040519015158152f35b50346103425760603660031901126103425761122c613c1c565b611234613c46565b906044359061124e60018060a01b03600954163314614209565b821561131c57815b604051604081018181106001600160401b0382111761130857917fc837e5281ba282176b3d8bbdf6df0e8be2bca528f9112c0546b88489ff8735789593916080959360405260018515159384835260208301958652818060a01b031694858a52600d6020526112d860408b2093511515849060ff801983541691151516179055565b51910155600c54931561130057915b604051938452602084015260408301526060820152a180f35b5085916112e7565b634e487b7160e01b87526041600452602487fd5b8391611256565b50346103425780600319360112610342576113c6906108076113647f0000000000000000000000000000000000000000000000000000000000000000615885565b9161138e7f00000000000000000000000000000000000000000000000000000000000000006159ae565b6113d4604051916113a0602084613d1c565b8383526000368137604051968796600f60f81b885260e0602089015260e08801906140d4565b9086820360408801526140d4565b9146606086015230608086015260a085015283820360c0850152613fc4565b5034610342578060031936011261034257600a546001600160a01b038116330361146157600954336001600160a01b0382167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08580a36001600160a01b0319908116331760095516600a5580f35b60405162461bcd60e51b815260206004820152602260248201527f4e6f7420617574686f72697a656420746f20616363657074206f776e65727368604482015261069760f41b6064820152608490fd5b506114bb366140be565b906114ce60ff600a5460a01c1615614584565b6001601b546114e060ff821615614189565b60ff191617601b556114f560025482106141c6565b6114fe81613c64565b5060118101544211908161254f575b50610be85761151b81613c64565b509160ff601284015416600781101561253b576001036124f657600e830154036124b15781546001600160a01b0316903382148015612495575b156124445773__$48826f07193b31935384e69d3987c3dc19$__926115b360206115836001840195856157c8565b6040516309c07d2b60e31b8152600481018790526001600160a01b03909116602482015291829081906044820190565b0381885af49081156122f9578691612425575b5080612398575b1561235b578054336001600160a01b0390911603612304578054604051634bb5358d60e01b8152600481018590526001600160a01b039091166024820152602081604481885af480156122f95761162b9187916122da575b506151ed565b600281015b60028101548015908115612250575b501561220c578154869190336001600160a01b03909116036121e65760058301610100815461167460ff8260081c1615615235565b61ff0019161790555b33847f4886270d3c681c8373359d1cfafb1a549453e43e452ce59a9eae87f8a23e50be8480a3549360ff6116d86116d3600586019760018060a01b03895460101c1633146000146121df57600f8701549061442a565b61583d565b955460081c1692836121cd575b8361216c575b848352601960205260ff60408420541661207a575b505050611720575b836117138333615525565b60ff19601b5416601b5580f35b61172d60025482106141c6565b61173681613c64565b509260ff6012850154166007811015612066576002036120215783546001600160a01b031633148015612005575b15611fb457600184019060405163e8d74cd360e01b8152826004820152600b6024820152602081604481855af4908115611c2b578791611f95575b501580611f3a575b15611efd5784546001600160a01b0316916117c283856157c8565b9160058701936117de60018060a01b03865460101c16876157c8565b868a52601a60208181526040808d206001600160a01b039586166000908152908352818120805460ff199081169091558b8f52938352818e208a5460101c87168252909252902080549091169055908416933085148015611e9d575b15611e54576001600160a01b038216903082148015611de7575b15611d9c576040516309c07d2b60e31b8152600481018690526001600160a01b03919091166024820152602081604481875af4908115611d1f578b91611d7d575b5015611d2a576040516309c07d2b60e31b815260068a01600482018190526001600160a01b03939093166024820152602081604481875af4908115611d1f578b91611cf0575b5015611c99578994611914600460126118f38b613c64565b50016119068b610a0a60ff8454166145c4565b50610a228b610a1d846145c4565b8515611c8a5761192388615caf565b505b611930600489615444565b600f8a01805480611c3a575b5050878652601660205260ff604087205416159060018060a01b03885460101c16853b15611c3657604051916389da047d60e01b83528760048401526024830152604482015281606482015260a06084820152601b60a48201527f4f666665726564204e4654207472616e73666572206661696c6564000000000060c4820152868160e481885af4908115611c2b578791611c16575b505089546001600160a01b0316843b15611bee57604051926389da047d60e01b845284600485015260248401526044830152606482015260a06084820152601d60a48201527f526571756573746564204e4654207472616e73666572206661696c656400000060c4820152848160e481865af4908115611c0b578591611bf2575b505087548554601154916001600160a01b0360109290921c82169116843b15611bee576040516304a8dc4760e41b8152600481018a905260028c01602482015260448101949094526001600160a01b03908116606485015216608483015260a4820152601d60c4820152838160e481855af4908115611be3578491611bca575b505060018060a01b03845460101c1660018060a01b0388541691601154813b15611bc6576040516304a8dc4760e41b81526004810189905260078b01602482015260448101959095526001600160a01b03928316606486015291909216608484015260a4830152601d60c483015282908290818060e4810103915af48015611bbb57611ba2575b505092549254611713936001600160a01b0360109290921c8216929116907fae436b722ba7f0cd367d78080be85baaf95995bee18262492be03bb5f08d89f78680a438611708565b81611bac91613d1c565b611bb7578438611b5a565b8480fd5b6040513d84823e3d90fd5b8580fd5b81611bd491613d1c565b611bdf578238611ad3565b8280fd5b6040513d86823e3d90fd5b8680fd5b81611bfc91613d1c565b611c07578338611a53565b8380fd5b6040513d87823e3d90fd5b81611c2091613d1c565b611bc65785386119d2565b6040513d89823e3d90fd5b8780fd5b611c469060105461442a565b601055887f6fe296e805108cd514fea415210be4016149b01eeb08effbe130951b6a5f6c0b602060018060a01b038b5460101c169354604051908152a3388061193c565b611c9388615b21565b50611925565b60405162461bcd60e51b815260206004820152602960248201527f5265636569766572206e6f206c6f6e676572206f776e73207468652072657175604482015268195cdd19590813919560ba1b6064820152608490fd5b611d12915060203d602011611d18575b611d0a8183613d1c565b810190614284565b386118db565b503d611d00565b6040513d8d823e3d90fd5b60405162461bcd60e51b815260206004820152602560248201527f53656e646572206e6f206c6f6e676572206f776e7320746865206f6666657265604482015264190813919560da1b6064820152608490fd5b611d96915060203d602011611d1857611d0a8183613d1c565b38611895565b60405162461bcd60e51b815260206004820152602f6024820152600080516020615dde83398151915260448201526e1c881c995c5d595cdd195908139195608a1b6064820152608490fd5b50604051634bb5358d60e01b815260068b0160048201526001600160a01b0384166024820152602081604481885af4908115611e49578c91611e2a575b50611854565b611e43915060203d602011611d1857611d0a8183613d1c565b38611e24565b6040513d8e823e3d90fd5b60405162461bcd60e51b815260206004820152602d6024820152600080516020615dde83398151915260448201526c1c881bd999995c995908139195609a1b6064820152608490fd5b50604051634bb5358d60e01b8152600481018590526001600160a01b0382166024820152602081604481875af4908115611d1f578b91611ede575b5061183a565b611ef7915060203d602011611d1857611d0a8183613d1c565b38611ed8565b60405162461bcd60e51b815260206004820152601560248201527410dbdb1b1958dd1a5bdb881a5cc8189b1bd8dad959605a1b6044820152606490fd5b5060405163e8d74cd360e01b8152600686016004820152600b6024820152602081604481855af4908115611c2b578791611f76575b50156117a7565b611f8f915060203d602011611d1857611d0a8183613d1c565b38611f6f565b611fae915060203d602011611d1857611d0a8183613d1c565b3861179f565b60405162461bcd60e51b8152602060048201526024808201527f4e6f7420617574686f72697a656420746f2065786563757465207468697320746044820152637261646560e01b6064820152608490fd5b5060058401543360109190911c6001600160a01b031614611764565b60405162461bcd60e51b815260206004820152601f60248201527f5472616465206973206e6f7420696e20636f6e6669726d6564207374617465006044820152606490fd5b634e487b7160e01b86526021600452602486fd5b848352601a602090815260408085203360008181529190935220805460ff1916600117905581546001600160a01b03160361216257505b853b1561215e57604051906389da047d60e01b825260048201523360248201523060448201526001606482015260a06084820152601160a48201527013919508195cd8dc9bddc819985a5b1959607a1b60c4820152818160e481895af48015611bbb57612149575b505033827fe1cc828c88fe406baf20a5c04c8c1ab1928e34dcca4722d617e619c0c22d5fe68780a3843880611700565b8161215391613d1c565b611bb7578438612119565b5080fd5b60069150016120b1565b61219d6002601261217c88613c64565b500161218f88610a0a60ff8454166145c4565b50610a2288610a1d846145c4565b82156121be576121ac85615caf565b505b6121b9600286615444565b6116eb565b6121c785615b21565b506121ae565b600a81015460081c60ff1693506116e5565b859061442a565b600a830161010081546121ff60ff8260081c1615615235565b61ff00191617905561167d565b60405162461bcd60e51b81526020600482015260286024820152600080516020615dde8339815191526044820152677220746f6b656e7360c01b6064820152608490fd5b6001830154604051636eb1769f60e11b8152336004820152306024820152919250602090829060449082906001600160a01b03165afa9081156122cf57889161229d575b5010153861163f565b90506020813d6020116122c7575b816122b860209383613d1c565b81010312611c36575138612294565b3d91506122ab565b6040513d8a823e3d90fd5b6122f3915060203d602011611d1857611d0a8183613d1c565b38611625565b6040513d88823e3d90fd5b6005810154604051634bb5358d60e01b815260068301600482015260109190911c6001600160a01b03166024820152602081604481885af480156122f9576123529187916122da57506151ed565b60078101611630565b60405162461bcd60e51b8152602060048201526015602482015274139195081bdddb995c9cda1a5c0818da185b99d959605a1b6044820152606490fd5b5060058101546123ed906020906123bb9060101c6001600160a01b0316856157c8565b6040516309c07d2b60e31b81526006850160048201526001600160a01b03909116602482015291829081906044820190565b0381885af49081156122f9578691612406575b506115cd565b61241f915060203d602011611d1857611d0a8183613d1c565b38612400565b61243e915060203d602011611d1857611d0a8183613d1c565b386115c6565b60405162461bcd60e51b8152602060048201526024808201527f4e6f7420617574686f72697a656420746f20636f6e6669726d207468697320746044820152637261646560e01b6064820152608490fd5b5060058301543360109190911c6001600160a01b031614611555565b60405162461bcd60e51b815260206004820152601860248201527f5472616465207465726d732068617665206368616e67656400000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601c60248201527f5472616465206973206e6f7420696e20616772656564207374617465000000006044820152606490fd5b634e487b7160e01b85526021600452602485fd5b60ff915060120154166007811015611025578015908115612572575b503861150d565b60019150143861256b565b50346103425760403660031901126103425760209060ff906040906001600160a01b036125a8613c1c565b16815260128452818120602435825284522054166040519015158152f35b50346103425780600319360112610342576001601b546125e960ff821615614189565b60ff191617601b55338152601d6020526040812054801561266457338252601d60205281604081205561262b8280808085335af1612625614512565b50614542565b6040519081527f84511ecc081974f18e7f3e0dcc19db078b55bbd3852ddd0dd85b3aebb7bf94c260203392a260ff19601b5416601b5580f35b60405162461bcd60e51b81526020600482015260126024820152714e6f20524f4e20746f20776974686472617760701b6044820152606490fd5b5034610342578060031936011261034257602060ff600a5460a01c166040519015158152f35b503461034257610160366003190112610342576126df613c1c565b906126e8613c01565b906044356001600160401b03811161215e57612708903690600401614073565b6064949194356001600160401b038111611c075761272a903690600401614073565b9290946060608319360112611bb75760603660e3190112611bb7579061276e916001601b5461275c60ff821615614189565b60ff191617601b556101443591614b64565b9361277885613c64565b50805460145473__$48826f07193b31935384e69d3987c3dc19$__9592916001600160a01b03169060ff16863b15611c36578960406127d4938a93825195869463905fab2360e01b865260c060048701528b60c4870191614e60565b91602485015276165bdd48191bc81b9bdd081bdddb881d1a1a5cc8139195604a1b60208584039360031985016044880152601781520152600b606485015260156084850152151560a48401520181895af48015611c2b57612abf575b506005019360018060a01b03855460101c169060ff60145416813b15611c3657918791606093604051948593849263905fab2360e01b845260c0600485015261287d60c485018a8c614e60565b9160248501526b72676574206164647265737360a01b60408584039360031985016044880152602c81527f526571756573746564204e4654206973206e6f74206f776e656420627920746160208201520152600b606485015260156084850152151560a484015201915af480156122f957908691612aaa575b50506129026084615622565b61290c60e4615622565b61291586613c64565b506129248489600184016156ae565b6129328284600684016156ae565b608435600282015560a4356001600160a01b0381168103611bee576003820180546001600160a01b0319166001600160a01b0392831617905560c435600483015560e4356007830155610104359081168103611bee576008820180546001600160a01b0319166001600160a01b03909216919091179055610124356009820155600e0180546000198114612a96577f248e05570a21674378045f7cc916f572cc1c2ffd3fd0f1ef63373d6e8bf7dd9f93602099938996936001612a1894019055612a0b6040519586956101008752610100870191614e60565b918483038c860152614e60565b612a26604083016084615097565b612a3460a0830160e4615097565b0390a26009546001600160a01b03163303612a5e575b505060ff19601b5416601b55604051908152f35b600160ff19825416179055817f4d1f01cf26f00694da1c91763a062b3a775364e84d15d847abcfe82672901c6f339280a33880612a4a565b634e487b7160e01b87526011600452602487fd5b81612ab491613d1c565b611bb75784386128f6565b95612acd8160059398613d1c565b9590612830565b50346103425780600319360112610342576020601054604051908152f35b50346103425780600319360112610342577f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03163003612b4b576020604051600080516020615dbe8339815191528152f35b63703e46dd60e11b8152600490fd5b50604036600319011261034257612b6f613c1c565b602435906001600160401b038211611bdf5736602383011215611bdf5781600401359083612b9c836140a3565b93612baa6040519586613d1c565b83855260208501933660248284010111611bdf57806024602093018637850101526001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016308114908115612d69575b50612d5a57612c1a60018060a01b03600954163314614209565b6040516352d1902d60e01b81526001600160a01b0382169390602081600481885afa869181612d26575b50612c5d57634c9c8ce360e01b86526004859052602486fd5b9384600080516020615dbe833981519152879603612d145750823b15612d0257600080516020615dbe83398151915280546001600160a01b031916821790558491907fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b8380a2805115612ce757612ce39382915190845af4612cdd614512565b91615d5c565b5080f35b5050505034612cf35780f35b63b398979f60e01b8152600490fd5b634c9c8ce360e01b8552600452602484fd5b632a87526960e21b8652600452602485fd5b9091506020813d602011612d52575b81612d4260209383613d1c565b81010312611bee57519038612c44565b3d9150612d35565b63703e46dd60e11b8452600484fd5b600080516020615dbe833981519152546001600160a01b03161415905038612c00565b50346103425780600319360112610342576001601b54612daf60ff821615614189565b60ff191617601b556009546001600160a01b031633148015612ec3575b15612e7e576010548015612e435760407fc0819c13be868895eb93e40eaceb96de976442fa1d404e5c55f14bb65a8c489a9183601055612e1f848080808560018060a01b03600f54165af1612625614512565b60018060a01b03600f54169082519182526020820152a160ff19601b5416601b5580f35b60405162461bcd60e51b81526020600482015260136024820152724e6f206665657320746f20776974686472617760681b6044820152606490fd5b60405162461bcd60e51b815260206004820152601f60248201527f4e6f7420617574686f72697a656420746f2077697468647261772066656573006044820152606490fd5b50600f546001600160a01b03163314612dcc565b5034610342578060031936011261034257600f546040516001600160a01b039091168152602090f35b5034610342576060366003190112610342576020612f4a612f1f613c1c565b612f27613c01565b6001601b54612f3960ff821615614189565b60ff191617601b5560443591614b64565b60ff19601b5416601b55604051908152f35b503461034257606036600319011261034257612f76613c1c565b906024356001600160401b03811161215e57612f96903690600401614073565b9091604435906001600160401b038211610342576020612fd58686612fcf876109ca612fc53660048b01614073565b9490923691614479565b91614a43565b604051908152f35b50346103425760203660031901126103425760043561300760018060a01b03600954163314614209565b61012c81101580613087575b1561304a576020817fa4127e0c6992c783259ac7bfc9f4f75be878e26d1f6e8f106c3e64ece4783e9692600855604051908152a180f35b60405162461bcd60e51b8152602060048201526015602482015274125b9d985b1a59081d1c985919481d1a5b595bdd5d605a1b6044820152606490fd5b5062278d00811115613013565b50346103425760203660031901126103425760ff60406020926004358152601684522054166040519015158152f35b5034610342576060366003190112610342576130dd613c1c565b6001600160a01b031681526003602052604081208054909160243561310d6131086044358386614988565b6143f8565b915b8251811015610d60578061312e6131286001938561442a565b8761444d565b90549060031b1c61313f8286614465565b520161310f565b5034610342576020366003190112610342576020906040906001600160a01b0361316e613c1c565b168152601383522054604051908152f35b50346103425760203660031901126103425760209060ff906040906001600160a01b036131aa613c1c565b168152600e84522054166040519015158152f35b50346103425780600319360112610342576040516348d7748960e11b8152600260048201526005602482015260056044820152600360648201528160848201528160a48201528160c4820152818160e48173__$48826f07193b31935384e69d3987c3dc19$__5af4908115611bbb578260209392613241575b5050604051908152f35b61325592503d8091833e610d928183613d1c565b90503880613237565b503461034257602036600319011261034257613319906040600435916132826142bb565b50806080835161329181613c99565b828152826020820152828582015282606082015201526132b08361484e565b928152601c60205220604051906132c682613c99565b805482526001810154906020830191825260028101546040840190815260038201549160608501928352600460018060a01b0391015416926080850193845260405196879660c0885260c0880190613e93565b94516020870152516040860152516060850152516080840152516001600160a01b031660a08301520390f35b50346103425760203660031901126103425760ff60406020926004358152601984522054166040519015158152f35b50346103425780600319360112610342576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50346103425760203660031901126103425760209060ff906040906001600160a01b036133e4613c1c565b168152600b84522054166040519015158152f35b5034610342576020366003190112610342577fc837e5281ba282176b3d8bbdf6df0e8be2bca528f9112c0546b88489ff873578608060043561344560018060a01b03600954163314614209565b80600c55604051908152836020820152836040820152836060820152a180f35b50346103425760203660031901126103425760043560025481101561215e5761348d90613c64565b5080546001600160a01b0316906134a660028201613d3d565b906005810154600782016134b990613d3d565b600a8301546134ca600b8501613d90565b600e85015491600f860154936010870154956011880154976012015460ff16986040519a8b5260208b0161351991604080918051845260018060a01b0360208201511660208501520151910152565b60ff818116151560808c0152600882901c16151560a08b015260101c6001600160a01b0390811660c08b0152815160e08b01526020820151166101008a01526040015161012089015260ff8116151561014089015260081c60ff161515610160880152610180870161358a91613de0565b61020086015261022085015261024084015261026083015261028082016135b091613e13565b6102a090f35b5034610342576020366003190112610342577f31311016d7204faff81880133e3db244ae8a8b9ce15e83e2432258226d15f94260206135f3613c55565b61360860018060a01b03600954163314614209565b1515600a5460ff60a01b8260a01b169060ff60a01b191617600a55604051908152a180f35b5034610342576040366003190112610342576004356001600160401b03811161215e573660238201121561215e578060040135906001600160401b038211611bdf576024810190602436918460051b010111611bdf5761368b613c46565b6136a060018060a01b03600954163314614209565b83908015928315925b8581106136b4578680f35b8484613793575b15613744576001906001600160a01b036136de6136d9838a87614260565b614270565b16885260156020526136ff8460408a209060ff801983541691151516179055565b818060a01b036137136136d9838a87614260565b167f8e126a47b437302983a8b9dacd479107a4a0c454319d81cc32896617e897cede6020604051888152a2016136a9565b60405162461bcd60e51b815260206004820152602160248201527f436f6c6c656374696f6e206973206e6f7420616e204e465420636f6e747261636044820152601d60fa1b6064820152608490fd5b506137a26136d9828885614260565b604051631e87c73760e21b81526001600160a01b03909116600482015260208160248173__$48826f07193b31935384e69d3987c3dc19$__5af49081156122cf5788916137f0575b506136bb565b613808915060203d8111611d1857611d0a8183613d1c565b386137ea565b50346103425760403660031901126103425760ff604060209261382f613c01565b6004358252601a85528282206001600160a01b03909116825284522054604051911615158152f35b50346103425780600319360112610342576020600854604051908152f35b503461034257602036600319011261034257600435906001601b5461389d60ff821615614189565b60ff191617601b556138b260025483106141c6565b6138bb82613c64565b5080546001600160a01b0316331490818015613be5575b8015613bd1575b15613b805760ff6012820154166007811015611025578015908115613b75575b5015613b315760095460039290336001600160a01b0390911603613af457604051613925604082613d1c565b601281527121b0b731b2b63632b210313c9037bbb732b960711b60208201525b9160118101544211600014613a565750505050600591604051613969604082613d1c565b6011815270151c985919481a185cc8195e1c1a5c9959607a1b60208201525b6139b884601261399785613c64565b50016139aa85610a0a60ff8454166145c4565b50610a2285610a1d846145c4565b6007841015613a42576139e8846117139495158015613a38575b15613a29576139e084615caf565b505b83615444565b817fda7ee75fd27014f6e93c0c17c3e137308b15a51d810149a812280252d8707fe16040516020815280613a21339560208301906140d4565b0390a3614725565b613a3284615b21565b506139e2565b50600181146139d2565b634e487b7160e01b83526021600452602483fd5b92949281613ae4575b8115613aaf575b501561398857509150600691604051613a80604082613d1c565b601781527f52656a6563746564206279207061727469636970616e740000000000000000006020820152613988565b60058101543360109190911c6001600160a01b031614915081613ad4575b5038613a66565b60ff9150600a0154161538613acd565b600581015460ff16159150613a5f565b604051613b02604082613d1c565b601881527f43616e63656c6c6564206279207061727469636970616e7400000000000000006020820152613945565b606460405162461bcd60e51b815260206004820152602060248201527f54726164652063616e206e6f206c6f6e6765722062652063616e63656c6c65646044820152fd5b6001915014386138f9565b60405162461bcd60e51b815260206004820152602360248201527f4e6f7420617574686f72697a656420746f2063616e63656c207468697320747260448201526261646560e81b6064820152608490fd5b506009546001600160a01b031633146138d9565b5060058101543360109190911c6001600160a01b0316146138d2565b602435906001600160a01b0382168203613c1757565b600080fd5b600435906001600160a01b0382168203613c1757565b35906001600160a01b0382168203613c1757565b602435908115158203613c1757565b600435908115158203613c1757565b600254811015613c835760026000526013602060002091020190600090565b634e487b7160e01b600052603260045260246000fd5b60a081019081106001600160401b03821117613cb457604052565b634e487b7160e01b600052604160045260246000fd5b606081019081106001600160401b03821117613cb457604052565b608081019081106001600160401b03821117613cb457604052565b61020081019081106001600160401b03821117613cb457604052565b90601f801991011681019081106001600160401b03821117613cb457604052565b90604051613d4a81613cca565b8254815260018301546001600160a01b031660208201526002909201546040830152565b6002821015613d7a5752565b634e487b7160e01b600052602160045260246000fd5b90604051613d9d81613ce5565b606060028294613dc260ff825460018060a01b038116875260a01c1660208601613d6e565b600181015460408501520154910152565b906002821015613d7a5752565b6060809160018060a01b038151168452613e0260208201516020860190613dd3565b604081015160408501520151910152565b906007821015613d7a5752565b90606060809260018060a01b03815116835260208101516020840152613e4e60408201516040850190613dd3565b015160608201520190565b906020808351928381520192019060005b818110613e775750505090565b9091926020613e896001928651613e20565b9401929101613e6a565b90613fc19060018060a01b0383511681526102c06101e0613f2b613ec860208701516102e060208701526102e0860190613e59565b60408781015180518783015260208101516001600160a01b03166060880152015160808601526060870151151560a08601526080870151151560c086015260018060a01b0360a08801511660e086015260c0870151858203610100870152613e59565b60e0860151805161012086015260208101516001600160a01b03166101408601526040015161016085015294610100810151151561018085015261012081015115156101a0850152613f876101408201516101c0860190613de0565b6101608101516102408501526101808101516102608501526101a08101516102808501526101c08101516102a08501520151910190613e13565b90565b906020808351928381520192019060005b818110613fe25750505090565b8251845260209384019390920191600101613fd5565b9392919061400e90606086526060860190613fc4565b908482036020860152805180835260208301926020808360051b8301019301936000915b838310614046575050505060409150930152565b90919293602080614063600193601f198682030187528951613e93565b9701930193019194939290614032565b9181601f84011215613c17578235916001600160401b038311613c17576020808501948460071b010111613c1757565b6001600160401b038111613cb457601f01601f191660200190565b6040906003190112613c17576004359060243590565b919082519283825260005b848110614100575050826000602080949584010152601f8019910116010190565b806020809284010151828286010152016140df565b610120600319820112613c1757600435916024356001600160401b038111613c17578261414491600401614073565b929092916044356001600160401b038111613c17578261416691600401614073565b909290916060606319830112613c1757606060649260c3190112613c175760c490565b1561419057565b60405162461bcd60e51b815260206004820152600e60248201526d1499595b9d1c985b9d0818d85b1b60921b6044820152606490fd5b156141cd57565b60405162461bcd60e51b8152602060048201526014602482015273151c98591948191bd95cc81b9bdd08195e1a5cdd60621b6044820152606490fd5b1561421057565b60405162461bcd60e51b815260206004820152602260248201527f4f6e6c79206f776e65722063616e20706572666f726d2074686973206163746960448201526137b760f11b6064820152608490fd5b9190811015613c835760051b0190565b356001600160a01b0381168103613c175790565b90816020910312613c1757518015158103613c175790565b604051906142a982613cca565b60006040838281528260208201520152565b604051906142c882613d00565b60006101e083828152606060208201526142e061429c565b60408201528260608201528260808201528260a0820152606060c082015261430661429c565b60e0820152826101008201528261012082015260405161432581613ce5565b8381528360208201528360408201528360608201526101408201528261016082015282610180820152826101a0820152826101c08201520152565b6001600160401b038111613cb45760051b60200190565b9190604083820312613c175782516001600160401b038111613c175783019080601f83011215613c175781516143ac81614360565b926143ba6040519485613d1c565b81845260208085019260051b820101928311613c1757602001905b8282106143e85750505060209092015190565b81518152602091820191016143d5565b9061440282614360565b61440f6040519182613d1c565b8281528092614420601f1991614360565b0190602036910137565b9190820180921161443757565b634e487b7160e01b600052601160045260246000fd5b8054821015613c835760005260206000200190600090565b8051821015613c835760209160051b010190565b92919261448582614360565b936144936040519586613d1c565b602085848152019260071b820191818311613c1757925b8284106144b75750505050565b608084830312613c1757604051906144ce82613ce5565b6144d785613c32565b8252602085013560208301526040850135906002821015613c17578260209260406080950152606087013560608201528152019301926144aa565b3d1561453d573d90614523826140a3565b916145316040519384613d1c565b82523d6000602084013e565b606090565b1561454957565b60405162461bcd60e51b81526020600482015260136024820152721493d3881d1c985b9cd9995c8819985a5b1959606a1b6044820152606490fd5b1561458b57565b60405162461bcd60e51b8152602060048201526011602482015270151c98591a5b99c81a5cc81c185d5cd959607a1b6044820152606490fd5b6007811015613d7a576000526004602052604060002090565b919290926007831015613d7a576001831b93600360238616156146a557506005614606856145c4565b94600096604051966348d7748960e11b8852600260048901526024880152826044880152606487015214608485015260a484015260c4830152828260e48173__$48826f07193b31935384e69d3987c3dc19$__5af491821561469a57838093614679575b5050614675836149b8565b9190565b9091935061469192503d8091833e610d928183613d1c565b9091388061466a565b6040513d85823e3d90fd5b92936146b3919295506145c4565b906146c46131088354968388614988565b9460005b86518110156146fe57806146e76146e16001938661442a565b8661444d565b905490871b1c6146f7828a614465565b52016146c8565b509392505050614675836149b8565b906007811015613d7a5760ff80198354169116179055565b61472e81613c64565b50600581019160ff835460081c1661478c575b60ff600a83015460081c1661475557505050565b6147736147849161478a9460018060a01b03905460101c16906154c0565b91600f60078201549101549061442a565b90615525565b565b81546147b0906147a5906001600160a01b0316836154c0565b600284015490615525565b614741565b9081546147c181614360565b926147cf6040519485613d1c565b818452602084019060005260206000206000915b8383106147f05750505050565b6004602060019260405161480381613ce5565b848060a01b038654168152848601548382015261482a60ff60028801541660408301613d6e565b600386015460608201528152019201920191906147e3565b6007821015613d7a5752565b906148576142bb565b5061478a61486483613c64565b5061497561496f60ff60126040519461487c86613d00565b80546001600160a01b03168652614895600182016147b5565b60208701526148a660028201613d3d565b6040870152600581015483811615156060880152600881901c84161515608088015260101c6001600160a01b031660a08701526148e5600682016147b5565b60c08701526148f660078201613d3d565b60e087015282600a820154818116151561010089015260081c161515610120870152614924600b8201613d90565b610140870152600e810154610160870152600f81015461018087015260108101546101a087015260118101546101c0870152015416926149696101e082019485614842565b95613c64565b5061559c565b90614842565b9190820391821161443757565b808210156149b0578261499b838361497b565b10156149ab57613fc1925061497b565b505090565b505050600090565b8051906149c482614360565b916149d26040519384613d1c565b8083526149e1601f1991614360565b0160005b818110614a2c57505060005b81518110156149ab5780614a10614a0a60019385614465565b5161484e565b614a1a8286614465565b52614a258185614465565b50016149f1565b602090614a376142bb565b828287010152016149e5565b6001600160a01b03166000908152600e602052604090205491929160ff16614b5d5760009283918491855b8251811015614ad5576001600160a01b03614a898285614465565b5151168752600d6020526040872060ff81541680614ac0575b614ab0575b50600101614a6e565b6001908101549550935083614aa7565b50841580614aa2575085600182015411614aa2565b5094505060009360005b8151811015614b46576001600160a01b03614afa8284614465565b5151168652600d6020526040862060ff81541680614b31575b614b21575b50600101614adf565b6001908101549450925082614b18565b50831580614b13575084600182015411614b13565b505090919250600014614b565790565b50600c5490565b5060009150565b91614b7760ff600a5460a01c1615614584565b80929160018060a01b036009541691823303614df9575b6001600160a01b03828116941692838514614db457808414159081614da9575b5015614d655715614d51575b61012c42018042116144375784101580614d3b575b15614cfd57600254600160401b811015613cb4578491614bf782600160119401600255613c64565b5080546001600160a01b0319168517815560058101805462010000600160b01b031916601093841b62010000600160b01b031617905542918101919091550155600254600019810193908411614437577f341a69b9dfb20475f65d539fbec01353bf978b8a56e1588d59fad8ad57b146ee602085926012614c7785613c64565b5060018060a01b0381541660005260038452614c978660406000206155e5565b600581015460101c6001600160a01b031680614ce2575b500160ff198154169055614ccd84604060008080526004865220615d0a565b50614cd784615caf565b50604051908152a490565b60005260038452614cf78660406000206155e5565b38614cae565b60405162461bcd60e51b8152602060048201526016602482015275496e76616c696420747261646520646561646c696e6560501b6044820152606490fd5b5062278d00420180421161443757841115614bcf565b9250614d5f6008544261442a565b92614bba565b606460405162461bcd60e51b815260206004820152602060248201527f43616e6e6f74207472616465207769746820636f6e7472616374206f776e65726044820152fd5b905084141538614bae565b60405162461bcd60e51b815260206004820152601a60248201527f43616e6e6f74207472616465207769746820796f757273656c660000000000006044820152606490fd5b925060ff6007541615614e0d573392614b8e565b60405162461bcd60e51b815260206004820152602560248201527f5065726d697373696f6e6c6573732070726f706f73616c73206172652064697360448201526418589b195960da1b6064820152608490fd5b916020908281520191906000905b808210614e7b5750505090565b91929091906001600160a01b03614e9185613c32565b168152602084013560208201526040840135906002821015613c1757608081614ec1600194604084950190613dd3565b60608701356060820152019401920190614e6e565b9390919373__$48826f07193b31935384e69d3987c3dc19$__9281549560009660ff60145416863b1561509357889291604091614f2c835196879563905fab2360e01b875260c0600488015260c4870191614e60565b9160018060a01b0316602485015276165bdd48191bc81b9bdd081bdddb881d1a1a5cc8139195604a1b60208584039360031985016044880152601781520152600b606485015260156084850152151560a48401520181875af480156122f95761507f575b506005015460145460109190911c6001600160a01b03169060ff16833b15611bc657916060869492614fe09694604051978896879563905fab2360e01b875260c0600488015260c4870191614e60565b9160248501526b72676574206164647265737360a01b60408584039360031985016044880152602c81527f526571756573746564204e4654206973206e6f74206f776e656420627920746160208201520152600b606485015260156084850152151560a484015201915af48015611bbb5761506a575b50509061506561478a92615622565b615622565b615075828092613d1c565b6103425780615056565b8561508c91969296613d1c565b9338614f90565b8880fd5b8035825260409081906001600160a01b036150b460208301613c32565b1660208501520135910152565b9594919294939093600e6150d488613c64565b506150e38688600184016156ae565b6150f18489600684016156ae565b8435600282015561510460208601614270565b6003820180546001600160a01b0319166001600160a01b03909216919091179055604085013560048201558235600782015561514260208401614270565b6008820180546001600160a01b0319166001600160a01b03909216919091179055604083013560098201550180546000198114614437577f248e05570a21674378045f7cc916f572cc1c2ffd3fd0f1ef63373d6e8bf7dd9f976151e8946151de9360016151d3940190556151c5604051998a996101008b526101008b0191614e60565b9188830360208a0152614e60565b936040860190615097565b60a0840190615097565b0390a2565b156151f457565b60405162461bcd60e51b81526020600482015260256024820152600080516020615dde8339815191526044820152641c8813919560da1b6064820152608490fd5b1561523c57565b60405162461bcd60e51b815260206004820152601c60248201527f416c726561647920636f6e6669726d65642074686973207472616465000000006044820152606490fd5b6000818152601a602090815260408083206001600160a01b038616845290915281205460ff16156153ba576152b582613c64565b50828252601a602090815260408084206001600160a01b0396871680865292528320805460ff19169055815490941684036153b2576001015b73__$48826f07193b31935384e69d3987c3dc19$__90813b15611bdf57829060e4604051809481936389da047d60e01b8352600483015230602483015288604483015284606483015260a06084830152601c60a48301527f457363726f776564204e4654207472616e73666572206661696c65640000000060c48301525af48015611bbb5790827f6f50e49a29935e762d9050339997cf4cb7b130ebb4e675b42eee8db9df7ff57e93926153a2575b9050a3565b6153ab91613d1c565b388161539d565b6006016152ee565b505050565b156153c657565b60405162461bcd60e51b815260206004820152601c60248201527f416c72656164792061677265656420746f2074686973207472616465000000006044820152606490fd5b9190826060910312613c175760405161542381613cca565b60408082948035845261543860208201613c32565b60208501520135910152565b600052601c6020526040600020906007811015613d7a5780615467575060009055565b600181036154755750429055565b60028103615496575080541561548e575b600142910155565b428155615486565b6004036154a557600242910155565b42600382015560040180546001600160a01b03191633179055565b6000818152601e602090815260408083206001600160a01b038087168552925290912054169291908315615520576000908152601e602090815260408083206001600160a01b0390941683529290522080546001600160a01b0319169055565b509150565b73__$48826f07193b31935384e69d3987c3dc19$__91823b15613c175760405163e22d7d9960e01b8152601d60048201526001600160a01b039092166024830152604482015290600090829060649082905af48015615590576155855750565b600061478a91613d1c565b6040513d6000823e3d90fd5b9060ff601283015416916007831015613d7a5782159081156155da575b816155cc575b506155c657565b60059150565b6011915001544211386155bf565b6001841491506155b9565b805490600160401b821015613cb4578161560791600161561e9401815561444d565b819391549060031b91821b91600019901b19161790565b9055565b604081013515908115615673575b501561563857565b60405162461bcd60e51b815260206004820152601360248201527224b73b30b634b21022a9219918103a37b5b2b760691b6044820152606490fd5b6001600160a01b03915061568990602001614270565b16151538615630565b8054821015613c835760005260206000209060021b0190600090565b915b825480156156fb576000190160006156c88286615692565b6156e757808260039255826001820155826002820155015583556156b0565b634e487b7160e01b82526004829052602482fd5b5091909260005b838110156157c15760008160071b86018454600160401b8110156157ad578060016157309201875586615692565b929092615799576001600160a01b0361574883614270565b84546001600160a01b0319169116178355602082013560018401556002808401916040840135918210156103425750815460ff191660ff919091161790556060013560039190910155600101615702565b634e487b7160e01b81526004819052602490fd5b634e487b7160e01b83526041600452602483fd5b5092505050565b600052601a602052604060002060018060a01b03821660005260205260ff60406000205416600014613fc157503090565b1561580057565b60405162461bcd60e51b8152602060048201526015602482015274125b9cdd59999a58da595b9d081493d3881cd95b9d605a1b6044820152606490fd5b6017546001600160a01b03163314615865578061585f613fc1923410156157f9565b3461497b565b61587d90601854615878828210156157f9565b61497b565b601855600090565b60ff81146158cf5760ff811690601f82116158be5760408051926158a98285613d1c565b6020808552840191601f190136833783525290565b632cd44ac360e21b60005260046000fd5b5060405160008054908160011c916001811680156159a4575b6020841081146159905783855284929181156159715750600114615913575b613fc192500382613d1c565b50600080805290917f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b818310615955575050906020613fc192820101615907565b602091935080600191548385880101520191019091839261593d565b60209250613fc194915060ff191682840152151560051b820101615907565b634e487b7160e01b83526022600452602483fd5b92607f16926158e8565b60ff81146159d25760ff811690601f82116158be5760408051926158a98285613d1c565b506040516000600154908160011c91600181168015615a76575b6020841081146159905783855284929181156159715750600114615a1657613fc192500382613d1c565b506001600090815290917fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf65b818310615a5a575050906020613fc192820101615907565b6020919350806001915483858801015201910190918392615a42565b92607f16926159ec565b9290615ac092615b0d615b1b93615ae7604051968795615aae602088019a6101008c52610120890190613e59565b878103601f1901604089015290613e59565b8451606087015260208501516001600160a01b0316608087015260409094015160a0860152565b805160c085015260208101516001600160a01b031660e085015260400151610100840152565b03601f198101835282613d1c565b51902090565b6000818152600660205260409020548015615beb5760001981018181116144375760055460001981019190821161443757818103615bb1575b5050506005548015615b9b5760001901615b7581600561444d565b8154906000199060031b1b19169055600555600052600660205260006040812055600190565b634e487b7160e01b600052603160045260246000fd5b615bd3615bc261560793600561444d565b90549060031b1c928392600561444d565b90556000526006602052604060002055388080615b5a565b5050600090565b9060018201918160005282602052604060002054801515600014615ca657600019810181811161443757825460001981019190821161443757818103615c6f575b50505080548015615b9b576000190190615c4d828261444d565b8154906000199060031b1b191690555560005260205260006040812055600190565b615c8f615c7f615607938661444d565b90549060031b1c9283928661444d565b905560005283602052604060002055388080615c33565b50505050600090565b80600052600660205260406000205415600014615d0457600554600160401b811015613cb457615ceb615607826001859401600555600561444d565b9055600554906000526006602052604060002055600190565b50600090565b60018101908260005281602052604060002054156000146149b0578054600160401b811015613cb457615d4761560782600187940185558461444d565b90555491600052602052604060002055600190565b90615d825750805115615d7157805190602001fd5b63d6bda27560e01b60005260046000fd5b81511580615db4575b615d93575090565b639996b31560e01b60009081526001600160a01b0391909116600452602490fd5b50803b15615d8b56fe360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc436f6e7472616374206e6f7420617070726f76656420746f207472616e736665f0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00a2646970667358221220e31e3cbf699c2ca71b38262469a44adf40e0a2f8e3e731980259dfcb93987a1f64736f6c634300081c0033",
+  "linkReferences": {
+    "contracts/TradeAssets.sol": {
+      "TradeAssets": [
+        {
+          "length": 20,
+          "start": 4878
+        },
+        {
+          "length": 20,
+          "start": 6958
+        },
+        {
+          "length": 20,
+          "start": 11602
+        },
+        {
+          "length": 20,
+          "start": 14307
+        },
+        {
+          "length": 20,
+          "start": 15769
+        },
+        {
+          "length": 20,
+          "start": 19480
+        },
+        {
+          "length": 20,
+          "start": 21678
+        },
+        {
+          "length": 20,
+          "start": 22722
+        },
+        {
+          "length": 20,
+          "start": 23289
+        }
+      ]
+    }
+  }
+} as const;
+export const NftSwapExtensionArtifact = {
+  "abi": [
+    {
+      "inputs": [],
+      "name": "InvalidShortString",
+      "type": "error"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "string",
+          "name": "str",
+          "type": "string"
+        }
+      ],
+      "name": "StringTooLong",
+      "type": "error"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "enabled",
+          "type": "bool"
+        }
+      ],
+      "name": "AllowlistEnabledUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "index",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "bytes",
+          "name": "reason",
+          "type": "bytes"
+        }
+      ],
+      "name": "BatchCallFailed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "collection",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "allowed",
+          "type": "bool"
+        }
+      ],
+      "name": "CollectionAllowedUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "collection",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "blocked",
+          "type": "bool"
+        }
+      ],
+      "name": "CollectionBlockedUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "timeout",
+          "type": "uint256"
+        }
+      ],
+      "name": "DefaultTradeTimeoutUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [],
+      "name": "EIP712DomainChanged",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "enabled",
+          "type": "bool"
+        }
+      ],
+      "name": "EscrowModeUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "EscrowWithdrawn",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "account",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "exempt",
+          "type": "bool"
+        }
+      ],
+      "name": "FeeExemptionUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "payer",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "fee",
+          "type": "uint256"
+        }
+      ],
+      "name": "FeePaid",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "recipient",
+          "type": "address"
+        }
+      ],
+      "name": "FeeRecipientUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "flatFee",
+          "type": "uint256"
+        },
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "collection",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "enabled",
+          "type": "bool"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "collectionFee",
+          "type": "uint256"
+        }
+      ],
+      "name": "FeeScheduleUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "recipient",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "amount",
+          "type": "uint256"
+        }
+      ],
+      "name": "FeesWithdrawn",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "ItemsEscrowed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "maker",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "minNonce",
+          "type": "uint256"
+        }
+      ],
+      "name": "NoncesInvalidated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "maker",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "nonce",
+          "type": "uint256"
+        }
+      ],
+      "name": "OfferCancelled",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "bytes32",
+          "name": "offerHash",
+          "type": "bytes32"
+        },
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "maker",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "taker",
+          "type": "address"
+        }
+      ],
+      "name": "OfferFilled",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "taker",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "nftId",
+          "type": "uint256"
+        }
+      ],
+      "name": "OpenOfferAccepted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "idsRoot",
+              "type": "bytes32"
+            }
+          ],
+          "indexed": false,
+          "internalType": "struct NftSwapBase.OpenOfferCriteria",
+          "name": "wanted",
+          "type": "tuple"
+        }
+      ],
+      "name": "OpenOfferProposed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "previousOwner",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "newOwner",
+          "type": "address"
+        }
+      ],
+      "name": "OwnershipTransferStarted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "previousOwner",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "newOwner",
+          "type": "address"
+        }
+      ],
+      "name": "OwnershipTransferred",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "paused",
+          "type": "bool"
+        }
+      ],
+      "name": "PausedUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "account",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "amount",
+          "type": "uint256"
+        }
+      ],
+      "name": "PaymentCredited",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "account",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "amount",
+          "type": "uint256"
+        }
+      ],
+      "name": "PaymentWithdrawn",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "enabled",
+          "type": "bool"
+        }
+      ],
+      "name": "PermissionlessProposalsUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "bool",
+          "name": "enabled",
+          "type": "bool"
+        }
+      ],
+      "name": "PlainTransfersUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "royaltyCapBps",
+          "type": "uint256"
+        }
+      ],
+      "name": "RoyaltyCapUpdated",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "nftContract",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "nftId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "receiver",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "token",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "amount",
+          "type": "uint256"
+        }
+      ],
+      "name": "RoyaltyPaid",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "TradeAgreed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "cancelledBy",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "string",
+          "name": "reason",
+          "type": "string"
+        }
+      ],
+      "name": "TradeCancelled",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "fromAddress",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "toAddress",
+          "type": "address"
+        }
+      ],
+      "name": "TradeCompleted",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        }
+      ],
+      "name": "TradeConfirmed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "user",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "version",
+          "type": "uint256"
+        }
+      ],
+      "name": "TradeCountered",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "fromAddress",
+          "type": "address"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "toAddress",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "expiresAt",
+          "type": "uint256"
+        }
+      ],
+      "name": "TradeProposed",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nftId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            }
+          ],
+          "indexed": false,
+          "internalType": "struct NftSwapBase.TradeItem[]",
+          "name": "fromItems",
+          "type": "tuple[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nftId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            }
+          ],
+          "indexed": false,
+          "internalType": "struct NftSwapBase.TradeItem[]",
+          "name": "toItems",
+          "type": "tuple[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "indexed": false,
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "fromPayment",
+          "type": "tuple"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "indexed": false,
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "toPayment",
+          "type": "tuple"
+        }
+      ],
+      "name": "TradeTermsSet",
+      "type": "event"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_tradeId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_nftId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "bytes32[]",
+          "name": "_proof",
+          "type": "bytes32[]"
+        }
+      ],
+      "name": "acceptOpenOffer",
+      "outputs": [],
+      "stateMutability": "payable",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "accumulatedFees",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "tradeId",
+              "type": "uint256"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "fromItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "toItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "fromPayment",
+              "type": "tuple"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "toPayment",
+              "type": "tuple"
+            }
+          ],
+          "internalType": "struct NftSwapBase.TradeAgreement",
+          "name": "_agreement",
+          "type": "tuple"
+        },
+        {
+          "internalType": "address",
+          "name": "_user",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_nonce",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_deadline",
+          "type": "uint256"
+        },
+        {
+          "internalType": "bytes",
+          "name": "_signature",
+          "type": "bytes"
+        }
+      ],
+      "name": "agreeTradeBySig",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "tradeId",
+              "type": "uint256"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "fromItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "toItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "fromPayment",
+              "type": "tuple"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "toPayment",
+              "type": "tuple"
+            }
+          ],
+          "internalType": "struct NftSwapBase.TradeAgreement[]",
+          "name": "_agreements",
+          "type": "tuple[]"
+        }
+      ],
+      "name": "agreeTrades",
+      "outputs": [
+        {
+          "internalType": "bool[]",
+          "name": "successes",
+          "type": "bool[]"
+        },
+        {
+          "internalType": "bytes[]",
+          "name": "results",
+          "type": "bytes[]"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "allowedCollections",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "allowlistEnabled",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "blockedCollections",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_nonce",
+          "type": "uint256"
+        }
+      ],
+      "name": "cancelOffer",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256[]",
+          "name": "_tradeIds",
+          "type": "uint256[]"
+        }
+      ],
+      "name": "cancelTrades",
+      "outputs": [
+        {
+          "internalType": "bool[]",
+          "name": "successes",
+          "type": "bool[]"
+        },
+        {
+          "internalType": "bytes[]",
+          "name": "results",
+          "type": "bytes[]"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "collectionFees",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "enabled",
+          "type": "bool"
+        },
+        {
+          "internalType": "uint256",
+          "name": "fee",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_tradeId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_version",
+          "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "_user",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_nonce",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_deadline",
+          "type": "uint256"
+        },
+        {
+          "internalType": "bytes",
+          "name": "_signature",
+          "type": "bytes"
+        }
+      ],
+      "name": "confirmTradeBySig",
+      "outputs": [],
+      "stateMutability": "payable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256[]",
+          "name": "_tradeIds",
+          "type": "uint256[]"
+        },
+        {
+          "internalType": "uint256[]",
+          "name": "_versions",
+          "type": "uint256[]"
+        }
+      ],
+      "name": "confirmTrades",
+      "outputs": [
+        {
+          "internalType": "bool[]",
+          "name": "successes",
+          "type": "bool[]"
+        },
+        {
+          "internalType": "bytes[]",
+          "name": "results",
+          "type": "bytes[]"
+        }
+      ],
+      "stateMutability": "payable",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "defaultTradeTimeout",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "eip712Domain",
+      "outputs": [
+        {
+          "internalType": "bytes1",
+          "name": "fields",
+          "type": "bytes1"
+        },
+        {
+          "internalType": "string",
+          "name": "name",
+          "type": "string"
+        },
+        {
+          "internalType": "string",
+          "name": "version",
+          "type": "string"
+        },
+        {
+          "internalType": "uint256",
+          "name": "chainId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "verifyingContract",
+          "type": "address"
+        },
+        {
+          "internalType": "bytes32",
+          "name": "salt",
+          "type": "bytes32"
+        },
+        {
+          "internalType": "uint256[]",
+          "name": "extensions",
+          "type": "uint256[]"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "name": "escrowMode",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        },
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "escrowedItems",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "feeExempt",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "feeRecipient",
+      "outputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "maker",
+              "type": "address"
+            },
+            {
+              "internalType": "address",
+              "name": "taker",
+              "type": "address"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "makerItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "takerItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "makerPayment",
+              "type": "tuple"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "takerPayment",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "expiry",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nonce",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Offer",
+          "name": "_offer",
+          "type": "tuple"
+        },
+        {
+          "internalType": "bytes",
+          "name": "_signature",
+          "type": "bytes"
+        }
+      ],
+      "name": "fillOffer",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "payable",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "flatFee",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "maker",
+              "type": "address"
+            },
+            {
+              "internalType": "address",
+              "name": "taker",
+              "type": "address"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "makerItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "takerItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "makerPayment",
+              "type": "tuple"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "takerPayment",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "expiry",
+              "type": "uint256"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nonce",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Offer",
+          "name": "_offer",
+          "type": "tuple"
+        }
+      ],
+      "name": "hashOffer",
+      "outputs": [
+        {
+          "internalType": "bytes32",
+          "name": "",
+          "type": "bytes32"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_minNonce",
+          "type": "uint256"
+        }
+      ],
+      "name": "invalidateNonces",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "minNonces",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_operator",
+          "type": "address"
+        },
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        },
+        {
+          "internalType": "bytes",
+          "name": "",
+          "type": "bytes"
+        }
+      ],
+      "name": "onERC1155Received",
+      "outputs": [
+        {
+          "internalType": "bytes4",
+          "name": "",
+          "type": "bytes4"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_operator",
+          "type": "address"
+        },
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        },
+        {
+          "internalType": "bytes",
+          "name": "",
+          "type": "bytes"
+        }
+      ],
+      "name": "onERC721Received",
+      "outputs": [
+        {
+          "internalType": "bytes4",
+          "name": "",
+          "type": "bytes4"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "owner",
+      "outputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "paused",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "pendingOwner",
+      "outputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        }
+      ],
+      "name": "pendingWithdrawals",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "permissionlessProposals",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "name": "plainTransfers",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "nftId",
+              "type": "uint256"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.TradeItem[]",
+          "name": "_fromItems",
+          "type": "tuple[]"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "_fromPayment",
+          "type": "tuple"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "_toPayment",
+          "type": "tuple"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "idsRoot",
+              "type": "bytes32"
+            }
+          ],
+          "internalType": "struct NftSwapBase.OpenOfferCriteria",
+          "name": "_wanted",
+          "type": "tuple"
+        },
+        {
+          "internalType": "uint256",
+          "name": "_expiresAt",
+          "type": "uint256"
+        }
+      ],
+      "name": "proposeOpenOffer",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "fromAddress",
+              "type": "address"
+            },
+            {
+              "internalType": "address",
+              "name": "toAddress",
+              "type": "address"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "fromItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "address",
+                  "name": "nftContract",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "nftId",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "enum NftSwapBase.TokenStandard",
+                  "name": "standard",
+                  "type": "uint8"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.TradeItem[]",
+              "name": "toItems",
+              "type": "tuple[]"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "fromPayment",
+              "type": "tuple"
+            },
+            {
+              "components": [
+                {
+                  "internalType": "uint256",
+                  "name": "nativeAmount",
+                  "type": "uint256"
+                },
+                {
+                  "internalType": "address",
+                  "name": "erc20Token",
+                  "type": "address"
+                },
+                {
+                  "internalType": "uint256",
+                  "name": "erc20Amount",
+                  "type": "uint256"
+                }
+              ],
+              "internalType": "struct NftSwapBase.Payment",
+              "name": "toPayment",
+              "type": "tuple"
+            },
+            {
+              "internalType": "uint256",
+              "name": "expiresAt",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.TradeProposal[]",
+          "name": "_proposals",
+          "type": "tuple[]"
+        }
+      ],
+      "name": "proposeTrades",
+      "outputs": [
+        {
+          "internalType": "bool[]",
+          "name": "successes",
+          "type": "bool[]"
+        },
+        {
+          "internalType": "bytes[]",
+          "name": "results",
+          "type": "bytes[]"
+        }
+      ],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [],
+      "name": "royaltyCapBps",
+      "outputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_tradeId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "bool",
+          "name": "_enabled",
+          "type": "bool"
+        }
+      ],
+      "name": "setEscrowMode",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_tradeId",
+          "type": "uint256"
+        },
+        {
+          "internalType": "bool",
+          "name": "_enabled",
+          "type": "bool"
+        }
+      ],
+      "name": "setPlainTransfers",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "name": "trades",
+      "outputs": [
+        {
+          "internalType": "address",
+          "name": "fromAddress",
+          "type": "address"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "fromPayment",
+          "type": "tuple"
+        },
+        {
+          "internalType": "bool",
+          "name": "fromHasAgreed",
+          "type": "bool"
+        },
+        {
+          "internalType": "bool",
+          "name": "fromHasConfirmed",
+          "type": "bool"
+        },
+        {
+          "internalType": "address",
+          "name": "toAddress",
+          "type": "address"
+        },
+        {
+          "components": [
+            {
+              "internalType": "uint256",
+              "name": "nativeAmount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "address",
+              "name": "erc20Token",
+              "type": "address"
+            },
+            {
+              "internalType": "uint256",
+              "name": "erc20Amount",
+              "type": "uint256"
+            }
+          ],
+          "internalType": "struct NftSwapBase.Payment",
+          "name": "toPayment",
+          "type": "tuple"
+        },
+        {
+          "internalType": "bool",
+          "name": "toHasAgreed",
+          "type": "bool"
+        },
+        {
+          "internalType": "bool",
+          "name": "toHasConfirmed",
+          "type": "bool"
+        },
+        {
+          "components": [
+            {
+              "internalType": "address",
+              "name": "nftContract",
+              "type": "address"
+            },
+            {
+              "internalType": "enum NftSwapBase.TokenStandard",
+              "name": "standard",
+              "type": "uint8"
+            },
+            {
+              "internalType": "uint256",
+              "name": "amount",
+              "type": "uint256"
+            },
+            {
+              "internalType": "bytes32",
+              "name": "idsRoot",
+              "type": "bytes32"
+            }
+          ],
+          "internalType": "struct NftSwapBase.OpenOfferCriteria",
+          "name": "wanted",
+          "type": "tuple"
+        },
+        {
+          "internalType": "uint256",
+          "name": "version",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "fee",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "createdAt",
+          "type": "uint256"
+        },
+        {
+          "internalType": "uint256",
+          "name": "expiresAt",
+          "type": "uint256"
+        },
+        {
+          "internalType": "enum NftSwapBase.TradeStatus",
+          "name": "status",
+          "type": "uint8"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "",
+          "type": "address"
+        },
+        {
+          "internalType": "uint256",
+          "name": "",
+          "type": "uint256"
+        }
+      ],
+      "name": "usedNonces",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "uint256",
+          "name": "_tradeId",
+          "type": "uint256"
+        }
+      ],
+      "name": "withdrawEscrow",
+      "outputs": [],
+      "stateMutability": "nonpayable",
+      "type": "function"
+    }
+  ],
+  "bytecode": "0x610160604052346101275760405161001860408261012c565b6007815260208101906604e6674537761760cc1b82526040519161003d60408461012c565b600183526020830191603160f81b835261005681610165565b6101205261006384610327565b61014052519020918260e05251902080610100524660a0526040519060208201927f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f8452604083015260608201524660808201523060a082015260a081526100cc60c08261012c565b5190206080523060c052604051615e0b90816104c6823960805181615712015260a051816157c9015260c051816156dc015260e0518161576101526101005181615787015261012051816121b5015261014051816121df0152f35b600080fd5b601f909101601f19168101906001600160401b0382119082101761014f57604052565b634e487b7160e01b600052604160045260246000fd5b908151602081106000146101fd575090601f8151116101a1576020815191015160208210610191571790565b6000198260200360031b1b161790565b6040519063305a27a960e01b8252602060048301528181519182602483015260005b8381106101e55750508160006044809484010152601f80199101168101030190fd5b602082820181015160448784010152859350016101c3565b6001600160401b03811161014f57600054600181811c9116801561031d575b602082101461030757601f81116102d2575b50602092601f821160011461026e5792819293600092610263575b50508160011b916000199060031b1c19161760005560ff90565b015190503880610249565b601f1982169360008052806000209160005b8681106102ba57508360019596106102a1575b505050811b0160005560ff90565b015160001960f88460031b161c19169055388080610293565b91926020600181928685015181550194019201610280565b60008052601f6020600020910160051c810190601f830160051c015b8181106102fb575061022e565b600081556001016102ee565b634e487b7160e01b600052602260045260246000fd5b90607f169061021c565b908151602081106000146103af575090601f815111610353576020815191015160208210610191571790565b6040519063305a27a960e01b8252602060048301528181519182602483015260005b8381106103975750508160006044809484010152601f80199101168101030190fd5b60208282018101516044878401015285935001610375565b6001600160401b03811161014f57600154600181811c911680156104bb575b602082101461030757601f8111610485575b50602092601f82116001146104205792819293600092610415575b50508160011b916000199060031b1c19161760015560ff90565b0151905038806103fb565b601f198216936001600052806000209160005b86811061046d5750836001959610610454575b505050811b0160015560ff90565b015160001960f88460031b161c19169055388080610446565b91926020600181928685015181550194019201610433565b6001600052601f6020600020910160051c810190601f830160051c015b8181106104af57506103e0565b600081556001016104a2565b90607f16906103ce56fe608080604052600436101561001357600080fd5b600090813560e01c9081630c63979b1461334e57508063118a09ef146132b2578063120bf30414613269578063150b7a02146132105780631e6c598e1461304757806322f888e714612f9c57806329dd799514612f5d5780632aa7846514612e145780632db03a6214612de5578063398daa8514612da65780633ab9599014612d6d5780633eab9b3e14612c74578063409e94a714612b5f5780634299bd1814612b305780634690484014612b075780635553f2611461249f578063587f5ed7146124815780635c975abb1461245b5780635e15df6e1461232a5780636a8a6894146122e157806374b862431461229857806384b0196e1461219b578063876512d01461207e5780638c8843761461205b5780638da5cb5b146120325780638e35b82314611a0357806394c8e4ff146119e057806397d7a490146119a1578063a754f87a14611983578063bfc7f07814611876578063d9eb594714611858578063e30c39781461182f578063e3a22706146117e7578063e59e513514611363578063e819333314610b56578063ef706adf14610ace578063f23a6e6114610a63578063f3f4370314610a2a5763f6beef44146101ce57600080fd5b34610a2757610180366003190112610a2757600435906001600160401b038211610a275736602383011215610a27576001600160401b03826004013511610a2757366024836004013560071b84010111610a27576060366023190112610a27576060366083190112610a275760803660e3190112610a2757610164356001601b5461025c60ff821615613829565b60ff191617601b5561027660ff600a5460a01c16156137e9565b6009546001600160a01b031681338281036109c2575b6001600160a01b0316916102b6906102a58415156138a9565b8084141590816109b8575b506138f5565b156109a4575b61012c420180421161093c578210158061098e575b15610950578160116102e1614172565b5080546001600160a01b0319168417815560058101805462010000600160b01b03191690554260108201550155600254916000198301831061093c5783919061037783601261033360001988016134e7565b5080546001600160a01b03168352600360205260408320610359906000198a0190613d07565b600581015460101c6001600160a01b03168061091e575b5001615357565b61038d60001985016103888561533e565b615d65565b5061039b6000198501615d0a565b506040519081527f341a69b9dfb20475f65d539fbec01353bf978b8a56e1588d59fad8ad57b146ee6020600019860192a46103d960001982016134e7565b5073__$48826f07193b31935384e69d3987c3dc19$__60ff60145416813b1561076e5784610425916040518093819263905fab2360e01b8352338b6004013560248d01600486016139de565b0381855af48015610913579085916108fa575b50506064351580156108dc575b156108835760c4351580156108be575b156108835761046660243515613a4e565b6001600160a01b036104766136e3565b161561083e576104846136e3565b600261010435101561076e5760ff6014541690823b1561083a57604051633d11a9fb60e11b81526001600160a01b039091166004820152918591839160a4918391906104d660248401610104356135dc565b600b604484015260156064840152151560848301525af4801561082f5790849161081a575b5050610104356001036107c9576101243515610776575b61052784600401356024860160018401615448565b60243560028201556044356001600160a01b0381169003610772576003810180546001600160a01b0319166044356001600160a01b03908116919091179091556064356004830155608435600783015560a4359081169003610772576008810180546001600160a01b03191660a4356001600160a01b039081169190911790915560c4356009830155600b8201906105bd6136e3565b166bffffffffffffffffffffffff60a01b825416178155805460ff60a01b6101043560a01b169060ff60a01b19161790556005610124359182600c82015561014435600d820155600e81016106128154613d44565b905501600160ff198254161790556020937f248e05570a21674378045f7cc916f572cc1c2ffd3fd0f1ef63373d6e8bf7dd9f6106846040516106548882613568565b868152610677604051946101008652610100860190602481600401359101613787565b9084820389860152613d53565b60243560408401526001600160a01b0360443581166060850152606435608085015260843560a085015260a4351660c084015260c43560e08401526000198501929081900390a26040519060e4356001600160a01b0381169081900361076e5782526106f5858301610104356135dc565b60408201526101443560608201527f3e1b24b3bc5b56eeee3eae30982c5b085618157060211347b174a14aa0300f4b6080600019840192a26040519133907f4d1f01cf26f00694da1c91763a062b3a775364e84d15d847abcfe82672901c6f60001984019180a3601b805460ff19169055600019018152f35b8480fd5b8280fd5b60405162461bcd60e51b815260206004820152602560248201527f4552433131353520616d6f756e74206d75737420626520677265617465722074604482015264068616e20360dc1b6064820152608490fd5b60016101243503156105125760405162461bcd60e51b815260206004820152601760248201527f45524337323120616d6f756e74206d75737420626520310000000000000000006044820152606490fd5b8161082491613568565b6107725782386104fb565b6040513d86823e3d90fd5b8580fd5b60405162461bcd60e51b815260206004820152601b60248201527f496e76616c6964206f70656e206f6666657220637269746572696100000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601360248201527224b73b30b634b21022a9219918103a37b5b2b760691b6044820152606490fd5b5060a4356001600160a01b0381169081810361083a57501515610455565b506044356001600160a01b0381169081810361083a57501515610445565b8161090491613568565b61090f578338610438565b8380fd5b6040513d87823e3d90fd5b83526003602052610936600019890160408520613d07565b38610370565b634e487b7160e01b84526011600452602484fd5b60405162461bcd60e51b8152602060048201526016602482015275496e76616c696420747261646520646561646c696e6560501b6044820152606490fd5b5062278d00420180421161093c578211156102d1565b90506109b260085442613ae5565b906102bc565b90501515386102b0565b5060ff60075416156109d4573361028c565b60405162461bcd60e51b815260206004820152602560248201527f5065726d697373696f6e6c6573732070726f706f73616c73206172652064697360448201526418589b195960da1b6064820152608490fd5b80fd5b5034610a27576020366003190112610a27576020906040906001600160a01b03610a52613490565b168152601d83522054604051908152f35b5034610a275760a0366003190112610a2757610a7d613490565b610a8561347a565b50608435916001600160401b038311610a275750610aaa610abc9236906004016134ba565b50506001600160a01b0316301461368d565b60405163f23a6e6160e01b8152602090f35b5034610a27576020366003190112610a2757600435338252601260205260408220818352602052610b0660ff60408420541615613940565b33825260126020526040822081835260205260408220600160ff198254161790556040519081527f899cab278284ae4a91172caa0943607a0bcb19766254c3ebe1139be00650b10260203392a280f35b5060c0366003190112610a27576044356001600160a01b03811690602435906004359083810361076e5760643560843560a4356001600160401b03811161135f57610ba59036906004016134ba565b91610bb860ff600a5460a01c16156137e9565b6001601b54610bca60ff821615613829565b60ff191617601b55610bdf6002548710613866565b610be8866134e7565b5060118101544211908161131d575b506112e457610c6993610c6360405160208101907f894b47dae5fea500842392fba86bc28c038de76b6ffe7260a7d8fb7d35c7ed5682528960408201528b60608201528a60808201528360a08201528460c082015260c08152610c5b60e082613568565b519020614ee6565b8661504a565b610c72826134e7565b509260ff60128501541660078110156112d05760010361128b57600e840154036112465782546001600160a01b031692848414801561122d575b156111dc5773__$48826f07193b31935384e69d3987c3dc19$__610d096020610cd96001850197876156a8565b6040516309c07d2b60e31b8152600481018990526001600160a01b03909116602482015291829081906044820190565b0381855af49081156111b25788916111bd575b5080611125575b156110e85781548791906001600160a01b03168703611091578254604051634bb5358d60e01b8152600481018890526001600160a01b039091166024820152602081604481855af4801561108657610d82918491611057575b506153b4565b600283015b610d99610d94868361427d565b613a9a565b83546001600160a01b0316880361103157600584016101008154610dc360ff8260081c16156153fc565b61ff0019161790555b60405188877f4886270d3c681c8373359d1cfafb1a549453e43e452ce59a9eae87f8a23e50be8680a3883303610fb3575b505460058401805490979160ff91610e3591610e309160101c6001600160a01b03168c03610fac57600f88015490613ae5565b614367565b975460081c169384610f9a575b84610f8c575b868452601960205260ff604085205416610e90575b50505050610e739450610e80575b505033614cda565b60ff19601b5416601b5580f35b610e89916143c7565b3880610e6b565b868452601a6020908152604080862060008c815292529020805460ff1916600117905580546001600160a01b03168903610f8257505b813b1561077257829060e4604051809481936389da047d60e01b835260048301528b60248301523060448301526001606483015260a06084830152601160a48301527013919508195cd8dc9bddc819985a5b1959607a1b60c48301525af48015610f7757610f62575b5094837fe1cc828c88fe406baf20a5c04c8c1ab1928e34dcca4722d617e619c0c22d5fe687610e7398a385388080610e5d565b81610f6c91613568565b61083a578538610f2f565b6040513d84823e3d90fd5b6006915001610ec6565b610f958761536f565b610e48565b600a81015460081c60ff169450610e42565b8690613ae5565b908092935054610fef5750848852601e60209081526040808a2060008a81529252902080546001600160a01b0319163317905587919038610dfd565b62461bcd60e51b815260206004820152601f60248201527f53706f6e736f726564207369676e65722063616e6e6f742070617920524f4e006044820152606490fd5b600a8401610100815461104a60ff8260081c16156153fc565b61ff001916179055610dcc565b611079915060203d60201161107f575b6110718183613568565b8101906143af565b38610d7c565b503d611067565b6040513d85823e3d90fd5b6005830154604051634bb5358d60e01b815260068501600482015260109190911c6001600160a01b03166024820152602081604481855af48015611086576110df91849161105757506153b4565b60078301610d87565b60405162461bcd60e51b8152602060048201526015602482015274139195081bdddb995c9cda1a5c0818da185b99d959605a1b6044820152606490fd5b50600582015461117a906020906111489060101c6001600160a01b0316876156a8565b6040516309c07d2b60e31b81526006860160048201526001600160a01b03909116602482015291829081906044820190565b0381855af49081156111b2578891611193575b50610d23565b6111ac915060203d60201161107f576110718183613568565b3861118d565b6040513d8a823e3d90fd5b6111d6915060203d60201161107f576110718183613568565b38610d1c565b60405162461bcd60e51b8152602060048201526024808201527f4e6f7420617574686f72697a656420746f20636f6e6669726d207468697320746044820152637261646560e01b6064820152608490fd5b50600581015460101c6001600160a01b03168514610cac565b60405162461bcd60e51b815260206004820152601860248201527f5472616465207465726d732068617665206368616e67656400000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601c60248201527f5472616465206973206e6f7420696e20616772656564207374617465000000006044820152606490fd5b634e487b7160e01b87526021600452602487fd5b60405162461bcd60e51b8152602060048201526011602482015270151c985919481a185cc8195e1c1a5c9959607a1b6044820152606490fd5b60ff91506012015416600781101561134b578015908115611340575b5038610bf7565b600191501438611339565b634e487b7160e01b8a52602160045260248afd5b8780fd5b506060366003190112610a27576024356004356044356001600160401b03811161090f5761139590369060040161336a565b906113a860ff600a5460a01c16156137e9565b6001601b546113ba60ff821615613829565b60ff191617601b556113cf6002548410613866565b6113d8836134e7565b506011810154421190816117a5575b506112e4576113f5836134e7565b5090600b82019260018060a01b03845416156117605760ff601284015416600781101561174c576114269015613be2565b61143b60018060a01b038454163314156138a9565b61145160018060a01b03600954163314156138f5565b600d8301549081159283156116bb575b5050501561166c5760058101805462010000600160b01b0319163360101b62010000600160b01b031617815591600682019054600c830154604051916114a68361351c565b6001600160a01b03811683526020830188815260408401916114ce9060a01c60ff16836135ba565b606084019283528454600160401b811015611658578060016114f39201875586613c2e565b949094611644575184546001600160a01b0319166001600160a01b03919091161784555160018401555160028110156116305788610e73966115ec610d9460078c996115b08d6040889f9b61162a9d8160036115f59e61155c610e309f600261159a9701613c4a565b51910155600a860180548b5461ff001916610100178c5561ffff191661010117905561159361158d60018801613c62565b91613c62565b903361521d565b98600f8501998a55338152600360205220613d07565b6115b98961536f565b80546115d590610d94906001600160a01b03166002840161427d565b935493019260101c6001600160a01b03168361427d565b54905490613ae5565b92604051908152817f5949246d117d8703ff71e357d1e30b78f51dfc319e26024e475ffe2379586b1c60203393a333906143c7565b33614cda565b634e487b7160e01b89526021600452602489fd5b634e487b7160e01b8b5260048b905260248bfd5b634e487b7160e01b8b52604160045260248bfd5b60405162461bcd60e51b815260206004820152602160248201527f4e465420646f6573206e6f74206d6174636820746865206f70656e206f6666656044820152603960f91b6064820152608490fd5b9192506040516020810190888252602081526116d8604082613568565b51902060405160208101918252602081526116f4604082613568565b5190209188915b80831061170e5750505014388080611461565b90919261171c848385613669565b35908181101561173b578a52602052600160408a205b930191906116fb565b908a52602052600160408a20611732565b634e487b7160e01b88526021600452602488fd5b60405162461bcd60e51b815260206004820152601a60248201527f5472616465206973206e6f7420616e206f70656e206f666665720000000000006044820152606490fd5b60ff9150601201541660078110156117d35780159081156117c8575b50386113e7565b6001915014386117c1565b634e487b7160e01b86526021600452602486fd5b5034610a27576020366003190112610a275760409081906001600160a01b0361180e613490565b168152600d60205220600160ff825416910154825191151582526020820152f35b5034610a275780600319360112610a2757600a546040516001600160a01b039091168152602090f35b5034610a275780600319360112610a27576020600c54604051908152f35b5034610a2757611885366135e9565b9061189860ff600a5460a01c16156137e9565b6001601b546118aa60ff821615613829565b60ff191617601b556118bf6002548210613866565b6118c8816134e7565b50601181015442119081611941575b506112e4576118e581613fb8565b808352601960205261190682604085209060ff801983541691151516179055565b60405191151582527f3b4534f92e84b5da50ca551f2968b40f2e16889310c5343c6d24351dd54e985c60203393a360ff19601b5416601b5580f35b60ff91506012015416600781101561196f578015908115611964575b50386118d7565b60019150143861195d565b634e487b7160e01b84526021600452602484fd5b5034610a275780600319360112610a27576020601154604051908152f35b5034610a27576020366003190112610a275760209060ff906040906001600160a01b036119cc613490565b168152601584522054166040519015158152f35b5034610a275780600319360112610a2757602060ff601454166040519015158152f35b5034610a275760a0366003190112610a27576004356001600160401b03811161202e57610120600319823603011261202e57611a3d61347a565b6084356001600160401b03811161090f57611a5c9036906004016134ba565b611a6e60ff600a5460a01c16156137e9565b6001601b54611a8060ff821615613829565b60ff191617601b55611a99600254856004013510613866565b611aa684600401356134e7565b50601181015442119081612000575b506112e457611b9391611ad7611ad1602487018760040161370d565b90614d57565b611aea611ad1604488018860040161370d565b611af660648801614e83565b611b0260c48901614e83565b91604051937fcd24ea8bf6401642ecb0f15e56b3e44e36eb27bed384388516533fba7fc676e560208601528960040135604086015260018060a01b0389166060860152608085015260a084015260c083015260e08201526044356101008201526064356101208201526101208152611b7c61014082613568565b60643590610c636044359160208151910120614ee6565b611ba3602483018360040161370d565b90611bb4604485018560040161370d565b929091611bc486600401356134e7565b509360ff601286015416600781101561163057611be19015613be2565b84546001600160a01b03878116911614808015611fe3575b15611f905715611f6f576005850160018154611c1860ff821615615198565b60ff19161790555b845460145473__$48826f07193b31935384e69d3987c3dc19$__918a9160ff16906001600160a01b0316833b156107725760405163905fab2360e01b815291839183918291611c7591908b8b600486016139de565b0381865af48015610f7757611f5a575b50600587019160018060a01b03835460101c169060ff6014541691813b1561090f578391896060611cd493604051968795869463905fab2360e01b865260c060048701528c60c4870191613787565b9160248501526b72676574206164647265737360a01b60408584039360031985016044880152602c81527f526571756573746564204e4654206973206e6f74206f776e656420627920746160208201520152600b606485015260156084850152151560a484015201915af48015610f7757611f41575b5050611d586064890161413d565b611d6460c4890161413d565b600186018054611e8b5750611d8860c4890160648a018488888860048f0135615585565b549160ff831680611e7d575b611dda575b886001600160a01b03881660048a01357f4d1f01cf26f00694da1c91763a062b3a775364e84d15d847abcfe82672901c6f8380a360ff19601b5416601b5580f35b600f94611def611df792611e099636916141e4565b9236916141e4565b9160101c6001600160a01b031661521d565b910155611e5560016012611e2085600401356134e7565b5001611e3d8154611e3860ff8860040135921661533e565b615c4d565b50611e4f85600401356103888461533e565b50615357565b611e628260040135615d0a565b50611e7260018360040135615a77565b388080808080611d99565b5060ff600a87015416611d94565b611ef7611ed2611ecc611e9f3689896141e4565b8c611eab36898d6141e4565b611ec6611ebb36606485016151e4565b9260c43691016151e4565b926159ea565b92613c62565b611ede60068a01613c62565b611eea60028b01613589565b90611ec660078c01613589565b14611d885760405162461bcd60e51b815260206004820152601860248201527f5472616465207465726d7320646f206e6f74206d6174636800000000000000006044820152606490fd5b81611f4b91613568565b611f56578838611d4a565b8880fd5b81611f6491613568565b611f56578838611c85565b600a850160018154611f8460ff821615615198565b60ff1916179055611c20565b60405162461bcd60e51b815260206004820152602560248201527f4e6f7420617574686f72697a656420746f20616772656520746f207468697320604482015264747261646560d81b6064820152608490fd5b50600586015460101c6001600160a01b0390811690881614611bf9565b60ff9150601201541660078110156117d3578015908115612023575b5038611ab5565b60019150143861201c565b5080fd5b5034610a275780600319360112610a27576009546040516001600160a01b039091168152602090f35b5034610a275780600319360112610a2757602060ff600754166040519015158152f35b5034610a27576020366003190112610a27576004356001601b546120a560ff821615613829565b60ff191617601b556120ba6002548210613866565b6120c3816134e7565b50818352601a60209081526040808520336000908152925290205460ff1615612156578183526006602052604083205415908115612148575b501561210d57610e73903390614f0c565b60405162461bcd60e51b81526020600482015260136024820152722a3930b2329034b99039ba34b6361037b832b760691b6044820152606490fd5b6011915001544211386120fc565b60405162461bcd60e51b815260206004820152601f60248201527f4e6f204e46547320657363726f77656420666f722074686973207472616465006044820152606490fd5b5034610a275780600319360112610a275761223c906121d97f00000000000000000000000000000000000000000000000000000000000000006157ef565b906122037f0000000000000000000000000000000000000000000000000000000000000000615918565b90602061224a604051936122178386613568565b8385526000368137604051968796600f60f81b885260e08589015260e088019061339f565b90868203604088015261339f565b904660608601523060808601528260a086015284820360c08601528080855193848152019401925b82811061228157505050500390f35b835185528695509381019392810192600101612272565b5034610a27576020366003190112610a2757600435906001600160401b038211610a27576101806003198336030112610a275760206122d983600401613b08565b604051908152f35b5034610a27576040366003190112610a275760209060ff906040906001600160a01b0361230c613490565b16815260128452818120602435825284522054166040519015158152f35b5034610a27576020366003190112610a27576004356001600160401b03811161202e5761235b90369060040161336a565b90916123668261361f565b928161011e1982360301925b8481101561243e578060051b830135848112156107725790600191840161242261239f602083018361370d565b90926124146123f66123b4604084018461370d565b6123e460405198899763bd2dee7760e01b60208a0152873560248a015261012060448a0152610144890191613787565b86810360231901606488015291613787565b9161240760848501606083016137bf565b60c060e4850191016137bf565b03601f198101835282613568565b61242c8289613679565b526124378188613679565b5001612372565b61244786613de6565b90612457604051928392836133e0565b0390f35b5034610a275780600319360112610a2757602060ff600a5460a01c166040519015158152f35b5034610a275780600319360112610a27576020601054604051908152f35b506040366003190112610a27576004356001600160401b03811161202e57806004016101806003198336030112610772576024356001600160401b03811161090f576124ef9036906004016134ba565b9061250260ff600a5460a01c16156137e9565b6001601b5461251460ff821615613829565b60ff191617601b5561014484013590814211612ace57602485016001600160a01b0361253f826136f9565b1615908115612ab3575b5015612a64576125f86125f293612573612562876136f9565b6001600160a01b03163314156138a9565b61259e61257f876136f9565b6009546001600160a01b0390811691168114159081612a5957506138f5565b610164870135926001600160a01b036125b6886136f9565b1689526013602052604089205484101580612a22575b6125d590613940565b6125de87613b08565b9586916125ea896136f9565b9336916139a7565b91614083565b156129dd576001600160a01b0361260e856136f9565b16865260126020526040862090865260205260408520600160ff1982541617905573__$48826f07193b31935384e69d3987c3dc19$__906044850186612654828761370d565b612660889392936136f9565b60ff6014541690873b1561090f5760609161269560405196879563905fab2360e01b875260c0600488015260c4870191613787565b9160018060a01b0316602485015261119560f21b60408584039360031985016044880152602281527f4d616b657220646f6573206e6f74206f776e20746865206f666665726564204e60208201520152600b606485015260156084850152151560a48401520181875af480156111b2576129c9575b5086606487019361271b858861370d565b909160ff6014541690803b1561076e576127509385936040519586948593849363905fab2360e01b85523391600486016139de565b03915af48015610f77576129b0575b505060e460848701966127718861413d565b019261277c8461413d565b612787873515613a4e565b61278f614172565b509160025497600019890198891161299c5787878a612929610e308a8f8b60118c6128608a61159360209f8b9f6129719f61284e611def928f8d612856948961284893600a8e60018060a01b036127e5856136f9565b82546001600160a01b03191691161781556005810180546001600160b01b0319163360101b62010000600160b01b03161761010117905501805461ffff191661010117905589612840612838888561370d565b92909461370d565b939092615585565b8661370d565b93909561370d565b94909236916141e4565b600f82015542601082015501556128bb6002601261287d886134e7565b5080546001600160a01b0316855260038e526040852061289e908a90613d07565b600581015460101c6001600160a01b031680612983575001615357565b6128c985610388600261533e565b50506128d6600285615a77565b600f6128e1856134e7565b5080546128fe90610d94906001600160a01b03166002840161427d565b600581015461292090610d949060101c6001600160a01b03166007840161427d565b01549035613ae5565b926001600160a01b039061293c906136f9565b16917ff1af2910728cba09558070588e4ea6ea8cf68852b944abf36d1c4d032e00f79587604051338152a461162a33846143c7565b60ff19601b5416601b55604051908152f35b855260038e526129968960408720613d07565b8e610370565b634e487b7160e01b8a52601160045260248afd5b816129ba91613568565b6129c557863861275f565b8680fd5b876129d691989298613568565b953861270a565b60405162461bcd60e51b815260206004820152601760248201527f496e76616c6964206f66666572207369676e61747572650000000000000000006044820152606490fd5b506001600160a01b03612a34886136f9565b168952601260205260408920848a526020526125d560ff60408b2054161590506125cc565b9050331415386102b0565b60405162461bcd60e51b815260206004820152602160248201527f4e6f7420617574686f72697a656420746f2066696c6c2074686973206f6666656044820152603960f91b6064820152608490fd5b612abd91506136f9565b6001600160a01b0316331438612549565b60405162461bcd60e51b815260206004820152601160248201527013d999995c881a185cc8195e1c1a5c9959607a1b6044820152606490fd5b5034610a275780600319360112610a2757600f546040516001600160a01b039091168152602090f35b5034610a27576020366003190112610a275760ff60406020926004358152601684522054166040519015158152f35b506040366003190112610a27576004356001600160401b03811161202e57612b8b90369060040161336a565b6024356001600160401b03811161090f57612baa90369060040161336a565b9091818103612c2f57612bbc8161361f565b945b818110612bce5761244786613de6565b80612bdc6001928488613669565b35612be8828688613669565b35604051916378ea777160e01b60208401526024830152604482015260448152612c13606482613568565b612c1d8289613679565b52612c288188613679565b5001612bbe565b60405162461bcd60e51b815260206004820152601a60248201527f4261746368206c656e6774687320646f206e6f74206d617463680000000000006044820152606490fd5b5034610a2757612c83366135e9565b90612c9660ff600a5460a01c16156137e9565b6001601b54612ca860ff821615613829565b60ff191617601b55612cbd6002548210613866565b612cc6816134e7565b50601181015442119081612d3f575b506112e457612ce381613fb8565b8083526016602052612d0482604085209060ff801983541691151516179055565b60405191151582527f4d408a8d1e541aa899f835964852a6cb8436ddaa0d40da40a213da148fbd45c160203393a360ff19601b5416601b5580f35b60ff91506012015416600781101561196f578015908115612d62575b5038612cd5565b600191501438612d5b565b5034610a27576020366003190112610a27576020906040906001600160a01b03612d95613490565b168152601383522054604051908152f35b5034610a27576020366003190112610a275760209060ff906040906001600160a01b03612dd1613490565b168152600e84522054166040519015158152f35b5034610a27576020366003190112610a275760ff60406020926004358152601984522054166040519015158152f35b5034610a27576020366003190112610a27576004356001600160401b03811161202e57612e4590369060040161336a565b9091612e508261361f565b928161015e1982360301925b8481101561243e578060051b8301358481121561077257906001918401612f41612e85826136f9565b612e91602084016136f9565b92610140612f09612ea5604084018461370d565b90612ef7612eb6606087018761370d565b9290936040519a8b996358c24ded60e01b60208c01528e8060a01b031660248b01528d8060a01b031660448a015261016060648a0152610184890191613787565b86810360231901608488015291613787565b91612f1a60a48501608083016137bf565b612f2b610104850160e083016137bf565b013561016483015203601f198101835282613568565b612f4b8289613679565b52612f568188613679565b5001612e5c565b5034610a27576020366003190112610a275760209060ff906040906001600160a01b03612f88613490565b168152600b84522054166040519015158152f35b5034610a27576020366003190112610a2757600435338252601360205260408220548111156130025733825260136020528060408320556040519081527faefdcbe44d08205b5c786d467d3fca2574658a4eaec5260b508e4a9a8191c9ee60203392a280f35b60405162461bcd60e51b815260206004820152601b60248201527f4e6f6e63652063616e206f6e6c7920626520696e6372656173656400000000006044820152606490fd5b5034610a27576020366003190112610a275760043560025481101561202e5761306f906134e7565b5080546001600160a01b03169061308860028201613589565b9060058101546007820161309b90613589565b600a8301546040516130ac8161351c565b600b8501546001600160a01b038116825260208201906130d29060a01c60ff16826135ba565b600c8601549060408301918252600d8701549260608101938452600e88015494600f8901549660108a01549860118b01549a6012015460ff169b604051809e815260200161313b91604080918051845260018060a01b0360208201511660208501520151910152565b60ff818116151560808f0152600882901c16151560a08e015260101c6001600160a01b0390811660c08e0152815160e08e01526020820151166101008d0152604001516101208c015260ff81811615156101408d015260089190911c1615156101608b0152516001600160a01b03166101808a0152516131c0906101a08a01906135dc565b516101c0880152516101e087015261020086015261022085015261024084015261026083015260078110156131fc576102a09250610280820152f35b634e487b7160e01b83526021600452602483fd5b5034610a27576080366003190112610a275761322a613490565b61323261347a565b50606435916001600160401b038311610a275750610aaa6132579236906004016134ba565b604051630a85bd0160e11b8152602090f35b5034610a27576040366003190112610a275760ff604060209261328a61347a565b6004358252601a85528282206001600160a01b03909116825284522054604051911615158152f35b5034610a27576020366003190112610a27576004356001600160401b03811161202e576132e390369060040161336a565b6132ec8161361f565b925b8181106132fe5761244784613de6565b8061330c6001928486613669565b35604051906309ec6cc760e01b6020830152602482015260248152613332604482613568565b61333c8287613679565b526133478186613679565b50016132ee565b90503461202e578160031936011261202e576020906008548152f35b9181601f8401121561339a578235916001600160401b03831161339a576020808501948460051b01011161339a57565b600080fd5b919082519283825260005b8481106133cb575050826000602080949584010152601f8019910116010190565b806020809284010151828286010152016133aa565b6040810160408252825180915260206060830193019060005b818110613462575050506020818303910152815180825260208201916020808360051b8301019401926000915b83831061343557505050505090565b9091929394602080613453600193601f19868203018752895161339f565b97019301930191939290613426565b825115158552602094850194909201916001016133f9565b602435906001600160a01b038216820361339a57565b600435906001600160a01b038216820361339a57565b35906001600160a01b038216820361339a57565b9181601f8401121561339a578235916001600160401b03831161339a576020838186019501011161339a57565b6002548110156135065760026000526013602060002091020190600090565b634e487b7160e01b600052603260045260246000fd5b608081019081106001600160401b0382111761353757604052565b634e487b7160e01b600052604160045260246000fd5b606081019081106001600160401b0382111761353757604052565b90601f801991011681019081106001600160401b0382111761353757604052565b906040516135968161354d565b8254815260018301546001600160a01b031660208201526002909201546040830152565b60028210156135c65752565b634e487b7160e01b600052602160045260246000fd5b9060028210156135c65752565b604090600319011261339a5760043590602435801515810361339a5790565b6001600160401b0381116135375760051b60200190565b9061362982613608565b6136366040519182613568565b8281528092613647601f1991613608565b019060005b82811061365857505050565b80606060208093850101520161364c565b91908110156135065760051b0190565b80518210156135065760209160051b010190565b1561369457565b60405162461bcd60e51b815260206004820152602160248201527f446972656374207472616e736665727320617265206e6f7420616363657074656044820152601960fa1b6064820152608490fd5b60e4356001600160a01b038116810361339a5790565b356001600160a01b038116810361339a5790565b903590601e198136030182121561339a57018035906001600160401b03821161339a57602001918160071b3603831361339a57565b6001600160a01b03613753826134a6565b168252602081013560208301526040810135600281101561339a57606091613780839260408601906135dc565b0135910152565b9160209082815201919060005b8181106137a15750505090565b909192608080826137b460019488613742565b019401929101613794565b8035825260409081906001600160a01b036137dc602083016134a6565b1660208501520135910152565b156137f057565b60405162461bcd60e51b8152602060048201526011602482015270151c98591a5b99c81a5cc81c185d5cd959607a1b6044820152606490fd5b1561383057565b60405162461bcd60e51b815260206004820152600e60248201526d1499595b9d1c985b9d0818d85b1b60921b6044820152606490fd5b1561386d57565b60405162461bcd60e51b8152602060048201526014602482015273151c98591948191bd95cc81b9bdd08195e1a5cdd60621b6044820152606490fd5b156138b057565b60405162461bcd60e51b815260206004820152601a60248201527f43616e6e6f74207472616465207769746820796f757273656c660000000000006044820152606490fd5b156138fc57565b606460405162461bcd60e51b815260206004820152602060248201527f43616e6e6f74207472616465207769746820636f6e7472616374206f776e65726044820152fd5b1561394757565b60405162461bcd60e51b815260206004820152601860248201527f4f66666572206973206e6f206c6f6e6765722076616c696400000000000000006044820152606490fd5b6001600160401b03811161353757601f01601f191660200190565b9291926139b38261398c565b916139c16040519384613568565b82948184528183011161339a578281602093846000960137010152565b926139f960409260a09497969760c0875260c0870191613787565b90600180851b0316602085015283810382850152601781527f596f7520646f206e6f74206f776e2074686973204e465400000000000000000060208201520193600b6060840152601560808401521515910152565b15613a5557565b60405162461bcd60e51b815260206004820152601a60248201527f4f66666572206d616b65722063616e6e6f742070617920524f4e0000000000006044820152606490fd5b15613aa157565b60405162461bcd60e51b81526020600482015260286024820152600080516020615db68339815191526044820152677220746f6b656e7360c01b6064820152608490fd5b91908201809211613af257565b634e487b7160e01b600052601160045260246000fd5b613bdf90613b15816136f9565b90610160613b25602083016136f9565b91613b36611ad1604083018361370d565b613b46611ad1606084018461370d565b613b5260808401614e83565b90613b5f60e08501614e83565b926040519660208801987ff5fcb28d707f79ce7d4e21d4d041f6bf61e94e7d89a41dc03b1df3b465068dd78a5260018060a01b0316604089015260018060a01b03166060880152608087015260a086015260c085015260e084015261014081013561010084015201356101208201526101208152610c5b61014082613568565b90565b15613be957565b60405162461bcd60e51b815260206004820152601e60248201527f5472616465206973206e6f7420696e2070726f706f73656420737461746500006044820152606490fd5b80548210156135065760005260206000209060021b0190600090565b9060028110156135c65760ff80198354169116179055565b908154613c6e81613608565b92613c7c6040519485613568565b818452602084019060005260206000206000915b838310613c9d5750505050565b60046020600192604051613cb08161351c565b848060a01b0386541681528486015483820152613cd760ff600288015416604083016135ba565b60038601546060820152815201920192019190613c90565b80548210156135065760005260206000200190600090565b805490600160401b8210156135375781613d29916001613d4094018155613cef565b819391549060031b91821b91600019901b19161790565b9055565b6000198114613af25760010190565b906020808351928381520192019060005b818110613d715750505090565b9091926020608060019260608751858060a01b0381511683528481015185840152613da4604082015160408501906135dc565b01516060820152019401929101613d64565b3d15613de1573d90613dc78261398c565b91613dd56040519384613568565b82523d6000602084013e565b606090565b6017549091906001600160a01b038116613f73576001600160a01b031916331760175534601855815191613e1983613608565b92613e276040519485613568565b808452613e36601f1991613608565b01366020850137613e47815161361f565b9260005b8251811015613f44575a600080613e628487613679565b51602081519101305af4613e74613db6565b613e7e8489613679565b52613e898385613679565b9015159052613e988284613679565b5115613ea8575b50600101613e4b565b5a9060061c1015613f0857807f651ab1b3e05f5d8f80c2f34a9935c0c099a81b9dbe4b65c107820181f267c1b8613eff613ee460019489613679565b5160405191829185835260406020840152604083019061339f565b0390a190613e9f565b60405162461bcd60e51b815260206004820152601460248201527342617463682072616e206f7574206f662067617360601b6044820152606490fd5b509050613f6f6018546bffffffffffffffffffffffff60a01b60175416601755600060185533614cda565b9190565b60405162461bcd60e51b815260206004820152601960248201527f426174636820616c726561647920696e2070726f6772657373000000000000006044820152606490fd5b613fc1906134e7565b5060ff60128201541660078110156135c657613fdd9015613be2565b80546001600160a01b03163314808015614067575b15614016571561400957600a01805460ff19169055565b600501805460ff19169055565b60405162461bcd60e51b815260206004820152602360248201527f4e6f7420617574686f72697a656420746f20757064617465207468697320747260448201526261646560e81b6064820152608490fd5b5060058201543360109190911c6001600160a01b031614613ff2565b9190823b6140be579061409591615549565b5060048110156135c6571591826140ab57505090565b6001600160a01b03918216911614919050565b916000926124146140f585946040519283916020830195630b135d3f60e11b8752602484015260406044840152606483019061339f565b51915afa614101613db6565b8161412f575b81614110575090565b905060208180518101031261339a5760200151630b135d3f60e11b1490565b905060208151101590614107565b604081013515908115614153575b501561088357565b6001600160a01b039150614169906020016136f9565b1615153861414b565b600254600160401b811015613537576001810160025560006002548210156141c357600290526013027f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace0190600090565b634e487b7160e01b81526032600452602490fd5b91908203918211613af257565b9291926141f082613608565b936141fe6040519586613568565b602085848152019260071b82019181831161339a57925b8284106142225750505050565b60808483031261339a57604051906142398261351c565b614242856134a6565b825260208501356020830152604085013590600282101561339a57826020926040608095015260608701356060820152815201930192614215565b906002820154908115928315614294575b50505090565b60010154604051636eb1769f60e11b81526001600160a01b03928316600482015230602482015292935060209183916044918391165afa908115614317576000916142e5575b50101538808061428e565b90506020813d60201161430f575b8161430060209383613568565b8101031261339a5751386142da565b3d91506142f3565b6040513d6000823e3d90fd5b1561432a57565b60405162461bcd60e51b8152602060048201526015602482015274125b9cdd59999a58da595b9d081493d3881cd95b9d605a1b6044820152606490fd5b6017546001600160a01b0316331461438f5780614389613bdf92341015614323565b346141d7565b6143a7906018546143a282821015614323565b6141d7565b601855600090565b9081602091031261339a5751801515810361339a5790565b90600254916143d96000938210613866565b6143e2816134e7565b509160ff6012840154166007811015614cc657600203614c815782546001600160a01b0391821691168114908115614c67575b5015614c165773__$48826f07193b31935384e69d3987c3dc19$__916001810160405163e8d74cd360e01b8152816004820152600b6024820152602081604481885af4908115614bec578691614bf7575b501580614b91575b15614b545781546001600160a01b03169361448985856156a8565b600584018054909691906144a99060101c6001600160a01b0316876156a8565b868952601a60208181526040808c206001600160a01b039687168d528252808c20805460ff199081169091558a8d52928252808c208b5460101c87168d529091528a2080549091169055918116973089148015614af4575b15614aab576001600160a01b038316913083148015614a49575b156149fe576040516309c07d2b60e31b8152600481018790526001600160a01b03919091166024820152602081604481885af4908115610f775782916149df575b501561498c576040516309c07d2b60e31b815260068701600482018190526001600160a01b03949094166024820152602081604481885af4908115610f7757829161496d575b5015614916576145d9600460126145b88a6134e7565b50016145cb8a611e3860ff84541661533e565b50611e4f8a6103888461533e565b976145e387615b7c565b506145ef600488615a77565b600f86018054806148c6575b505086600052601660205260ff60406000205416159060018060a01b03895460101c16853b1561339a57604051916389da047d60e01b83528760048401526024830152604482015281606482015260a06084820152601b60a48201527f4f666665726564204e4654207472616e73666572206661696c6564000000000060c482015260008160e481885af48015614317576148af575b5085546001600160a01b0316843b1561489657604051926389da047d60e01b845284600485015260248401526044830152606482015260a06084820152601d60a48201527f526571756573746564204e4654207472616e73666572206661696c656400000060c4820152878160e481865af480156111b25790889161489a575b50508354865460115460109190911c6001600160a01b039081169392169190843b15614896576040516304a8dc4760e41b81526004810189905260028801602482015260448101929092526001600160a01b03928316606483015292909116608482015260a4810191909152601d60c4820152868160e481855af4801561488b57908791614876575b505084548354601154936001600160a01b03918216939260101c90911690823b15611f56576040516304a8dc4760e41b81526004810188905260078701602482015260448101919091526001600160a01b0391821660648201529216608483015260a4820192909252601d60c4820152908590829060e49082905af4801561091357908591614861575b505054915460101c6001600160a01b03908116939216917fae436b722ba7f0cd367d78080be85baaf95995bee18262492be03bb5f08d89f79080a4565b8161486b91613568565b61090f578338614824565b8161488091613568565b61083a57853861479a565b6040513d89823e3d90fd5b8980fd5b816148a491613568565b6129c5578638614711565b6148bd919950600090613568565b60009738614691565b6148d290601054613ae5565b601055877f6fe296e805108cd514fea415210be4016149b01eeb08effbe130951b6a5f6c0b602060018060a01b038c5460101c169354604051908152a338806145fb565b60405162461bcd60e51b815260206004820152602960248201527f5265636569766572206e6f206c6f6e676572206f776e73207468652072657175604482015268195cdd19590813919560ba1b6064820152608490fd5b614986915060203d60201161107f576110718183613568565b386145a2565b60405162461bcd60e51b815260206004820152602560248201527f53656e646572206e6f206c6f6e676572206f776e7320746865206f6666657265604482015264190813919560da1b6064820152608490fd5b6149f8915060203d60201161107f576110718183613568565b3861455c565b60405162461bcd60e51b815260206004820152602f6024820152600080516020615db683398151915260448201526e1c881c995c5d595cdd195908139195608a1b6064820152608490fd5b50604051634bb5358d60e01b81526006880160048201526001600160a01b0385166024820152602081604481895af4908115611086578391614a8c575b5061451b565b614aa5915060203d60201161107f576110718183613568565b38614a86565b60405162461bcd60e51b815260206004820152602d6024820152600080516020615db683398151915260448201526c1c881bd999995c995908139195609a1b6064820152608490fd5b50604051634bb5358d60e01b8152600481018690526001600160a01b0383166024820152602081604481885af4908115610f77578291614b35575b50614501565b614b4e915060203d60201161107f576110718183613568565b38614b2f565b60405162461bcd60e51b815260206004820152601560248201527410dbdb1b1958dd1a5bdb881a5cc8189b1bd8dad959605a1b6044820152606490fd5b5060405163e8d74cd360e01b8152600683016004820152600b6024820152602081604481885af4908115614bec578691614bcd575b501561446e565b614be6915060203d60201161107f576110718183613568565b38614bc6565b6040513d88823e3d90fd5b614c10915060203d60201161107f576110718183613568565b38614466565b60405162461bcd60e51b8152602060048201526024808201527f4e6f7420617574686f72697a656420746f2065786563757465207468697320746044820152637261646560e01b6064820152608490fd5b600584015460101c6001600160a01b031614905038614415565b60405162461bcd60e51b815260206004820152601f60248201527f5472616465206973206e6f7420696e20636f6e6669726d6564207374617465006044820152606490fd5b634e487b7160e01b85526021600452602485fd5b73__$48826f07193b31935384e69d3987c3dc19$__91823b1561339a5760405163e22d7d9960e01b8152601d60048201526001600160a01b039092166024830152604482015290600090829060649082905af4801561431757614d3a5750565b6000614d4591613568565b565b91908110156135065760071b0190565b90614d6181613608565b91614d6f6040519384613568565b818352614d7b82613608565b602084019290601f190136843760005b818110614de3575050506040519081602081019182945192909260005b818110614dca575050614dc4925003601f198101835282613568565b51902090565b8451835260209485019486945090920191600101614da8565b614dee818385614d47565b90614df8826136f9565b6040830135600281101561339a576060600194614e596040519360208501957f320e1ab8ed44b0d8b8a30b3c421188bc3adb71d30ea16cbbd642f21b3f46b7798752888060a01b0316604086015260208301358486015260808501906135dc565b013560a082015260a08152614e6f60c082613568565b519020614e7c8288613679565b5201614d8b565b614e8f602082016136f9565b90604080519160208301937f10a328ae9c987497f15c7d16a996bc0d64968cca54d0077328de106a71669a76855281358385015260018060a01b031660608401520135608082015260808152614dc460a082613568565b604290614ef16156d9565b906040519161190160f01b8352600283015260228201522090565b6000818152601a602090815260408083206001600160a01b038616845290915281205460ff161561504557614f40826134e7565b50828252601a602090815260408084206001600160a01b0396871680865292528320805460ff191690558154909416840361503d576001015b73__$48826f07193b31935384e69d3987c3dc19$__90813b1561077257829060e4604051809481936389da047d60e01b8352600483015230602483015288604483015284606483015260a06084830152601c60a48301527f457363726f776564204e4654207472616e73666572206661696c65640000000060c48301525af48015610f775790827f6f50e49a29935e762d9050339997cf4cb7b130ebb4e675b42eee8db9df7ff57e939261502d575b9050a3565b61503691613568565b3881615028565b600601614f79565b505050565b91949392421161515b576001600160a01b03821660008181526013602052604090205490949086101580615136575b156150f15761508d936125f29136916139a7565b156150b85760005260126020526040600020906000526020526040600020600160ff19825416179055565b60405162461bcd60e51b8152602060048201526011602482015270496e76616c6964207369676e617475726560781b6044820152606490fd5b60405162461bcd60e51b815260206004820152601c60248201527f5369676e6174757265206973206e6f206c6f6e6765722076616c6964000000006044820152606490fd5b5084600052601260205260406000208660005260205260ff6040600020541615615079565b60405162461bcd60e51b815260206004820152601560248201527414da59db985d1d5c99481a185cc8195e1c1a5c9959605a1b6044820152606490fd5b1561519f57565b60405162461bcd60e51b815260206004820152601c60248201527f416c72656164792061677265656420746f2074686973207472616465000000006044820152606490fd5b919082606091031261339a576040516151fc8161354d565b604080829480358452615211602082016134a6565b60208501520135910152565b6001600160a01b03166000908152600e602052604090205491929160ff166153375760009283918491855b82518110156152af576001600160a01b036152638285613679565b5151168752600d6020526040872060ff8154168061529a575b61528a575b50600101615248565b6001908101549550935083615281565b5084158061527c57508560018201541161527c565b5094505060009360005b8151811015615320576001600160a01b036152d48284613679565b5151168652600d6020526040862060ff8154168061530b575b6152fb575b506001016152b9565b60019081015494509250826152f2565b508315806152ed5750846001820154116152ed565b5050909192506000146153305790565b50600c5490565b5060009150565b60078110156135c6576000526004602052604060002090565b9060078110156135c65760ff80198354169116179055565b6002614d45916153a5826012615384846134e7565b500161539784611e3860ff84541661533e565b50611e4f846103888461533e565b6153ae81615b7c565b50615a77565b156153bb57565b60405162461bcd60e51b81526020600482015260256024820152600080516020615db68339815191526044820152641c8813919560da1b6064820152608490fd5b1561540357565b60405162461bcd60e51b815260206004820152601c60248201527f416c726561647920636f6e6669726d65642074686973207472616465000000006044820152606490fd5b91925b82548015615496576000190160006154638286613c2e565b615482578082600392558260018201558260028201550155835561544b565b634e487b7160e01b82526004829052602482fd5b5091909260005b8181106154ab575050509050565b6154b6818387614d47565b908354600160401b811015613537578060016154d59201865585613c2e565b615533576001600160a01b036154ea846136f9565b82546001600160a01b031916911617815560208301356001820155604083013592600284101561339a57606060039161552860019660028601613c4a565b01359101550161549d565b634e487b7160e01b600052600060045260246000fd5b815191906041830361557a5761557392506020820151906060604084015193015160001a90615af3565b9192909190565b505060009160029190565b9561569961568e7f248e05570a21674378045f7cc916f572cc1c2ffd3fd0f1ef63373d6e8bf7dd9f9794956156a39497600e6155c08c6134e7565b506155cf8a8c60018401615448565b6155dd838560068401615448565b883560028201556155f060208a016136f9565b6003820180546001600160a01b0319166001600160a01b03909216919091179055604089013560048201558635600782015561562e602088016136f9565b6008820180546001600160a01b0319166001600160a01b039092169190911790556040870135600982015501805461566590613d44565b9055615680604051998a996101008b526101008b0191613787565b9188830360208a0152613787565b9360408601906137bf565b60a08401906137bf565b0390a2565b600052601a602052604060002060018060a01b03821660005260205260ff60406000205416600014613bdf57503090565b307f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031614806157c6575b15615734577f000000000000000000000000000000000000000000000000000000000000000090565b60405160208101907f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f82527f000000000000000000000000000000000000000000000000000000000000000060408201527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a082015260a08152614dc460c082613568565b507f0000000000000000000000000000000000000000000000000000000000000000461461570b565b60ff81146158395760ff811690601f82116158285760408051926158138285613568565b6020808552840191601f190136833783525290565b632cd44ac360e21b60005260046000fd5b5060405160008054908160011c9160018116801561590e575b6020841081146158fa5783855284929181156158db575060011461587d575b613bdf92500382613568565b50600080805290917f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b8183106158bf575050906020613bdf92820101615871565b60209193508060019154838588010152019101909183926158a7565b60209250613bdf94915060ff191682840152151560051b820101615871565b634e487b7160e01b83526022600452602483fd5b92607f1692615852565b60ff811461593c5760ff811690601f82116158285760408051926158138285613568565b506040516000600154908160011c916001811680156159e0575b6020841081146158fa5783855284929181156158db575060011461598057613bdf92500382613568565b506001600090815290917fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf65b8183106159c4575050906020613bdf92820101615871565b60209193508060019154838588010152019101909183926159ac565b92607f1692615956565b9290615a2a92612414614dc493615a51604051968795615a18602088019a6101008c52610120890190613d53565b878103601f1901604089015290613d53565b8451606087015260208501516001600160a01b0316608087015260409094015160a0860152565b805160c085015260208101516001600160a01b031660e085015260400151610100840152565b600052601c60205260406000209060078110156135c65780615a9a575060009055565b60018103615aa85750429055565b60028103615ac95750805415615ac1575b600142910155565b428155615ab9565b600403615ad857600242910155565b42600382015560040180546001600160a01b03191633179055565b91907f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08411615b70579160209360809260ff60009560405194855216868401526040830152606082015282805260015afa15614317576000516001600160a01b03811615615b645790600090600090565b50600090600190600090565b50505060009160039190565b6000818152600660205260409020548015615c46576000198101818111613af257600554600019810191908211613af257818103615c0c575b5050506005548015615bf65760001901615bd0816005613cef565b8154906000199060031b1b19169055600555600052600660205260006040812055600190565b634e487b7160e01b600052603160045260246000fd5b615c2e615c1d613d29936005613cef565b90549060031b1c9283926005613cef565b90556000526006602052604060002055388080615bb5565b5050600090565b9060018201918160005282602052604060002054801515600014615d01576000198101818111613af2578254600019810191908211613af257818103615cca575b50505080548015615bf6576000190190615ca88282613cef565b8154906000199060031b1b191690555560005260205260006040812055600190565b615cea615cda613d299386613cef565b90549060031b1c92839286613cef565b905560005283602052604060002055388080615c8e565b50505050600090565b80600052600660205260406000205415600014615d5f57600554600160401b81101561353757615d46613d298260018594016005556005613cef565b9055600554906000526006602052604060002055600190565b50600090565b6000828152600182016020526040902054615c4657805490600160401b8210156135375782615d9e613d29846001809601855584613cef565b90558054926000520160205260406000205560019056fe436f6e7472616374206e6f7420617070726f76656420746f207472616e736665a26469706673582212206a2d7b7476a9324289b2ac2ed3831cab7869dc00d1a6585dc94112f1454ae35c64736f6c634300081c0033",
+  "linkReferences": {
+    "contracts/TradeAssets.sol": {
+      "TradeAssets": [
+        {
+          "length": 20,
+          "start": 2210
+        },
+        {
+          "length": 20,
+          "start": 4473
+        },
+        {
+          "length": 20,
+          "start": 8429
+        },
+        {
+          "length": 20,
+          "start": 10999
+        },
+        {
+          "length": 20,
+          "start": 18659
+        },
+        {
+          "length": 20,
+          "start": 20898
+        },
+        {
+          "length": 20,
+          "start": 21569
+        }
+      ]
+    }
+  }
+} as const;
+export const TradeAssetsArtifact = {
+  "abi": [
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "token",
+          "type": "address"
+        }
+      ],
+      "name": "SafeERC20FailedOperation",
+      "type": "error"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "account",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "amount",
+          "type": "uint256"
+        }
+      ],
+      "name": "PaymentCredited",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "uint256",
+          "name": "tradeId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "nftContract",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "nftId",
+          "type": "uint256"
+        },
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "receiver",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "token",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "uint256",
+          "name": "amount",
+          "type": "uint256"
+        }
+      ],
+      "name": "RoyaltyPaid",
+      "type": "event"
+    },
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_nftContract",
+          "type": "address"
+        }
+      ],
+      "name": "isNftContract",
+      "outputs": [
+        {
+          "internalType": "bool",
+          "name": "",
+          "type": "bool"
+        }
+      ],
+      "stateMutability": "view",
+      "type": "function"
+    }
+  ],
+  "bytecode": "0x60808060405234601b57611b1a90816100218239308160070152f35b600080fdfe6080604052307f000000000000000000000000000000000000000000000000000000000000000014600436101561003557600080fd5b60003560e01c9081634a8dc470146100e75781634bb5358d146100e25781634e03e958146100dd5781637a1f1cdc146100d85781637a2353f6146100d357816389da047d146100c9578163905fab23146100c457816391aee912146100bf578163e22d7d99146100b4575063e8d74cd3146100af57600080fd5b610a6d565b15610a46575b600080fd5b6108c3565b6107eb565b156103c357600080fd5b6102e3565b610226565b610201565b6101d2565b1561011157600080fd5b6001600160a01b038116036100ba57565b6024359061010f826100f1565b565b60e03660031901126100ba57602435604435600435606435610132816100f1565b6084359161013f836100f1565b60a43560c435908654828286836101a7575b50505050600287019687548061016357005b61017d9460018793019860018060a01b038a54169161171d565b925493546001600160a01b03909416939283039283116101a2576101a093611828565b005b610a89565b6101b2938a886115fa565b87549081039081116101a2576101c99086846114cb565b38828286610151565b60403660031901126100ba5760206101f76024356004356101f2826100f1565b610b41565b6040519015158152f35b60403660031901126100ba5760206101f7602435600435610221826100f1565b610d14565b60203660031901126100ba576020600435610240816100f1565b816000604051828101906301ffc9a760e01b82526380ac58cd60e01b602482015260248152610270604482610339565b519084617530fa903d60005190836102b7575b50826102ad575b50811561029d575b506040519015158152f35b6102a791506118c2565b38610292565b151591503861028a565b841115925038610283565b600211156100ba57565b801515036100ba57565b60a4359061010f826102cc565b60a03660031901126100ba576101a06004356102fe816100f1565b60243561030a816102c2565b604435606435916084359361031e856102cc565b610f28565b634e487b7160e01b600052604160045260246000fd5b90601f8019910116810190811067ffffffffffffffff82111761035b57604052565b610323565b67ffffffffffffffff811161035b57601f01601f191660200190565b81601f820112156100ba5780359061039382610360565b926103a16040519485610339565b828452602083830101116100ba57816000926020809301838601378301015290565b60a03660031901126100ba576024356004356103de826100f1565b604435906103eb826100f1565b606435926103f8846102cc565b60843567ffffffffffffffff81116100ba5761041890369060040161037c565b9260005b83548110156101a05761042f8185610ac2565b50906001610441600284015460ff1690565b61044a81610af9565b0361061057815461047190610465906001600160a01b031681565b6001600160a01b031690565b600183018054604051627eeac760e11b81526001600160a01b038716600482015260248101829052909490929190602084604481865afa9384156105cd576000946105ed575b50600301948554833b156100ba57604051637921219560e11b81526001600160a01b038a81166004830152891660248201526044810192909252606482015260a06084820152600060a482018190528160c48183875af190816105d2575b506105385760405162461bcd60e51b8152806105348b60048301611012565b0390fd5b54604051627eeac760e11b81526001600160a01b0387166004820152602481019190915290602090829060449082905afa9384156105cd57600194610595938a9360009261059b575b5061058e9192549061107f565b111561105b565b0161041c565b61058e92506105c09060203d81116105c6575b6105b88183610339565b810190610d05565b91610581565b503d6105ae565b610b20565b806105e160006105e793610339565b80611007565b38610515565b60039194506106099060203d81116105c6576105b88183610339565b93906104b7565b8154909190610627906001600160a01b0316610465565b9087156107515760018101546001600160a01b038316803b156100ba57604051632142170760e11b81526001600160a01b0388811660048301528716602482015260448101929092526000908290606490829084905af1908161073c575b506106a45760405162461bcd60e51b8152806105348960048301611012565b6106d2929160016020925b01549060405180809681946331a9108f60e11b8352600483019190602083019252565b03916001600160a01b03165afa80156105cd57866107099160019460009161070e575b5060a085901b85900386811691161461105b565b610595565b61072f915060203d8111610735575b6107278183610339565b810190610b2c565b386106f5565b503d61071d565b806105e1600061074b93610339565b38610685565b60018101546001600160a01b038316803b156100ba576040516323b872dd60e01b81526001600160a01b0388811660048301528716602482015260448101929092526000908290606490829084905af190816107d6575b506107c75760405162461bcd60e51b8152806105348960048301611012565b6106d2929160016020926106af565b806105e160006107e593610339565b386107a8565b60c03660031901126100ba5760043567ffffffffffffffff81116100ba57366023820112156100ba5780600401359067ffffffffffffffff82116100ba573660248360071b830101116100ba57610840610102565b916044359267ffffffffffffffff84116100ba576108656101a094369060040161037c565b606435916084359360246108776102d6565b96016111f5565b929190604084019060408552805180925260206060860191019160005b8181106108ad57505060209150930152565b835183526020938401939092019160010161089b565b60e03660031901126100ba576084356024356044356064356004356108e7856102cc565b60a4359060c43592600096865490600014610a3c5761090886545b8261107f565b94858510610a0757509594939291906109216000611450565b966000966000965b86881061094657888a52604051806109428d8d8361087e565b0390f35b9091929394959699838b106000146109ef576109628b84611ace565b6001610977610971838a611482565b50611955565b6109808161149e565b1b8616156109e5578a9088831015806109db575b6109b5575b50506109a66001916114a8565b9a5b0196959493929190610929565b916001926109d18c6109cb6109a6959e916114a8565b9d6114b7565b52918b9150610999565b5081518b10610994565b50996001906109a8565b610a026109fc858d610a9f565b83611ace565b610962565b80610a128688610a9f565b1015610a335750610921610a268587610a9f565b9796959493929197611450565b61092190610a26565b6109086000610902565b60603660031901126100ba576101a0600435602435610a64816100f1565b604435916114cb565b60403660031901126100ba5760206101f7602435600435611581565b634e487b7160e01b600052601160045260246000fd5b919082039182116101a257565b634e487b7160e01b600052603260045260246000fd5b8054821015610ade5760005260206000209060021b0190600090565b610aac565b634e487b7160e01b600052602160045260246000fd5b60021115610b0357565b610ae3565b908160209103126100ba5751610b1d816102cc565b90565b6040513d6000823e3d90fd5b908160209103126100ba5751610b1d816100f1565b9060005b8254811015610cfd57610b588184610ac2565b506001610b69600283015460ff1690565b610b7281610af9565b03610c105754610b8c90610465906001600160a01b031681565b60405163e985e9c560e01b81526001600160a01b038416600482015230602482015290602090829060449082905afa9081156105cd57600091610be2575b5015610bda576001905b01610b45565b505050600090565b610c03915060203d8111610c09575b610bfb8183610339565b810190610b08565b38610bca565b503d610bf1565b8054610c2690610465906001600160a01b031681565b60405163e985e9c560e01b81526001600160a01b0385166004820152306024820152602081604481855afa9081156105cd57600091610cdf575b50159182610c77575b5050610bda57600190610bd4565b6001015460405163020604bf60e21b815260048101919091529150602090829060249082905afa9081156105cd57600091610cc1575b506001600160a01b03163014153880610c69565b610cd9915060203d8111610735576107278183610339565b38610cad565b610cf7915060203d8111610c0957610bfb8183610339565b38610c60565b505050600190565b908160209103126100ba575190565b9060005b8254811015610cfd57610d2b8184610ac2565b506001610d3c600283015460ff1690565b610d4581610af9565b03610de9578054610d9f9190602090610d6890610465906001600160a01b031681565b6001830154604051627eeac760e11b81526001600160a01b0388166004820152602481019190915293849190829081906044820190565b03915afa9182156105cd57600092610dc6575b506003015411610bda576001905b01610d18565b6003919250610de29060203d81116105c6576105b88183610339565b9190610db2565b8054610e2d91602091600190610e0990610465906001600160a01b031681565b9101549060405180809581946331a9108f60e11b8352600483019190602083019252565b03915afa9081156105cd57600091610e5b575b506001600160a01b03838116911603610bda57600190610dc0565b610e73915060203d8111610735576107278183610339565b38610e40565b15610e8057565b60405162461bcd60e51b815260206004820152602e60248201527f436f6c6c656374696f6e20646f6573206e6f7420737570706f7274207468652060448201526d1d1bdad95b881cdd185b99185c9960921b6064820152608490fd5b15610ee357565b60405162461bcd60e51b815260206004820152601960248201527f436f6c6c656374696f6e206973206e6f7420616c6c6f776564000000000000006044820152606490fd5b6001600160a01b03811660009081526020939093526040909220549293909260ff16610fca57610f5a823b1515610e79565b15610fc5576001610fb292610f96610f91610f8a8561010f989060018060a01b0316600052602052604060002090565b5460ff1690565b610edc565b610f9f81610af9565b03610fb757636cdb3d1360e11b90611921565b610e79565b6380ac58cd60e01b90611921565b505050565b60405162461bcd60e51b815260206004820152601560248201527410dbdb1b1958dd1a5bdb881a5cc8189b1bd8dad959605a1b6044820152606490fd5b60009103126100ba57565b91909160208152825180602083015260005b818110611045575060409293506000838284010152601f8019910116010190565b8060208092870101516040828601015201611024565b156110635750565b60405162461bcd60e51b81529081906105349060048301611012565b919082018092116101a257565b1561109357565b60405162461bcd60e51b815260206004820152602560248201527f5472616465206d75737420696e636c756465204e465473206f6e20626f746820604482015264736964657360d81b6064820152608490fd5b156110ed57565b60405162461bcd60e51b8152602060048201526016602482015275546f6f206d616e79204e46547320696e20747261646560501b6044820152606490fd5b9190811015610ade5760071b0190565b35610b1d816100f1565b35610b1d816102c2565b1561115657565b60405162461bcd60e51b815260206004820152601760248201527f45524337323120616d6f756e74206d75737420626520310000000000000000006044820152606490fd5b156111a257565b60405162461bcd60e51b815260206004820152602560248201527f4552433131353520616d6f756e74206d75737420626520677265617465722074604482015264068616e20360dc1b6064820152608490fd5b9495909391929361120781151561108c565b61121460148211156110e6565b60005b818110611228575050505050505050565b61123381838961112b565b9060016112616112428461113b565b61125c878d8a604089019461125686611145565b90610f28565b611145565b61126a81610af9565b03611356576112ca91602060608201359161128683151561119b565b816112966104656104658461113b565b604051627eeac760e11b81526001600160a01b038c1660048201529190920135602482015294859190829081906044820190565b03915afa60009381611336575b506113215760405162461bcd60e51b815260206004820152601c60248201527f526571756573746564204e465420646f6573206e6f74206578697374000000006044820152606490fd5b8761133091600194101561105b565b01611217565b61134f91945060203d81116105c6576105b88183610339565b92386112d7565b60206113a09261136c600160608301351461114f565b8161137c6104656104658461113b565b9101359060405180809681946331a9108f60e11b8352600483019190602083019252565b03915afa60009281611418575b506113f75760405162461bcd60e51b815260206004820152601c60248201527f526571756573746564204e465420646f6573206e6f74206578697374000000006044820152606490fd5b6001916114139088906001600160a01b0389811691161461105b565b611330565b61143191935060203d8111610735576107278183610339565b91386113ad565b67ffffffffffffffff811161035b5760051b60200190565b9061145a82611438565b6114676040519182610339565b8281528092611478601f1991611438565b0190602036910137565b8054821015610ade576000526013602060002091020190600090565b60071115610b0357565b60001981146101a25760010190565b8051821015610ade5760209160051b010190565b9190918115610fc5576001600160a01b038316926000808080868861c350f13d1561157c573d6114fa81610360565b906115086040519283610339565b8152600060203d92013e5b1561151f575b50505050565b6001600160a01b03166000908152602091909152604090209081548181018091116101a2579091556040519081527fbf377c684817c24483856b59fef97f3394a5556f5e6e25b2d922e951f4944d2b90602090a238808080611519565b611513565b9060005b8254811015610bda5760ff6115b961159d8386610ac2565b50546001600160a01b0316600090815260208590526040902090565b5416610cfd57600101611585565b81156115d1570490565b634e487b7160e01b600052601260045260246000fd5b818102929181159184041417156101a257565b91939250949361162361161b6116146000968954906115c7565b94856115e7565b612710900490565b9360005b87548110156117145761163a8189610ac2565b509061164686836119c7565b88811161170d575b6001600160a01b0382169187908784158015611705575b6116f7576116a4846001989961169f827f64b477647ffa22b484a0e6d9efb2a1519a169e7ea653b2c691f33bfe3e5d5132966000966114cb565b61107f565b88549098906116ed9089906001600160a01b03165b920154604080519182526001600160a01b0390941660208201529283019590955260a088901b889003169381906060820190565b0390a45b01611627565b5050505050600191506116f1565b508315611665565b508761164e565b50955050505050565b9294969591909661173f61161b6117386000988b54906115c7565b92836115e7565b9460005b895481101561181c57611756818b610ac2565b5097611762848a6119c7565b9091898211611814575b6001600160a01b038316928315801561180c575b6117ff577f64b477647ffa22b484a0e6d9efb2a1519a169e7ea653b2c691f33bfe3e5d5132886117d28580958d8f969860019b9a998d8d8060a01b03881680156000146117f557505061169f926114cb565b8e54909e906117eb9089906001600160a01b03166116b9565b0390a45b01611743565b61169f9450611828565b50995050506001906117ef565b508215611780565b89915061176c565b50959750505050505050565b6040516323b872dd60e01b60208083019182526001600160a01b0394851660248401529490931660448201526064808201959095529384529260009190611870608482610339565b519082855af115610b20576000513d6118b957506001600160a01b0381163b155b6118985750565b635274afe760e01b60009081526001600160a01b0391909116600452602490fd5b60011415611891565b6000602091604051838101906301ffc9a760e01b8252636cdb3d1360e11b6024820152602481526118f4604482610339565b5191617530fa6000513d82611915575b508161190e575090565b9050151590565b60201115915038611904565b600090602092604051848101916301ffc9a760e01b835263ffffffff60e01b166024820152602481526118f4604482610339565b9060ff601283015416916007831015610b03578215908115611993575b81611985575b5061197f57565b60059150565b601191500154421138611978565b905061199e8361149e565b6001831490611972565b91908260409103126100ba57602082516119c1816100f1565b92015190565b80546119dd90610465906001600160a01b031681565b6040516301ffc9a760e01b815263152a902d60e11b6004820152909190602081602481865afa60009181611aad575b50611a1d5750505050600090600090565b15611aa257600101546040805163152a902d60e11b815260048101929092526024820193909352929190839060449082905afa9182600091600094611a6f575b50611a6b5750600091508190565b9190565b909350611a94915060403d604011611a9b575b611a8c8183610339565b8101906119a8565b9238611a5d565b503d611a82565b505050600090600090565b611ac791925060203d602011610c0957610bfb8183610339565b9038611a0c565b8054821015610ade57600052602060002001549056fea2646970667358221220cd1b007edb828896f3fbb322e8b9a279bfabd24c020d303312e7aecd9257dfe264736f6c634300081c0033",
+  "linkReferences": {}
+} as const;
+export const ERC1967ProxyArtifact = {
+  "abi": [
+    {
+      "inputs": [
+        {
+          "internalType": "address",
+          "name": "_logic",
+          "type": "address"
+        },
+        {
+          "internalType": "bytes",
+          "name": "_data",
+          "type": "bytes"
+        }
+      ],
+      "stateMutability": "payable",
+      "type": "constructor"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "previousAdmin",
+          "type": "address"
+        },
+        {
+          "indexed": false,
+          "internalType": "address",
+          "name": "newAdmin",
+          "type": "address"
+        }
+      ],
+      "name": "AdminChanged",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "beacon",
+          "type": "address"
+        }
+      ],
+      "name": "BeaconUpgraded",
+      "type": "event"
+    },
+    {
+      "anonymous": false,
+      "inputs": [
+        {
+          "indexed": true,
+          "internalType": "address",
+          "name": "implementation",
+          "type": "address"
+        }
+      ],
+      "name": "Upgraded",
+      "type": "event"
+    },
+    {
+      "stateMutability": "payable",
+      "type": "fallback"
+    },
+    {
+      "stateMutability": "payable",
+      "type": "receive"
+    }
+  ],
+  "bytecode": "0x608060405260405161084e38038061084e83398101604081905261002291610349565b61004d60017f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbd610417565b600080516020610807833981519152146100695761006961043c565b6100758282600061007c565b50506104a1565b610085836100b2565b6000825111806100925750805b156100ad576100ab83836100f260201b6100291760201c565b505b505050565b6100bb8161011e565b6040516001600160a01b038216907fbc7cd75a20ee27fd9adebab32041f755214dbc6bffa90cc0225b39da2e5c2d3b90600090a250565b60606101178383604051806060016040528060278152602001610827602791396101de565b9392505050565b610131816102bc60201b6100551760201c565b6101985760405162461bcd60e51b815260206004820152602d60248201527f455243313936373a206e657720696d706c656d656e746174696f6e206973206e60448201526c1bdd08184818dbdb9d1c9858dd609a1b60648201526084015b60405180910390fd5b806101bd60008051602061080783398151915260001b6102cb60201b6100711760201c565b80546001600160a01b0319166001600160a01b039290921691909117905550565b60606001600160a01b0384163b6102465760405162461bcd60e51b815260206004820152602660248201527f416464726573733a2064656c65676174652063616c6c20746f206e6f6e2d636f6044820152651b9d1c9858dd60d21b606482015260840161018f565b600080856001600160a01b0316856040516102619190610452565b600060405180830381855af49150503d806000811461029c576040519150601f19603f3d011682016040523d82523d6000602084013e6102a1565b606091505b5090925090506102b28282866102ce565b9695505050505050565b6001600160a01b03163b151590565b90565b606083156102dd575081610117565b8251156102ed5782518084602001fd5b8160405162461bcd60e51b815260040161018f919061046e565b634e487b7160e01b600052604160045260246000fd5b60005b83811015610338578181015183820152602001610320565b838111156100ab5750506000910152565b6000806040838503121561035c57600080fd5b82516001600160a01b038116811461037357600080fd5b60208401519092506001600160401b038082111561039057600080fd5b818501915085601f8301126103a457600080fd5b8151818111156103b6576103b6610307565b604051601f8201601f19908116603f011681019083821181831017156103de576103de610307565b816040528281528860208487010111156103f757600080fd5b61040883602083016020880161031d565b80955050505050509250929050565b60008282101561043757634e487b7160e01b600052601160045260246000fd5b500390565b634e487b7160e01b600052600160045260246000fd5b6000825161046481846020870161031d565b9190910192915050565b602081526000825180602084015261048d81604085016020870161031d565b601f01601f19169190910160400192915050565b610357806104b06000396000f3fe60806040523661001357610011610017565b005b6100115b610027610022610074565b6100b9565b565b606061004e83836040518060600160405280602781526020016102fb602791396100dd565b9392505050565b73ffffffffffffffffffffffffffffffffffffffff163b151590565b90565b60006100b47f360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc5473ffffffffffffffffffffffffffffffffffffffff1690565b905090565b3660008037600080366000845af43d6000803e8080156100d8573d6000f35b3d6000fd5b606073ffffffffffffffffffffffffffffffffffffffff84163b610188576040517f08c379a000000000000000000000000000000000000000000000000000000000815260206004820152602660248201527f416464726573733a2064656c65676174652063616c6c20746f206e6f6e2d636f60448201527f6e7472616374000000000000000000000000000000000000000000000000000060648201526084015b60405180910390fd5b6000808573ffffffffffffffffffffffffffffffffffffffff16856040516101b0919061028d565b600060405180830381855af49150503d80600081146101eb576040519150601f19603f3d011682016040523d82523d6000602084013e6101f0565b606091505b509150915061020082828661020a565b9695505050505050565b6060831561021957508161004e565b8251156102295782518084602001fd5b816040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161017f91906102a9565b60005b83811015610278578181015183820152602001610260565b83811115610287576000848401525b50505050565b6000825161029f81846020870161025d565b9190910192915050565b60208152600082518060208401526102c881604085016020870161025d565b601f017fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe016919091016040019291505056fe416464726573733a206c6f772d6c6576656c2064656c65676174652063616c6c206661696c6564a26469706673582212201e3c9348ed6dd2f363e89451207bd8df182bc878dc80d47166301a510c8801e964736f6c634300080a0033360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc416464726573733a206c6f772d6c6576656c2064656c65676174652063616c6c206661696c6564",
+  "linkReferences": {}
+} as const;
@@ -0,0 +1,123 @@
+import { Abi, Account, Address, encodeFunctionData, Hex, PublicClient, TransactionReceipt, WalletClient } from 'viem';
+import {
+  ERC1967ProxyArtifact as ERC1967Proxy,
+  NftSwapArtifact as NftSwap,
+  NftSwapExtensionArtifact as NftSwapExtension,
+  TradeAssetsArtifact as TradeAssets
+} from './artifacts';
+
+type LinkReferences = Readonly<Record<string, Readonly<Record<string, readonly { start: number; length: number }[]>>>>;
+
+export type DeployNftSwapConfig = {
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+  account?: Account | Address;
+  // Reuses already deployed libraries instead of deploying them
+  libraries?: Record<string, Address>;
+  // Defaults to the deploying account
+  owner?: Address;
+};
+
+/**
+ * Deploys NftSwap behind an ERC-1967 proxy, along with its extension and external libraries.
+ * `address` and `receipt` are the proxy's, the address trades are sent to
+ */
+export async function deployNftSwap({
+  publicClient,
+  walletClient,
+  account = walletClient.account,
+  libraries = {},
+  owner
+}: DeployNftSwapConfig): Promise<{
+  address: Address;
+  receipt: TransactionReceipt;
+  implementation: Address;
+  libraries: Record<string, Address>;
+}> {
+  if (!account) throw new Error('No account provided to deploy NftSwap with');
+
+  const deployed = await deployImplementation({ publicClient, walletClient, account, libraries });
+  const initialize = encodeFunctionData({
+    abi: NftSwap.abi,
+    functionName: 'initialize',
+    args: [owner ?? (typeof account === 'string' ? account : account.address)]
+  });
+  const hash = await walletClient.deployContract({
+    abi: ERC1967Proxy.abi,
+    bytecode: ERC1967Proxy.bytecode,
+    args: [deployed.implementation, initialize],
+    account,
+    chain: walletClient.chain
+  });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  return { address: receipt.contractAddress!, receipt, ...deployed };
+}
+
+/**
+ * Upgrades the proxy at `address` to a new implementation of NftSwap and its extension, the account has to be the owner.
+ * Check the storage layouts beforehand (see checkStorageLayout), an incompatible upgrade corrupts the trades
+ */
+export async function upgradeNftSwap({
+  publicClient,
+  walletClient,
+  address,
+  account = walletClient.account,
+  libraries = {}
+}: Omit<DeployNftSwapConfig, 'owner'> & { address: Address }): Promise<{
+  receipt: TransactionReceipt;
+  implementation: Address;
+  libraries: Record<string, Address>;
+}> {
+  if (!account) throw new Error('No account provided to upgrade NftSwap with');
+
+  const deployed = await deployImplementation({ publicClient, walletClient, account, libraries });
+  const hash = await walletClient.writeContract({
+    address,
+    abi: NftSwap.abi,
+    functionName: 'upgradeToAndCall',
+    args: [deployed.implementation, '0x'],
+    account,
+    chain: walletClient.chain
+  });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success') throw new Error('Failed to upgrade NftSwap');
+  return { receipt, ...deployed };
+}
+
+async function deployImplementation({
+  publicClient,
+  walletClient,
+  account,
+  libraries
+}: Required<Omit<DeployNftSwapConfig, 'owner'>>): Promise<{ implementation: Address; libraries: Record<string, Address> }> {
+  const deploy = async (abi: Abi, bytecode: Hex, args: unknown[] = []) => {
+    const hash = await walletClient.deployContract({ abi, bytecode, args, account, chain: walletClient.chain });
+    return (await publicClient.waitForTransactionReceipt({ hash })).contractAddress!;
+  };
+
+  libraries = { ...libraries };
+  libraries.TradeAssets ??= await deploy(TradeAssets.abi, TradeAssets.bytecode);
+
+  const extension = await deploy(NftSwapExtension.abi, linkBytecode(NftSwapExtension.bytecode, NftSwapExtension.linkReferences, libraries));
+  const implementation = await deploy(NftSwap.abi, linkBytecode(NftSwap.bytecode, NftSwap.linkReferences, libraries), [extension]);
+  return { implementation, libraries };
+}
+
+/**
+ * Replaces the library placeholders of a hardhat artifact bytecode with the library addresses
+ */
+export function linkBytecode(bytecode: string, linkReferences: LinkReferences, libraries: Record<string, Address>): Hex {
+  let linked = bytecode.slice(2);
+  for (const references of Object.values(linkReferences)) {
+    for (const [name, positions] of Object.entries(references)) {
+      const address = libraries[name];
+      if (!address) throw new Error(`Missing address of library ${name}`);
+
+      for (const { start, length } of positions) {
+        linked = linked.slice(0, start * 2) + address.slice(2).toLowerCase() + linked.slice((start + length) * 2);
+      }
+    }
+  }
+
+  return `0x${linked}`;
+}
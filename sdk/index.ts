@@ -0,0 +1,11 @@
+export * from './deploy';
+export * from './intents';
+export * from './LocalRelayer';
+export * from './merkle';
+export * from './NftSwapClient';
+export * from './NftSwapError';
+export * from './NftSwapIndexer';
+export * from './offers';
+export * from './storageLayout';
+export * from './TradeStore';
+export * from './types';
@@ -0,0 +1,36 @@
+import { hashTypedData, TypedDataDomain } from 'viem';
+import { offerTypes } from './offers';
+import { Agreement, Confirmation } from './types';
+
+// EIP-712 types of the agreements and confirmations participants sign for a relayer, see `agreeTradeBySig` and
+// `confirmTradeBySig` on the contract. They share the domain of the offers
+export const agreementTypes = {
+  Agreement: [
+    { name: 'tradeId', type: 'uint256' },
+    { name: 'user', type: 'address' },
+    { name: 'fromItems', type: 'TradeItem[]' },
+    { name: 'toItems', type: 'TradeItem[]' },
+    { name: 'fromPayment', type: 'Payment' },
+    { name: 'toPayment', type: 'Payment' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ],
+  TradeItem: offerTypes.TradeItem,
+  Payment: offerTypes.Payment
+} as const;
+export const confirmationTypes = {
+  Confirmation: [
+    { name: 'tradeId', type: 'uint256' },
+    { name: 'user', type: 'address' },
+    { name: 'version', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+} as const;
+
+export function hashAgreement(domain: TypedDataDomain, agreement: Agreement): `0x${string}` {
+  return hashTypedData({ domain, types: agreementTypes, primaryType: 'Agreement', message: agreement });
+}
+export function hashConfirmation(domain: TypedDataDomain, confirmation: Confirmation): `0x${string}` {
+  return hashTypedData({ domain, types: confirmationTypes, primaryType: 'Confirmation', message: confirmation });
+}
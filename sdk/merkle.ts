@@ -0,0 +1,51 @@
+import { concat, encodeAbiParameters, Hash, keccak256 } from 'viem';
+
+export type NftIdsTree = {
+  root: Hash;
+  getProof(nftId: bigint | number): Hash[];
+};
+
+/**
+ * Leaf of a token id, double hashed like the leaves of OpenZeppelin's StandardMerkleTree
+ */
+export function hashNftId(nftId: bigint | number): Hash {
+  return keccak256(keccak256(encodeAbiParameters([{ type: 'uint256' }], [BigInt(nftId)])));
+}
+
+/**
+ * Merkle tree of the token ids an open offer accepts, verified with OpenZeppelin's MerkleProof (sorted pairs)
+ */
+export function createNftIdsTree(nftIds: (bigint | number)[]): NftIdsTree {
+  if (nftIds.length === 0) throw new Error('An open offer needs at least one token id');
+
+  const layers: Hash[][] = [[...new Set(nftIds.map(hashNftId))].sort()];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const parents: Hash[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      // The last node of an odd layer moves up as is
+      parents.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(parents);
+  }
+
+  return {
+    root: layers[layers.length - 1][0],
+    getProof(nftId) {
+      let index = layers[0].indexOf(hashNftId(nftId));
+      if (index === -1) throw new Error(`Token id ${nftId} is not in the tree`);
+
+      const proof: Hash[] = [];
+      for (const layer of layers.slice(0, -1)) {
+        const sibling = index % 2 === 0 ? index + 1 : index - 1;
+        if (sibling < layer.length) proof.push(layer[sibling]);
+        index = Math.floor(index / 2);
+      }
+      return proof;
+    }
+  };
+}
+
+function hashPair(a: Hash, b: Hash): Hash {
+  return keccak256(a < b ? concat([a, b]) : concat([b, a]));
+}
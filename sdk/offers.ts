@@ -0,0 +1,52 @@
+import { Address, hashTypedData, TypedDataDomain, verifyTypedData } from 'viem';
+import { Offer, SignedOffer } from './types';
+
+// EIP-712 types of NftSwap.sol, the enum `standard` is encoded as a uint8
+export const offerTypes = {
+  Offer: [
+    { name: 'maker', type: 'address' },
+    { name: 'taker', type: 'address' },
+    { name: 'makerItems', type: 'TradeItem[]' },
+    { name: 'takerItems', type: 'TradeItem[]' },
+    { name: 'makerPayment', type: 'Payment' },
+    { name: 'takerPayment', type: 'Payment' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' }
+  ],
+  TradeItem: [
+    { name: 'nftContract', type: 'address' },
+    { name: 'nftId', type: 'uint256' },
+    { name: 'standard', type: 'uint8' },
+    { name: 'amount', type: 'uint256' }
+  ],
+  Payment: [
+    { name: 'nativeAmount', type: 'uint256' },
+    { name: 'erc20Token', type: 'address' },
+    { name: 'erc20Amount', type: 'uint256' }
+  ]
+} as const;
+
+export function getOfferDomain(chainId: number, verifyingContract: Address): TypedDataDomain {
+  return { name: 'NftSwap', version: '1', chainId, verifyingContract };
+}
+
+/**
+ * Digest the maker signs, matches `hashOffer` on the contract
+ */
+export function hashOffer(domain: TypedDataDomain, offer: Offer): `0x${string}` {
+  return hashTypedData({ domain, types: offerTypes, primaryType: 'Offer', message: offer });
+}
+
+/**
+ * Checks the offer was signed by its maker, only works for EOA makers. `NftSwapClient.verifyOffer` also supports contract wallets
+ */
+export async function verifyOffer(domain: TypedDataDomain, { offer, signature }: SignedOffer): Promise<boolean> {
+  return verifyTypedData({ address: offer.maker, domain, types: offerTypes, primaryType: 'Offer', message: offer, signature });
+}
+
+/**
+ * Default nonce, increasing over time so `invalidateNonces` can cancel every offer signed before a point in time
+ */
+export function createOfferNonce(): bigint {
+  return BigInt(Date.now()) * 1000n + BigInt(Math.floor(Math.random() * 1000));
+}
@@ -0,0 +1,90 @@
+// Storage layout as output by solc (`storageLayout`), stored by hardhat-deploy along with each deployment
+export type StorageVariable = {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+  contract?: string;
+};
+export type StorageType = {
+  label: string;
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+  numberOfBytes: string;
+  members?: StorageVariable[];
+  key?: string;
+  value?: string;
+  base?: string;
+};
+export type StorageLayout = {
+  storage: StorageVariable[];
+  types: Record<string, StorageType> | null;
+};
+
+/**
+ * Lists the changes of `next` that would corrupt the state written with the `previous` layout, empty when upgrading is safe.
+ * Variables can only be appended, and structs only get new members at the end when they are stored as mapping values
+ */
+export function checkStorageLayout(previous: StorageLayout, next: StorageLayout): string[] {
+  return checkMembers(previous, next, previous.storage, next.storage, false, '');
+}
+
+function checkMembers(
+  previous: StorageLayout,
+  next: StorageLayout,
+  previousMembers: StorageVariable[],
+  nextMembers: StorageVariable[],
+  canAppend: boolean,
+  path: string
+): string[] {
+  const errors: string[] = [];
+  if (!canAppend && path && previousMembers.length !== nextMembers.length) {
+    errors.push(`${path} changed its members, which shifts the storage after it`);
+  }
+
+  previousMembers.forEach((member, i) => {
+    const name = `${path}${member.label}`;
+    const nextMember = nextMembers[i];
+    if (!nextMember) {
+      errors.push(`${name} was removed`);
+    } else if (nextMember.label !== member.label) {
+      errors.push(`${name} was replaced by ${path}${nextMember.label}`);
+    } else if (nextMember.slot !== member.slot || nextMember.offset !== member.offset) {
+      errors.push(`${name} moved from slot ${member.slot}+${member.offset} to ${nextMember.slot}+${nextMember.offset}`);
+    } else {
+      errors.push(...checkType(previous, next, member.type, nextMember.type, false, name));
+    }
+  });
+  return errors;
+}
+
+function checkType(
+  previous: StorageLayout,
+  next: StorageLayout,
+  previousTypeId: string,
+  nextTypeId: string,
+  canAppend: boolean,
+  name: string
+): string[] {
+  const previousType = previous.types?.[previousTypeId];
+  const nextType = next.types?.[nextTypeId];
+  if (!previousType || !nextType) return [`${name} has an unknown type`];
+
+  const describe = (type: StorageType) => `${type.label} (${type.encoding}, ${type.numberOfBytes} bytes)`;
+  const changed = [`${name} changed from ${describe(previousType)} to ${describe(nextType)}`];
+  if (previousType.encoding !== nextType.encoding) return changed;
+
+  if (previousType.members && nextType.members) {
+    return checkMembers(previous, next, previousType.members, nextType.members, canAppend, `${name}.`);
+  }
+  if (previousType.encoding === 'mapping') {
+    return [
+      ...checkType(previous, next, previousType.key!, nextType.key!, false, `${name} key`),
+      ...checkType(previous, next, previousType.value!, nextType.value!, true, `${name}[]`)
+    ];
+  }
+  if (previousType.base && nextType.base) {
+    if (previousType.numberOfBytes !== nextType.numberOfBytes) return changed;
+    return checkType(previous, next, previousType.base, nextType.base, false, `${name}[]`);
+  }
+  return describe(previousType) === describe(nextType) ? [] : changed;
+}
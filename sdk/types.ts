@@ -0,0 +1,279 @@
+import { Account, Address, Hash, Hex, TransactionReceipt } from 'viem';
+import type { NftSwapError } from './NftSwapError';
+
+export enum TradeStatus {
+  Proposed,
+  Agreed,
+  Confirmed, // Both parties confirmed, the trade completes in the same transaction
+  Cancelled,
+  Completed,
+  Expired, // Cancelled after its deadline
+  Rejected // Cancelled by a participant who didn't agree to the terms
+}
+export enum TokenStandard {
+  ERC721,
+  ERC1155
+}
+export type TradeItem = {
+  nftContract: Address;
+  nftId: bigint;
+  standard: TokenStandard;
+  amount: bigint;
+};
+export type Payment = {
+  nativeAmount: bigint;
+  erc20Token: Address;
+  erc20Amount: bigint;
+};
+export type Trade = {
+  fromAddress: Address;
+  fromItems: TradeItem[];
+  fromPayment: Payment;
+  fromHasAgreed: boolean;
+  fromHasConfirmed: boolean;
+
+  toAddress: Address;
+  toItems: TradeItem[];
+  toPayment: Payment;
+  toHasAgreed: boolean;
+  toHasConfirmed: boolean;
+
+  wanted: OpenOfferCriteria;
+  version: bigint;
+  fee: bigint;
+  createdAt: bigint;
+  expiresAt: bigint;
+  status: TradeStatus;
+};
+// Timestamps of the lifecycle of a trade, 0 until reached
+export type TradeLifecycle = {
+  agreedAt: bigint; // Both parties agreed, cleared by counter-proposals
+  confirmedAt: bigint;
+  completedAt: bigint;
+  cancelledAt: bigint; // Cancelled, expired or rejected
+  cancelledBy: Address;
+};
+// NFT an open offer accepts, from anyone holding a matching token. `idsRoot` is zero to accept any token of the collection
+export type OpenOfferCriteria = {
+  nftContract: Address;
+  standard: TokenStandard;
+  amount: bigint;
+  idsRoot: Hash;
+};
+export type TradeWithId = Trade & { id: bigint };
+export type TradePage = {
+  trades: TradeWithId[];
+  total: bigint;
+};
+export type PageOptions = {
+  offset?: bigint | number;
+  limit?: bigint | number;
+};
+
+// NFTs both parties agree to swap
+// `standard` defaults to ERC721 and `amount` to 1
+export type TradeItemInput = {
+  nftContract: Address;
+  nftId: bigint | number;
+  standard?: TokenStandard;
+  amount?: bigint | number;
+};
+// Fungible tokens added on top of the NFTs, RON is escrowed when confirming
+export type PaymentInput = {
+  nativeAmount?: bigint;
+  erc20Token?: Address;
+  erc20Amount?: bigint;
+};
+export type TradeTerms = {
+  fromItems: TradeItemInput[];
+  toItems: TradeItemInput[];
+  fromPayment?: PaymentInput;
+  toPayment?: PaymentInput;
+};
+
+// Trade of a batch proposal, see `NftSwapClient.proposeTrades`
+export type TradeProposalInput = {
+  fromAddress: Address;
+  toAddress: Address;
+  terms: TradeTerms;
+  expiresAt?: bigint | Date;
+};
+
+// `nftIds` restricts the accepted tokens to a set of ids (e.g. filtered by trait), committed to as a Merkle root
+export type OpenOfferInput = {
+  fromItems: TradeItemInput[];
+  fromPayment?: PaymentInput;
+  toPayment?: PaymentInput;
+  wanted: {
+    nftContract: Address;
+    standard?: TokenStandard;
+    amount?: bigint | number;
+    nftIds?: (bigint | number)[];
+  };
+};
+
+// Offers signed off-chain by the maker (EIP-712) and filled by the taker
+export type Offer = {
+  maker: Address;
+  taker: Address;
+  makerItems: TradeItem[];
+  takerItems: TradeItem[];
+  makerPayment: Payment;
+  takerPayment: Payment;
+  expiry: bigint;
+  nonce: bigint;
+};
+// `taker` defaults to an open offer, `nonce` to a timestamp based nonce
+export type OfferInput = {
+  maker: Address;
+  taker?: Address;
+  makerItems: TradeItemInput[];
+  takerItems: TradeItemInput[];
+  makerPayment?: PaymentInput;
+  takerPayment?: PaymentInput;
+  expiry: bigint | Date;
+  nonce?: bigint;
+};
+export type SignedOffer = {
+  offer: Offer;
+  signature: Hex;
+};
+
+// Agreements and confirmations signed by a participant (EIP-712), submitted by a relayer paying the gas
+export type Agreement = {
+  tradeId: bigint;
+  user: Address;
+  fromItems: TradeItem[];
+  toItems: TradeItem[];
+  fromPayment: Payment;
+  toPayment: Payment;
+  nonce: bigint;
+  deadline: bigint;
+};
+export type Confirmation = {
+  tradeId: bigint;
+  user: Address;
+  version: bigint;
+  nonce: bigint;
+  deadline: bigint;
+};
+export type SignedAgreement = {
+  agreement: Agreement;
+  signature: Hex;
+};
+export type SignedConfirmation = {
+  confirmation: Confirmation;
+  signature: Hex;
+};
+
+// Events
+export type TradeProposedEvent = {
+  eventName: 'TradeProposed';
+  args: { tradeId: bigint; fromAddress: Address; toAddress: Address; expiresAt: bigint };
+};
+export type TradeTermsSetEvent = {
+  eventName: 'TradeTermsSet';
+  args: { tradeId: bigint; fromItems: TradeItem[]; toItems: TradeItem[]; fromPayment: Payment; toPayment: Payment };
+};
+export type TradeCounteredEvent = { eventName: 'TradeCountered'; args: { tradeId: bigint; user: Address; version: bigint } };
+export type TradeAgreedEvent = { eventName: 'TradeAgreed'; args: { tradeId: bigint; user: Address } };
+export type TradeConfirmedEvent = { eventName: 'TradeConfirmed'; args: { tradeId: bigint; user: Address } };
+export type TradeCompletedEvent = { eventName: 'TradeCompleted'; args: { tradeId: bigint; fromAddress: Address; toAddress: Address } };
+export type TradeCancelledEvent = { eventName: 'TradeCancelled'; args: { tradeId: bigint; cancelledBy: Address; reason: string } };
+export type PermissionlessProposalsUpdatedEvent = { eventName: 'PermissionlessProposalsUpdated'; args: { enabled: boolean } };
+export type DefaultTradeTimeoutUpdatedEvent = { eventName: 'DefaultTradeTimeoutUpdated'; args: { timeout: bigint } };
+export type FeePaidEvent = { eventName: 'FeePaid'; args: { tradeId: bigint; payer: Address; fee: bigint } };
+export type FeesWithdrawnEvent = { eventName: 'FeesWithdrawn'; args: { recipient: Address; amount: bigint } };
+export type FeeScheduleUpdatedEvent = {
+  eventName: 'FeeScheduleUpdated';
+  args: { flatFee: bigint; collection: Address; enabled: boolean; collectionFee: bigint };
+};
+export type FeeExemptionUpdatedEvent = { eventName: 'FeeExemptionUpdated'; args: { account: Address; exempt: boolean } };
+export type FeeRecipientUpdatedEvent = { eventName: 'FeeRecipientUpdated'; args: { recipient: Address } };
+export type RoyaltyPaidEvent = {
+  eventName: 'RoyaltyPaid';
+  args: { tradeId: bigint; nftContract: Address; nftId: bigint; receiver: Address; token: Address; amount: bigint };
+};
+export type RoyaltyCapUpdatedEvent = { eventName: 'RoyaltyCapUpdated'; args: { royaltyCapBps: bigint } };
+export type OfferFilledEvent = {
+  eventName: 'OfferFilled';
+  args: { offerHash: Hash; tradeId: bigint; maker: Address; taker: Address };
+};
+export type OpenOfferProposedEvent = { eventName: 'OpenOfferProposed'; args: { tradeId: bigint; wanted: OpenOfferCriteria } };
+export type OpenOfferAcceptedEvent = { eventName: 'OpenOfferAccepted'; args: { tradeId: bigint; taker: Address; nftId: bigint } };
+export type OfferCancelledEvent = { eventName: 'OfferCancelled'; args: { maker: Address; nonce: bigint } };
+export type PausedUpdatedEvent = { eventName: 'PausedUpdated'; args: { paused: boolean } };
+export type CollectionBlockedUpdatedEvent = { eventName: 'CollectionBlockedUpdated'; args: { collection: Address; blocked: boolean } };
+export type OwnershipTransferStartedEvent = {
+  eventName: 'OwnershipTransferStarted';
+  args: { previousOwner: Address; newOwner: Address };
+};
+export type OwnershipTransferredEvent = { eventName: 'OwnershipTransferred'; args: { previousOwner: Address; newOwner: Address } };
+export type NoncesInvalidatedEvent = { eventName: 'NoncesInvalidated'; args: { maker: Address; minNonce: bigint } };
+export type AllowlistEnabledUpdatedEvent = { eventName: 'AllowlistEnabledUpdated'; args: { enabled: boolean } };
+export type CollectionAllowedUpdatedEvent = { eventName: 'CollectionAllowedUpdated'; args: { collection: Address; allowed: boolean } };
+export type PlainTransfersUpdatedEvent = { eventName: 'PlainTransfersUpdated'; args: { tradeId: bigint; user: Address; enabled: boolean } };
+export type EscrowModeUpdatedEvent = { eventName: 'EscrowModeUpdated'; args: { tradeId: bigint; user: Address; enabled: boolean } };
+export type ItemsEscrowedEvent = { eventName: 'ItemsEscrowed'; args: { tradeId: bigint; user: Address } };
+export type EscrowWithdrawnEvent = { eventName: 'EscrowWithdrawn'; args: { tradeId: bigint; user: Address } };
+export type PaymentCreditedEvent = { eventName: 'PaymentCredited'; args: { account: Address; amount: bigint } };
+export type PaymentWithdrawnEvent = { eventName: 'PaymentWithdrawn'; args: { account: Address; amount: bigint } };
+export type BatchCallFailedEvent = { eventName: 'BatchCallFailed'; args: { index: bigint; reason: Hex } };
+export type UpgradedEvent = { eventName: 'Upgraded'; args: { implementation: Address } };
+export type InitializedEvent = { eventName: 'Initialized'; args: { version: bigint } };
+export type NftSwapEvent =
+  | TradeProposedEvent
+  | TradeTermsSetEvent
+  | TradeCounteredEvent
+  | TradeAgreedEvent
+  | TradeConfirmedEvent
+  | TradeCompletedEvent
+  | TradeCancelledEvent
+  | PermissionlessProposalsUpdatedEvent
+  | DefaultTradeTimeoutUpdatedEvent
+  | FeePaidEvent
+  | FeesWithdrawnEvent
+  | FeeScheduleUpdatedEvent
+  | FeeExemptionUpdatedEvent
+  | FeeRecipientUpdatedEvent
+  | RoyaltyPaidEvent
+  | RoyaltyCapUpdatedEvent
+  | OpenOfferProposedEvent
+  | OpenOfferAcceptedEvent
+  | OfferFilledEvent
+  | OfferCancelledEvent
+  | NoncesInvalidatedEvent
+  | PausedUpdatedEvent
+  | CollectionBlockedUpdatedEvent
+  | OwnershipTransferStartedEvent
+  | OwnershipTransferredEvent
+  | AllowlistEnabledUpdatedEvent
+  | CollectionAllowedUpdatedEvent
+  | PlainTransfersUpdatedEvent
+  | EscrowModeUpdatedEvent
+  | ItemsEscrowedEvent
+  | EscrowWithdrawnEvent
+  | PaymentCreditedEvent
+  | PaymentWithdrawnEvent
+  | BatchCallFailedEvent
+  | UpgradedEvent
+  | InitializedEvent;
+
+// Transactions
+export type WriteOptions = {
+  account?: Account | Address;
+  value?: bigint;
+  gas?: bigint;
+};
+export type TradeTransaction = {
+  hash: Hash;
+  receipt: TransactionReceipt;
+  events: NftSwapEvent[];
+};
+// Outcome of each call of a batch, in order. Failed calls don't revert the others
+export type BatchResult = {
+  success: boolean;
+  tradeId?: bigint; // Unset for failed proposals
+  error?: NftSwapError;
+};
+export type BatchTransaction = TradeTransaction & { results: BatchResult[] };
@@ -0,0 +1,63 @@
+import { readFileSync } from 'fs';
+import { task, types } from 'hardhat/config';
+import { Address, getAddress } from 'viem';
+import type { NftSwapClient } from '../sdk';
+import { getNftSwapClient } from './utils';
+
+// Allowlist maintained as JSON, `enabled` is left unchanged when omitted
+export type AllowlistFile = {
+  enabled?: boolean;
+  allow?: string[];
+  disallow?: string[];
+};
+
+/**
+ * Applies an allowlist file, only sending the collections whose state changes, `batchSize` collections per transaction.
+ * Collections are allowed before the allowlist gets enabled, so trades of listed collections are never blocked in between
+ */
+export async function applyAllowlist(
+  nftSwap: NftSwapClient,
+  list: AllowlistFile,
+  batchSize = 50
+): Promise<{ allowed: Address[]; disallowed: Address[]; enabled?: boolean }> {
+  const allow = (list.allow ?? []).map((collection) => getAddress(collection));
+  const disallow = (list.disallow ?? []).map((collection) => getAddress(collection));
+  const conflict = allow.find((collection) => disallow.includes(collection));
+  if (conflict) throw new Error(`${conflict} is both allowed and disallowed`);
+
+  const changed = async (collections: Address[], allowed: boolean) => {
+    const current = await Promise.all(collections.map((collection) => nftSwap.isCollectionAllowed(collection)));
+    return [...new Set(collections.filter((_, i) => current[i] !== allowed))];
+  };
+  const allowed = await changed(allow, true);
+  const disallowed = await changed(disallow, false);
+
+  for (const [collections, isAllowed] of [
+    [allowed, true],
+    [disallowed, false]
+  ] as const) {
+    for (let i = 0; i < collections.length; i += batchSize) {
+      await nftSwap.setCollectionsAllowed(collections.slice(i, i + batchSize), isAllowed);
+    }
+  }
+
+  let enabled: boolean | undefined;
+  if (list.enabled !== undefined && list.enabled !== (await nftSwap.isAllowlistEnabled())) {
+    await nftSwap.setAllowlistEnabled(list.enabled);
+    enabled = list.enabled;
+  }
+  return { allowed, disallowed, enabled };
+}
+
+task('swap:allowlist', 'Allows and disallows collections in bulk from a JSON file')
+  .addParam('file', 'JSON file with `allow` and `disallow` lists of collections, and optionally `enabled`')
+  .addOptionalParam('address', 'NftSwap address, defaults to the deployment of the network')
+  .addOptionalParam('batchSize', 'Collections per transaction', 50, types.int)
+  .setAction(async ({ file, address, batchSize }: { file: string; address?: string; batchSize: number }, hre) => {
+    const list = JSON.parse(readFileSync(file, 'utf8')) as AllowlistFile;
+    const nftSwap = await getNftSwapClient(hre, address);
+
+    const { allowed, disallowed, enabled } = await applyAllowlist(nftSwap, list, batchSize);
+    console.log(`Allowed ${allowed.length} collections, disallowed ${disallowed.length}`);
+    if (enabled !== undefined) console.log(`Allowlist ${enabled ? 'enabled' : 'disabled'}`);
+  });
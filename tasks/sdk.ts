@@ -0,0 +1,32 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { task } from 'hardhat/config';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import path from 'path';
+
+export const SDK_ARTIFACTS_PATH = path.join(__dirname, '..', 'sdk', 'artifacts.ts');
+// Contracts the SDK deploys or calls, the proxy comes with hardhat-deploy
+const SDK_CONTRACTS = ['NftSwap', 'NftSwapExtension', 'TradeAssets'];
+const PROXY_ARTIFACT_PATH = require.resolve('hardhat-deploy/extendedArtifacts/ERC1967Proxy.json');
+
+/**
+ * Source of sdk/artifacts.ts: the ABI, bytecode and library link references of the compiled contracts, typed `as const`
+ */
+export async function formatSdkArtifacts(hre: HardhatRuntimeEnvironment): Promise<string> {
+  const artifacts = await Promise.all(SDK_CONTRACTS.map((name) => hre.artifacts.readArtifact(name)));
+  const proxy = JSON.parse(readFileSync(PROXY_ARTIFACT_PATH, 'utf8'));
+
+  return [
+    '// Generated by `npx hardhat sdk:artifacts` from the compiled contracts, do not edit',
+    ...[...artifacts, { ...proxy, contractName: 'ERC1967Proxy', linkReferences: {} }].map(
+      ({ contractName, abi, bytecode, linkReferences }) =>
+        `export const ${contractName}Artifact = ${JSON.stringify({ abi, bytecode, linkReferences }, null, 2)} as const;`
+    ),
+    ''
+  ].join('\n');
+}
+
+task('sdk:artifacts', 'Writes the ABIs and bytecodes of the compiled contracts to the SDK (sdk/artifacts.ts)').setAction(async (_, hre) => {
+  await hre.run('compile', { quiet: true });
+  writeFileSync(SDK_ARTIFACTS_PATH, await formatSdkArtifacts(hre));
+  console.log(`Wrote ${path.relative(process.cwd(), SDK_ARTIFACTS_PATH)}`);
+});
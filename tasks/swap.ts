@@ -0,0 +1,124 @@
+import { task, types } from 'hardhat/config';
+import { formatEther, getAddress, parseEther } from 'viem';
+import { TradeStatus } from '../sdk/types';
+import { formatTrade, formatTradeSummary, getChainTime, getNftSwapClient, parseTradeItems } from './utils';
+
+// Operational tasks against the NftSwap deployment of the network, e.g. `npx hardhat swap:show 12 --network ronin`
+
+type ProposeArgs = {
+  from: string;
+  to: string;
+  offered?: string;
+  requested?: string;
+  fromRon: string;
+  toRon: string;
+  expiresIn: number;
+  address?: string;
+};
+
+task('swap:propose', 'Proposes a trade, as the owner')
+  .addParam('from', 'Address offering the NFTs')
+  .addParam('to', 'Address the NFTs are requested from')
+  .addOptionalParam('offered', 'NFTs offered, as collection:id or collection:id:amount (ERC1155), comma separated')
+  .addOptionalParam('requested', 'NFTs requested, in the same format')
+  .addOptionalParam('fromRon', 'RON paid by the proposer, in RON', '0')
+  .addOptionalParam('toRon', 'RON paid by the receiver, in RON', '0')
+  .addOptionalParam('expiresIn', 'Seconds until the trade expires, 0 for the default timeout', 0, types.int)
+  .addOptionalParam('address', 'NftSwap address, defaults to the deployment of the network')
+  .setAction(async (args: ProposeArgs, hre) => {
+    const nftSwap = await getNftSwapClient(hre, args.address);
+
+    // Terms are optional, the parties can set them when agreeing
+    const terms =
+      args.offered || args.requested
+        ? {
+            fromItems: parseTradeItems(args.offered ?? ''),
+            toItems: parseTradeItems(args.requested ?? ''),
+            fromPayment: { nativeAmount: parseEther(args.fromRon) },
+            toPayment: { nativeAmount: parseEther(args.toRon) }
+          }
+        : undefined;
+    // Relative to the chain time, which a local node can move forward
+    const now = await getChainTime(hre);
+    const expiresAt = args.expiresIn > 0 ? now + BigInt(args.expiresIn) : undefined;
+
+    const { tradeId, hash } = await nftSwap.proposeTrade(getAddress(args.from), getAddress(args.to), { terms, expiresAt });
+    console.log(`Proposed trade #${tradeId} (${hash})\n`);
+    console.log(formatTrade({ ...(await nftSwap.getTrade(tradeId)), id: tradeId }));
+  });
+
+task('swap:show', 'Shows a trade')
+  .addPositionalParam('tradeId', 'Id of the trade', undefined, types.bigint)
+  .addOptionalParam('address', 'NftSwap address, defaults to the deployment of the network')
+  .setAction(async ({ tradeId, address }: { tradeId: bigint; address?: string }, hre) => {
+    const nftSwap = await getNftSwapClient(hre, address);
+    console.log(formatTrade({ ...(await nftSwap.getTrade(tradeId)), id: tradeId }));
+  });
+
+task('swap:list', 'Lists the trades of a user, of a status, or the open trades by default')
+  .addOptionalParam('user', 'Address taking part in the trades')
+  .addOptionalParam('status', `One of ${Object.keys(TradeStatus).filter((key) => isNaN(Number(key)))}`)
+  .addOptionalParam('offset', 'Trades to skip', 0, types.int)
+  .addOptionalParam('limit', 'Trades to show', 20, types.int)
+  .addOptionalParam('address', 'NftSwap address, defaults to the deployment of the network')
+  .setAction(async (args: { user?: string; status?: string; offset: number; limit: number; address?: string }, hre) => {
+    const nftSwap = await getNftSwapClient(hre, args.address);
+    const options = { offset: args.offset, limit: args.limit };
+
+    let page;
+    if (args.user) {
+      page = await nftSwap.getTradesByUser(getAddress(args.user), options);
+    } else if (args.status) {
+      const status = TradeStatus[args.status as keyof typeof TradeStatus];
+      if (typeof status !== 'number') throw new Error(`Unknown trade status ${args.status}`);
+      page = await nftSwap.getTradesByStatus(status, options);
+    } else {
+      page = await nftSwap.getOpenTrades(options);
+    }
+
+    page.trades.forEach((trade) => console.log(formatTradeSummary(trade)));
+    console.log(`${page.trades.length} of ${page.total} trades`);
+  });
+
+task('swap:status', 'Shows the settings and counters of the contract')
+  .addOptionalParam('address', 'NftSwap address, defaults to the deployment of the network')
+  .setAction(async ({ address }: { address?: string }, hre) => {
+    const nftSwap = await getNftSwapClient(hre, address);
+    const [owner, pendingOwner, paused, permissionless, allowlist, timeout, fees, royaltyCap, tradeCount, openTradeCount] =
+      await Promise.all([
+        nftSwap.getOwner(),
+        nftSwap.getPendingOwner(),
+        nftSwap.isPaused(),
+        nftSwap.getPermissionlessProposals(),
+        nftSwap.isAllowlistEnabled(),
+        nftSwap.getDefaultTradeTimeout(),
+        nftSwap.getFeeSchedule(),
+        nftSwap.getRoyaltyCap(),
+        nftSwap.getTradeCount(),
+        nftSwap.getOpenTradeCount()
+      ]);
+
+    console.log(`NftSwap ${nftSwap.address} on ${hre.network.name}`);
+    console.log(`  owner                    ${owner}${BigInt(pendingOwner) !== 0n ? ` (handing over to ${pendingOwner})` : ''}`);
+    console.log(`  paused                   ${paused}`);
+    console.log(`  permissionless proposals ${permissionless}`);
+    console.log(`  allowlist                ${allowlist ? 'enabled' : 'disabled'}`);
+    console.log(`  default trade timeout    ${timeout}s`);
+    console.log(`  flat fee                 ${formatEther(fees.flatFee)} RON`);
+    console.log(`  fee recipient            ${fees.feeRecipient}`);
+    console.log(`  accumulated fees         ${formatEther(fees.accumulatedFees)} RON`);
+    console.log(`  royalty cap              ${Number(royaltyCap) / 100}%`);
+    console.log(`  trades                   ${tradeCount} (${openTradeCount} open)`);
+  });
+
+task('swap:withdraw-fees', 'Sends the accumulated fees to the fee recipient')
+  .addOptionalParam('address', 'NftSwap address, defaults to the deployment of the network')
+  .setAction(async ({ address }: { address?: string }, hre) => {
+    const nftSwap = await getNftSwapClient(hre, address);
+    const { events, hash } = await nftSwap.withdrawFees();
+
+    const withdrawn = events.find((event) => event.eventName === 'FeesWithdrawn');
+    if (withdrawn?.eventName === 'FeesWithdrawn') {
+      console.log(`Withdrew ${formatEther(withdrawn.args.amount)} RON to ${withdrawn.args.recipient} (${hash})`);
+    }
+  });
@@ -0,0 +1,112 @@
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { Account, createWalletClient, custom, formatEther, getAddress, Hex, PublicClient, WalletClient, zeroAddress, zeroHash } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import type { NftSwapClient } from '../sdk';
+import { Payment, TokenStandard, TradeItem, TradeItemInput, TradeLifecycle, TradeStatus, TradeWithId } from '../sdk/types';
+
+/**
+ * Client of the NftSwap deployment of the network (`deployments/<network>/NftSwap.json`) or of `address`,
+ * sending transactions from the deployer, which owns the contract
+ */
+export async function getNftSwapClient(hre: HardhatRuntimeEnvironment, address?: string): Promise<NftSwapClient> {
+  // Loaded once a task runs, the generated SDK artifacts are too large to compile on every hardhat command
+  const { NftSwapClient } = await import('../sdk');
+
+  const publicClient = (await hre.viem.getPublicClient()) as PublicClient;
+  const deployer = await getDeployerAccount(hre);
+  const walletClient =
+    typeof deployer === 'string'
+      ? ((await hre.viem.getWalletClient(deployer)) as WalletClient)
+      : createWalletClient({ account: deployer, chain: publicClient.chain, transport: custom(hre.network.provider) });
+
+  return new NftSwapClient({
+    address: getAddress(address ?? (await hre.deployments.get('NftSwap')).address),
+    publicClient,
+    walletClient
+  });
+}
+
+export async function getChainTime(hre: HardhatRuntimeEnvironment): Promise<bigint> {
+  return (await (await hre.viem.getPublicClient()).getBlock()).timestamp;
+}
+
+// The node doesn't know hardhat-deploy's `privatekey://` named accounts, their transactions are signed locally
+async function getDeployerAccount(hre: HardhatRuntimeEnvironment): Promise<Account | Hex> {
+  const spec = hre.config.namedAccounts.deployer;
+  const value = typeof spec === 'object' ? (spec[hre.network.name] ?? spec.default) : spec;
+  if (typeof value === 'string' && value.startsWith('privatekey://')) {
+    return privateKeyToAccount(value.slice('privatekey://'.length) as Hex);
+  }
+
+  const { deployer } = await hre.getNamedAccounts();
+  if (!deployer) throw new Error(`No deployer account configured for ${hre.network.name}`);
+  return getAddress(deployer);
+}
+
+/**
+ * Parses the NFTs given on the command line as `collection:id` (ERC721) or `collection:id:amount` (ERC1155), comma separated
+ */
+export function parseTradeItems(items: string): TradeItemInput[] {
+  return items
+    .split(',')
+    .filter((item) => item.trim())
+    .map((item) => {
+      const [nftContract, nftId, amount, ...rest] = item.trim().split(':');
+      if (!nftContract || !nftId || rest.length > 0) {
+        throw new Error(`Invalid NFT "${item}", expected collection:id or collection:id:amount`);
+      }
+      return amount === undefined
+        ? { nftContract: getAddress(nftContract), nftId: BigInt(nftId) }
+        : { nftContract: getAddress(nftContract), nftId: BigInt(nftId), standard: TokenStandard.ERC1155, amount: BigInt(amount) };
+    });
+}
+
+/**
+ * Multi-line description of a trade, with its decoded status. Expired trades nobody cancelled yet are flagged, their refunds are pending
+ */
+export function formatTrade(trade: TradeWithId & Partial<TradeLifecycle>): string {
+  const uncancelled = trade.status === TradeStatus.Expired && !trade.cancelledAt;
+  const side = (address: string, items: TradeItem[], payment: Payment, agreed: boolean, confirmed: boolean) => [
+    `  ${address === zeroAddress ? 'anyone' : address} (${confirmed ? 'confirmed' : agreed ? 'agreed' : 'pending'})`,
+    ...items.map((item) => `    ${formatNft(item, `#${item.nftId}`)}`),
+    ...formatPayment(payment).map((line) => `    ${line}`)
+  ];
+
+  return [
+    `Trade #${trade.id}: ${TradeStatus[trade.status]}${uncancelled ? ' (not cancelled)' : ''}, version ${trade.version}`,
+    ...side(trade.fromAddress, trade.fromItems, trade.fromPayment, trade.fromHasAgreed, trade.fromHasConfirmed),
+    ...side(trade.toAddress, trade.toItems, trade.toPayment, trade.toHasAgreed, trade.toHasConfirmed),
+    ...(trade.wanted.nftContract !== zeroAddress
+      ? [`  wants ${formatNft(trade.wanted, trade.wanted.idsRoot === zeroHash ? 'any id' : `id listed in ${trade.wanted.idsRoot}`)}`]
+      : []),
+    `  fee ${formatEther(trade.fee)} RON`,
+    `  created ${formatTimestamp(trade.createdAt)}, expires ${formatTimestamp(trade.expiresAt)}`,
+    ...(['agreedAt', 'confirmedAt', 'completedAt', 'cancelledAt'] as const)
+      .filter((key) => trade[key])
+      .map((key) => `  ${key.replace('At', '')} ${formatTimestamp(trade[key]!)}${key === 'cancelledAt' ? ` by ${trade.cancelledBy}` : ''}`)
+  ].join('\n');
+}
+
+/**
+ * Single line summary of a trade, for listings
+ */
+export function formatTradeSummary(trade: TradeWithId): string {
+  const count = (items: TradeItem[]) => `${items.length} NFT${items.length === 1 ? '' : 's'}`;
+  const to = trade.toAddress === zeroAddress ? 'anyone' : trade.toAddress;
+  return `#${trade.id} ${TradeStatus[trade.status]} ${trade.fromAddress} (${count(trade.fromItems)}) <> ${to} (${count(trade.toItems)}), expires ${formatTimestamp(trade.expiresAt)}`;
+}
+
+function formatNft({ nftContract, standard, amount }: Omit<TradeItem, 'nftId'>, id: string): string {
+  return standard === TokenStandard.ERC1155 ? `${amount} x ERC1155 ${nftContract} ${id}` : `ERC721 ${nftContract} ${id}`;
+}
+
+function formatPayment(payment: Payment): string[] {
+  return [
+    ...(payment.nativeAmount > 0n ? [`${formatEther(payment.nativeAmount)} RON`] : []),
+    ...(payment.erc20Amount > 0n ? [`${payment.erc20Amount} of ERC20 ${payment.erc20Token}`] : [])
+  ];
+}
+
+function formatTimestamp(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
@@ -0,0 +1,155 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  Abi,
+  Address,
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  getAddress,
+  getContract,
+  http,
+  parseEther,
+  PublicClient,
+  WalletClient
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import MockLyingNft from '../artifacts/contracts/MockLyingNft.sol/MockLyingNft.json';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import MockReentrantNft from '../artifacts/contracts/MockReentrantNft.sol/MockReentrantNft.json';
+import MockRevertingNft from '../artifacts/contracts/MockRevertingNft.sol/MockRevertingNft.json';
+import { deployNftSwap, nftSwapAbi, NftSwapClient, NftSwapError, NftSwapErrorCode, TradeStatus, TradeTerms } from '../sdk';
+
+describe('Adversarial', function () {
+  let publicClient: PublicClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let attacker: any;
+  let victim: any;
+  let nftContract: any;
+  let nftSwap: NftSwapClient;
+
+  const attackerNftId = 1n,
+    victimNftId = 2n;
+
+  const deploy = async (artifact: { abi: unknown[]; bytecode: string }) => {
+    const hash = await walletClientOwner.deployContract({
+      abi: artifact.abi as Abi,
+      bytecode: artifact.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const address = getAddress((await publicClient.waitForTransactionReceipt({ hash })).contractAddress!);
+    return getContract({ address, abi: artifact.abi as Abi, client: { public: publicClient, wallet: walletClientOwner } }) as any;
+  };
+  // The attacker offers a token of the malicious collection for the victim's NFT, both parties agree
+  const proposeTrade = async (collection: Address, toPayment?: bigint) => {
+    const terms: TradeTerms = {
+      fromItems: [{ nftContract: collection, nftId: attackerNftId }],
+      toItems: [{ nftContract: nftContract.address, nftId: victimNftId }],
+      toPayment: toPayment ? { nativeAmount: toPayment } : undefined
+    };
+    const { tradeId } = await nftSwap.proposeTrade(attacker.account.address, victim.account.address, { terms });
+    await nftSwap.agreeTrade(tradeId, terms, { account: attacker.account });
+    await nftSwap.agreeTrade(tradeId, terms, { account: victim.account });
+    return tradeId;
+  };
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat,
+      transport: http()
+    });
+
+    // Get accounts from Hardhat
+    [contractOwner, attacker, victim] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    nftContract = await deploy(MockNft);
+    const { address } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    nftSwap = new NftSwapClient({ address, publicClient, walletClient: walletClientOwner });
+
+    await nftContract.write.mint([victim.account.address, victimNftId]);
+    await nftContract.write.setApprovalForAll([address, true], { account: victim.account });
+  });
+
+  it('Should block a collection calling back into confirmTrade while the trade executes', async function () {
+    const reentrantNft = await deploy(MockReentrantNft);
+    await reentrantNft.write.mint([attacker.account.address, attackerNftId]);
+    await reentrantNft.write.setApprovalForAll([nftSwap.address, true], { account: attacker.account });
+    const tradeId = await proposeTrade(reentrantNft.address);
+    await nftSwap.confirmTrade(tradeId, { account: attacker.account });
+
+    // Act: The transfer of the attacker's token calls confirmTrade again
+    const reentry = encodeFunctionData({ abi: nftSwapAbi, functionName: 'confirmTrade', args: [tradeId, 1n] });
+    await reentrantNft.write.setReentry([nftSwap.address, reentry]);
+    await nftSwap.confirmTrade(tradeId, { account: victim.account });
+
+    // Assert: The reentrant call reverted, the trade completed once
+    expect(await reentrantNft.read.reentered()).to.equal(false);
+    const error = NftSwapError.fromRevertData(await reentrantNft.read.reentryResult());
+    expect(error.code).to.equal(NftSwapErrorCode.ReentrantCall);
+    expect((await nftSwap.getTrade(tradeId)).status).to.equal(TradeStatus.Completed);
+    expect(await reentrantNft.read.ownerOf([attackerNftId])).to.equal(getAddress(victim.account.address));
+    expect(await nftContract.read.ownerOf([victimNftId])).to.equal(getAddress(attacker.account.address));
+  });
+  it('Should not execute a trade with a collection lying about its owners', async function () {
+    const lyingNft = await deploy(MockLyingNft);
+    await lyingNft.write.setClaimedOwner([attacker.account.address]);
+    await lyingNft.write.setApprovalForAll([nftSwap.address, true], { account: attacker.account });
+
+    // Assert: The token the attacker doesn't own passes the checks, but never reaches the victim
+    const tradeId = await proposeTrade(lyingNft.address);
+    await nftSwap.confirmTrade(tradeId, { account: attacker.account });
+    await expect(nftSwap.confirmTrade(tradeId, { account: victim.account })).to.be.rejectedWith('Offered NFT transfer failed');
+
+    expect(await nftContract.read.ownerOf([victimNftId])).to.equal(getAddress(victim.account.address));
+    expect((await nftSwap.getTrade(tradeId)).status).to.equal(TradeStatus.Agreed);
+  });
+  it('Should keep the assets of both parties when a collection reverts its transfers', async function () {
+    const revertingNft = await deploy(MockRevertingNft);
+    await revertingNft.write.mint([attacker.account.address, attackerNftId]);
+    await revertingNft.write.setApprovalForAll([nftSwap.address, true], { account: attacker.account });
+    const tradeId = await proposeTrade(revertingNft.address, parseEther('1'));
+    await nftSwap.confirmTrade(tradeId, { account: victim.account });
+
+    // Act: The collection freezes before the trade executes
+    await revertingNft.write.setFrozen([true]);
+    await expect(nftSwap.confirmTrade(tradeId, { account: attacker.account })).to.be.rejectedWith('Offered NFT transfer failed');
+
+    // Assert: The victim gets the escrowed RON back
+    await nftSwap.cancelTrade(tradeId, { account: victim.account });
+    expect(await publicClient.getBalance({ address: nftSwap.address })).to.equal(0n);
+    expect(await nftContract.read.ownerOf([victimNftId])).to.equal(getAddress(victim.account.address));
+  });
+  it('Should let the other party withdraw its escrowed NFT when a collection reverts its transfers', async function () {
+    const revertingNft = await deploy(MockRevertingNft);
+    await revertingNft.write.mint([attacker.account.address, attackerNftId]);
+    await revertingNft.write.setApprovalForAll([nftSwap.address, true], { account: attacker.account });
+    const { tradeId } = await nftSwap.proposeTrade(attacker.account.address, victim.account.address);
+    await nftSwap.setEscrowMode(tradeId, true, { account: victim.account });
+    const terms: TradeTerms = {
+      fromItems: [{ nftContract: revertingNft.address, nftId: attackerNftId }],
+      toItems: [{ nftContract: nftContract.address, nftId: victimNftId }]
+    };
+    await nftSwap.agreeTrade(tradeId, terms, { account: attacker.account });
+    await nftSwap.agreeTrade(tradeId, terms, { account: victim.account });
+    await nftSwap.confirmTrade(tradeId, { account: victim.account });
+
+    // Act: The collection freezes, the attacker's NFT can't be escrowed
+    await revertingNft.write.setFrozen([true]);
+    await expect(nftSwap.confirmTrade(tradeId, { account: attacker.account })).to.be.rejectedWith('NFT escrow failed');
+
+    await nftSwap.cancelTrade(tradeId, { account: victim.account });
+    await nftSwap.withdrawEscrow(tradeId, { account: victim.account });
+
+    expect(await nftContract.read.ownerOf([victimNftId])).to.equal(getAddress(victim.account.address));
+  });
+});
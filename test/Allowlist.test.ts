@@ -0,0 +1,132 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { Abi, Address, createPublicClient, createWalletClient, getAddress, getContract, http, PublicClient, WalletClient } from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import MockToken from '../artifacts/contracts/MockToken.sol/MockToken.json';
+import { deployNftSwap, NftSwapClient, TradeTerms } from '../sdk';
+import { applyAllowlist } from '../tasks/allowlist';
+
+describe('Allowlist', function () {
+  let publicClient: PublicClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let from: any;
+  let to: any;
+  let nftContract: any;
+  let otherNftContract: any;
+  let tokenAddress: Address;
+  let nftSwap: NftSwapClient;
+
+  const terms = (collection: Address): TradeTerms => ({
+    fromItems: [{ nftContract: collection, nftId: 1 }],
+    toItems: [{ nftContract: collection, nftId: 2 }]
+  });
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat,
+      transport: http()
+    });
+
+    // Get accounts from Hardhat
+    [contractOwner, from, to] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy two NFT collections and an ERC20 token
+    const deploy = async (artifact: { abi: unknown[]; bytecode: string }) => {
+      const hash = await walletClientOwner.deployContract({
+        abi: artifact.abi as Abi,
+        bytecode: artifact.bytecode as Address,
+        account: contractOwner.account,
+        chain: hardhat
+      });
+      return getAddress((await publicClient.waitForTransactionReceipt({ hash })).contractAddress!);
+    };
+    const client = { public: publicClient, wallet: walletClientOwner };
+    nftContract = getContract({ address: await deploy(MockNft), abi: MockNft.abi, client });
+    otherNftContract = getContract({ address: await deploy(MockNft), abi: MockNft.abi, client });
+    tokenAddress = await deploy(MockToken);
+
+    // Deploy the contract, linked against its libraries
+    const { address } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    nftSwap = new NftSwapClient({ address, publicClient, walletClient: walletClientOwner });
+
+    // Mint NFTs of both collections to from and to
+    for (const collection of [nftContract, otherNftContract]) {
+      await collection.write.mint([from.account.address, 1]);
+      await collection.write.mint([to.account.address, 2]);
+    }
+  });
+
+  it('Should only allow the owner to manage the allowlist', async function () {
+    await expect(nftSwap.setAllowlistEnabled(true, { account: from.account })).to.be.rejectedWith('Only owner can perform this action');
+    const allowCall = nftSwap.setCollectionsAllowed([nftContract.address], true, { account: from.account });
+    await expect(allowCall).to.be.rejectedWith('Only owner can perform this action');
+
+    const { events } = await nftSwap.setAllowlistEnabled(true);
+    expect(events[0]).to.deep.include({ eventName: 'AllowlistEnabledUpdated', args: { enabled: true } });
+    expect(await nftSwap.isAllowlistEnabled()).to.equal(true);
+
+    const { events: allowEvents } = await nftSwap.setCollectionsAllowed([nftContract.address, otherNftContract.address], true);
+    expect(allowEvents.map((event) => event.args)).to.deep.equal([
+      { collection: nftContract.address, allowed: true },
+      { collection: otherNftContract.address, allowed: true }
+    ]);
+    expect(await nftSwap.isCollectionAllowed(nftContract.address)).to.equal(true);
+  });
+  it('Should only allow NFT contracts on the allowlist', async function () {
+    await expect(nftSwap.setCollectionsAllowed([tokenAddress], true)).to.be.rejectedWith('Collection is not an NFT contract');
+    await expect(nftSwap.setCollectionsAllowed([from.account.address], true)).to.be.rejectedWith('Collection is not an NFT contract');
+
+    // Disallowing doesn't check the contract
+    await nftSwap.setCollectionsAllowed([tokenAddress], false);
+  });
+  it('Should only trade allowed collections while the allowlist is enabled', async function () {
+    await nftSwap.setCollectionsAllowed([nftContract.address], true);
+    await nftSwap.setAllowlistEnabled(true);
+    await nftSwap.setPermissionlessProposals(true);
+
+    // Assert: Only the allowed collection can be proposed, offered or requested
+    await nftSwap.proposeTrade(from.account.address, to.account.address, { terms: terms(nftContract.address) });
+    const proposeCall = nftSwap.proposeTrade(from.account.address, to.account.address, { terms: terms(otherNftContract.address) });
+    await expect(proposeCall).to.be.rejectedWith('Collection is not allowed');
+    const openOfferCall = nftSwap.proposeOpenOffer(
+      { fromItems: terms(nftContract.address).fromItems, wanted: { nftContract: otherNftContract.address } },
+      { account: from.account }
+    );
+    await expect(openOfferCall).to.be.rejectedWith('Collection is not allowed');
+
+    // Assert: Any collection can be traded once the allowlist is disabled
+    await nftSwap.setAllowlistEnabled(false);
+    await nftSwap.proposeTrade(from.account.address, to.account.address, { terms: terms(otherNftContract.address) });
+  });
+  it('Should apply an allowlist file in batches', async function () {
+    // Act: Allow both collections, one per transaction
+    const applied = await applyAllowlist(
+      nftSwap,
+      { allow: [nftContract.address, otherNftContract.address.toLowerCase()], enabled: true },
+      1
+    );
+
+    expect(applied).to.deep.equal({ allowed: [nftContract.address, otherNftContract.address], disallowed: [], enabled: true });
+    expect(await nftSwap.isCollectionAllowed(otherNftContract.address)).to.equal(true);
+    expect(await nftSwap.isAllowlistEnabled()).to.equal(true);
+
+    // Assert: Only the changes are sent
+    const reapplied = await applyAllowlist(nftSwap, { allow: [nftContract.address], disallow: [otherNftContract.address], enabled: true });
+    expect(reapplied).to.deep.equal({ allowed: [], disallowed: [otherNftContract.address], enabled: undefined });
+    expect(await nftSwap.isCollectionAllowed(otherNftContract.address)).to.equal(false);
+
+    await expect(applyAllowlist(nftSwap, { allow: [nftContract.address], disallow: [nftContract.address] })).to.be.rejectedWith(
+      'is both allowed and disallowed'
+    );
+  });
+});
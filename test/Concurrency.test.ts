@@ -0,0 +1,156 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  Address,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  Hash,
+  http,
+  PublicClient,
+  TestClient,
+  WalletClient
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import { deployNftSwap, NftSwapClient, TradeStatus, TradeTerms, TradeTransaction } from '../sdk';
+
+describe('Concurrency', function () {
+  let publicClient: PublicClient;
+  let testClient: TestClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let from: any;
+  let to: any;
+  let nftContract: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
+
+  const offeredNftIds: number[] = [1, 2, 3],
+    requestedNftIds: number[] = [4, 5];
+
+  // Sends both transactions without mining, then mines them in a single block. Their outcomes are handled as soon as they
+  // settle, a rejection is only rethrown once the block is mined
+  async function inSameBlock(...transactions: Promise<TradeTransaction>[]): Promise<TradeTransaction[]> {
+    const results = Promise.allSettled(transactions);
+
+    // Wait for both transactions to reach the mempool
+    let pending: Hash[] = [];
+    while (pending.length < transactions.length) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      ({ transactions: pending } = await publicClient.getBlock({ blockTag: 'pending' }));
+    }
+
+    await testClient.mine({ blocks: 1 });
+    return (await results).map((result) => {
+      if (result.status === 'rejected') throw result.reason;
+      return result.value;
+    });
+  }
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat, // Use hardhat chain here
+      transport: http() // Use the Hardhat Network RPC endpoint
+    });
+    testClient = createTestClient({ chain: hardhat, mode: 'hardhat', transport: http() });
+
+    // Get accounts from Hardhat
+    [contractOwner, from, to] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy the NFT contract first
+    const nftHash = await walletClientOwner.deployContract({
+      abi: MockNft.abi,
+      bytecode: MockNft.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
+    const nftAddress = nftReceipt.contractAddress!;
+
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    const nftSwapAddress = receipt.contractAddress!;
+
+    // Get contract instances with Viem
+    nftContract = getContract({
+      address: nftAddress,
+      abi: MockNft.abi,
+      client: {
+        public: publicClient,
+        wallet: walletClientOwner
+      }
+    });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
+
+    // Mint and approve NFTs for from and to
+    for (const nftId of offeredNftIds) await nftContract.write.mint([from.account.address, nftId]);
+    for (const nftId of requestedNftIds) await nftContract.write.mint([to.account.address, nftId]);
+    let hash = await nftContract.write.setApprovalForAll([nftSwapAddress, true], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await nftContract.write.setApprovalForAll([nftSwapAddress, true], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    // Default trade terms: a bundle of offered NFTs for a bundle of requested NFTs
+    terms = {
+      fromItems: offeredNftIds.map((nftId) => ({ nftContract: getAddress(nftContract.address), nftId })),
+      toItems: requestedNftIds.map((nftId) => ({ nftContract: getAddress(nftContract.address), nftId }))
+    };
+
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await testClient.setAutomine(false);
+  });
+
+  afterEach(async function () {
+    await testClient.setAutomine(true);
+  });
+
+  it('Should not revert when both parties agree in the same block', async function () {
+    const [fromAgree, toAgree] = await inSameBlock(
+      nftSwap.agreeTrade(0, terms, { account: from.account }),
+      nftSwap.agreeTrade(0, terms, { account: to.account })
+    );
+
+    expect(fromAgree.receipt.blockNumber).to.equal(toAgree.receipt.blockNumber);
+    expect((await nftSwap.getTrade(0)).status).to.equal(TradeStatus.Agreed);
+  });
+  it('Should not revert when both parties confirm in the same block', async function () {
+    await inSameBlock(nftSwap.agreeTrade(0, terms, { account: from.account }), nftSwap.agreeTrade(0, terms, { account: to.account }));
+
+    const [fromConfirm, toConfirm] = await inSameBlock(
+      nftSwap.confirmTrade(0, { account: from.account }),
+      nftSwap.confirmTrade(0, { account: to.account })
+    );
+
+    // Whichever confirmation landed second executed the trade
+    const eventNames = [...fromConfirm.events, ...toConfirm.events].map((event) => event.eventName);
+    expect(eventNames).to.deep.equal(['TradeConfirmed', 'TradeConfirmed', 'TradeCompleted']);
+    expect((await nftSwap.getTrade(0)).status).to.equal(TradeStatus.Completed);
+    for (const nftId of offeredNftIds) expect(await nftContract.read.ownerOf([nftId])).to.equal(getAddress(to.account.address));
+    for (const nftId of requestedNftIds) expect(await nftContract.read.ownerOf([nftId])).to.equal(getAddress(from.account.address));
+  });
+  it('Should reject the second agreement in the same block if the terms differ', async function () {
+    const otherTerms = { ...terms, fromItems: terms.fromItems.slice(1) };
+
+    const agreements = inSameBlock(
+      nftSwap.agreeTrade(0, terms, { account: from.account }),
+      nftSwap.agreeTrade(0, otherTerms, { account: to.account })
+    );
+
+    // The first agreement sets the terms, only the mismatching one reverts
+    await expect(agreements).to.be.rejected;
+    const trade = await nftSwap.getTrade(0);
+    expect(trade.status).to.equal(TradeStatus.Proposed);
+    expect(trade.fromHasAgreed !== trade.toHasAgreed).to.equal(true);
+  });
+});
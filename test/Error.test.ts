@@ -3,29 +3,7 @@ import hre from 'hardhat';
 import { Address, createPublicClient, createWalletClient, getAddress, getContract, http, PublicClient, WalletClient } from 'viem';
 import { hardhat } from 'viem/chains';
 import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
-import NftSwap from '../artifacts/contracts/NftSwap.sol/NftSwap.json';
-
-enum TradeStatus {
-  Proposed,
-  Agreed,
-  Confirmed,
-  Cancelled
-}
-type Trade = {
-  fromAddress: Address;
-  fromNftContract: Address;
-  fromNftId: bigint;
-  fromHasAgreed: boolean;
-  fromHasConfirmed: boolean;
-
-  toAddress: Address;
-  toNftContract: Address;
-  toNftId: bigint;
-  toHasAgreed: boolean;
-  toHasConfirmed: boolean;
-
-  status: TradeStatus;
-};
+import { deployNftSwap, NftSwapClient, TradeTerms } from '../sdk';
 
 describe('Error', function () {
   let publicClient: PublicClient;
@@ -34,7 +12,8 @@ describe('Error', function () {
   let from: any;
   let to: any;
   let nftContract: any;
-  let nftSwap: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
 
   const offeredNftId: number = 1,
     requestedNftId: number = 2;
@@ -66,17 +45,11 @@ describe('Error', function () {
     const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
     const nftAddress = nftReceipt.contractAddress!;
 
-    // Deploy the contract with Viem
-    const swapHash = await walletClientOwner.deployContract({
-      abi: NftSwap.abi,
-      bytecode: NftSwap.bytecode as Address,
-      account: contractOwner.account,
-      chain: hardhat
-    });
-    const receipt = await publicClient.waitForTransactionReceipt({ hash: swapHash });
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
     const nftSwapAddress = receipt.contractAddress!;
 
-    // Get a contract instance with Viem
+    // Get contract instances with Viem
     nftContract = getContract({
       address: nftAddress,
       abi: MockNft.abi,
@@ -85,14 +58,7 @@ describe('Error', function () {
         wallet: walletClientOwner
       }
     });
-    nftSwap = getContract({
-      address: nftSwapAddress,
-      abi: NftSwap.abi,
-      client: {
-        public: publicClient,
-        wallet: walletClientOwner
-      }
-    });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
 
     // Mint NFTs to from and to
     await nftContract.write.mint([from.account.address, offeredNftId]);
@@ -104,43 +70,37 @@ describe('Error', function () {
 
     expect(ownerOfferedNft).to.equal(getAddress(from.account.address));
     expect(ownerRequestedNft).to.equal(getAddress(to.account.address));
+
+    // Default trade terms: swap the offered NFT for the requested NFT
+    terms = {
+      fromItems: [{ nftContract: getAddress(nftContract.address), nftId: offeredNftId }],
+      toItems: [{ nftContract: getAddress(nftContract.address), nftId: requestedNftId }]
+    };
   });
 
   it('Should not allow proposing a trade to self', async function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
-    const trade1 = nftSwap.write.proposeTrade([ownerOfferedNft, ownerOfferedNft]);
-    const trade2 = nftSwap.write.proposeTrade([ownerRequestedNft, ownerRequestedNft]);
-
-    await expect(trade1).to.be.rejectedWith('Cannot trade with yourself');
-    await expect(trade2).to.be.rejectedWith('Cannot trade with yourself');
+    await expect(nftSwap.proposeTrade(ownerOfferedNft, ownerOfferedNft)).to.be.rejectedWith('Cannot trade with yourself');
+    await expect(nftSwap.proposeTrade(ownerRequestedNft, ownerRequestedNft)).to.be.rejectedWith('Cannot trade with yourself');
   });
   it('Should not allow proposing a trade for an NFT the user does not own', async function () {
     const notOwnedNftId = 2;
 
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
-    await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Have both side agree
-    const tradeFrom = nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), notOwnedNftId],
-      { account: from.account }
+    const notOwnedItems = [{ nftContract: getAddress(nftContract.address), nftId: notOwnedNftId }];
+    await expect(nftSwap.agreeTrade(0, { ...terms, toItems: notOwnedItems }, { account: from.account })).to.be.fulfilled;
+    await expect(nftSwap.agreeTrade(0, { ...terms, fromItems: notOwnedItems }, { account: to.account })).to.be.rejectedWith(
+      'You do not own this NFT'
     );
-    const tradeTo = nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), notOwnedNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
-
-    await expect(tradeFrom).to.be.fulfilled;
-    await expect(tradeTo).to.be.rejectedWith('You do not own this NFT');
   });
   it('Should not allow agreeing to a non-existent trade', async function () {
     const nonExistentTradeId = 999; // Assuming this trade ID will not exist
-    const trade = nftSwap.write.agreeTrade(
-      [nonExistentTradeId, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: from.account }
-    );
+    const trade = nftSwap.agreeTrade(nonExistentTradeId, terms, { account: from.account });
 
     await expect(trade).to.be.rejectedWith('Trade does not exist');
   });
@@ -148,11 +108,10 @@ describe('Error', function () {
     // Arrange: Propose a trade
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Act: Attempt to confirm the trade without agreeing
-    const confirmTrade = nftSwap.write.confirmTrade([0], { account: from.account });
+    const confirmTrade = nftSwap.confirmTrade(0, { account: from.account });
 
     // Assert: Expect the transaction to be rejected with the correct error message
     await expect(confirmTrade).to.be.rejectedWith('Trade is not in agreed state');
@@ -161,22 +120,13 @@ describe('Error', function () {
     // Arrange: Propose and agree to a trade
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
-    const agreeHashFrom = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: from.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHashFrom });
-    const agreeHashTo = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHashTo });
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
 
     // Act: Attempt to confirm the trade without NFT approval
-    const confirmTrade = nftSwap.write.confirmTrade([0], { account: from.account });
+    const confirmTrade = nftSwap.confirmTrade(0, { account: from.account });
 
     // Assert: Expect the transaction to be rejected with the correct error message
     await expect(confirmTrade).to.be.rejectedWith('Contract not approved to transfer NFT');
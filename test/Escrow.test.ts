@@ -0,0 +1,197 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  Abi,
+  Address,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  http,
+  PublicClient,
+  TestClient,
+  WalletClient
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import MockNft1155 from '../artifacts/contracts/MockNft1155.sol/MockNft1155.json';
+import { deployNftSwap, NftSwapClient, TokenStandard, TradeStatus, TradeTerms } from '../sdk';
+
+describe('Escrow', function () {
+  let publicClient: PublicClient;
+  let testClient: TestClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let from: any;
+  let to: any;
+  let other: any;
+  let nftContract: any;
+  let nft1155Contract: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
+
+  const offeredNftId = 1n,
+    requestedNftId = 2n;
+
+  // Proposes the trade in escrow mode, agreed by both parties
+  const proposeEscrowTrade = async () => {
+    const { tradeId } = await nftSwap.proposeTrade(from.account.address, to.account.address, { terms });
+    await nftSwap.setEscrowMode(tradeId, true, { account: from.account });
+    await nftSwap.agreeTrade(tradeId, terms, { account: from.account });
+    await nftSwap.agreeTrade(tradeId, terms, { account: to.account });
+    return tradeId;
+  };
+  const getEscrowedBalance = () => nft1155Contract.read.balanceOf([nftSwap.address, requestedNftId]);
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat,
+      transport: http()
+    });
+    testClient = createTestClient({ chain: hardhat, mode: 'hardhat', transport: http() });
+
+    // Get accounts from Hardhat
+    [contractOwner, from, to, other] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy an ERC721 and an ERC1155 contract
+    const deploy = async (artifact: { abi: unknown[]; bytecode: string }) => {
+      const hash = await walletClientOwner.deployContract({
+        abi: artifact.abi as Abi,
+        bytecode: artifact.bytecode as Address,
+        account: contractOwner.account,
+        chain: hardhat
+      });
+      const address = getAddress((await publicClient.waitForTransactionReceipt({ hash })).contractAddress!);
+      return getContract({ address, abi: artifact.abi as Abi, client: { public: publicClient, wallet: walletClientOwner } }) as any;
+    };
+    nftContract = await deploy(MockNft);
+    nft1155Contract = await deploy(MockNft1155);
+
+    const { address } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    nftSwap = new NftSwapClient({ address, publicClient, walletClient: walletClientOwner });
+
+    // Mint and approve NFTs for from and to
+    await nftContract.write.mint([from.account.address, offeredNftId]);
+    await nft1155Contract.write.mint([to.account.address, requestedNftId, 5n]);
+    await nftContract.write.setApprovalForAll([address, true], { account: from.account });
+    await nft1155Contract.write.setApprovalForAll([address, true], { account: to.account });
+
+    // Swap the ERC721 token for 3 of the ERC1155 tokens
+    terms = {
+      fromItems: [{ nftContract: nftContract.address, nftId: offeredNftId }],
+      toItems: [{ nftContract: nft1155Contract.address, nftId: requestedNftId, standard: TokenStandard.ERC1155, amount: 3n }]
+    };
+  });
+
+  it('Should hold the NFTs of each party from its confirmation until the trade completes', async function () {
+    const tradeId = await proposeEscrowTrade();
+    expect(await nftSwap.isEscrowMode(tradeId)).to.equal(true);
+
+    // Act: The first confirmation pulls the NFT into the contract
+    const { events } = await nftSwap.confirmTrade(tradeId, { account: from.account });
+    expect(events.map((event) => event.eventName)).to.include('ItemsEscrowed');
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(nftSwap.address));
+    expect(await nftSwap.hasEscrowedItems(tradeId, from.account.address)).to.equal(true);
+
+    // Assert: The NFT can't move before the trade executes
+    const transfer = nftContract.write.transferFrom([from.account.address, other.account.address, offeredNftId], { account: from.account });
+    await expect(transfer).to.be.rejected;
+
+    await nftSwap.confirmTrade(tradeId, { account: to.account });
+
+    expect((await nftSwap.getTrade(tradeId)).status).to.equal(TradeStatus.Completed);
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(to.account.address));
+    expect(await nft1155Contract.read.balanceOf([from.account.address, requestedNftId])).to.equal(3n);
+    expect(await getEscrowedBalance()).to.equal(0n);
+    expect(await nftSwap.hasEscrowedItems(tradeId, from.account.address)).to.equal(false);
+    expect(await nftSwap.hasEscrowedItems(tradeId, to.account.address)).to.equal(false);
+  });
+  it('Should let the participants withdraw their escrowed NFTs once the trade is cancelled', async function () {
+    const tradeId = await proposeEscrowTrade();
+    await nftSwap.confirmTrade(tradeId, { account: to.account });
+    await expect(nftSwap.withdrawEscrow(tradeId, { account: to.account })).to.be.rejectedWith('Trade is still open');
+
+    // Act: The other party cancels, the NFTs wait for their owner
+    await nftSwap.cancelTrade(tradeId, { account: from.account });
+    expect(await getEscrowedBalance()).to.equal(3n);
+    await expect(nftSwap.withdrawEscrow(tradeId, { account: from.account })).to.be.rejectedWith('No NFTs escrowed for this trade');
+
+    const { events } = await nftSwap.withdrawEscrow(tradeId, { account: to.account });
+
+    expect(events.find((event) => event.eventName === 'EscrowWithdrawn')!.args).to.deep.equal({
+      tradeId,
+      user: getAddress(to.account.address)
+    });
+    expect(await nft1155Contract.read.balanceOf([to.account.address, requestedNftId])).to.equal(5n);
+    expect(await getEscrowedBalance()).to.equal(0n);
+    await expect(nftSwap.withdrawEscrow(tradeId, { account: to.account })).to.be.rejectedWith('No NFTs escrowed for this trade');
+  });
+  it('Should let the participants withdraw their escrowed NFTs once the trade expired', async function () {
+    const tradeId = await proposeEscrowTrade();
+    await nftSwap.confirmTrade(tradeId, { account: from.account });
+    const { expiresAt } = await nftSwap.getTrade(tradeId);
+
+    // Act: Nobody cancels the expired trade
+    await testClient.setNextBlockTimestamp({ timestamp: expiresAt + 1n });
+    await testClient.mine({ blocks: 1 });
+    await nftSwap.withdrawEscrow(tradeId, { account: from.account });
+
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(from.account.address));
+    await expect(nftSwap.confirmTrade(tradeId, { account: to.account })).to.be.rejectedWith('Trade has expired');
+  });
+  it('Should return the escrowed NFTs when the terms are countered', async function () {
+    const tradeId = await proposeEscrowTrade();
+    await nftSwap.confirmTrade(tradeId, { account: from.account });
+
+    // Act: The counter-proposal refunds the confirmation, NFTs included
+    const counterTerms = { ...terms, toItems: [{ ...terms.toItems[0], amount: 2n }] };
+    const { events } = await nftSwap.counterTrade(tradeId, counterTerms, { account: to.account });
+
+    expect(events.map((event) => event.eventName)).to.include('EscrowWithdrawn');
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(from.account.address));
+    expect(await nftSwap.hasEscrowedItems(tradeId, from.account.address)).to.equal(false);
+
+    // Assert: The trade still completes with the new terms
+    await nftSwap.agreeTrade(tradeId, counterTerms, { account: from.account });
+    await nftSwap.confirmTrade(tradeId, { account: from.account });
+    await nftSwap.confirmTrade(tradeId, { account: to.account });
+    expect(await nft1155Contract.read.balanceOf([from.account.address, requestedNftId])).to.equal(2n);
+  });
+  it('Should only switch escrow mode before both parties agreed', async function () {
+    const { tradeId } = await nftSwap.proposeTrade(from.account.address, to.account.address, { terms });
+    await nftSwap.agreeTrade(tradeId, terms, { account: from.account });
+
+    // Assert: Switching the mode makes the other party agree again
+    await expect(nftSwap.setEscrowMode(tradeId, true, { account: other.account })).to.be.rejectedWith(
+      'Not authorized to update this trade'
+    );
+    const { events } = await nftSwap.setEscrowMode(tradeId, true, { account: to.account });
+    expect(events[0]).to.deep.include({
+      eventName: 'EscrowModeUpdated',
+      args: { tradeId, user: getAddress(to.account.address), enabled: true }
+    });
+    expect((await nftSwap.getTrade(tradeId)).fromHasAgreed).to.equal(false);
+
+    await nftSwap.agreeTrade(tradeId, terms, { account: from.account });
+    await nftSwap.agreeTrade(tradeId, terms, { account: to.account });
+    await expect(nftSwap.setEscrowMode(tradeId, false, { account: from.account })).to.be.rejectedWith('Trade is not in proposed state');
+  });
+  it('Should reject NFTs sent to the contract directly', async function () {
+    // Assert: Tokens the contract doesn't pull into escrow would get stuck
+    await expect(
+      nftContract.write.safeTransferFrom([from.account.address, nftSwap.address, offeredNftId], { account: from.account })
+    ).to.be.rejectedWith('Direct transfers are not accepted');
+    await expect(
+      nft1155Contract.write.safeTransferFrom([to.account.address, nftSwap.address, requestedNftId, 1n, '0x'], { account: to.account })
+    ).to.be.rejectedWith('Direct transfers are not accepted');
+  });
+});
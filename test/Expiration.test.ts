@@ -0,0 +1,190 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  Address,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  http,
+  PublicClient,
+  TestClient,
+  WalletClient
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import { deployNftSwap, NftSwapClient, TradeStatus, TradeTerms } from '../sdk';
+
+describe('Expiration', function () {
+  let publicClient: PublicClient;
+  let testClient: TestClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let from: any;
+  let to: any;
+  let nftContract: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
+
+  const offeredNftId: number = 1,
+    requestedNftId: number = 2;
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat, // Use hardhat chain here
+      transport: http() // Use the Hardhat Network RPC endpoint
+    });
+    testClient = createTestClient({ chain: hardhat, mode: 'hardhat', transport: http() });
+
+    // Get accounts from Hardhat
+    [contractOwner, from, to] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy the NFT contract first
+    const nftHash = await walletClientOwner.deployContract({
+      abi: MockNft.abi,
+      bytecode: MockNft.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
+    const nftAddress = nftReceipt.contractAddress!;
+
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    const nftSwapAddress = receipt.contractAddress!;
+
+    // Get contract instances with Viem
+    nftContract = getContract({
+      address: nftAddress,
+      abi: MockNft.abi,
+      client: {
+        public: publicClient,
+        wallet: walletClientOwner
+      }
+    });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
+
+    // Mint NFTs to from and to
+    await nftContract.write.mint([from.account.address, offeredNftId]);
+    await nftContract.write.mint([to.account.address, requestedNftId]);
+
+    // Default trade terms: swap the offered NFT for the requested NFT
+    terms = {
+      fromItems: [{ nftContract: getAddress(nftContract.address), nftId: offeredNftId }],
+      toItems: [{ nftContract: getAddress(nftContract.address), nftId: requestedNftId }]
+    };
+  });
+
+  it('Should expire trades after the default timeout', async function () {
+    const { receipt } = await nftSwap.proposeTrade(from.account.address, to.account.address);
+    const { timestamp } = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+
+    const trade = await nftSwap.getTrade(0);
+    expect(trade.createdAt).to.equal(timestamp);
+    expect(trade.expiresAt).to.equal(timestamp + 60n * 60n);
+  });
+  it('Should allow the owner to configure the default timeout', async function () {
+    await expect(nftSwap.setDefaultTradeTimeout(60 * 60 * 24, { account: from.account })).to.be.rejectedWith(
+      'Only owner can perform this action'
+    );
+    await expect(nftSwap.setDefaultTradeTimeout(60)).to.be.rejectedWith('Invalid trade timeout');
+
+    const { events } = await nftSwap.setDefaultTradeTimeout(60 * 60 * 24);
+    expect(events[0]).to.deep.include({ eventName: 'DefaultTradeTimeoutUpdated', args: { timeout: 86400n } });
+    expect(await nftSwap.getDefaultTradeTimeout()).to.equal(86400n);
+
+    const { receipt } = await nftSwap.proposeTrade(from.account.address, to.account.address);
+    const { timestamp } = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+    expect((await nftSwap.getTrade(0)).expiresAt).to.equal(timestamp + 86400n);
+  });
+  it('Should use the deadline of the proposal', async function () {
+    const { timestamp } = await publicClient.getBlock();
+    const expiresAt = timestamp + 60n * 60n * 24n * 7n;
+
+    await nftSwap.proposeTrade(from.account.address, to.account.address, { expiresAt });
+    await nftSwap.proposeTrade(from.account.address, to.account.address, { terms, expiresAt });
+
+    expect((await nftSwap.getTrade(0)).expiresAt).to.equal(expiresAt);
+    expect((await nftSwap.getTrade(1)).expiresAt).to.equal(expiresAt);
+  });
+  it('Should not allow deadlines outside of the bounds', async function () {
+    const { timestamp } = await publicClient.getBlock();
+
+    const propose = (expiresAt: bigint) => nftSwap.proposeTrade(from.account.address, to.account.address, { expiresAt });
+
+    await expect(propose(timestamp + 60n)).to.be.rejectedWith('Invalid trade deadline');
+    await expect(propose(timestamp + 60n * 60n * 24n * 31n)).to.be.rejectedWith('Invalid trade deadline');
+  });
+  it('Should still allow agreeing at the exact deadline', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    const { expiresAt } = await nftSwap.getTrade(0);
+
+    await testClient.setNextBlockTimestamp({ timestamp: expiresAt });
+    const { receipt } = await nftSwap.agreeTrade(0, terms, { account: from.account });
+
+    expect((await publicClient.getBlock({ blockNumber: receipt.blockNumber })).timestamp).to.equal(expiresAt);
+    expect((await nftSwap.getTrade(0)).fromHasAgreed).to.equal(true);
+  });
+  it('Should not allow agreeing one second after the deadline', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    const { expiresAt } = await nftSwap.getTrade(0);
+
+    await testClient.setNextBlockTimestamp({ timestamp: expiresAt + 1n });
+    await testClient.mine({ blocks: 1 });
+
+    await expect(nftSwap.agreeTrade(0, terms, { account: from.account })).to.be.rejectedWith('Trade has expired');
+    expect((await nftSwap.getTrade(0)).status).to.equal(TradeStatus.Expired);
+  });
+  it('Should report open trades past their deadline as expired', async function () {
+    const { timestamp } = await publicClient.getBlock();
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.proposeTrade(from.account.address, to.account.address, { expiresAt: timestamp + 60n * 60n * 24n });
+    const { expiresAt } = await nftSwap.getTrade(0);
+
+    await testClient.setNextBlockTimestamp({ timestamp: expiresAt + 1n });
+    await testClient.mine({ blocks: 1 });
+
+    const ids = async (status: TradeStatus) => (await nftSwap.getTradesByStatus(status)).trades.map((trade) => trade.id);
+    expect((await nftSwap.getTrade(0)).status).to.equal(TradeStatus.Expired);
+    expect((await nftSwap.getTrade(1)).status).to.equal(TradeStatus.Proposed);
+    expect(await ids(TradeStatus.Proposed)).to.deep.equal([1n]);
+    expect(await ids(TradeStatus.Expired)).to.deep.equal([0n]);
+    expect((await nftSwap.getTradesByStatus(TradeStatus.Expired)).trades[0].status).to.equal(TradeStatus.Expired);
+
+    // Left out of the open trades, pages and totals included
+    const openTrades = await nftSwap.getOpenTrades();
+    expect(openTrades.trades.map((trade) => trade.id)).to.deep.equal([1n]);
+    expect(openTrades.total).to.equal(1n);
+    expect(await nftSwap.getOpenTradeCount()).to.equal(1n);
+    expect((await nftSwap.getOpenTrades({ offset: 1 })).trades).to.deep.equal([]);
+
+    // Still listed once cancelled, before the open trades past their deadline
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await testClient.increaseTime({ seconds: 60 * 60 * 2 });
+    await testClient.mine({ blocks: 1 });
+    await nftSwap.cancelTrade(2, { account: from.account });
+    const expired = await nftSwap.getTradesByStatus(TradeStatus.Expired, { offset: 1, limit: 1 });
+    expect(expired.trades.map((trade) => trade.id)).to.deep.equal([0n]);
+    expect(expired.total).to.equal(2n);
+    expect(await ids(TradeStatus.Expired)).to.deep.equal([2n, 0n]);
+  });
+  it('Should report an expired cancellation after the deadline', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    const { expiresAt } = await nftSwap.getTrade(0);
+
+    await testClient.setNextBlockTimestamp({ timestamp: expiresAt + 1n });
+    const { events } = await nftSwap.cancelTrade(0, { account: from.account });
+
+    expect(events[0].args).to.include({ reason: 'Trade has expired' });
+    expect((await nftSwap.getTrade(0)).status).to.equal(TradeStatus.Expired);
+  });
+});
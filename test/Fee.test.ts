@@ -0,0 +1,241 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  Address,
+  createPublicClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  http,
+  parseEther,
+  PublicClient,
+  TransactionReceipt,
+  WalletClient
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import MockWallet from '../artifacts/contracts/MockWallet.sol/MockWallet.json';
+import { deployNftSwap, NftSwapClient, TradeStatus, TradeTerms } from '../sdk';
+
+const gasCost = (receipt: TransactionReceipt) => receipt.gasUsed * receipt.effectiveGasPrice;
+
+describe('Fee', function () {
+  let publicClient: PublicClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let from: any;
+  let to: any;
+  let feeRecipient: any;
+  let nftContract: any;
+  let otherNftContract: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
+
+  const offeredNftId: number = 1,
+    requestedNftId: number = 2,
+    flatFee: bigint = parseEther('1'),
+    collectionFee: bigint = parseEther('3');
+
+  async function deployNft(): Promise<any> {
+    const hash = await walletClientOwner.deployContract({
+      abi: MockNft.abi,
+      bytecode: MockNft.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+    return getContract({
+      address: receipt.contractAddress!,
+      abi: MockNft.abi,
+      client: {
+        public: publicClient,
+        wallet: walletClientOwner
+      }
+    });
+  }
+
+  async function agreeAndApprove() {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+
+    let hash = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await nftContract.write.approve([getAddress(nftSwap.address), requestedNftId], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+  }
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat, // Use hardhat chain here
+      transport: http() // Use the Hardhat Network RPC endpoint
+    });
+
+    // Get accounts from Hardhat
+    [contractOwner, from, to, feeRecipient] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy the NFT contracts first
+    nftContract = await deployNft();
+    otherNftContract = await deployNft();
+
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    nftSwap = new NftSwapClient({ address: receipt.contractAddress!, publicClient, walletClient: walletClientOwner });
+
+    // Mint NFTs to from and to
+    await nftContract.write.mint([from.account.address, offeredNftId]);
+    await nftContract.write.mint([to.account.address, requestedNftId]);
+
+    // Default fee schedule: a flat fee paid to the fee recipient
+    await nftSwap.setFlatFee(flatFee);
+    await nftSwap.setFeeRecipient(feeRecipient.account.address);
+
+    // Default trade terms: swap the offered NFT for the requested NFT
+    terms = {
+      fromItems: [{ nftContract: getAddress(nftContract.address), nftId: offeredNftId }],
+      toItems: [{ nftContract: getAddress(nftContract.address), nftId: requestedNftId }]
+    };
+  });
+
+  it('Should quote the flat fee, collection overrides and exemptions', async function () {
+    expect(await nftSwap.quoteFee(to.account.address, terms)).to.equal(flatFee);
+
+    // The highest collection override replaces the flat fee, even if it's lower
+    await nftSwap.setCollectionFee(getAddress(otherNftContract.address), collectionFee);
+    await nftSwap.setCollectionFee(getAddress(nftContract.address), 0n);
+    expect(await nftSwap.quoteFee(to.account.address, terms)).to.equal(0n);
+    const mixedTerms = { ...terms, toItems: [...terms.toItems, { nftContract: getAddress(otherNftContract.address), nftId: 1 }] };
+    expect(await nftSwap.quoteFee(to.account.address, mixedTerms)).to.equal(collectionFee);
+
+    // Removing the override restores the flat fee
+    await nftSwap.setCollectionFee(getAddress(nftContract.address), undefined);
+    expect(await nftSwap.quoteFee(to.account.address, terms)).to.equal(flatFee);
+
+    await nftSwap.setFeeExempt(to.account.address, true);
+    expect(await nftSwap.quoteFee(to.account.address, mixedTerms)).to.equal(0n);
+  });
+  it('Should collect the fee once per trade from the receiving side', async function () {
+    await agreeAndApprove();
+    expect((await nftSwap.getTrade(0)).fee).to.equal(flatFee);
+
+    await nftSwap.confirmTrade(0, { account: from.account });
+    expect(await publicClient.getBalance({ address: nftSwap.address })).to.equal(0n);
+
+    const { events } = await nftSwap.confirmTrade(0, { account: to.account });
+
+    expect(events.find((event) => event.eventName === 'FeePaid')!.args).to.deep.equal({
+      tradeId: 0n,
+      payer: getAddress(to.account.address),
+      fee: flatFee
+    });
+    expect((await nftSwap.getFeeSchedule()).accumulatedFees).to.equal(flatFee);
+    expect(await publicClient.getBalance({ address: nftSwap.address })).to.equal(flatFee);
+  });
+  it('Should fix the fee when both parties agreed', async function () {
+    await agreeAndApprove();
+
+    await nftSwap.setFlatFee(flatFee * 2n);
+
+    expect((await nftSwap.getTrade(0)).fee).to.equal(flatFee);
+  });
+  it('Should withdraw the collected fees to the fee recipient', async function () {
+    await agreeAndApprove();
+    await nftSwap.confirmTrade(0, { account: from.account });
+    await nftSwap.confirmTrade(0, { account: to.account });
+
+    await expect(nftSwap.withdrawFees({ account: from.account })).to.be.rejectedWith('Not authorized to withdraw fees');
+
+    const recipientBalance = await publicClient.getBalance({ address: feeRecipient.account.address });
+    const { events } = await nftSwap.withdrawFees();
+
+    expect(events[0]).to.deep.include({ eventName: 'FeesWithdrawn' });
+    expect(await publicClient.getBalance({ address: feeRecipient.account.address })).to.equal(recipientBalance + flatFee);
+    expect((await nftSwap.getFeeSchedule()).accumulatedFees).to.equal(0n);
+    await expect(nftSwap.withdrawFees()).to.be.rejectedWith('No fees to withdraw');
+  });
+  it('Should withdraw the collected fees to a contract wallet fee recipient', async function () {
+    const hash = await walletClientOwner.deployContract({
+      abi: MockWallet.abi,
+      bytecode: MockWallet.bytecode as Address,
+      args: [feeRecipient.account.address],
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const wallet = getAddress((await publicClient.waitForTransactionReceipt({ hash })).contractAddress!);
+    await nftSwap.setFeeRecipient(wallet);
+    await agreeAndApprove();
+    await nftSwap.confirmTrade(0, { account: from.account });
+    await nftSwap.confirmTrade(0, { account: to.account });
+
+    // Act: The wallet runs code when receiving RON, which needs more gas than a plain transfer
+    const { events } = await nftSwap.withdrawFees();
+
+    expect(events[0].args).to.deep.equal({ recipient: wallet, amount: flatFee });
+    expect(await publicClient.getBalance({ address: wallet })).to.equal(flatFee);
+    expect(await publicClient.readContract({ address: wallet, abi: MockWallet.abi, functionName: 'received' })).to.equal(flatFee);
+  });
+  it('Should refund the escrowed fee when the trade is cancelled', async function () {
+    await agreeAndApprove();
+    await nftSwap.confirmTrade(0, { account: to.account });
+    expect(await publicClient.getBalance({ address: nftSwap.address })).to.equal(flatFee);
+
+    const toBalance = await publicClient.getBalance({ address: to.account.address });
+    await nftSwap.cancelTrade(0, { account: from.account });
+
+    expect((await nftSwap.getTrade(0)).status).to.equal(TradeStatus.Cancelled);
+    expect(await publicClient.getBalance({ address: to.account.address })).to.equal(toBalance + flatFee);
+    expect(await publicClient.getBalance({ address: nftSwap.address })).to.equal(0n);
+  });
+  it('Should refund RON sent on top of the fee', async function () {
+    await agreeAndApprove();
+
+    const toBalance = await publicClient.getBalance({ address: to.account.address });
+    const { receipt } = await nftSwap.confirmTrade(0, { account: to.account, value: flatFee * 3n });
+
+    expect(await publicClient.getBalance({ address: to.account.address })).to.equal(toBalance - flatFee - gasCost(receipt));
+  });
+  it('Should not allow confirming without the fee', async function () {
+    await agreeAndApprove();
+
+    await expect(nftSwap.confirmTrade(0, { account: to.account, value: flatFee - 1n })).to.be.rejectedWith('Insufficient RON sent');
+  });
+  it('Should collect the fee from the taker of an offer', async function () {
+    let hash = await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    const { timestamp } = await publicClient.getBlock();
+    const offer = nftSwap.buildOffer({
+      maker: getAddress(from.account.address),
+      makerItems: terms.fromItems,
+      takerItems: terms.toItems,
+      expiry: timestamp + 3600n
+    });
+    const signedOffer = await nftSwap.signOffer(offer, { account: from.account });
+
+    const { events } = await nftSwap.fillOffer(signedOffer, { account: to.account });
+
+    expect(events.map((event) => event.eventName)).to.include('FeePaid');
+    expect((await nftSwap.getFeeSchedule()).accumulatedFees).to.equal(flatFee);
+  });
+  it('Should only allow the owner to change the fee schedule', async function () {
+    const options = { account: from.account };
+
+    await expect(nftSwap.setFlatFee(0n, options)).to.be.rejectedWith('Only owner can perform this action');
+    await expect(nftSwap.setCollectionFee(getAddress(nftContract.address), 0n, options)).to.be.rejectedWith(
+      'Only owner can perform this action'
+    );
+    await expect(nftSwap.setFeeExempt(from.account.address, true, options)).to.be.rejectedWith('Only owner can perform this action');
+    await expect(nftSwap.setFeeRecipient(from.account.address, options)).to.be.rejectedWith('Only owner can perform this action');
+  });
+});
@@ -0,0 +1,199 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  Address,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  http,
+  PublicClient,
+  TestClient,
+  WalletClient
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import { deployNftSwap, NftSwapClient, NftSwapIndexer, TradeStatus, TradeTerms } from '../sdk';
+
+describe('Indexer', function () {
+  let publicClient: PublicClient;
+  let testClient: TestClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let from: any;
+  let to: any;
+  let nftContract: any;
+  let nftSwap: NftSwapClient;
+  let indexer: NftSwapIndexer;
+  let terms: TradeTerms;
+
+  const offeredNftIds: number[] = [1, 2],
+    requestedNftIds: number[] = [3];
+
+  async function completeTrade(tradeId: number) {
+    await nftSwap.agreeTrade(tradeId, terms, { account: from.account });
+    await nftSwap.agreeTrade(tradeId, terms, { account: to.account });
+    await nftSwap.confirmTrade(tradeId, { account: from.account });
+    await nftSwap.confirmTrade(tradeId, { account: to.account });
+  }
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat, // Use hardhat chain here
+      transport: http() // Use the Hardhat Network RPC endpoint
+    });
+    testClient = createTestClient({ chain: hardhat, mode: 'hardhat', transport: http() });
+
+    // Get accounts from Hardhat
+    [contractOwner, from, to] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy the NFT contract first
+    const nftHash = await walletClientOwner.deployContract({
+      abi: MockNft.abi,
+      bytecode: MockNft.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
+    const nftAddress = nftReceipt.contractAddress!;
+
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    const nftSwapAddress = receipt.contractAddress!;
+
+    // Get contract instances with Viem
+    nftContract = getContract({
+      address: nftAddress,
+      abi: MockNft.abi,
+      client: {
+        public: publicClient,
+        wallet: walletClientOwner
+      }
+    });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
+    indexer = new NftSwapIndexer({ address: nftSwapAddress, publicClient, fromBlock: receipt.blockNumber, batchSize: 3n });
+
+    // Mint and approve NFTs for from and to
+    for (const nftId of offeredNftIds) await nftContract.write.mint([from.account.address, nftId]);
+    for (const nftId of requestedNftIds) await nftContract.write.mint([to.account.address, nftId]);
+    let hash = await nftContract.write.setApprovalForAll([nftSwapAddress, true], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await nftContract.write.setApprovalForAll([nftSwapAddress, true], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    terms = {
+      fromItems: offeredNftIds.map((nftId) => ({ nftContract: getAddress(nftContract.address), nftId })),
+      toItems: requestedNftIds.map((nftId) => ({ nftContract: getAddress(nftContract.address), nftId }))
+    };
+  });
+
+  it('Should rebuild trade state from the logs', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await completeTrade(0);
+    await nftSwap.cancelTrade(1, { account: to.account });
+
+    // Including the Upgraded and Initialized events of the proxy deployment
+    const { events } = await indexer.sync();
+    expect(events).to.equal(11);
+
+    // Indexed state matches the contract
+    for (const tradeId of [0, 1]) {
+      const trade = await nftSwap.getTrade(tradeId);
+      const indexed = (await indexer.getTrade(tradeId))!;
+      expect(indexed.status).to.equal(trade.status);
+      expect(indexed.fromAddress).to.equal(trade.fromAddress);
+      expect(indexed.toAddress).to.equal(trade.toAddress);
+      expect(indexed.fromItems).to.deep.equal(trade.fromItems);
+      expect(indexed.toItems).to.deep.equal(trade.toItems);
+      expect(indexed.fromHasConfirmed).to.equal(trade.fromHasConfirmed);
+      expect(indexed.expiresAt).to.equal(trade.expiresAt);
+    }
+    expect((await indexer.getTrade(1))!.cancelledBy).to.equal(getAddress(to.account.address));
+
+    // Queries
+    expect((await indexer.getTrades({ user: to.account.address })).map((trade) => trade.id)).to.deep.equal([0n, 1n]);
+    expect((await indexer.getTrades({ status: TradeStatus.Rejected })).map((trade) => trade.id)).to.deep.equal([1n]);
+    expect((await indexer.getTrades({ offset: 1, limit: 1 })).map((trade) => trade.id)).to.deep.equal([1n]);
+    expect((await indexer.getEvents(0)).map((event) => event.eventName)).to.deep.equal([
+      'TradeProposed',
+      'TradeTermsSet',
+      'TradeAgreed',
+      'TradeAgreed',
+      'TradeConfirmed',
+      'TradeConfirmed',
+      'TradeCompleted'
+    ]);
+  });
+  it('Should only replay new blocks', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await indexer.sync();
+
+    await completeTrade(0);
+    const { events } = await indexer.sync();
+
+    expect(events).to.equal(6);
+    expect((await indexer.getEvents()).length).to.equal(9);
+    expect((await indexer.getTrade(0))!.status).to.equal(TradeStatus.Completed);
+  });
+  it('Should index counter-proposals', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+    await nftSwap.counterTrade(0, { ...terms, fromItems: terms.fromItems.slice(0, 1) }, { account: to.account });
+
+    await indexer.sync();
+    const trade = await nftSwap.getTrade(0);
+    const indexed = (await indexer.getTrade(0))!;
+    expect(indexed.status).to.equal(TradeStatus.Proposed);
+    expect(indexed.version).to.equal(trade.version);
+    expect(indexed.fromItems).to.deep.equal(trade.fromItems);
+    expect([indexed.fromHasAgreed, indexed.toHasAgreed]).to.deep.equal([false, true]);
+  });
+  it('Should index accepted open offers', async function () {
+    await nftSwap.setPermissionlessProposals(true);
+    const { tradeId } = await nftSwap.proposeOpenOffer(
+      { fromItems: terms.fromItems, wanted: { nftContract: getAddress(nftContract.address) } },
+      { account: from.account }
+    );
+    await nftSwap.acceptOpenOffer(tradeId, requestedNftIds[0], { account: to.account });
+
+    await indexer.sync();
+    const trade = await nftSwap.getTrade(tradeId);
+    const indexed = (await indexer.getTrade(tradeId))!;
+    expect(indexed.status).to.equal(TradeStatus.Completed);
+    expect(indexed.toAddress).to.equal(trade.toAddress);
+    expect(indexed.toItems).to.deep.equal(trade.toItems);
+    expect(indexed.wanted).to.deep.equal(trade.wanted);
+  });
+  it('Should roll back blocks that were reorged out', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await indexer.sync();
+
+    // Replace the agreements with a cancellation on another branch
+    const snapshot = await testClient.snapshot();
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+    await indexer.sync();
+    expect((await indexer.getTrade(0))!.status).to.equal(TradeStatus.Agreed);
+
+    await testClient.revert({ id: snapshot });
+    await nftSwap.cancelTrade(0, { account: from.account });
+    await testClient.mine({ blocks: 2 });
+    const { reorgedFrom } = await indexer.sync();
+
+    expect(reorgedFrom).to.not.be.undefined;
+    expect((await indexer.getTrade(0))!.status).to.equal(TradeStatus.Rejected);
+    expect((await indexer.getTrade(0))!.fromHasAgreed).to.be.false;
+    expect((await indexer.getEvents(0)).map((event) => event.eventName)).to.deep.equal(['TradeProposed', 'TradeCancelled']);
+  });
+});
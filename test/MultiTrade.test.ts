@@ -1,31 +1,19 @@
 import { expect } from 'chai';
 import hre from 'hardhat';
-import { Address, createPublicClient, createWalletClient, getAddress, getContract, http, PublicClient, WalletClient } from 'viem';
+import {
+  Address,
+  createPublicClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  http,
+  parseEther,
+  PublicClient,
+  WalletClient
+} from 'viem';
 import { hardhat } from 'viem/chains';
 import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
-import NftSwap from '../artifacts/contracts/NftSwap.sol/NftSwap.json';
-
-enum TradeStatus {
-  Proposed,
-  Agreed,
-  Confirmed,
-  Cancelled
-}
-type Trade = {
-  fromAddress: Address;
-  fromNftContract: Address;
-  fromNftId: bigint;
-  fromHasAgreed: boolean;
-  fromHasConfirmed: boolean;
-
-  toAddress: Address;
-  toNftContract: Address;
-  toNftId: bigint;
-  toHasAgreed: boolean;
-  toHasConfirmed: boolean;
-
-  status: TradeStatus;
-};
+import { deployNftSwap, NftSwapClient, NftSwapErrorCode, TradeStatus, TradeTerms } from '../sdk';
 
 describe('Multi trade', function () {
   let publicClient: PublicClient;
@@ -33,8 +21,10 @@ describe('Multi trade', function () {
   let contractOwner: any;
   let from: any;
   let to: any;
+  let thirdParty: any;
   let nftContract: any;
-  let nftSwap: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
 
   const offeredNftId: number = 1,
     requestedNftId: number = 2;
@@ -47,7 +37,7 @@ describe('Multi trade', function () {
     });
 
     // Get accounts from Hardhat
-    [contractOwner, from, to] = await hre.viem.getWalletClients();
+    [contractOwner, from, to, thirdParty] = await hre.viem.getWalletClients();
 
     // Create wallet clients
     walletClientOwner = createWalletClient({
@@ -66,17 +56,11 @@ describe('Multi trade', function () {
     const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
     const nftAddress = nftReceipt.contractAddress!;
 
-    // Deploy the contract with Viem
-    const swapHash = await walletClientOwner.deployContract({
-      abi: NftSwap.abi,
-      bytecode: NftSwap.bytecode as Address,
-      account: contractOwner.account,
-      chain: hardhat
-    });
-    const receipt = await publicClient.waitForTransactionReceipt({ hash: swapHash });
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
     const nftSwapAddress = receipt.contractAddress!;
 
-    // Get a contract instance with Viem
+    // Get contract instances with Viem
     nftContract = getContract({
       address: nftAddress,
       abi: MockNft.abi,
@@ -85,14 +69,7 @@ describe('Multi trade', function () {
         wallet: walletClientOwner
       }
     });
-    nftSwap = getContract({
-      address: nftSwapAddress,
-      abi: NftSwap.abi,
-      client: {
-        public: publicClient,
-        wallet: walletClientOwner
-      }
-    });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
 
     // Mint NFTs to from and to
     await nftContract.write.mint([from.account.address, offeredNftId]);
@@ -104,14 +81,19 @@ describe('Multi trade', function () {
 
     expect(ownerOfferedNft).to.equal(getAddress(from.account.address));
     expect(ownerRequestedNft).to.equal(getAddress(to.account.address));
+
+    // Default trade terms: swap the offered NFT for the requested NFT
+    terms = {
+      fromItems: [{ nftContract: getAddress(nftContract.address), nftId: offeredNftId }],
+      toItems: [{ nftContract: getAddress(nftContract.address), nftId: requestedNftId }]
+    };
   });
 
   it('Should allow a user to participate in multiple trades', async function () {
     // Arrange: Propose two trades involving the 'from' user
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Mint a new NFT for the second trade
     const newOfferedNftId = 3;
@@ -119,25 +101,159 @@ describe('Multi trade', function () {
     const ownerNewOfferedNft = await nftContract.read.ownerOf([newOfferedNftId]);
     expect(ownerNewOfferedNft).to.equal(getAddress(from.account.address));
 
-    hash = await nftSwap.write.proposeTrade([ownerNewOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerNewOfferedNft, ownerRequestedNft);
 
     // Act: 'to' user agrees to both trades
-    const agreeHash1 = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHash1 });
-    const agreeHash2 = await nftSwap.write.agreeTrade(
-      [1, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHash2 });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+    await nftSwap.agreeTrade(1, terms, { account: to.account });
 
     // Assert: Both trades are in the Agreed state
-    let trade = (await nftSwap.read.getTrade([0])) as Trade;
+    let trade = await nftSwap.getTrade(0);
     expect(trade.status).to.equal(TradeStatus.Proposed);
-    trade = (await nftSwap.read.getTrade([1])) as Trade;
+    trade = await nftSwap.getTrade(1);
     expect(trade.status).to.equal(TradeStatus.Proposed);
   });
+  it('Should index trades by participant with pagination', async function () {
+    // Arrange: Propose three trades between 'from' and 'to', then two between 'from' and 'thirdParty'
+    for (let i = 0; i < 3; i++) await nftSwap.proposeTrade(from.account.address, to.account.address);
+    for (let i = 0; i < 2; i++) await nftSwap.proposeTrade(from.account.address, thirdParty.account.address);
+
+    // Act
+    const fromPage = await nftSwap.getTradesByUser(from.account.address, { offset: 1, limit: 2 });
+    const toPage = await nftSwap.getTradesByUser(to.account.address);
+    const thirdPartyPage = await nftSwap.getTradesByUser(thirdParty.account.address);
+    const pastEnd = await nftSwap.getTradesByUser(from.account.address, { offset: 10 });
+
+    // Assert: Trade ids are listed oldest first, along with the trades
+    expect(await nftSwap.getTradeCount()).to.equal(5n);
+    expect(fromPage.total).to.equal(5n);
+    expect(fromPage.trades.map((trade) => trade.id)).to.deep.equal([1n, 2n]);
+    expect(toPage.trades.map((trade) => trade.id)).to.deep.equal([0n, 1n, 2n]);
+    expect(thirdPartyPage.trades.map((trade) => trade.id)).to.deep.equal([3n, 4n]);
+    expect(thirdPartyPage.trades[0].toAddress).to.equal(getAddress(thirdParty.account.address));
+    expect(pastEnd).to.deep.equal({ trades: [], total: 5n });
+  });
+  it('Should index trades by status and keep track of open trades', async function () {
+    // Arrange: Four trades, which end up proposed, agreed, cancelled and confirmed
+    for (let i = 0; i < 4; i++) await nftSwap.proposeTrade(from.account.address, to.account.address);
+
+    await nftSwap.agreeTrade(1, terms, { account: from.account });
+    await nftSwap.agreeTrade(1, terms, { account: to.account });
+
+    await nftSwap.cancelTrade(2, { account: to.account });
+
+    let hash = await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.agreeTrade(3, terms, { account: from.account });
+    await nftSwap.agreeTrade(3, terms, { account: to.account });
+    await nftSwap.confirmTrade(3, { account: from.account });
+    await nftSwap.confirmTrade(3, { account: to.account });
+
+    // Assert
+    const ids = async (status: TradeStatus) => (await nftSwap.getTradesByStatus(status)).trades.map((trade) => trade.id);
+    expect(await ids(TradeStatus.Proposed)).to.deep.equal([0n]);
+    expect(await ids(TradeStatus.Agreed)).to.deep.equal([1n]);
+    expect(await ids(TradeStatus.Rejected)).to.deep.equal([2n]);
+    expect(await ids(TradeStatus.Completed)).to.deep.equal([3n]);
+
+    const openTrades = await nftSwap.getOpenTrades();
+    expect(await nftSwap.getOpenTradeCount()).to.equal(2n);
+    expect(openTrades.total).to.equal(2n);
+    expect(openTrades.trades.map((trade) => [trade.id, trade.status])).to.have.deep.members([
+      [0n, TradeStatus.Proposed],
+      [1n, TradeStatus.Agreed]
+    ]);
+  });
+  it('Should index trades created by filling an offer', async function () {
+    let hash = await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    const { timestamp } = await publicClient.getBlock();
+    const offer = nftSwap.buildOffer({
+      maker: getAddress(from.account.address),
+      makerItems: terms.fromItems,
+      takerItems: terms.toItems,
+      expiry: timestamp + 3600n
+    });
+    await nftSwap.fillOffer(await nftSwap.signOffer(offer, { account: from.account }), { account: to.account });
+
+    expect((await nftSwap.getTradesByUser(to.account.address)).trades.map((trade) => trade.id)).to.deep.equal([0n]);
+    expect((await nftSwap.getTradesByStatus(TradeStatus.Completed)).total).to.equal(1n);
+    expect(await nftSwap.getOpenTradeCount()).to.equal(0n);
+  });
+  it('Should propose, agree and cancel trades in batches, reporting the calls that failed', async function () {
+    // Act: The second proposal is invalid, the other ones are still proposed
+    const proposals = await nftSwap.proposeTrades([
+      { fromAddress: from.account.address, toAddress: to.account.address, terms },
+      { fromAddress: from.account.address, toAddress: from.account.address, terms },
+      { fromAddress: from.account.address, toAddress: to.account.address, terms }
+    ]);
+
+    expect(proposals.results.map(({ success, tradeId }) => ({ success, tradeId }))).to.deep.equal([
+      { success: true, tradeId: 0n },
+      { success: false, tradeId: undefined },
+      { success: true, tradeId: 1n }
+    ]);
+    expect(proposals.results[1].error?.code).to.equal(NftSwapErrorCode.InvalidParticipants);
+    expect(proposals.events.filter((event) => event.eventName === 'BatchCallFailed')).to.have.length(1);
+    expect(await nftSwap.getTradeCount()).to.equal(2n);
+
+    // Act: Agree to both trades and an unknown one, then cancel the first trade twice
+    const agreements = await nftSwap.agreeTrades(
+      [0, 1, 5].map((tradeId) => ({ tradeId, terms })),
+      { account: to.account }
+    );
+    const cancellations = await nftSwap.cancelTrades([0, 0], { account: from.account });
+
+    expect(agreements.results.map((result) => result.error?.code)).to.deep.equal([undefined, undefined, NftSwapErrorCode.TradeNotFound]);
+    expect((await nftSwap.getTrade(1)).toHasAgreed).to.equal(true);
+    expect(cancellations.results.map((result) => result.success)).to.deep.equal([true, false]);
+    expect(cancellations.results[1].error?.reason).to.equal('Trade can no longer be cancelled');
+    expect((await nftSwap.getTrade(0)).status).to.equal(TradeStatus.Rejected);
+  });
+  it('Should confirm trades in a batch, refunding the RON of failed confirmations', async function () {
+    const fee = parseEther('0.01');
+    await nftSwap.setFlatFee(fee);
+
+    // Arrange: Two agreed trades and a proposed one
+    await nftContract.write.mint([from.account.address, 3]);
+    await nftContract.write.mint([to.account.address, 4]);
+    const otherTerms = {
+      fromItems: [{ nftContract: getAddress(nftContract.address), nftId: 3 }],
+      toItems: [{ nftContract: getAddress(nftContract.address), nftId: 4 }]
+    };
+    await nftSwap.proposeTrades([
+      { fromAddress: from.account.address, toAddress: to.account.address, terms },
+      { fromAddress: from.account.address, toAddress: to.account.address, terms: otherTerms },
+      { fromAddress: from.account.address, toAddress: to.account.address, terms }
+    ]);
+    for (const account of [from.account, to.account]) {
+      await nftSwap.agreeTrades(
+        [
+          { tradeId: 0, terms },
+          { tradeId: 1, terms: otherTerms }
+        ],
+        { account }
+      );
+      const hash = await nftContract.write.setApprovalForAll([nftSwap.address, true], { account });
+      await publicClient.waitForTransactionReceipt({ hash });
+    }
+    await nftSwap.confirmTrades([0, 1], { account: from.account });
+
+    // Act: Send the fee of all three trades, the proposed trade can't be confirmed
+    const balanceBefore = await publicClient.getBalance({ address: to.account.address });
+    const { results, receipt } = await nftSwap.confirmTrades([0, 1, 2], { account: to.account, value: fee * 3n });
+    const balanceAfter = await publicClient.getBalance({ address: to.account.address });
+
+    // Assert: Both agreed trades executed and only their fees were kept
+    expect(results.map((result) => result.error?.code)).to.deep.equal([undefined, undefined, NftSwapErrorCode.InvalidState]);
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(to.account.address));
+    expect(await nftContract.read.ownerOf([4])).to.equal(getAddress(from.account.address));
+    expect(balanceBefore - balanceAfter).to.equal(fee * 2n + receipt.gasUsed * receipt.effectiveGasPrice);
+    expect((await nftSwap.getFeeSchedule()).accumulatedFees).to.equal(fee * 2n);
+  });
 });
@@ -1,41 +1,9 @@
 import { expect } from 'chai';
 import hre from 'hardhat';
-import {
-  Address,
-  createPublicClient,
-  createWalletClient,
-  getAddress,
-  getContract,
-  http,
-  PublicClient,
-  WalletClient,
-  zeroAddress
-} from 'viem';
+import { Address, createPublicClient, createWalletClient, getAddress, getContract, http, PublicClient, WalletClient } from 'viem';
 import { hardhat } from 'viem/chains';
 import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
-import NftSwap from '../artifacts/contracts/NftSwap.sol/NftSwap.json';
-
-enum TradeStatus {
-  Proposed,
-  Agreed,
-  Confirmed,
-  Cancelled
-}
-type Trade = {
-  fromAddress: Address;
-  fromNftContract: Address;
-  fromNftId: bigint;
-  fromHasAgreed: boolean;
-  fromHasConfirmed: boolean;
-
-  toAddress: Address;
-  toNftContract: Address;
-  toNftId: bigint;
-  toHasAgreed: boolean;
-  toHasConfirmed: boolean;
-
-  status: TradeStatus;
-};
+import { deployNftSwap, NftSwapClient, TokenStandard, TradeStatus, TradeTerms } from '../sdk';
 
 describe('NftSwap', function () {
   let publicClient: PublicClient;
@@ -44,7 +12,8 @@ describe('NftSwap', function () {
   let from: any;
   let to: any;
   let nftContract: any;
-  let nftSwap: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
 
   const offeredNftId: number = 1,
     requestedNftId: number = 2;
@@ -76,17 +45,11 @@ describe('NftSwap', function () {
     const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
     const nftAddress = nftReceipt.contractAddress!;
 
-    // Deploy the contract with Viem
-    const swapHash = await walletClientOwner.deployContract({
-      abi: NftSwap.abi,
-      bytecode: NftSwap.bytecode as Address,
-      account: contractOwner.account,
-      chain: hardhat
-    });
-    const receipt = await publicClient.waitForTransactionReceipt({ hash: swapHash });
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
     const nftSwapAddress = receipt.contractAddress!;
 
-    // Get a contract instance with Viem
+    // Get contract instances with Viem
     nftContract = getContract({
       address: nftAddress,
       abi: MockNft.abi,
@@ -95,14 +58,7 @@ describe('NftSwap', function () {
         wallet: walletClientOwner
       }
     });
-    nftSwap = getContract({
-      address: nftSwapAddress,
-      abi: NftSwap.abi,
-      client: {
-        public: publicClient,
-        wallet: walletClientOwner
-      }
-    });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
 
     // Mint NFTs to from and to
     await nftContract.write.mint([from.account.address, offeredNftId]);
@@ -114,6 +70,12 @@ describe('NftSwap', function () {
 
     expect(ownerOfferedNft).to.equal(getAddress(from.account.address));
     expect(ownerRequestedNft).to.equal(getAddress(to.account.address));
+
+    // Default trade terms: swap the offered NFT for the requested NFT
+    terms = {
+      fromItems: [{ nftContract: getAddress(nftContract.address), nftId: offeredNftId }],
+      toItems: [{ nftContract: getAddress(nftContract.address), nftId: requestedNftId }]
+    };
   });
 
   // Normal workflow
@@ -122,19 +84,16 @@ describe('NftSwap', function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
 
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Test
-    const trade = (await nftSwap.read.getTrade([0])) as Trade;
+    const trade = await nftSwap.getTrade(0);
     expect(trade.fromAddress).to.equal(getAddress(from.account.address));
-    expect(trade.fromNftContract).to.equal(zeroAddress);
-    expect(trade.fromNftId).to.equal(BigInt(0));
+    expect(trade.fromItems).to.deep.equal([]);
     expect(trade.fromHasAgreed).to.equal(false);
     expect(trade.fromHasConfirmed).to.equal(false);
     expect(trade.toAddress).to.equal(getAddress(to.account.address));
-    expect(trade.toNftContract).to.equal(zeroAddress);
-    expect(trade.toNftId).to.equal(BigInt(0));
+    expect(trade.toItems).to.deep.equal([]);
     expect(trade.toHasAgreed).to.equal(false);
     expect(trade.toHasConfirmed).to.equal(false);
     expect(trade.status).to.equal(TradeStatus.Proposed);
@@ -142,60 +101,43 @@ describe('NftSwap', function () {
   it('Should change status to agreed if both side agree', async function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Have FROM side agree
-    const agreeHash = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: from.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHash });
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
 
-    const tradeFrom = (await nftSwap.read.getTrade([0])) as Trade;
+    const tradeFrom = await nftSwap.getTrade(0);
     expect(tradeFrom.status).to.equal(TradeStatus.Proposed);
     expect(tradeFrom.fromHasAgreed).to.equal(true);
     expect(tradeFrom.toHasAgreed).to.equal(false);
 
     // Have TO side agree
-    const agreeHash2 = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHash2 });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
 
-    const tradeTo = (await nftSwap.read.getTrade([0])) as Trade;
+    const tradeTo = await nftSwap.getTrade(0);
     expect(tradeTo.status).to.equal(TradeStatus.Agreed);
     expect(tradeTo.fromHasAgreed).to.equal(true);
     expect(tradeTo.toHasAgreed).to.equal(true);
 
     expect(tradeTo.fromAddress).to.equal(getAddress(from.account.address));
-    expect(tradeTo.fromNftContract).to.equal(getAddress(nftContract.address));
-    expect(tradeTo.fromNftId).to.equal(BigInt(offeredNftId));
+    expect(tradeTo.fromItems).to.deep.equal([
+      { nftContract: getAddress(nftContract.address), nftId: BigInt(offeredNftId), standard: TokenStandard.ERC721, amount: 1n }
+    ]);
     expect(tradeTo.toAddress).to.equal(getAddress(to.account.address));
-    expect(tradeTo.toNftContract).to.equal(getAddress(nftContract.address));
-    expect(tradeTo.toNftId).to.equal(BigInt(requestedNftId));
+    expect(tradeTo.toItems).to.deep.equal([
+      { nftContract: getAddress(nftContract.address), nftId: BigInt(requestedNftId), standard: TokenStandard.ERC721, amount: 1n }
+    ]);
   });
   it('Should change status to confirmed if both sides confirm', async function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Have FROM side agree
-    const agreeHash = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: from.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHash });
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
 
     // Have TO side agree
-    const agreeHash2 = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHash2 });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
 
     // Do NFT approval
     const approveHash1 = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
@@ -204,10 +146,9 @@ describe('NftSwap', function () {
     expect(fromApproved).to.equal(getAddress(nftSwap.address));
 
     // Have FROM side confirm
-    const confirmHash1 = await nftSwap.write.confirmTrade([0], { account: from.account });
-    await publicClient.waitForTransactionReceipt({ hash: confirmHash1 });
+    await nftSwap.confirmTrade(0, { account: from.account });
 
-    let trade = (await nftSwap.read.getTrade([0])) as Trade;
+    let trade = await nftSwap.getTrade(0);
     expect(trade.status).to.equal(TradeStatus.Agreed);
     expect(trade.fromHasAgreed).to.equal(true);
     expect(trade.toHasAgreed).to.equal(true);
@@ -221,11 +162,10 @@ describe('NftSwap', function () {
     expect(toApproved).to.equal(getAddress(nftSwap.address));
 
     // Have TO side confirm
-    const confirmHash2 = await nftSwap.write.confirmTrade([0], { account: to.account });
-    await publicClient.waitForTransactionReceipt({ hash: confirmHash2 });
+    await nftSwap.confirmTrade(0, { account: to.account });
 
-    trade = (await nftSwap.read.getTrade([0])) as Trade;
-    expect(trade.status).to.equal(TradeStatus.Confirmed);
+    trade = await nftSwap.getTrade(0);
+    expect(trade.status).to.equal(TradeStatus.Completed);
     expect(trade.fromHasAgreed).to.equal(true);
     expect(trade.toHasAgreed).to.equal(true);
     expect(trade.fromHasConfirmed).to.equal(true);
@@ -235,20 +175,11 @@ describe('NftSwap', function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
 
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Agree
-    const agreeHash = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: from.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHash });
-    const agreeHash2 = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHash2 });
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
 
     // NFT approval
     const approveHash1 = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
@@ -257,13 +188,11 @@ describe('NftSwap', function () {
     await publicClient.waitForTransactionReceipt({ hash: approveHash2 });
 
     // Confirm
-    const confirmHash = await nftSwap.write.confirmTrade([0], { account: from.account });
-    await publicClient.waitForTransactionReceipt({ hash: confirmHash });
-    const confirmHash2 = await nftSwap.write.confirmTrade([0], { account: to.account });
-    await publicClient.waitForTransactionReceipt({ hash: confirmHash2 });
+    await nftSwap.confirmTrade(0, { account: from.account });
+    await nftSwap.confirmTrade(0, { account: to.account });
 
-    let trade = (await nftSwap.read.getTrade([0])) as Trade;
-    expect(trade.status).to.equal(TradeStatus.Confirmed);
+    let trade = await nftSwap.getTrade(0);
+    expect(trade.status).to.equal(TradeStatus.Completed);
 
     // Check if the wallet has the NFT
     const newOwnerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
@@ -272,4 +201,119 @@ describe('NftSwap', function () {
     expect(newOwnerOfferedNft).to.equal(getAddress(to.account.address));
     expect(newOwnerRequestedNft).to.equal(getAddress(from.account.address));
   });
+
+  // Bundle trades
+  it('Should trade a bundle of NFTs for a single NFT', async function () {
+    const bundleIds = [offeredNftId, 3, 4];
+    await nftContract.write.mint([from.account.address, 3]);
+    await nftContract.write.mint([from.account.address, 4]);
+
+    const bundleTerms: TradeTerms = {
+      fromItems: bundleIds.map((nftId) => ({ nftContract: getAddress(nftContract.address), nftId })),
+      toItems: terms.toItems
+    };
+
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, bundleTerms, { account: from.account });
+    await nftSwap.agreeTrade(0, bundleTerms, { account: to.account });
+
+    const trade = await nftSwap.getTrade(0);
+    expect(trade.fromItems).to.have.lengthOf(3);
+    expect(trade.toItems).to.have.lengthOf(1);
+
+    // NFT approval
+    let hash = await nftContract.write.setApprovalForAll([getAddress(nftSwap.address), true], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await nftContract.write.approve([getAddress(nftSwap.address), requestedNftId], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    // Confirm
+    await nftSwap.confirmTrade(0, { account: from.account });
+    await nftSwap.confirmTrade(0, { account: to.account });
+
+    for (const nftId of bundleIds) {
+      expect(await nftContract.read.ownerOf([nftId])).to.equal(getAddress(to.account.address));
+    }
+    expect(await nftContract.read.ownerOf([requestedNftId])).to.equal(getAddress(from.account.address));
+  });
+  it('Should swap NFTs across collections', async function () {
+    // Deploy a second collection
+    const hash = await walletClientOwner.deployContract({
+      abi: MockNft.abi,
+      bytecode: MockNft.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const { contractAddress } = await publicClient.waitForTransactionReceipt({ hash });
+    const otherNftContract: any = getContract({
+      address: contractAddress!,
+      abi: MockNft.abi,
+      client: { public: publicClient, wallet: walletClientOwner }
+    });
+
+    await nftContract.write.mint([from.account.address, 3]);
+    await otherNftContract.write.mint([to.account.address, 10]);
+    await otherNftContract.write.mint([to.account.address, 11]);
+
+    const collectionTerms: TradeTerms = {
+      fromItems: [offeredNftId, 3].map((nftId) => ({ nftContract: getAddress(nftContract.address), nftId })),
+      toItems: [10, 11].map((nftId) => ({ nftContract: getAddress(otherNftContract.address), nftId }))
+    };
+
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, collectionTerms, { account: from.account });
+    await nftSwap.agreeTrade(0, collectionTerms, { account: to.account });
+
+    // NFT approval
+    let approveHash = await nftContract.write.setApprovalForAll([getAddress(nftSwap.address), true], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash: approveHash });
+    approveHash = await otherNftContract.write.setApprovalForAll([getAddress(nftSwap.address), true], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash: approveHash });
+
+    // Confirm
+    await nftSwap.confirmTrade(0, { account: from.account });
+    await nftSwap.confirmTrade(0, { account: to.account });
+
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(to.account.address));
+    expect(await nftContract.read.ownerOf([3])).to.equal(getAddress(to.account.address));
+    expect(await otherNftContract.read.ownerOf([10])).to.equal(getAddress(from.account.address));
+    expect(await otherNftContract.read.ownerOf([11])).to.equal(getAddress(from.account.address));
+  });
+  it('Should not allow a bundle containing an NFT the user does not own', async function () {
+    await nftContract.write.mint([to.account.address, 3]);
+
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    const agree = nftSwap.agreeTrade(
+      0,
+      { ...terms, fromItems: [...terms.fromItems, { nftContract: getAddress(nftContract.address), nftId: 3 }] },
+      { account: from.account }
+    );
+
+    await expect(agree).to.be.rejectedWith('You do not own this NFT');
+  });
+  it('Should not allow a trade without NFTs on both sides', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    const agree = nftSwap.agreeTrade(0, { ...terms, toItems: [] }, { account: from.account });
+
+    await expect(agree).to.be.rejectedWith('Trade must include NFTs on both sides');
+  });
+  it('Should not allow confirming a bundle until every NFT is approved', async function () {
+    await nftContract.write.mint([from.account.address, 3]);
+    const bundleTerms: TradeTerms = {
+      ...terms,
+      fromItems: [...terms.fromItems, { nftContract: getAddress(nftContract.address), nftId: 3 }]
+    };
+
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, bundleTerms, { account: from.account });
+    await nftSwap.agreeTrade(0, bundleTerms, { account: to.account });
+
+    // Only approve one NFT of the bundle
+    const hash = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    const confirm = nftSwap.confirmTrade(0, { account: from.account });
+
+    await expect(confirm).to.be.rejectedWith('Contract not approved to transfer NFT');
+  });
 });
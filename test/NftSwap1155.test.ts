@@ -0,0 +1,213 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { Address, createPublicClient, createWalletClient, getAddress, getContract, http, PublicClient, WalletClient } from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import MockNft1155 from '../artifacts/contracts/MockNft1155.sol/MockNft1155.json';
+import { deployNftSwap, NftSwapClient, NftSwapErrorCode, TokenStandard, TradeStatus, TradeTerms } from '../sdk';
+
+describe('NftSwap ERC1155', function () {
+  let publicClient: PublicClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let from: any;
+  let to: any;
+  let nftContract: any;
+  let multiTokenContract: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
+
+  const offeredNftId: number = 1,
+    offeredTokenId: number = 7,
+    offeredTokenAmount: number = 3,
+    requestedTokenId: number = 8,
+    requestedTokenAmount: number = 5;
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat, // Use hardhat chain here
+      transport: http() // Use the Hardhat Network RPC endpoint
+    });
+
+    // Get accounts from Hardhat
+    [contractOwner, from, to] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy the NFT contracts first
+    const nftHash = await walletClientOwner.deployContract({
+      abi: MockNft.abi,
+      bytecode: MockNft.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
+    const nftAddress = nftReceipt.contractAddress!;
+
+    const multiTokenHash = await walletClientOwner.deployContract({
+      abi: MockNft1155.abi,
+      bytecode: MockNft1155.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const multiTokenReceipt = await publicClient.waitForTransactionReceipt({ hash: multiTokenHash });
+    const multiTokenAddress = multiTokenReceipt.contractAddress!;
+
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    const nftSwapAddress = receipt.contractAddress!;
+
+    // Get contract instances with Viem
+    nftContract = getContract({
+      address: nftAddress,
+      abi: MockNft.abi,
+      client: {
+        public: publicClient,
+        wallet: walletClientOwner
+      }
+    });
+    multiTokenContract = getContract({
+      address: multiTokenAddress,
+      abi: MockNft1155.abi,
+      client: {
+        public: publicClient,
+        wallet: walletClientOwner
+      }
+    });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
+
+    // Mint an ERC721 and ERC1155 tokens to from, and ERC1155 tokens to to
+    await nftContract.write.mint([from.account.address, offeredNftId]);
+    await multiTokenContract.write.mint([from.account.address, offeredTokenId, 10]);
+    await multiTokenContract.write.mint([to.account.address, requestedTokenId, 10]);
+
+    // Default trade terms: an ERC721 plus ERC1155 tokens for other ERC1155 tokens
+    terms = {
+      fromItems: [
+        { nftContract: getAddress(nftContract.address), nftId: offeredNftId },
+        {
+          nftContract: getAddress(multiTokenContract.address),
+          nftId: offeredTokenId,
+          standard: TokenStandard.ERC1155,
+          amount: offeredTokenAmount
+        }
+      ],
+      toItems: [
+        {
+          nftContract: getAddress(multiTokenContract.address),
+          nftId: requestedTokenId,
+          standard: TokenStandard.ERC1155,
+          amount: requestedTokenAmount
+        }
+      ]
+    };
+  });
+
+  // Normal workflow
+  it('Should change status to agreed if both side agree on a mixed trade', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+
+    const trade = await nftSwap.getTrade(0);
+    expect(trade.status).to.equal(TradeStatus.Agreed);
+    expect(trade.fromItems).to.deep.equal([
+      { nftContract: getAddress(nftContract.address), nftId: BigInt(offeredNftId), standard: TokenStandard.ERC721, amount: 1n },
+      {
+        nftContract: getAddress(multiTokenContract.address),
+        nftId: BigInt(offeredTokenId),
+        standard: TokenStandard.ERC1155,
+        amount: BigInt(offeredTokenAmount)
+      }
+    ]);
+    expect(trade.toItems).to.deep.equal([
+      {
+        nftContract: getAddress(multiTokenContract.address),
+        nftId: BigInt(requestedTokenId),
+        standard: TokenStandard.ERC1155,
+        amount: BigInt(requestedTokenAmount)
+      }
+    ]);
+  });
+  it('Should trade mixed ERC721 and ERC1155 tokens between users', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+
+    // Agree
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+
+    // Token approval
+    let hash = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await multiTokenContract.write.setApprovalForAll([getAddress(nftSwap.address), true], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await multiTokenContract.write.setApprovalForAll([getAddress(nftSwap.address), true], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    // Confirm
+    await nftSwap.confirmTrade(0, { account: from.account });
+    const { events } = await nftSwap.confirmTrade(0, { account: to.account });
+    expect(events.map((event) => event.eventName)).to.include('TradeCompleted');
+
+    // Check balances
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(to.account.address));
+    expect(await multiTokenContract.read.balanceOf([from.account.address, offeredTokenId])).to.equal(7n);
+    expect(await multiTokenContract.read.balanceOf([to.account.address, offeredTokenId])).to.equal(3n);
+    expect(await multiTokenContract.read.balanceOf([from.account.address, requestedTokenId])).to.equal(5n);
+    expect(await multiTokenContract.read.balanceOf([to.account.address, requestedTokenId])).to.equal(5n);
+  });
+
+  // Errors
+  it('Should not allow agreeing to more ERC1155 tokens than owned', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+
+    const agree = nftSwap.agreeTrade(0, { ...terms, toItems: [{ ...terms.toItems[0], amount: 11 }] }, { account: from.account });
+
+    await expect(agree).to.be.rejectedWith('Requested NFT is not owned by target address');
+  });
+  it('Should not allow invalid token amounts', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+
+    const zeroAmount = { ...terms, toItems: [{ ...terms.toItems[0], amount: 0 }] };
+    const multipleErc721 = { ...terms, fromItems: [{ ...terms.fromItems[0], amount: 2 }] };
+
+    await expect(nftSwap.agreeTrade(0, zeroAmount, { account: from.account })).to.be.rejectedWith('ERC1155 amount must be greater than 0');
+    await expect(nftSwap.agreeTrade(0, multipleErc721, { account: from.account })).to.be.rejectedWith('ERC721 amount must be 1');
+  });
+  it('Should not allow confirming without ERC1155 approval', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+
+    // Only approve the ERC721 token
+    const hash = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    await expect(nftSwap.confirmTrade(0, { account: from.account })).to.be.rejectedWith('Contract not approved to transfer NFT');
+    await expect(nftSwap.confirmTrade(0, { account: to.account })).to.be.rejectedWith('Contract not approved to transfer NFT');
+  });
+  it('Should cancel the trade when an ERC1155 balance drops', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+
+    // Move most of the requested tokens away
+    const hash = await multiTokenContract.write.safeTransferFrom(
+      [to.account.address, contractOwner.account.address, requestedTokenId, 8, '0x'],
+      { account: to.account }
+    );
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    const confirm = nftSwap.confirmTrade(0, { account: from.account });
+
+    await expect(confirm).to.be.rejectedWith('NFT ownership changed');
+    await confirm.catch((error) => expect(error.code).to.equal(NftSwapErrorCode.OwnershipChanged));
+  });
+});
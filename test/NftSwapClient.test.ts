@@ -0,0 +1,139 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import { Address, createPublicClient, createWalletClient, getAddress, getContract, http, PublicClient, WalletClient } from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import { deployNftSwap, NftSwapClient, NftSwapError, NftSwapErrorCode, TradeStatus, TradeTerms } from '../sdk';
+
+describe('NftSwapClient', function () {
+  let publicClient: PublicClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let from: any;
+  let to: any;
+  let nftContract: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
+
+  const offeredNftId: number = 1,
+    requestedNftId: number = 2;
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat, // Use hardhat chain here
+      transport: http() // Use the Hardhat Network RPC endpoint
+    });
+
+    // Get accounts from Hardhat
+    [contractOwner, from, to] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy the NFT contract first
+    const nftHash = await walletClientOwner.deployContract({
+      abi: MockNft.abi,
+      bytecode: MockNft.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
+    const nftAddress = nftReceipt.contractAddress!;
+
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    const nftSwapAddress = receipt.contractAddress!;
+
+    // Get contract instances with Viem
+    nftContract = getContract({
+      address: nftAddress,
+      abi: MockNft.abi,
+      client: {
+        public: publicClient,
+        wallet: walletClientOwner
+      }
+    });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
+
+    // Mint NFTs to from and to
+    await nftContract.write.mint([from.account.address, offeredNftId]);
+    await nftContract.write.mint([to.account.address, requestedNftId]);
+
+    // Check if the wallet has the NFT
+    const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
+    const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
+
+    expect(ownerOfferedNft).to.equal(getAddress(from.account.address));
+    expect(ownerRequestedNft).to.equal(getAddress(to.account.address));
+
+    // Default trade terms: swap the offered NFT for the requested NFT
+    terms = {
+      fromItems: [{ nftContract: getAddress(nftContract.address), nftId: offeredNftId }],
+      toItems: [{ nftContract: getAddress(nftContract.address), nftId: requestedNftId }]
+    };
+  });
+
+  it('Should return the trade id of a proposed trade', async function () {
+    const first = await nftSwap.proposeTrade(from.account.address, to.account.address);
+    const second = await nftSwap.proposeTrade(to.account.address, from.account.address);
+
+    expect(first.tradeId).to.equal(0n);
+    expect(second.tradeId).to.equal(1n);
+    expect(first.receipt.status).to.equal('success');
+  });
+  it('Should decode the events of a transaction', async function () {
+    const proposed = await nftSwap.proposeTrade(from.account.address, to.account.address);
+    expect(proposed.events).to.have.lengthOf(1);
+    expect(proposed.events[0].eventName).to.equal('TradeProposed');
+    const trade = await nftSwap.getTrade(0);
+    expect(proposed.events[0].args).to.deep.equal({
+      tradeId: 0n,
+      fromAddress: getAddress(from.account.address),
+      toAddress: getAddress(to.account.address),
+      expiresAt: trade.expiresAt
+    });
+
+    // The first agreement stores the terms
+    const agreed = await nftSwap.agreeTrade(0, terms, { account: from.account });
+    expect(agreed.events.map((event) => event.eventName)).to.deep.equal(['TradeTermsSet', 'TradeAgreed']);
+    expect(agreed.events[1].args).to.deep.equal({ tradeId: 0n, user: getAddress(from.account.address) });
+  });
+  it('Should emit TradeCompleted once both sides confirm', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+
+    let hash = await nftContract.write.approve([nftSwap.address, offeredNftId], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await nftContract.write.approve([nftSwap.address, requestedNftId], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    await nftSwap.confirmTrade(0, { account: from.account });
+    const confirmed = await nftSwap.confirmTrade(0, { account: to.account });
+
+    expect(confirmed.events.map((event) => event.eventName)).to.deep.equal(['TradeConfirmed', 'TradeCompleted']);
+    expect((await nftSwap.getTrade(0)).status).to.equal(TradeStatus.Completed);
+  });
+  it('Should map revert reasons to error codes', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+
+    const error = await nftSwap.confirmTrade(0, { account: from.account }).catch((e) => e);
+    expect(error).to.be.instanceOf(NftSwapError);
+    expect(error.code).to.equal(NftSwapErrorCode.InvalidState);
+    expect(error.reason).to.equal('Trade is not in agreed state');
+
+    const disabled = await nftSwap.proposeTrade(from.account.address, to.account.address, { account: from.account }).catch((e) => e);
+    expect(disabled.code).to.equal(NftSwapErrorCode.ProposalsDisabled);
+
+    const notOwner = await nftSwap.setPermissionlessProposals(true, { account: from.account }).catch((e) => e);
+    expect(notOwner.code).to.equal(NftSwapErrorCode.NotOwner);
+
+    const notFound = await nftSwap.getTrade(999).catch((e) => e);
+    expect(notFound).to.be.instanceOf(NftSwapError);
+  });
+});
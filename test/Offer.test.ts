@@ -0,0 +1,192 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  Address,
+  createPublicClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  http,
+  parseEther,
+  PublicClient,
+  WalletClient
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import { deployNftSwap, nftSwapAbi, NftSwapClient, Offer, TradeStatus } from '../sdk';
+
+describe('Offer', function () {
+  let publicClient: PublicClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let maker: any;
+  let taker: any;
+  let thirdParty: any;
+  let nftContract: any;
+  let nftSwap: NftSwapClient;
+  let offer: Offer;
+
+  const offeredNftId: number = 1,
+    requestedNftId: number = 2;
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat, // Use hardhat chain here
+      transport: http() // Use the Hardhat Network RPC endpoint
+    });
+
+    // Get accounts from Hardhat
+    [contractOwner, maker, taker, thirdParty] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy the NFT contract first
+    const nftHash = await walletClientOwner.deployContract({
+      abi: MockNft.abi,
+      bytecode: MockNft.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
+    const nftAddress = nftReceipt.contractAddress!;
+
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    const nftSwapAddress = receipt.contractAddress!;
+
+    // Get contract instances with Viem
+    nftContract = getContract({
+      address: nftAddress,
+      abi: MockNft.abi,
+      client: {
+        public: publicClient,
+        wallet: walletClientOwner
+      }
+    });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
+
+    // Mint and approve NFTs for maker and taker
+    await nftContract.write.mint([maker.account.address, offeredNftId]);
+    await nftContract.write.mint([taker.account.address, requestedNftId]);
+    let hash = await nftContract.write.setApprovalForAll([nftSwapAddress, true], { account: maker.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await nftContract.write.setApprovalForAll([nftSwapAddress, true], { account: taker.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    // Default offer: the offered NFT for the requested NFT, valid for an hour
+    const { timestamp } = await publicClient.getBlock();
+    offer = nftSwap.buildOffer({
+      maker: getAddress(maker.account.address),
+      taker: getAddress(taker.account.address),
+      makerItems: [{ nftContract: getAddress(nftContract.address), nftId: offeredNftId }],
+      takerItems: [{ nftContract: getAddress(nftContract.address), nftId: requestedNftId }],
+      expiry: timestamp + 3600n
+    });
+  });
+
+  it('Should sign and verify an offer with the same hash as the contract', async function () {
+    const signedOffer = await nftSwap.signOffer(offer, { account: maker.account });
+
+    expect(await nftSwap.verifyOffer(signedOffer)).to.equal(true);
+    expect(await nftSwap.verifyOffer({ ...signedOffer, offer: { ...offer, nonce: offer.nonce + 1n } })).to.equal(false);
+
+    const contractHash = await publicClient.readContract({
+      address: nftSwap.address,
+      abi: nftSwapAbi,
+      functionName: 'hashOffer',
+      args: [offer]
+    });
+    expect(await nftSwap.hashOffer(offer)).to.equal(contractHash);
+  });
+  it('Should swap the NFTs when the taker fills the offer', async function () {
+    const signedOffer = await nftSwap.signOffer(offer, { account: maker.account });
+
+    const { tradeId, events } = await nftSwap.fillOffer(signedOffer, { account: taker.account });
+
+    expect(events.map((event) => event.eventName)).to.deep.equal(['TradeTermsSet', 'OfferFilled', 'TradeCompleted']);
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(taker.account.address));
+    expect(await nftContract.read.ownerOf([requestedNftId])).to.equal(getAddress(maker.account.address));
+
+    const trade = await nftSwap.getTrade(tradeId);
+    expect(trade.fromAddress).to.equal(getAddress(maker.account.address));
+    expect(trade.toAddress).to.equal(getAddress(taker.account.address));
+    expect(trade.status).to.equal(TradeStatus.Completed);
+  });
+  it('Should pay the RON of the taker to the maker', async function () {
+    const nativeAmount = parseEther('10');
+    const signedOffer = await nftSwap.signOffer(
+      { ...offer, takerPayment: { ...offer.takerPayment, nativeAmount } },
+      { account: maker.account }
+    );
+    const makerBalance = await publicClient.getBalance({ address: maker.account.address });
+
+    await nftSwap.fillOffer(signedOffer, { account: taker.account });
+
+    expect(await publicClient.getBalance({ address: maker.account.address })).to.equal(makerBalance + nativeAmount);
+    expect(await publicClient.getBalance({ address: nftSwap.address })).to.equal(0n);
+  });
+  it('Should allow anyone to fill an open offer', async function () {
+    const signedOffer = await nftSwap.signOffer(
+      { ...offer, taker: '0x0000000000000000000000000000000000000000' },
+      { account: maker.account }
+    );
+
+    await nftSwap.fillOffer(signedOffer, { account: taker.account });
+
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(taker.account.address));
+  });
+
+  // Errors
+  it('Should not allow filling an offer made to someone else', async function () {
+    const signedOffer = await nftSwap.signOffer(offer, { account: maker.account });
+
+    await expect(nftSwap.fillOffer(signedOffer, { account: thirdParty.account })).to.be.rejectedWith('Not authorized to fill this offer');
+  });
+  it('Should not allow filling an offer with tampered terms', async function () {
+    const signedOffer = await nftSwap.signOffer(offer, { account: maker.account });
+    const tampered = { ...signedOffer, offer: { ...offer, makerItems: [] } };
+
+    await expect(nftSwap.fillOffer(tampered, { account: taker.account })).to.be.rejectedWith('Invalid offer signature');
+  });
+  it('Should not allow filling an expired offer', async function () {
+    const { timestamp } = await publicClient.getBlock();
+    const signedOffer = await nftSwap.signOffer({ ...offer, expiry: timestamp - 1n }, { account: maker.account });
+
+    await expect(nftSwap.fillOffer(signedOffer, { account: taker.account })).to.be.rejectedWith('Offer has expired');
+  });
+  it('Should not allow filling an offer twice', async function () {
+    const signedOffer = await nftSwap.signOffer(offer, { account: maker.account });
+    await nftSwap.fillOffer(signedOffer, { account: taker.account });
+
+    // The taker sends the NFTs back, the nonce is used so the offer can't be replayed
+    const hash = await nftContract.write.transferFrom([taker.account.address, maker.account.address, offeredNftId], {
+      account: taker.account
+    });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    await expect(nftSwap.fillOffer(signedOffer, { account: taker.account })).to.be.rejectedWith('Offer is no longer valid');
+  });
+  it('Should not allow filling a cancelled offer', async function () {
+    const signedOffer = await nftSwap.signOffer(offer, { account: maker.account });
+
+    const { events } = await nftSwap.cancelOffer(offer.nonce, { account: maker.account });
+    expect(events[0]).to.deep.include({ eventName: 'OfferCancelled' });
+    expect(await nftSwap.isOfferUsable(offer)).to.equal(false);
+
+    await expect(nftSwap.fillOffer(signedOffer, { account: taker.account })).to.be.rejectedWith('Offer is no longer valid');
+  });
+  it('Should not allow filling offers below the minimum nonce', async function () {
+    const signedOffer = await nftSwap.signOffer(offer, { account: maker.account });
+
+    await nftSwap.invalidateNonces(offer.nonce + 1n, { account: maker.account });
+
+    await expect(nftSwap.fillOffer(signedOffer, { account: taker.account })).to.be.rejectedWith('Offer is no longer valid');
+    await expect(nftSwap.invalidateNonces(offer.nonce, { account: maker.account })).to.be.rejectedWith('Nonce can only be increased');
+  });
+});
@@ -0,0 +1,182 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  Address,
+  createPublicClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  http,
+  parseEther,
+  PublicClient,
+  WalletClient
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import { createNftIdsTree, deployNftSwap, NftSwapClient, OpenOfferInput, TradeStatus } from '../sdk';
+
+describe('OpenOffer', function () {
+  let publicClient: PublicClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let maker: any;
+  let taker: any;
+  let thirdParty: any;
+  let nftContract: any;
+  let wantedNftContract: any;
+  let nftSwap: NftSwapClient;
+  let openOffer: OpenOfferInput;
+
+  const offeredNftId: number = 1,
+    takerNftIds: number[] = [2, 3],
+    thirdPartyNftId: number = 4;
+
+  async function deployNft(): Promise<any> {
+    const hash = await walletClientOwner.deployContract({
+      abi: MockNft.abi,
+      bytecode: MockNft.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+    return getContract({
+      address: receipt.contractAddress!,
+      abi: MockNft.abi,
+      client: {
+        public: publicClient,
+        wallet: walletClientOwner
+      }
+    });
+  }
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat, // Use hardhat chain here
+      transport: http() // Use the Hardhat Network RPC endpoint
+    });
+
+    // Get accounts from Hardhat
+    [contractOwner, maker, taker, thirdParty] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy the offered and the wanted collection
+    nftContract = await deployNft();
+    wantedNftContract = await deployNft();
+
+    // Deploy the contract, linked against its libraries
+    const { address: nftSwapAddress } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
+    await nftSwap.setPermissionlessProposals(true);
+
+    // Mint and approve NFTs, the taker and the third party both hold tokens of the wanted collection
+    await nftContract.write.mint([maker.account.address, offeredNftId]);
+    for (const nftId of takerNftIds) await wantedNftContract.write.mint([taker.account.address, nftId]);
+    await wantedNftContract.write.mint([thirdParty.account.address, thirdPartyNftId]);
+    let hash = await nftContract.write.setApprovalForAll([nftSwapAddress, true], { account: maker.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await wantedNftContract.write.setApprovalForAll([nftSwapAddress, true], { account: taker.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    // Default open offer: the offered NFT for any token of the wanted collection
+    openOffer = {
+      fromItems: [{ nftContract: getAddress(nftContract.address), nftId: offeredNftId }],
+      wanted: { nftContract: getAddress(wantedNftContract.address) }
+    };
+  });
+
+  it('Should let any holder of the collection accept an open offer', async function () {
+    const { tradeId } = await nftSwap.proposeOpenOffer(openOffer, { account: maker.account });
+
+    const proposed = await nftSwap.getTrade(tradeId);
+    expect(proposed.status).to.equal(TradeStatus.Proposed);
+    expect(proposed.toAddress).to.equal('0x0000000000000000000000000000000000000000');
+    expect(proposed.fromHasAgreed).to.be.true;
+
+    const { events } = await nftSwap.acceptOpenOffer(tradeId, takerNftIds[1], { account: taker.account });
+
+    expect(events.map((event) => event.eventName)).to.deep.equal(['OpenOfferAccepted', 'TradeCompleted']);
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(taker.account.address));
+    expect(await wantedNftContract.read.ownerOf([takerNftIds[1]])).to.equal(getAddress(maker.account.address));
+
+    const trade = await nftSwap.getTrade(tradeId);
+    expect(trade.status).to.equal(TradeStatus.Completed);
+    expect(trade.toAddress).to.equal(getAddress(taker.account.address));
+    expect(trade.toItems.map((item) => item.nftId)).to.deep.equal([BigInt(takerNftIds[1])]);
+    expect((await nftSwap.getTradesByUser(taker.account.address)).trades.map((trade) => trade.id)).to.deep.equal([tradeId]);
+  });
+  it('Should only accept token ids in the Merkle root', async function () {
+    const nftIds = [takerNftIds[0], thirdPartyNftId, 10, 11];
+    const { tradeId } = await nftSwap.proposeOpenOffer(
+      { ...openOffer, wanted: { ...openOffer.wanted, nftIds } },
+      { account: maker.account }
+    );
+    expect((await nftSwap.getTrade(tradeId)).wanted.idsRoot).to.equal(createNftIdsTree(nftIds).root);
+
+    // Reusing the proof of an accepted token id doesn't work for another token
+    const proof = createNftIdsTree(nftIds).getProof(takerNftIds[0]);
+    await expect(nftSwap.acceptOpenOffer(tradeId, takerNftIds[1], { account: taker.account, proof })).to.be.rejectedWith(
+      'NFT does not match the open offer'
+    );
+
+    await nftSwap.acceptOpenOffer(tradeId, takerNftIds[0], { account: taker.account, nftIds });
+    expect(await wantedNftContract.read.ownerOf([takerNftIds[0]])).to.equal(getAddress(maker.account.address));
+  });
+  it('Should check the taker owns and approved the token when executing', async function () {
+    const { tradeId } = await nftSwap.proposeOpenOffer(openOffer, { account: maker.account });
+
+    await expect(nftSwap.acceptOpenOffer(tradeId, thirdPartyNftId, { account: taker.account })).to.be.rejectedWith(
+      'Receiver no longer owns the requested NFT'
+    );
+    await expect(nftSwap.acceptOpenOffer(tradeId, thirdPartyNftId, { account: thirdParty.account })).to.be.rejectedWith(
+      'Contract not approved to transfer requested NFT'
+    );
+    expect((await nftSwap.getTrade(tradeId)).status).to.equal(TradeStatus.Proposed);
+  });
+  it('Should pay the RON of the taker and the fee', async function () {
+    const nativeAmount = parseEther('1'),
+      fee = parseEther('0.1');
+    await nftSwap.setFlatFee(fee);
+    const { tradeId } = await nftSwap.proposeOpenOffer({ ...openOffer, toPayment: { nativeAmount } }, { account: maker.account });
+    const makerBalance = await publicClient.getBalance({ address: maker.account.address });
+
+    await nftSwap.acceptOpenOffer(tradeId, takerNftIds[0], { account: taker.account });
+
+    expect(await publicClient.getBalance({ address: maker.account.address })).to.equal(makerBalance + nativeAmount);
+    expect((await nftSwap.getFeeSchedule()).accumulatedFees).to.equal(fee);
+  });
+  it('Should reject accepting cancelled trades, bilateral trades and own offers', async function () {
+    const { tradeId } = await nftSwap.proposeOpenOffer(openOffer, { account: maker.account });
+    await expect(nftSwap.acceptOpenOffer(tradeId, offeredNftId, { account: maker.account })).to.be.rejectedWith(
+      'Cannot trade with yourself'
+    );
+
+    await nftSwap.cancelTrade(tradeId, { account: maker.account });
+    await expect(nftSwap.acceptOpenOffer(tradeId, takerNftIds[0], { account: taker.account })).to.be.rejectedWith(
+      'Trade is not in proposed state'
+    );
+
+    const { tradeId: bilateralId } = await nftSwap.proposeTrade(maker.account.address, taker.account.address, {
+      account: maker.account
+    });
+    await expect(nftSwap.acceptOpenOffer(bilateralId, takerNftIds[0], { account: taker.account })).to.be.rejectedWith(
+      'Trade is not an open offer'
+    );
+  });
+  it('Should reject open offers the maker cannot back', async function () {
+    await expect(
+      nftSwap.proposeOpenOffer({ ...openOffer, fromPayment: { nativeAmount: 1n } }, { account: maker.account })
+    ).to.be.rejectedWith('Offer maker cannot pay RON');
+    await expect(nftSwap.proposeOpenOffer(openOffer, { account: thirdParty.account })).to.be.rejectedWith('You do not own this NFT');
+    await expect(
+      nftSwap.proposeOpenOffer({ ...openOffer, wanted: { ...openOffer.wanted, amount: 2 } }, { account: maker.account })
+    ).to.be.rejectedWith('ERC721 amount must be 1');
+  });
+});
@@ -0,0 +1,217 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  Address,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  http,
+  parseEther,
+  PublicClient,
+  TestClient,
+  TransactionReceipt,
+  WalletClient
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import MockToken from '../artifacts/contracts/MockToken.sol/MockToken.json';
+import { deployNftSwap, NftSwapClient, TradeStatus, TradeTerms } from '../sdk';
+
+const gasCost = (receipt: TransactionReceipt) => receipt.gasUsed * receipt.effectiveGasPrice;
+
+describe('Payment', function () {
+  let publicClient: PublicClient;
+  let testClient: TestClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let from: any;
+  let to: any;
+  let nftContract: any;
+  let tokenContract: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
+
+  const offeredNftId: number = 1,
+    requestedNftId: number = 2,
+    nativeAmount: bigint = parseEther('50'),
+    erc20Amount: bigint = parseEther('100');
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat, // Use hardhat chain here
+      transport: http() // Use the Hardhat Network RPC endpoint
+    });
+    testClient = createTestClient({ chain: hardhat, mode: 'hardhat', transport: http() });
+
+    // Get accounts from Hardhat
+    [contractOwner, from, to] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy the NFT and token contracts first
+    const nftHash = await walletClientOwner.deployContract({
+      abi: MockNft.abi,
+      bytecode: MockNft.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
+    const nftAddress = nftReceipt.contractAddress!;
+
+    const tokenHash = await walletClientOwner.deployContract({
+      abi: MockToken.abi,
+      bytecode: MockToken.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const tokenReceipt = await publicClient.waitForTransactionReceipt({ hash: tokenHash });
+    const tokenAddress = tokenReceipt.contractAddress!;
+
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    const nftSwapAddress = receipt.contractAddress!;
+
+    // Get contract instances with Viem
+    nftContract = getContract({
+      address: nftAddress,
+      abi: MockNft.abi,
+      client: {
+        public: publicClient,
+        wallet: walletClientOwner
+      }
+    });
+    tokenContract = getContract({
+      address: tokenAddress,
+      abi: MockToken.abi,
+      client: {
+        public: publicClient,
+        wallet: walletClientOwner
+      }
+    });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
+
+    // Mint NFTs to from and to, and tokens to from
+    await nftContract.write.mint([from.account.address, offeredNftId]);
+    await nftContract.write.mint([to.account.address, requestedNftId]);
+    await tokenContract.write.mint([from.account.address, erc20Amount]);
+
+    // Approve the NFTs
+    let hash = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await nftContract.write.approve([getAddress(nftSwap.address), requestedNftId], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    // Default trade terms: the offered NFT plus RON for the requested NFT
+    terms = {
+      fromItems: [{ nftContract: getAddress(nftContract.address), nftId: offeredNftId }],
+      toItems: [{ nftContract: getAddress(nftContract.address), nftId: requestedNftId }],
+      fromPayment: { nativeAmount }
+    };
+  });
+
+  it('Should pay RON to the counterparty when the trade executes', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+
+    const trade = await nftSwap.getTrade(0);
+    expect(trade.fromPayment.nativeAmount).to.equal(nativeAmount);
+
+    // Confirm, the RON is escrowed until the trade executes
+    await nftSwap.confirmTrade(0, { account: to.account });
+    const toBalance = await publicClient.getBalance({ address: to.account.address });
+
+    await nftSwap.confirmTrade(0, { account: from.account });
+
+    expect(await publicClient.getBalance({ address: to.account.address })).to.equal(toBalance + nativeAmount);
+    expect(await publicClient.getBalance({ address: nftSwap.address })).to.equal(0n);
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(to.account.address));
+    expect(await nftContract.read.ownerOf([requestedNftId])).to.equal(getAddress(from.account.address));
+  });
+  it('Should pull ERC20 tokens to the counterparty when the trade executes', async function () {
+    const tokenTerms: TradeTerms = { ...terms, fromPayment: { erc20Token: getAddress(tokenContract.address), erc20Amount } };
+
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, tokenTerms, { account: from.account });
+    await nftSwap.agreeTrade(0, tokenTerms, { account: to.account });
+
+    // Token approval
+    const hash = await tokenContract.write.approve([getAddress(nftSwap.address), erc20Amount], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    // Confirm
+    await nftSwap.confirmTrade(0, { account: from.account });
+    await nftSwap.confirmTrade(0, { account: to.account });
+
+    expect(await tokenContract.read.balanceOf([from.account.address])).to.equal(0n);
+    expect(await tokenContract.read.balanceOf([to.account.address])).to.equal(erc20Amount);
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(to.account.address));
+  });
+  it('Should refund escrowed RON when the trade is cancelled', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+
+    await nftSwap.confirmTrade(0, { account: from.account });
+    expect(await publicClient.getBalance({ address: nftSwap.address })).to.equal(nativeAmount);
+    const fromBalance = await publicClient.getBalance({ address: from.account.address });
+
+    await nftSwap.cancelTrade(0, { account: to.account });
+
+    expect((await nftSwap.getTrade(0)).status).to.equal(TradeStatus.Cancelled);
+    expect(await publicClient.getBalance({ address: from.account.address })).to.equal(fromBalance + nativeAmount);
+    expect(await publicClient.getBalance({ address: nftSwap.address })).to.equal(0n);
+  });
+  it('Should refund escrowed RON when the trade has expired', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+    await nftSwap.confirmTrade(0, { account: from.account });
+
+    // Add time to expire the trade
+    await testClient.increaseTime({ seconds: 60 * 60 + 1 });
+    await testClient.mine({ blocks: 1 });
+    await expect(nftSwap.confirmTrade(0, { account: to.account })).to.be.rejectedWith('Trade has expired');
+
+    const fromBalance = await publicClient.getBalance({ address: from.account.address });
+    const { receipt, events } = await nftSwap.cancelTrade(0, { account: from.account });
+
+    expect(events[0].args).to.include({ reason: 'Trade has expired' });
+    expect(await publicClient.getBalance({ address: from.account.address })).to.equal(fromBalance + nativeAmount - gasCost(receipt));
+  });
+  it('Should not allow confirming without sending the RON payment', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+
+    const confirm = nftSwap.confirmTrade(0, { account: from.account, value: nativeAmount - 1n });
+
+    await expect(confirm).to.be.rejectedWith('Insufficient RON sent');
+  });
+  it('Should not allow confirming without ERC20 approval', async function () {
+    const tokenTerms: TradeTerms = { ...terms, fromPayment: { erc20Token: getAddress(tokenContract.address), erc20Amount } };
+
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, tokenTerms, { account: from.account });
+    await nftSwap.agreeTrade(0, tokenTerms, { account: to.account });
+
+    const confirm = nftSwap.confirmTrade(0, { account: from.account });
+
+    await expect(confirm).to.be.rejectedWith('Contract not approved to transfer tokens');
+  });
+  it('Should not allow an ERC20 amount without a token', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+
+    const agree = nftSwap.agreeTrade(0, { ...terms, toPayment: { erc20Amount } }, { account: from.account });
+
+    await expect(agree).to.be.rejectedWith('Invalid ERC20 token');
+  });
+});
@@ -1,31 +1,19 @@
 import { expect } from 'chai';
 import hre from 'hardhat';
-import { Address, createPublicClient, createWalletClient, getAddress, getContract, http, PublicClient, WalletClient } from 'viem';
+import {
+  Address,
+  createPublicClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  http,
+  PublicClient,
+  WalletClient,
+  zeroAddress
+} from 'viem';
 import { hardhat } from 'viem/chains';
 import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
-import NftSwap from '../artifacts/contracts/NftSwap.sol/NftSwap.json';
-
-enum TradeStatus {
-  Proposed,
-  Agreed,
-  Confirmed,
-  Cancelled
-}
-type Trade = {
-  fromAddress: Address;
-  fromNftContract: Address;
-  fromNftId: bigint;
-  fromHasAgreed: boolean;
-  fromHasConfirmed: boolean;
-
-  toAddress: Address;
-  toNftContract: Address;
-  toNftId: bigint;
-  toHasAgreed: boolean;
-  toHasConfirmed: boolean;
-
-  status: TradeStatus;
-};
+import { deployNftSwap, NftSwapClient, TradeStatus, TradeTerms } from '../sdk';
 
 describe('Permission', function () {
   let publicClient: PublicClient;
@@ -35,7 +23,8 @@ describe('Permission', function () {
   let to: any;
   let thirdParty: any;
   let nftContract: any;
-  let nftSwap: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
 
   const offeredNftId: number = 1,
     requestedNftId: number = 2;
@@ -67,17 +56,11 @@ describe('Permission', function () {
     const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
     const nftAddress = nftReceipt.contractAddress!;
 
-    // Deploy the contract with Viem
-    const swapHash = await walletClientOwner.deployContract({
-      abi: NftSwap.abi,
-      bytecode: NftSwap.bytecode as Address,
-      account: contractOwner.account,
-      chain: hardhat
-    });
-    const receipt = await publicClient.waitForTransactionReceipt({ hash: swapHash });
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
     const nftSwapAddress = receipt.contractAddress!;
 
-    // Get a contract instance with Viem
+    // Get contract instances with Viem
     nftContract = getContract({
       address: nftAddress,
       abi: MockNft.abi,
@@ -86,14 +69,7 @@ describe('Permission', function () {
         wallet: walletClientOwner
       }
     });
-    nftSwap = getContract({
-      address: nftSwapAddress,
-      abi: NftSwap.abi,
-      client: {
-        public: publicClient,
-        wallet: walletClientOwner
-      }
-    });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
 
     // Mint NFTs to from and to
     await nftContract.write.mint([from.account.address, offeredNftId]);
@@ -105,6 +81,12 @@ describe('Permission', function () {
 
     expect(ownerOfferedNft).to.equal(getAddress(from.account.address));
     expect(ownerRequestedNft).to.equal(getAddress(to.account.address));
+
+    // Default trade terms: swap the offered NFT for the requested NFT
+    terms = {
+      fromItems: [{ nftContract: getAddress(nftContract.address), nftId: offeredNftId }],
+      toItems: [{ nftContract: getAddress(nftContract.address), nftId: requestedNftId }]
+    };
   });
 
   it('Should not allow non-participants to agree to a trade', async function () {
@@ -112,14 +94,10 @@ describe('Permission', function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
 
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Act: 'thirdParty' attempts to agree to the trade
-    const agreeTradeCall = nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: thirdParty.account }
-    );
+    const agreeTradeCall = nftSwap.agreeTrade(0, terms, { account: thirdParty.account });
 
     // Assert: The transaction should be rejected with the correct error message
     await expect(agreeTradeCall).to.be.rejectedWith('Not authorized to agree to this trade');
@@ -129,25 +107,188 @@ describe('Permission', function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
 
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Agree
-    const agreeHash = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: from.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHash });
-    const agreeHash2 = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHash2 });
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
 
     // Act: 'thirdParty' attempts to agree to the trade
-    const agreeTradeCall = nftSwap.write.confirmTrade([0], { account: thirdParty.account });
+    const agreeTradeCall = nftSwap.confirmTrade(0, { account: thirdParty.account });
 
     // Assert: The transaction should be rejected with the correct error message
     await expect(agreeTradeCall).to.be.rejectedWith('Not authorized to confirm this trade');
   });
+  it('Should only allow the owner to propose trades by default', async function () {
+    // Act: 'from' attempts to propose a trade from their wallet
+    const proposeTradeCall = nftSwap.proposeTrade(from.account.address, to.account.address, { account: from.account });
+
+    // Assert: The transaction should be rejected with the correct error message
+    await expect(proposeTradeCall).to.be.rejectedWith('Permissionless proposals are disabled');
+  });
+  it('Should only allow the owner to enable permissionless proposals', async function () {
+    const setCall = nftSwap.setPermissionlessProposals(true, { account: from.account });
+    await expect(setCall).to.be.rejectedWith('Only owner can perform this action');
+
+    const { events } = await nftSwap.setPermissionlessProposals(true);
+    expect(events[0]).to.deep.include({ eventName: 'PermissionlessProposalsUpdated', args: { enabled: true } });
+    expect(await nftSwap.getPermissionlessProposals()).to.equal(true);
+  });
+  it('Should allow users to propose and complete a trade when permissionless proposals are enabled', async function () {
+    // Arrange: Enable permissionless proposals and approve the NFTs
+    await nftSwap.setPermissionlessProposals(true);
+    await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: from.account });
+    await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: to.account });
+
+    // Act: 'from' proposes a trade including the terms, 'to' agrees to the same terms
+    const { tradeId, events } = await nftSwap.proposeTrade(from.account.address, to.account.address, { account: from.account, terms });
+    expect(events.map((event) => event.eventName)).to.deep.equal(['TradeProposed', 'TradeTermsSet', 'TradeAgreed']);
+
+    await nftSwap.agreeTrade(tradeId, terms, { account: to.account });
+    await nftSwap.confirmTrade(tradeId, { account: from.account });
+    await nftSwap.confirmTrade(tradeId, { account: to.account });
+
+    // Assert: NFTs have been swapped
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(to.account.address));
+    expect(await nftContract.read.ownerOf([requestedNftId])).to.equal(getAddress(from.account.address));
+  });
+  it('Should force the proposer as the sender of a user proposed trade', async function () {
+    await nftSwap.setPermissionlessProposals(true);
+
+    // Act: 'thirdParty' attempts to propose a trade on behalf of 'from'
+    const { tradeId } = await nftSwap.proposeTrade(from.account.address, to.account.address, { account: thirdParty.account });
+
+    // Assert: The trade is proposed from 'thirdParty'
+    const trade = await nftSwap.getTrade(tradeId);
+    expect(trade.fromAddress).to.equal(getAddress(thirdParty.account.address));
+  });
+  it('Should reject agreeing to different terms than proposed', async function () {
+    await nftSwap.setPermissionlessProposals(true);
+    await nftContract.write.mint([to.account.address, 3]);
+    const { tradeId } = await nftSwap.proposeTrade(from.account.address, to.account.address, { account: from.account, terms });
+
+    // Act: 'to' agrees while offering a different NFT
+    const agreeTradeCall = nftSwap.agreeTrade(
+      tradeId,
+      { ...terms, toItems: [{ nftContract: getAddress(nftContract.address), nftId: 3 }] },
+      { account: to.account }
+    );
+
+    // Assert: The transaction should be rejected with the correct error message
+    await expect(agreeTradeCall).to.be.rejectedWith('Trade terms do not match');
+  });
+  it('Should keep the owner-mediated flow when permissionless proposals are enabled', async function () {
+    await nftSwap.setPermissionlessProposals(true);
+
+    // Act: The owner proposes a trade between 'from' and 'to' with the terms
+    const { tradeId } = await nftSwap.proposeTrade(from.account.address, to.account.address, { terms });
+
+    // Assert: Neither party has agreed yet and the terms are stored
+    const trade = await nftSwap.getTrade(tradeId);
+    expect(trade.fromAddress).to.equal(getAddress(from.account.address));
+    expect(trade.fromHasAgreed).to.equal(false);
+    expect(trade.toHasAgreed).to.equal(false);
+    expect(trade.fromItems[0].nftId).to.equal(BigInt(offeredNftId));
+
+    await nftSwap.agreeTrade(tradeId, terms, { account: from.account });
+    await nftSwap.agreeTrade(tradeId, terms, { account: to.account });
+    expect((await nftSwap.getTrade(tradeId)).status).to.equal(TradeStatus.Agreed);
+  });
+  it('Should only allow the owner to pause trading', async function () {
+    await expect(nftSwap.setPaused(true, { account: from.account })).to.be.rejectedWith('Only owner can perform this action');
+
+    const { events } = await nftSwap.setPaused(true);
+    expect(events[0]).to.deep.include({ eventName: 'PausedUpdated', args: { paused: true } });
+    expect(await nftSwap.isPaused()).to.equal(true);
+  });
+  it('Should block proposals, agreements and confirmations while paused', async function () {
+    // Arrange: A trade agreed by 'from' and an agreed trade waiting for confirmations
+    await nftContract.write.mint([from.account.address, 3]);
+    await nftContract.write.mint([to.account.address, 4]);
+    const { tradeId: proposedId } = await nftSwap.proposeTrade(from.account.address, to.account.address, { terms });
+    await nftSwap.agreeTrade(proposedId, terms, { account: from.account });
+    const agreedTerms: TradeTerms = {
+      fromItems: [{ nftContract: getAddress(nftContract.address), nftId: 3 }],
+      toItems: [{ nftContract: getAddress(nftContract.address), nftId: 4 }]
+    };
+    const { tradeId: agreedId } = await nftSwap.proposeTrade(from.account.address, to.account.address, { terms: agreedTerms });
+    await nftSwap.agreeTrade(agreedId, agreedTerms, { account: from.account });
+    await nftSwap.agreeTrade(agreedId, agreedTerms, { account: to.account });
+
+    // Act: The owner pauses trading
+    await nftSwap.setPaused(true);
+
+    // Assert: No trade can progress
+    await expect(nftSwap.proposeTrade(from.account.address, to.account.address)).to.be.rejectedWith('Trading is paused');
+    await expect(nftSwap.agreeTrade(proposedId, terms, { account: to.account })).to.be.rejectedWith('Trading is paused');
+    await expect(nftSwap.confirmTrade(agreedId, { account: from.account })).to.be.rejectedWith('Trading is paused');
+
+    // Assert: Participants can still cancel
+    await nftSwap.cancelTrade(proposedId, { account: from.account });
+    await nftSwap.cancelTrade(agreedId, { account: to.account });
+    expect((await nftSwap.getTrade(proposedId)).status).to.equal(TradeStatus.Cancelled);
+    expect((await nftSwap.getTrade(agreedId)).status).to.equal(TradeStatus.Cancelled);
+
+    // Assert: Trading resumes once unpaused
+    await nftSwap.setPaused(false);
+    await nftSwap.proposeTrade(from.account.address, to.account.address, { terms });
+  });
+  it('Should reject trading NFTs of a blocked collection', async function () {
+    await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: from.account });
+    await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: to.account });
+    const { tradeId } = await nftSwap.proposeTrade(from.account.address, to.account.address, { terms });
+    await nftSwap.agreeTrade(tradeId, terms, { account: from.account });
+    await nftSwap.agreeTrade(tradeId, terms, { account: to.account });
+    await nftSwap.confirmTrade(tradeId, { account: from.account });
+
+    // Act: The owner blocks the collection
+    const blockCall = nftSwap.setCollectionBlocked(nftContract.address, true, { account: from.account });
+    await expect(blockCall).to.be.rejectedWith('Only owner can perform this action');
+    const { events } = await nftSwap.setCollectionBlocked(nftContract.address, true);
+    expect(events[0]).to.deep.include({
+      eventName: 'CollectionBlockedUpdated',
+      args: { collection: getAddress(nftContract.address), blocked: true }
+    });
+    expect(await nftSwap.isCollectionBlocked(nftContract.address)).to.equal(true);
+
+    // Assert: Neither new proposals nor the agreed trade can include the collection
+    const proposeCall = nftSwap.proposeTrade(from.account.address, to.account.address, { terms });
+    await expect(proposeCall).to.be.rejectedWith('Collection is blocked');
+    await expect(nftSwap.confirmTrade(tradeId, { account: to.account })).to.be.rejectedWith('Collection is blocked');
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(from.account.address));
+
+    // Assert: The trade completes once the collection is unblocked
+    await nftSwap.setCollectionBlocked(nftContract.address, false);
+    await nftSwap.confirmTrade(tradeId, { account: to.account });
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(to.account.address));
+  });
+  it('Should hand over the ownership in two steps', async function () {
+    // Act: The owner starts the handover to 'thirdParty'
+    await expect(nftSwap.transferOwnership(from.account.address, { account: from.account })).to.be.rejectedWith(
+      'Only owner can perform this action'
+    );
+    const { events } = await nftSwap.transferOwnership(thirdParty.account.address);
+    expect(events[0]).to.deep.include({
+      eventName: 'OwnershipTransferStarted',
+      args: { previousOwner: getAddress(contractOwner.account.address), newOwner: getAddress(thirdParty.account.address) }
+    });
+
+    // Assert: The ownership only moves once accepted by the pending owner
+    expect(await nftSwap.getOwner()).to.equal(getAddress(contractOwner.account.address));
+    expect(await nftSwap.getPendingOwner()).to.equal(getAddress(thirdParty.account.address));
+    await expect(nftSwap.acceptOwnership({ account: from.account })).to.be.rejectedWith('Not authorized to accept ownership');
+
+    const { events: acceptEvents } = await nftSwap.acceptOwnership({ account: thirdParty.account });
+    expect(acceptEvents[0]).to.deep.include({
+      eventName: 'OwnershipTransferred',
+      args: { previousOwner: getAddress(contractOwner.account.address), newOwner: getAddress(thirdParty.account.address) }
+    });
+    expect(await nftSwap.getOwner()).to.equal(getAddress(thirdParty.account.address));
+    expect(await nftSwap.getPendingOwner()).to.equal(zeroAddress);
+
+    // Assert: Only the new owner can run owner actions
+    await expect(nftSwap.setPaused(true)).to.be.rejectedWith('Only owner can perform this action');
+    await nftSwap.setPaused(true, { account: thirdParty.account });
+    expect(await nftSwap.isPaused()).to.equal(true);
+  });
 });
@@ -0,0 +1,211 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  Address,
+  createPublicClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  http,
+  parseEther,
+  PublicClient,
+  WalletClient
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import { deployNftSwap, LocalRelayer, NftSwapClient, NftSwapErrorCode, TradeStatus, TradeTerms } from '../sdk';
+
+describe('Relayer', function () {
+  let publicClient: PublicClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let from: any;
+  let to: any;
+  let relayerAccount: any;
+  let nftContract: any;
+  let nftSwap: NftSwapClient;
+  let relayer: LocalRelayer;
+  let terms: TradeTerms;
+  let deadline: bigint;
+
+  const offeredNftId: number = 1,
+    requestedNftId: number = 2;
+
+  const getBalances = () => Promise.all([from, to].map((user) => publicClient.getBalance({ address: user.account.address })));
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat,
+      transport: http()
+    });
+
+    // Get accounts from Hardhat
+    [contractOwner, from, to, relayerAccount] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy the NFT contract first
+    const nftHash = await walletClientOwner.deployContract({
+      abi: MockNft.abi,
+      bytecode: MockNft.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const nftAddress = (await publicClient.waitForTransactionReceipt({ hash: nftHash })).contractAddress!;
+    nftContract = getContract({ address: nftAddress, abi: MockNft.abi, client: { public: publicClient, wallet: walletClientOwner } });
+
+    // Deploy the contract, the relayer submits from its own account
+    const { address } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    nftSwap = new NftSwapClient({ address, publicClient, walletClient: walletClientOwner });
+    relayer = new LocalRelayer({
+      nftSwap: new NftSwapClient({
+        address,
+        publicClient,
+        walletClient: createWalletClient({ chain: hardhat, transport: http(), account: relayerAccount.account })
+      })
+    });
+
+    // Mint and approve NFTs for from and to, approvals are the only transactions they send
+    await nftContract.write.mint([from.account.address, offeredNftId]);
+    await nftContract.write.mint([to.account.address, requestedNftId]);
+    for (const user of [from, to]) {
+      const hash = await nftContract.write.setApprovalForAll([address, true], { account: user.account });
+      await publicClient.waitForTransactionReceipt({ hash });
+    }
+
+    terms = {
+      fromItems: [{ nftContract: getAddress(nftAddress), nftId: offeredNftId }],
+      toItems: [{ nftContract: getAddress(nftAddress), nftId: requestedNftId }]
+    };
+    deadline = (await publicClient.getBlock()).timestamp + 3600n;
+  });
+
+  it('Should agree and confirm a trade with signatures of the participants, without them paying gas', async function () {
+    const { tradeId } = await nftSwap.proposeTrade(from.account.address, to.account.address);
+    const balancesBefore = await getBalances();
+
+    // Act: Both participants sign, the relayer submits
+    for (const user of [from, to]) {
+      const { events } = await relayer.relayAgreement(await nftSwap.signAgreement(tradeId, terms, { account: user.account, deadline }));
+      expect(events[events.length - 1]).to.deep.include({
+        eventName: 'TradeAgreed',
+        args: { tradeId, user: getAddress(user.account.address) }
+      });
+    }
+    for (const user of [from, to]) {
+      await relayer.relayConfirmation(await nftSwap.signConfirmation(tradeId, { account: user.account, deadline }));
+    }
+
+    // Assert: The trade executed and the participants didn't spend any RON
+    expect((await nftSwap.getTrade(tradeId)).status).to.equal(TradeStatus.Completed);
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(to.account.address));
+    expect(await nftContract.read.ownerOf([requestedNftId])).to.equal(getAddress(from.account.address));
+    expect(await getBalances()).to.deep.equal(balancesBefore);
+  });
+  it('Should reject replayed, expired, revoked and forged signatures', async function () {
+    const { tradeId } = await nftSwap.proposeTrade(from.account.address, to.account.address);
+
+    // Replayed: each nonce is only used once
+    const agreement = await nftSwap.signAgreement(tradeId, terms, { account: from.account, deadline });
+    await relayer.relayAgreement(agreement);
+    await expect(relayer.relayAgreement(agreement)).to.be.rejectedWith('Signature is no longer valid');
+    await expect(nftSwap.agreeTradeBySig(agreement)).to.be.rejectedWith('Signature is no longer valid');
+
+    // Expired
+    const { timestamp } = await publicClient.getBlock();
+    const expired = await nftSwap.signAgreement(tradeId, terms, { account: to.account, deadline: timestamp - 1n });
+    await expect(relayer.relayAgreement(expired)).to.be.rejectedWith('Signature has expired');
+    await expect(nftSwap.agreeTradeBySig(expired)).to.be.rejectedWith('Signature has expired');
+
+    // Forged: signed by someone else than the user
+    const forged = await nftSwap.signAgreement(tradeId, terms, { account: relayerAccount.account, deadline });
+    forged.agreement.user = getAddress(to.account.address);
+    await expect(relayer.relayAgreement(forged)).to.be.rejectedWith('Invalid signature');
+    await expect(nftSwap.agreeTradeBySig(forged)).to.be.rejectedWith('Invalid signature');
+
+    // Revoked: signatures share the nonces of the offers
+    await relayer.relayAgreement(await nftSwap.signAgreement(tradeId, terms, { account: to.account, deadline }));
+    const confirmation = await nftSwap.signConfirmation(tradeId, { account: to.account, deadline });
+    await nftSwap.cancelOffer(confirmation.confirmation.nonce, { account: to.account });
+    await expect(relayer.relayConfirmation(confirmation)).to.be.rejectedWith('Signature is no longer valid');
+    await expect(nftSwap.confirmTradeBySig(confirmation)).to.be.rejectedWith('Signature is no longer valid');
+  });
+  it('Should bind signed confirmations to the version of the terms', async function () {
+    const { tradeId } = await nftSwap.proposeTrade(from.account.address, to.account.address, { terms });
+    await nftSwap.agreeTrade(tradeId, terms, { account: from.account });
+    await nftSwap.agreeTrade(tradeId, terms, { account: to.account });
+    const confirmation = await nftSwap.signConfirmation(tradeId, { account: to.account, deadline });
+
+    // Act: The terms change after the confirmation was signed
+    await nftSwap.counterTrade(tradeId, { ...terms, toPayment: { nativeAmount: parseEther('1') } }, { account: from.account });
+    await nftSwap.agreeTrade(tradeId, { ...terms, toPayment: { nativeAmount: parseEther('1') } }, { account: to.account });
+
+    await expect(nftSwap.confirmTradeBySig(confirmation, { value: parseEther('1') })).to.be.rejectedWith('Trade terms have changed');
+  });
+  it('Should only sponsor the fee a confirmation escrows up to its limit', async function () {
+    const fee = parseEther('0.01');
+    await nftSwap.setFlatFee(fee);
+    const { tradeId } = await nftSwap.proposeTrade(from.account.address, to.account.address, { terms });
+    await nftSwap.agreeTrade(tradeId, terms, { account: from.account });
+    await nftSwap.agreeTrade(tradeId, terms, { account: to.account });
+    await nftSwap.confirmTrade(tradeId, { account: from.account });
+
+    // Assert: The receiving side owes the fee, which the default relayer doesn't pay
+    const confirmation = await nftSwap.signConfirmation(tradeId, { account: to.account, deadline });
+    const rejected = relayer.relayConfirmation(confirmation);
+    await expect(rejected).to.be.rejectedWith('more than the relayer sponsors');
+    await rejected.catch((error) => expect(error.code).to.equal(NftSwapErrorCode.InvalidPayment));
+
+    const sponsor = new LocalRelayer({ nftSwap: relayer.nftSwap, maxValue: fee });
+    const { events } = await sponsor.relayConfirmation(confirmation);
+
+    expect(events.map((event) => event.eventName)).to.include('TradeCompleted');
+    expect((await nftSwap.getFeeSchedule()).accumulatedFees).to.equal(fee);
+  });
+  it('Should not sponsor the RON payment of a signer', async function () {
+    const payment = { nativeAmount: parseEther('1') };
+    const paidTerms = { ...terms, fromPayment: payment };
+    const { tradeId } = await nftSwap.proposeTrade(from.account.address, to.account.address, { terms: paidTerms });
+    await nftSwap.agreeTrade(tradeId, paidTerms, { account: from.account });
+    await nftSwap.agreeTrade(tradeId, paidTerms, { account: to.account });
+    const confirmation = await nftSwap.signConfirmation(tradeId, { account: from.account, deadline });
+
+    // Assert: Neither the relayer nor the contract let a submitter pay the signer's RON
+    const sponsor = new LocalRelayer({ nftSwap: relayer.nftSwap, maxValue: parseEther('10') });
+    const rejected = sponsor.relayConfirmation(confirmation);
+    await expect(rejected).to.be.rejectedWith('Sponsored signer cannot pay RON');
+    await rejected.catch((error) => expect(error.code).to.equal(NftSwapErrorCode.InvalidPayment));
+    await expect(relayer.nftSwap.confirmTradeBySig(confirmation, { value: payment.nativeAmount })).to.be.rejectedWith(
+      'Sponsored signer cannot pay RON'
+    );
+
+    // Act: The signer submits its own confirmation with the payment
+    const { events } = await nftSwap.confirmTradeBySig(confirmation, { account: from.account, value: payment.nativeAmount });
+
+    expect(events[0]).to.deep.include({ eventName: 'TradeConfirmed', args: { tradeId, user: getAddress(from.account.address) } });
+  });
+  it('Should refund the RON a relayer sponsored to the relayer, not to the signer', async function () {
+    const fee = parseEther('0.01');
+    await nftSwap.setFlatFee(fee);
+    const { tradeId } = await nftSwap.proposeTrade(from.account.address, to.account.address, { terms });
+    await nftSwap.agreeTrade(tradeId, terms, { account: from.account });
+    await nftSwap.agreeTrade(tradeId, terms, { account: to.account });
+    const sponsor = new LocalRelayer({ nftSwap: relayer.nftSwap, maxValue: fee });
+    await sponsor.relayConfirmation(await nftSwap.signConfirmation(tradeId, { account: to.account, deadline }));
+
+    const relayerBalance = await publicClient.getBalance({ address: relayerAccount.account.address });
+    const [, toBalance] = await getBalances();
+
+    // Act: The signer cancels the sponsored confirmation
+    const { receipt } = await nftSwap.cancelTrade(tradeId, { account: to.account });
+
+    expect(await publicClient.getBalance({ address: relayerAccount.account.address })).to.equal(relayerBalance + fee);
+    expect((await getBalances())[1]).to.equal(toBalance - receipt.gasUsed * receipt.effectiveGasPrice);
+  });
+});
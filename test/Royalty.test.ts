@@ -0,0 +1,189 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  Address,
+  createPublicClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  http,
+  parseEther,
+  PublicClient,
+  WalletClient
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import MockRoyaltyNft from '../artifacts/contracts/MockRoyaltyNft.sol/MockRoyaltyNft.json';
+import MockToken from '../artifacts/contracts/MockToken.sol/MockToken.json';
+import { deployNftSwap, NftSwapClient, RoyaltyPaidEvent, TradeTerms } from '../sdk';
+
+describe('Royalty', function () {
+  let publicClient: PublicClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let from: any;
+  let to: any;
+  let creator: any;
+  let nftContract: any;
+  let royaltyNftContract: any;
+  let tokenContract: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
+
+  const offeredNftId: number = 1,
+    requestedNftId: number = 2,
+    royaltyBps: bigint = 500n,
+    nativeAmount: bigint = parseEther('100'),
+    erc20Amount: bigint = parseEther('200');
+
+  async function deploy(artifact: any, args: unknown[] = []): Promise<any> {
+    const hash = await walletClientOwner.deployContract({
+      abi: artifact.abi,
+      bytecode: artifact.bytecode as Address,
+      args,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+
+    return getContract({
+      address: receipt.contractAddress!,
+      abi: artifact.abi,
+      client: {
+        public: publicClient,
+        wallet: walletClientOwner
+      }
+    });
+  }
+
+  // Agrees and confirms a trade, 'to' executes it
+  async function trade(tradeTerms: TradeTerms) {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, tradeTerms, { account: from.account });
+    await nftSwap.agreeTrade(0, tradeTerms, { account: to.account });
+    await nftSwap.confirmTrade(0, { account: from.account });
+
+    const fromBalance = await publicClient.getBalance({ address: from.account.address });
+    const tx = await nftSwap.confirmTrade(0, { account: to.account });
+    const fromReceived = (await publicClient.getBalance({ address: from.account.address })) - fromBalance;
+
+    return { ...tx, fromReceived };
+  }
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat, // Use hardhat chain here
+      transport: http() // Use the Hardhat Network RPC endpoint
+    });
+
+    // Get accounts from Hardhat
+    [contractOwner, from, to, creator] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy the NFT and token contracts first, the royalty NFT pays 5% to the creator
+    nftContract = await deploy(MockNft);
+    royaltyNftContract = await deploy(MockRoyaltyNft, [creator.account.address, royaltyBps]);
+    tokenContract = await deploy(MockToken);
+
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    nftSwap = new NftSwapClient({ address: receipt.contractAddress!, publicClient, walletClient: walletClientOwner });
+
+    // Mint and approve NFTs: 'from' sells a royalty NFT, 'to' pays with a regular NFT and RON
+    await royaltyNftContract.write.mint([from.account.address, offeredNftId]);
+    await nftContract.write.mint([to.account.address, requestedNftId]);
+    await tokenContract.write.mint([to.account.address, erc20Amount]);
+    let hash = await royaltyNftContract.write.setApprovalForAll([nftSwap.address, true], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await tokenContract.write.approve([nftSwap.address, erc20Amount], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    // Default trade terms: the royalty NFT for a regular NFT plus RON
+    terms = {
+      fromItems: [{ nftContract: getAddress(royaltyNftContract.address), nftId: offeredNftId }],
+      toItems: [{ nftContract: getAddress(nftContract.address), nftId: requestedNftId }],
+      toPayment: { nativeAmount }
+    };
+  });
+
+  it('Should route the royalty of a RON payment to the creator', async function () {
+    const creatorBalance = await publicClient.getBalance({ address: creator.account.address });
+    const royalty = (nativeAmount * royaltyBps) / 10_000n;
+
+    const { events, fromReceived } = await trade(terms);
+
+    const royaltyPaid = events.find((event) => event.eventName === 'RoyaltyPaid') as RoyaltyPaidEvent;
+    expect(royaltyPaid.args).to.deep.equal({
+      tradeId: 0n,
+      nftContract: getAddress(royaltyNftContract.address),
+      nftId: BigInt(offeredNftId),
+      receiver: getAddress(creator.account.address),
+      token: '0x0000000000000000000000000000000000000000',
+      amount: royalty
+    });
+    expect(await publicClient.getBalance({ address: creator.account.address })).to.equal(creatorBalance + royalty);
+    expect(fromReceived).to.equal(nativeAmount - royalty);
+  });
+  it('Should route the royalty of an ERC20 payment to the creator', async function () {
+    const tokenTerms: TradeTerms = { ...terms, toPayment: { erc20Token: getAddress(tokenContract.address), erc20Amount } };
+    const royalty = (erc20Amount * royaltyBps) / 10_000n;
+
+    await trade(tokenTerms);
+
+    expect(await tokenContract.read.balanceOf([creator.account.address])).to.equal(royalty);
+    expect(await tokenContract.read.balanceOf([from.account.address])).to.equal(erc20Amount - royalty);
+    expect(await tokenContract.read.balanceOf([to.account.address])).to.equal(0n);
+  });
+  it('Should split the payment between the NFTs it pays for', async function () {
+    await royaltyNftContract.write.mint([from.account.address, 3]);
+    await nftContract.write.mint([from.account.address, 4]);
+    const hash = await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    const bundleTerms: TradeTerms = {
+      ...terms,
+      fromItems: [
+        ...terms.fromItems,
+        { nftContract: getAddress(royaltyNftContract.address), nftId: 3 },
+        { nftContract: getAddress(nftContract.address), nftId: 4 }
+      ]
+    };
+    const creatorBalance = await publicClient.getBalance({ address: creator.account.address });
+
+    const { events } = await trade(bundleTerms);
+
+    // Only the two royalty NFTs get a royalty, on a third of the payment each
+    const royalty = ((nativeAmount / 3n) * royaltyBps) / 10_000n;
+    expect(events.filter((event) => event.eventName === 'RoyaltyPaid')).to.have.length(2);
+    expect(await publicClient.getBalance({ address: creator.account.address })).to.equal(creatorBalance + royalty * 2n);
+  });
+  it('Should cap the royalty', async function () {
+    await nftSwap.setRoyaltyCap(200);
+    const creatorBalance = await publicClient.getBalance({ address: creator.account.address });
+
+    await trade(terms);
+
+    expect(await publicClient.getBalance({ address: creator.account.address })).to.equal(creatorBalance + (nativeAmount * 200n) / 10_000n);
+  });
+  it('Should not pay royalties without a payment for the royalty NFT', async function () {
+    // 'from' pays for the regular NFT, nothing pays for the royalty NFT
+    const { events } = await trade({ ...terms, toPayment: undefined, fromPayment: { nativeAmount } });
+
+    expect(events.map((event) => event.eventName)).to.not.include('RoyaltyPaid');
+  });
+  it('Should only allow the owner to set a valid royalty cap', async function () {
+    await expect(nftSwap.setRoyaltyCap(0, { account: from.account })).to.be.rejectedWith('Only owner can perform this action');
+    await expect(nftSwap.setRoyaltyCap(10_001)).to.be.rejectedWith('Invalid royalty cap');
+
+    await nftSwap.setRoyaltyCap(0);
+    expect(await nftSwap.getRoyaltyCap()).to.equal(0n);
+  });
+});
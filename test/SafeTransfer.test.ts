@@ -0,0 +1,216 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  Abi,
+  Address,
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  getAddress,
+  getContract,
+  http,
+  parseEther,
+  PublicClient,
+  WalletClient
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import MockVault from '../artifacts/contracts/MockVault.sol/MockVault.json';
+import MockWallet from '../artifacts/contracts/MockWallet.sol/MockWallet.json';
+import { deployNftSwap, nftSwapAbi, NftSwapClient, TradeStatus, TradeTerms } from '../sdk';
+
+describe('SafeTransfer', function () {
+  let publicClient: PublicClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let user: any;
+  let walletOwner: any;
+  let nftContract: any;
+  let wallet: Address; // Accepts NFTs and validates its owner's signatures
+  let vault: Address; // Can't receive NFTs through safe transfers
+  let nftSwap: NftSwapClient;
+
+  const userNftId = 1,
+    walletNftId = 2,
+    vaultNftId = 3;
+
+  const terms = (nftId: number): TradeTerms => ({
+    fromItems: [{ nftContract: nftContract.address, nftId: userNftId }],
+    toItems: [{ nftContract: nftContract.address, nftId }]
+  });
+
+  // Calls NftSwap from a contract wallet, signed by its owner
+  const execute = async (contract: Address, target: Address, data: `0x${string}`, value?: bigint) => {
+    const hash = await walletClientOwner.writeContract({
+      address: contract,
+      abi: MockVault.abi,
+      functionName: 'execute',
+      args: [target, data],
+      value,
+      account: walletOwner.account,
+      chain: hardhat
+    });
+    return publicClient.waitForTransactionReceipt({ hash });
+  };
+  const executeSwap = (contract: Address, functionName: string, args: unknown[], value?: bigint) =>
+    execute(contract, nftSwap.address, encodeFunctionData({ abi: nftSwapAbi, functionName, args } as any), value);
+  const agreeAsContract = async (contract: Address, tradeId: bigint) => {
+    const trade = await nftSwap.getTrade(tradeId);
+    return executeSwap(contract, 'agreeTrade', [tradeId, trade.fromItems, trade.toItems, trade.fromPayment, trade.toPayment]);
+  };
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat,
+      transport: http()
+    });
+
+    // Get accounts from Hardhat
+    [contractOwner, user, walletOwner] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy the NFT contract and both contract wallets, owned by walletOwner
+    const deploy = async (artifact: { abi: unknown[]; bytecode: string }, args: unknown[] = []) => {
+      const hash = await walletClientOwner.deployContract({
+        abi: artifact.abi as Abi,
+        bytecode: artifact.bytecode as Address,
+        args,
+        account: contractOwner.account,
+        chain: hardhat
+      });
+      return getAddress((await publicClient.waitForTransactionReceipt({ hash })).contractAddress!);
+    };
+    nftContract = getContract({
+      address: await deploy(MockNft),
+      abi: MockNft.abi,
+      client: { public: publicClient, wallet: walletClientOwner }
+    });
+    wallet = await deploy(MockWallet, [walletOwner.account.address]);
+    vault = await deploy(MockVault, [walletOwner.account.address]);
+
+    // Deploy the contract, linked against its libraries
+    const { address } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    nftSwap = new NftSwapClient({ address, publicClient, walletClient: walletClientOwner });
+    await nftSwap.setPermissionlessProposals(true);
+
+    // Mint and approve NFTs for the user and both contract wallets
+    await nftContract.write.mint([user.account.address, userNftId]);
+    await nftContract.write.mint([wallet, walletNftId]);
+    await nftContract.write.mint([vault, vaultNftId]);
+    await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: user.account });
+    const approval = encodeFunctionData({ abi: MockNft.abi as Abi, functionName: 'setApprovalForAll', args: [nftSwap.address, true] });
+    await execute(wallet, nftContract.address, approval);
+    await execute(vault, nftContract.address, approval);
+  });
+
+  it('Should trade with a contract wallet that accepts NFTs', async function () {
+    const { tradeId } = await nftSwap.proposeTrade(user.account.address, wallet, { terms: terms(walletNftId), account: user.account });
+
+    // Act: The wallet agrees and confirms first, the user's confirmation executes the trade
+    await agreeAsContract(wallet, tradeId);
+    await executeSwap(wallet, 'confirmTrade', [tradeId, 1n]);
+    const { events } = await nftSwap.confirmTrade(tradeId, { account: user.account });
+
+    expect(events.map((event) => event.eventName)).to.include('TradeCompleted');
+    expect(await nftContract.read.ownerOf([userNftId])).to.equal(wallet);
+    expect(await nftContract.read.ownerOf([walletNftId])).to.equal(getAddress(user.account.address));
+  });
+  it('Should reject trades sending NFTs to a contract that cannot receive them', async function () {
+    const { tradeId } = await nftSwap.proposeTrade(user.account.address, vault, { terms: terms(vaultNftId), account: user.account });
+    await agreeAsContract(vault, tradeId);
+    await executeSwap(vault, 'confirmTrade', [tradeId, 1n]);
+
+    // Assert: The safe transfer to the vault reverts the whole swap
+    await expect(nftSwap.confirmTrade(tradeId, { account: user.account })).to.be.rejectedWith('Offered NFT transfer failed');
+    expect(await nftContract.read.ownerOf([userNftId])).to.equal(getAddress(user.account.address));
+    expect((await nftSwap.getTrade(tradeId)).status).to.equal(TradeStatus.Agreed);
+  });
+  it('Should send ERC721 tokens with transferFrom once the trade opts out of safe transfers', async function () {
+    const { tradeId } = await nftSwap.proposeTrade(user.account.address, vault, { terms: terms(vaultNftId), account: user.account });
+
+    // Act: The vault opts out, the user has to agree again
+    const receipt = await executeSwap(vault, 'setPlainTransfers', [tradeId, true]);
+    expect(receipt.status).to.equal('success');
+    expect(await nftSwap.hasPlainTransfers(tradeId)).to.equal(true);
+    expect((await nftSwap.getTrade(tradeId)).fromHasAgreed).to.equal(false);
+    await expect(nftSwap.setPlainTransfers(tradeId, false)).to.be.rejectedWith('Not authorized to update this trade');
+
+    await nftSwap.agreeTrade(tradeId, terms(vaultNftId), { account: user.account });
+    await agreeAsContract(vault, tradeId);
+    await expect(nftSwap.setPlainTransfers(tradeId, false, { account: user.account })).to.be.rejectedWith('Trade is not in proposed state');
+    await executeSwap(vault, 'confirmTrade', [tradeId, 1n]);
+    await nftSwap.confirmTrade(tradeId, { account: user.account });
+
+    expect(await nftContract.read.ownerOf([userNftId])).to.equal(vault);
+    expect(await nftContract.read.ownerOf([vaultNftId])).to.equal(getAddress(user.account.address));
+  });
+  it('Should credit the RON of a participant rejecting it instead of reverting the cancellation or the trade', async function () {
+    const fee = parseEther('0.01'),
+      nativeAmount = parseEther('1');
+    await nftSwap.setFlatFee(fee);
+    const paidTerms = { ...terms(vaultNftId), fromPayment: { nativeAmount } };
+    const { tradeId } = await nftSwap.proposeTrade(user.account.address, vault, { terms: paidTerms, account: user.account });
+    await agreeAsContract(vault, tradeId);
+    await executeSwap(vault, 'confirmTrade', [tradeId, 1n], fee);
+
+    // Act: The vault has no receive function, its refunded fee is credited
+    await nftSwap.cancelTrade(tradeId, { account: user.account });
+    expect((await nftSwap.getTrade(tradeId)).status).to.equal(TradeStatus.Cancelled);
+    expect(await nftSwap.getPendingWithdrawal(vault)).to.equal(fee);
+    await expect(executeSwap(vault, 'withdrawPayments', [])).to.be.rejectedWith('RON transfer failed');
+
+    // Assert: Paying the vault doesn't revert the next trade either
+    const { tradeId: nextTradeId } = await nftSwap.proposeTrade(user.account.address, vault, { terms: paidTerms, account: user.account });
+    await executeSwap(vault, 'setPlainTransfers', [nextTradeId, true]);
+    await nftSwap.agreeTrade(nextTradeId, paidTerms, { account: user.account });
+    await agreeAsContract(vault, nextTradeId);
+    await executeSwap(vault, 'confirmTrade', [nextTradeId, 1n], fee);
+    await nftSwap.confirmTrade(nextTradeId, { account: user.account });
+
+    expect((await nftSwap.getTrade(nextTradeId)).status).to.equal(TradeStatus.Completed);
+    expect(await nftSwap.getPendingWithdrawal(vault)).to.equal(fee + nativeAmount);
+  });
+  it('Should pay RON to a contract wallet that accepts it', async function () {
+    const nativeAmount = parseEther('1');
+    const paidTerms = { ...terms(walletNftId), fromPayment: { nativeAmount } };
+    const { tradeId } = await nftSwap.proposeTrade(user.account.address, wallet, { terms: paidTerms, account: user.account });
+    await agreeAsContract(wallet, tradeId);
+    await executeSwap(wallet, 'confirmTrade', [tradeId, 1n]);
+
+    // Act: The wallet's receive function runs when the trade pays it
+    await nftSwap.confirmTrade(tradeId, { account: user.account });
+
+    expect(await publicClient.getBalance({ address: wallet })).to.equal(nativeAmount);
+    expect(await publicClient.readContract({ address: wallet, abi: MockWallet.abi, functionName: 'received' })).to.equal(nativeAmount);
+    expect(await nftSwap.getPendingWithdrawal(wallet)).to.equal(0n);
+  });
+  it('Should fill offers signed for a contract wallet (ERC-1271)', async function () {
+    const { timestamp } = await publicClient.getBlock();
+    const offer = nftSwap.buildOffer({
+      maker: wallet,
+      taker: getAddress(user.account.address),
+      makerItems: [{ nftContract: nftContract.address, nftId: walletNftId }],
+      takerItems: [{ nftContract: nftContract.address, nftId: userNftId }],
+      expiry: timestamp + 3600n
+    });
+
+    // Assert: Only the signature of the wallet's owner is valid for the wallet
+    const signedOffer = await nftSwap.signOffer(offer, { account: walletOwner.account });
+    const forgedOffer = await nftSwap.signOffer(offer, { account: user.account });
+    expect(await nftSwap.verifyOffer(signedOffer)).to.equal(true);
+    expect(await nftSwap.verifyOffer(forgedOffer)).to.equal(false);
+    await expect(nftSwap.fillOffer(forgedOffer, { account: user.account })).to.be.rejectedWith('Invalid offer signature');
+
+    await nftSwap.fillOffer(signedOffer, { account: user.account });
+
+    expect(await nftContract.read.ownerOf([userNftId])).to.equal(wallet);
+    expect(await nftContract.read.ownerOf([walletNftId])).to.equal(getAddress(user.account.address));
+  });
+});
@@ -1,32 +1,20 @@
 import { time } from '@openzeppelin/test-helpers';
 import { expect } from 'chai';
 import hre from 'hardhat';
-import { Address, createPublicClient, createWalletClient, getAddress, getContract, http, PublicClient, WalletClient } from 'viem';
+import {
+  Address,
+  createPublicClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  http,
+  parseEther,
+  PublicClient,
+  WalletClient
+} from 'viem';
 import { hardhat } from 'viem/chains';
 import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
-import NftSwap from '../artifacts/contracts/NftSwap.sol/NftSwap.json';
-
-enum TradeStatus {
-  Proposed,
-  Agreed,
-  Confirmed,
-  Cancelled
-}
-type Trade = {
-  fromAddress: Address;
-  fromNftContract: Address;
-  fromNftId: bigint;
-  fromHasAgreed: boolean;
-  fromHasConfirmed: boolean;
-
-  toAddress: Address;
-  toNftContract: Address;
-  toNftId: bigint;
-  toHasAgreed: boolean;
-  toHasConfirmed: boolean;
-
-  status: TradeStatus;
-};
+import { deployNftSwap, NftSwapClient, TradeStatus, TradeTerms } from '../sdk';
 
 describe('State Transition', function () {
   let publicClient: PublicClient;
@@ -34,11 +22,14 @@ describe('State Transition', function () {
   let contractOwner: any;
   let from: any;
   let to: any;
+  let thirdParty: any;
   let nftContract: any;
-  let nftSwap: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
 
   const offeredNftId: number = 1,
-    requestedNftId: number = 2;
+    requestedNftId: number = 2,
+    counterNftId: number = 3;
 
   beforeEach(async function () {
     // Create Viem clients
@@ -48,7 +39,7 @@ describe('State Transition', function () {
     });
 
     // Get accounts from Hardhat
-    [contractOwner, from, to] = await hre.viem.getWalletClients();
+    [contractOwner, from, to, thirdParty] = await hre.viem.getWalletClients();
 
     // Create wallet clients
     walletClientOwner = createWalletClient({
@@ -67,17 +58,11 @@ describe('State Transition', function () {
     const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
     const nftAddress = nftReceipt.contractAddress!;
 
-    // Deploy the contract with Viem
-    const swapHash = await walletClientOwner.deployContract({
-      abi: NftSwap.abi,
-      bytecode: NftSwap.bytecode as Address,
-      account: contractOwner.account,
-      chain: hardhat
-    });
-    const receipt = await publicClient.waitForTransactionReceipt({ hash: swapHash });
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
     const nftSwapAddress = receipt.contractAddress!;
 
-    // Get a contract instance with Viem
+    // Get contract instances with Viem
     nftContract = getContract({
       address: nftAddress,
       abi: MockNft.abi,
@@ -86,14 +71,7 @@ describe('State Transition', function () {
         wallet: walletClientOwner
       }
     });
-    nftSwap = getContract({
-      address: nftSwapAddress,
-      abi: NftSwap.abi,
-      client: {
-        public: publicClient,
-        wallet: walletClientOwner
-      }
-    });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
 
     // Mint NFTs to from and to
     await nftContract.write.mint([from.account.address, offeredNftId]);
@@ -105,6 +83,12 @@ describe('State Transition', function () {
 
     expect(ownerOfferedNft).to.equal(getAddress(from.account.address));
     expect(ownerRequestedNft).to.equal(getAddress(to.account.address));
+
+    // Default trade terms: swap the offered NFT for the requested NFT
+    terms = {
+      fromItems: [{ nftContract: getAddress(nftContract.address), nftId: offeredNftId }],
+      toItems: [{ nftContract: getAddress(nftContract.address), nftId: requestedNftId }]
+    };
   });
 
   it('Should not allow agreeing to a cancelled trade', async function () {
@@ -112,16 +96,12 @@ describe('State Transition', function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
 
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Add time to cancel trade
     await time.increase(1000 * 60 * 60 + 1);
 
-    const trade = nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
+    const trade = nftSwap.agreeTrade(0, terms, { account: to.account });
     await expect(trade).to.be.rejectedWith('Trade has expired');
   });
   it('Should not allow agreeing an already agreed trade', async function () {
@@ -129,26 +109,14 @@ describe('State Transition', function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
 
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Agree
-    hash = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: from.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash });
-    hash = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
 
     // Agree again
-    const trade = nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
+    const trade = nftSwap.agreeTrade(0, terms, { account: to.account });
 
     // Test
     await expect(trade).to.be.rejectedWith('Trade is not in proposed state');
@@ -158,38 +126,24 @@ describe('State Transition', function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
 
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Agree
-    hash = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: from.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash });
-    hash = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
 
     // NFT Approval
-    hash = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
+    let hash = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
     await publicClient.waitForTransactionReceipt({ hash });
     hash = await nftContract.write.approve([getAddress(nftSwap.address), requestedNftId], { account: to.account });
     await publicClient.waitForTransactionReceipt({ hash });
 
     // Confirm
-    hash = await nftSwap.write.confirmTrade([0], { account: from.account });
-    await publicClient.waitForTransactionReceipt({ hash });
-    hash = await nftSwap.write.confirmTrade([0], { account: to.account });
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.confirmTrade(0, { account: from.account });
+    await nftSwap.confirmTrade(0, { account: to.account });
 
     // Agree again
-    const trade = nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
+    const trade = nftSwap.agreeTrade(0, terms, { account: to.account });
 
     // Test
     await expect(trade).to.be.rejectedWith('Trade is not in proposed state');
@@ -199,13 +153,12 @@ describe('State Transition', function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
 
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Add time to cancel trade
     await time.increase(1000 * 60 * 60 + 1);
 
-    const trade = nftSwap.write.confirmTrade([0], { account: to.account });
+    const trade = nftSwap.confirmTrade(0, { account: to.account });
     await expect(trade).to.be.rejectedWith('Trade has expired');
   });
   it('Should not allow confirming a proposed trade', async function () {
@@ -213,10 +166,9 @@ describe('State Transition', function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
 
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
-    const trade = nftSwap.write.confirmTrade([0], { account: to.account });
+    const trade = nftSwap.confirmTrade(0, { account: to.account });
 
     // Test
     await expect(trade).to.be.rejectedWith('Trade is not in agreed state');
@@ -226,37 +178,234 @@ describe('State Transition', function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
 
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Agree
-    hash = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: from.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash });
-    hash = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
 
     // NFT Approval
-    hash = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
+    let hash = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
     await publicClient.waitForTransactionReceipt({ hash });
     hash = await nftContract.write.approve([getAddress(nftSwap.address), requestedNftId], { account: to.account });
     await publicClient.waitForTransactionReceipt({ hash });
 
     // Confirm
-    hash = await nftSwap.write.confirmTrade([0], { account: from.account });
-    await publicClient.waitForTransactionReceipt({ hash });
-    hash = await nftSwap.write.confirmTrade([0], { account: to.account });
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.confirmTrade(0, { account: from.account });
+    await nftSwap.confirmTrade(0, { account: to.account });
 
     // Agree again
-    const trade = nftSwap.write.confirmTrade([0], { account: to.account });
+    const trade = nftSwap.confirmTrade(0, { account: to.account });
 
     // Test
     await expect(trade).to.be.rejectedWith('Trade is not in agreed state');
   });
+
+  // Cancellation
+  it('Should allow cancelling a proposed trade', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+
+    const { events } = await nftSwap.cancelTrade(0, { account: to.account });
+
+    const trade = await nftSwap.getTrade(0);
+    expect(trade.status).to.equal(TradeStatus.Cancelled);
+    expect(events[0].eventName).to.equal('TradeCancelled');
+    expect(events[0].args).to.deep.equal({
+      tradeId: 0n,
+      cancelledBy: getAddress(to.account.address),
+      reason: 'Cancelled by participant'
+    });
+  });
+  it('Should reject a trade cancelled by a participant who did not agree to it', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+
+    const { events, receipt } = await nftSwap.cancelTrade(0, { account: to.account });
+
+    const trade = await nftSwap.getTrade(0);
+    const { timestamp } = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
+    expect(trade.status).to.equal(TradeStatus.Rejected);
+    expect(events[0].args).to.include({ reason: 'Rejected by participant' });
+    expect([trade.cancelledAt, trade.cancelledBy]).to.deep.equal([timestamp, getAddress(to.account.address)]);
+  });
+  it('Should record when a trade was agreed, confirmed and completed', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    for (const [user, nftId] of [
+      [from, offeredNftId],
+      [to, requestedNftId]
+    ]) {
+      const hash = await nftContract.write.approve([getAddress(nftSwap.address), nftId], { account: user.account });
+      await publicClient.waitForTransactionReceipt({ hash });
+    }
+    const timestampOf = async ({ receipt }: { receipt: { blockNumber: bigint } }) =>
+      (await publicClient.getBlock({ blockNumber: receipt.blockNumber })).timestamp;
+
+    // Act
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    const agreedAt = await timestampOf(await nftSwap.agreeTrade(0, terms, { account: to.account }));
+    await nftSwap.confirmTrade(0, { account: from.account });
+    const completedAt = await timestampOf(await nftSwap.confirmTrade(0, { account: to.account }));
+
+    // Assert: Both confirmations are in, the trade executed in the same transaction
+    const trade = await nftSwap.getTrade(0);
+    expect(trade.status).to.equal(TradeStatus.Completed);
+    expect([trade.agreedAt, trade.confirmedAt, trade.completedAt]).to.deep.equal([agreedAt, completedAt, completedAt]);
+    expect(trade.cancelledAt).to.equal(0n);
+  });
+  it('Should allow cancelling an agreed trade', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+
+    await nftSwap.cancelTrade(0, { account: from.account });
+
+    const trade = await nftSwap.getTrade(0);
+    expect(trade.status).to.equal(TradeStatus.Cancelled);
+  });
+  it('Should allow cancelling a trade confirmed by one side only', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+
+    const hash = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.confirmTrade(0, { account: from.account });
+
+    await nftSwap.cancelTrade(0, { account: to.account });
+
+    const trade = await nftSwap.getTrade(0);
+    expect(trade.status).to.equal(TradeStatus.Cancelled);
+    expect(await nftContract.read.ownerOf([offeredNftId])).to.equal(getAddress(from.account.address));
+  });
+  it('Should allow the owner to cancel a trade', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+
+    const { events } = await nftSwap.cancelTrade(0);
+
+    expect((await nftSwap.getTrade(0)).status).to.equal(TradeStatus.Cancelled);
+    expect(events[0].args).to.deep.equal({
+      tradeId: 0n,
+      cancelledBy: getAddress(contractOwner.account.address),
+      reason: 'Cancelled by owner'
+    });
+  });
+  it('Should not allow non-participants to cancel a trade', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+
+    const cancel = nftSwap.cancelTrade(0, { account: thirdParty.account });
+
+    await expect(cancel).to.be.rejectedWith('Not authorized to cancel this trade');
+  });
+  it('Should not allow cancelling a non-existent trade', async function () {
+    const cancel = nftSwap.cancelTrade(999, { account: from.account });
+
+    await expect(cancel).to.be.rejectedWith('Trade does not exist');
+  });
+  it('Should not allow cancelling an already cancelled trade', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.cancelTrade(0, { account: from.account });
+
+    const cancel = nftSwap.cancelTrade(0, { account: to.account });
+
+    await expect(cancel).to.be.rejectedWith('Trade can no longer be cancelled');
+  });
+  it('Should not allow cancelling a confirmed trade', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+
+    let hash = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    hash = await nftContract.write.approve([getAddress(nftSwap.address), requestedNftId], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.confirmTrade(0, { account: from.account });
+    await nftSwap.confirmTrade(0, { account: to.account });
+
+    const cancel = nftSwap.cancelTrade(0, { account: from.account });
+
+    await expect(cancel).to.be.rejectedWith('Trade can no longer be cancelled');
+  });
+  it('Should not allow agreeing or confirming a cancelled trade', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.cancelTrade(0, { account: from.account });
+
+    await expect(nftSwap.agreeTrade(0, terms, { account: to.account })).to.be.rejectedWith('Trade is not in proposed state');
+    await expect(nftSwap.confirmTrade(0, { account: to.account })).to.be.rejectedWith('Trade is not in agreed state');
+  });
+  it('Should let either party counter a proposed trade', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftContract.write.mint([from.account.address, counterNftId]);
+
+    // The receiving side asks for one more NFT
+    const counterTerms = {
+      ...terms,
+      fromItems: [...terms.fromItems, { nftContract: getAddress(nftContract.address), nftId: counterNftId }]
+    };
+    const { events } = await nftSwap.counterTrade(0, counterTerms, { account: to.account });
+
+    expect(events.map((event) => event.eventName)).to.deep.equal(['TradeTermsSet', 'TradeCountered']);
+    expect(events[1].args).to.deep.equal({ tradeId: 0n, user: getAddress(to.account.address), version: 2n });
+    let trade = await nftSwap.getTrade(0);
+    expect(trade.version).to.equal(2n);
+    expect(trade.fromItems).to.have.lengthOf(2);
+    expect(trade.fromHasAgreed).to.be.false;
+    expect(trade.toHasAgreed).to.be.true;
+
+    // The previous terms can't be agreed to anymore
+    await expect(nftSwap.agreeTrade(0, terms, { account: from.account })).to.be.rejectedWith('Trade terms do not match');
+    await nftSwap.agreeTrade(0, counterTerms, { account: from.account });
+
+    trade = await nftSwap.getTrade(0);
+    expect(trade.status).to.equal(TradeStatus.Agreed);
+  });
+  it('Should reopen an agreed trade when countered and refund its escrow', async function () {
+    const paidTerms = { ...terms, fromPayment: { nativeAmount: parseEther('1') } };
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, paidTerms, { account: from.account });
+    await nftSwap.agreeTrade(0, paidTerms, { account: to.account });
+    const hash = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.confirmTrade(0, { account: from.account });
+    expect(await publicClient.getBalance({ address: nftSwap.address })).to.equal(parseEther('1'));
+
+    await nftSwap.counterTrade(0, terms, { account: to.account });
+
+    const trade = await nftSwap.getTrade(0);
+    expect(trade.status).to.equal(TradeStatus.Proposed);
+    expect(trade.fromHasConfirmed).to.be.false;
+    expect(trade.fromPayment.nativeAmount).to.equal(0n);
+    expect(await publicClient.getBalance({ address: nftSwap.address })).to.equal(0n);
+    expect((await nftSwap.getOpenTrades()).trades.map((trade) => trade.id)).to.deep.equal([0n]);
+  });
+  it('Should bind confirmations to the version of the terms', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    const { version } = await nftSwap.getTrade(0);
+
+    // The receiving side counters and the offering side agrees to the counter-proposal in between
+    const counterTerms = { ...terms, toPayment: { nativeAmount: parseEther('1') } };
+    await nftSwap.counterTrade(0, counterTerms, { account: to.account });
+    await nftSwap.agreeTrade(0, counterTerms, { account: from.account });
+
+    const hash = await nftContract.write.approve([getAddress(nftSwap.address), requestedNftId], { account: to.account });
+    await publicClient.waitForTransactionReceipt({ hash });
+    const confirm = nftSwap.confirmTrade(0, { account: to.account, version, value: parseEther('1') });
+
+    await expect(confirm).to.be.rejectedWith('Trade terms have changed');
+    await nftSwap.confirmTrade(0, { account: to.account, version: version + 1n });
+    expect((await nftSwap.getTrade(0)).toHasConfirmed).to.be.true;
+  });
+  it('Should not allow countering a cancelled trade or by non-participants', async function () {
+    await nftSwap.proposeTrade(from.account.address, to.account.address);
+
+    const counter = nftSwap.counterTrade(0, terms, { account: thirdParty.account });
+    await expect(counter).to.be.rejectedWith('Not authorized to counter this trade');
+
+    await nftSwap.cancelTrade(0, { account: from.account });
+    const counterCancelled = nftSwap.counterTrade(0, terms, { account: to.account });
+    await expect(counterCancelled).to.be.rejectedWith('Trade can no longer be countered');
+  });
 });
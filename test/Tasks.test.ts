@@ -0,0 +1,186 @@
+import { expect } from 'chai';
+import { readFileSync } from 'fs';
+import hre from 'hardhat';
+import { Address, getAddress, parseEther, PublicClient, WalletClient, zeroAddress, zeroHash } from 'viem';
+import { NftSwapClient, TokenStandard, TradeStatus, TradeWithId } from '../sdk';
+import { formatSdkArtifacts, SDK_ARTIFACTS_PATH } from '../tasks/sdk';
+import { formatTrade, formatTradeSummary, parseTradeItems } from '../tasks/utils';
+
+describe('Tasks', function () {
+  const collection = getAddress('0x5fbdb2315678afecb367f032d93f642f64180aa3');
+  const from = getAddress('0x70997970c51812dc3a010c7d01b50e0d17dc79c8');
+  const to = getAddress('0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc');
+  const noPayment = { nativeAmount: 0n, erc20Token: zeroAddress, erc20Amount: 0n };
+
+  const trade: TradeWithId = {
+    id: 7n,
+    fromAddress: from,
+    fromItems: [{ nftContract: collection, nftId: 1n, standard: TokenStandard.ERC721, amount: 1n }],
+    fromPayment: { ...noPayment, nativeAmount: parseEther('1.5') },
+    fromHasAgreed: true,
+    fromHasConfirmed: false,
+    toAddress: to,
+    toItems: [
+      { nftContract: collection, nftId: 2n, standard: TokenStandard.ERC721, amount: 1n },
+      { nftContract: collection, nftId: 3n, standard: TokenStandard.ERC1155, amount: 5n }
+    ],
+    toPayment: noPayment,
+    toHasAgreed: false,
+    toHasConfirmed: false,
+    wanted: { nftContract: zeroAddress, standard: TokenStandard.ERC721, amount: 0n, idsRoot: zeroHash },
+    version: 1n,
+    fee: parseEther('0.1'),
+    createdAt: 1_700_000_000n,
+    expiresAt: 1_700_003_600n,
+    status: TradeStatus.Proposed
+  };
+
+  // Deploys NftSwap with the deploy scripts, the tasks find it like on a live network
+  async function deployFixture() {
+    await hre.deployments.fixture(['NftSwap']);
+    const publicClient = (await hre.viem.getPublicClient()) as PublicClient;
+    const [deployer, from, to] = await hre.viem.getWalletClients();
+    const { address } = await hre.deployments.get('NftSwap');
+    const nftSwap = new NftSwapClient({ address: getAddress(address), publicClient, walletClient: deployer as WalletClient });
+
+    const nftContract = await hre.viem.deployContract('MockNft');
+    await nftContract.write.mint([from.account.address, 1n]);
+    await nftContract.write.mint([to.account.address, 2n]);
+    await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: from.account });
+    await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: to.account });
+
+    return { nftSwap, nftContract, deployer: getAddress(deployer.account.address), from, to };
+  }
+
+  // Runs a task and returns what it printed
+  async function runTask(name: string, args: Record<string, unknown> = {}): Promise<string> {
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...data: unknown[]) => lines.push(data.join(' '));
+    try {
+      await hre.run(name, args);
+    } finally {
+      console.log = log;
+    }
+    return lines.join('\n');
+  }
+
+  const proposeArgs = (nftContract: Address, from: Address, to: Address) => ({
+    from,
+    to,
+    offered: `${nftContract}:1`,
+    requested: `${nftContract}:2`,
+    fromRon: '1.5',
+    expiresIn: 3600
+  });
+
+  it('Should parse the NFTs given on the command line', function () {
+    expect(parseTradeItems(`${collection.toLowerCase()}:1, ${collection}:2:5,`)).to.deep.equal([
+      { nftContract: collection, nftId: 1n },
+      { nftContract: collection, nftId: 2n, standard: TokenStandard.ERC1155, amount: 5n }
+    ]);
+    expect(parseTradeItems('')).to.deep.equal([]);
+    expect(() => parseTradeItems(`${collection}`)).to.throw('expected collection:id or collection:id:amount');
+    expect(() => parseTradeItems('0x1234:1')).to.throw();
+  });
+  it('Should pretty-print a trade with its decoded status', function () {
+    expect(formatTrade(trade).split('\n')).to.deep.equal([
+      'Trade #7: Proposed, version 1',
+      `  ${from} (agreed)`,
+      `    ERC721 ${collection} #1`,
+      '    1.5 RON',
+      `  ${to} (pending)`,
+      `    ERC721 ${collection} #2`,
+      `    5 x ERC1155 ${collection} #3`,
+      '  fee 0.1 RON',
+      '  created 2023-11-14T22:13:20.000Z, expires 2023-11-14T23:13:20.000Z'
+    ]);
+
+    // Expired trades waiting for their cancellation are flagged
+    expect(formatTrade({ ...trade, status: TradeStatus.Expired })).to.match(/^Trade #7: Expired \(not cancelled\), version 1/);
+    expect(formatTrade({ ...trade, status: TradeStatus.Expired, cancelledAt: trade.expiresAt + 1n })).to.match(
+      /^Trade #7: Expired, version 1/
+    );
+
+    // Steps of the lifecycle that were reached
+    const rejected = { ...trade, status: TradeStatus.Rejected, agreedAt: 0n, cancelledAt: 1_700_000_060n, cancelledBy: to };
+    expect(formatTrade(rejected).split('\n').slice(-2)).to.deep.equal([
+      '  created 2023-11-14T22:13:20.000Z, expires 2023-11-14T23:13:20.000Z',
+      `  cancelled 2023-11-14T22:14:20.000Z by ${to}`
+    ]);
+  });
+  it('Should pretty-print open offers', function () {
+    const openOffer = {
+      ...trade,
+      toAddress: zeroAddress,
+      toItems: [],
+      wanted: { ...trade.wanted, nftContract: collection, amount: 1n }
+    };
+
+    expect(formatTrade(openOffer)).to.include(`  anyone (pending)\n  wants ERC721 ${collection} any id`);
+    expect(formatTradeSummary(openOffer)).to.equal(`#7 Proposed ${from} (1 NFT) <> anyone (0 NFTs), expires 2023-11-14T23:13:20.000Z`);
+  });
+  it('Should propose, show and list trades of the deployment of the network, as the deployer', async function () {
+    const { nftSwap, nftContract, from, to } = await deployFixture();
+    const fromAddress = getAddress(from.account.address);
+
+    const now = (await (await hre.viem.getPublicClient()).getBlock()).timestamp;
+
+    // Act: Proposals are restricted to the owner, the deployer signs them
+    const proposed = await runTask('swap:propose', proposeArgs(nftContract.address, fromAddress, to.account.address));
+
+    expect(proposed).to.match(/^Proposed trade #0 \(0x[0-9a-f]{64}\)\n\nTrade #0: Proposed, version \d+\n/);
+    const proposal = await nftSwap.getTrade(0);
+    expect(proposal.fromAddress).to.equal(fromAddress);
+    expect(proposal.fromItems.map((item) => item.nftId)).to.deep.equal([1n]);
+    expect(proposal.toItems.map((item) => item.nftId)).to.deep.equal([2n]);
+    expect(proposal.fromPayment.nativeAmount).to.equal(parseEther('1.5'));
+    expect(proposal.expiresAt).to.equal(now + 3600n);
+
+    // Assert: The trade is found by id, by user, by status and among the open trades
+    const shown = await runTask('swap:show', { tradeId: 0n });
+    expect(shown.split('\n')[0]).to.match(/^Trade #0: Proposed, version \d+$/);
+    expect(shown).to.include(`    ERC721 ${getAddress(nftContract.address)} #1\n    1.5 RON`);
+    expect(shown).to.equal(proposed.split('\n\n')[1]);
+
+    const summary = `#0 Proposed ${fromAddress} (1 NFT) <> ${getAddress(to.account.address)} (1 NFT)`;
+    expect(await runTask('swap:list'))
+      .to.include(summary)
+      .and.to.match(/1 of 1 trades$/);
+    expect(await runTask('swap:list', { user: to.account.address })).to.include(summary);
+    expect(await runTask('swap:list', { status: 'Proposed' })).to.include(summary);
+    expect(await runTask('swap:list', { status: 'Cancelled' })).to.equal('0 of 0 trades');
+    await expect(runTask('swap:list', { status: 'Settled' })).to.be.rejectedWith('Unknown trade status Settled');
+  });
+  it('Should show the settings of the deployment and withdraw its fees to the deployer', async function () {
+    const { nftSwap, nftContract, deployer, from, to } = await deployFixture();
+    const fee = parseEther('0.1');
+
+    const status = await runTask('swap:status');
+    expect(status.split('\n')[0]).to.equal(`NftSwap ${nftSwap.address} on hardhat`);
+    expect(status).to.include(`  owner                    ${deployer}\n`);
+    expect(status).to.include(`  fee recipient            ${deployer}\n`);
+
+    // Arrange: A trade paying the fee is executed
+    await nftSwap.setFlatFee(fee);
+    await runTask('swap:propose', proposeArgs(nftContract.address, from.account.address, to.account.address));
+    const { fromItems, toItems, fromPayment, toPayment } = await nftSwap.getTrade(0);
+    const terms = { fromItems, toItems, fromPayment, toPayment };
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
+    await nftSwap.confirmTrade(0, { account: from.account });
+    await nftSwap.confirmTrade(0, { account: to.account });
+    expect(await runTask('swap:status')).to.include(`  accumulated fees         0.1 RON\n`);
+
+    // Act: The deployer, owner of the contract, withdraws the fees
+    const withdrawn = await runTask('swap:withdraw-fees');
+
+    expect(withdrawn).to.match(new RegExp(`^Withdrew 0.1 RON to ${deployer} \\(0x[0-9a-f]{64}\\)$`));
+    expect((await nftSwap.getFeeSchedule()).accumulatedFees).to.equal(0n);
+    await expect(runTask('swap:withdraw-fees')).to.be.rejectedWith('No fees to withdraw');
+  });
+  it('Should ship the artifacts of the compiled contracts with the SDK', async function () {
+    // Run `npx hardhat sdk:artifacts` after changing the contracts
+    expect(readFileSync(SDK_ARTIFACTS_PATH, 'utf8')).to.equal(await formatSdkArtifacts(hre));
+  });
+});
@@ -0,0 +1,199 @@
+import { expect } from 'chai';
+import hre from 'hardhat';
+import {
+  Address,
+  createPublicClient,
+  createWalletClient,
+  getAddress,
+  getContract,
+  http,
+  parseEther,
+  PublicClient,
+  toFunctionSelector,
+  WalletClient,
+  zeroAddress
+} from 'viem';
+import { hardhat } from 'viem/chains';
+import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
+import NftSwap from '../artifacts/contracts/NftSwap.sol/NftSwap.json';
+import { checkStorageLayout, deployNftSwap, NftSwapClient, StorageLayout, TradeStatus, TradeTerms, upgradeNftSwap } from '../sdk';
+
+// ERC-1967 implementation slot of the proxy
+const IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+const getStorageLayout = async (sourceName: string, contractName: string): Promise<StorageLayout> => {
+  const buildInfo = await hre.artifacts.getBuildInfo(`${sourceName}:${contractName}`);
+  return (buildInfo!.output.contracts[sourceName][contractName] as any).storageLayout;
+};
+
+describe('Upgrade', function () {
+  let publicClient: PublicClient;
+  let walletClientOwner: WalletClient;
+  let contractOwner: any;
+  let from: any;
+  let to: any;
+  let nftContract: any;
+  let nftSwap: NftSwapClient;
+  let libraries: Record<string, Address>;
+
+  const terms = (fromNftId: number, toNftId: number): TradeTerms => ({
+    fromItems: [{ nftContract: getAddress(nftContract.address), nftId: fromNftId }],
+    toItems: [{ nftContract: getAddress(nftContract.address), nftId: toNftId }]
+  });
+  const getImplementation = async () =>
+    getAddress(`0x${(await publicClient.getStorageAt({ address: nftSwap.address, slot: IMPLEMENTATION_SLOT }))!.slice(-40)}`);
+
+  beforeEach(async function () {
+    // Create Viem clients
+    publicClient = createPublicClient({
+      chain: hardhat,
+      transport: http()
+    });
+
+    // Get accounts from Hardhat
+    [contractOwner, from, to] = await hre.viem.getWalletClients();
+
+    // Create wallet clients
+    walletClientOwner = createWalletClient({
+      chain: hardhat,
+      transport: http(),
+      account: contractOwner.account
+    });
+
+    // Deploy the NFT contract first
+    const nftHash = await walletClientOwner.deployContract({
+      abi: MockNft.abi,
+      bytecode: MockNft.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
+
+    // Deploy the contract behind its proxy
+    const deployed = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
+    libraries = deployed.libraries;
+
+    nftContract = getContract({
+      address: nftReceipt.contractAddress!,
+      abi: MockNft.abi,
+      client: {
+        public: publicClient,
+        wallet: walletClientOwner
+      }
+    });
+    nftSwap = new NftSwapClient({ address: deployed.address, publicClient, walletClient: walletClientOwner });
+
+    // Mint NFTs to from and to, approved for the swap contract
+    for (const nftId of [1, 3, 5]) await nftContract.write.mint([from.account.address, nftId]);
+    for (const nftId of [2, 4, 6]) await nftContract.write.mint([to.account.address, nftId]);
+    await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: from.account });
+    await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: to.account });
+  });
+
+  it('Should keep live trades and settings when upgrading', async function () {
+    // Arrange: A proposed trade, a confirmed trade holding escrowed RON and a completed trade
+    const nativeAmount = parseEther('1');
+    await nftSwap.setFlatFee(parseEther('0.1'));
+    await nftSwap.setPermissionlessProposals(true);
+
+    await nftSwap.proposeTrade(from.account.address, to.account.address, { terms: terms(1, 2) });
+    const escrowTerms = { ...terms(3, 4), toPayment: { nativeAmount } };
+    await nftSwap.proposeTrade(from.account.address, to.account.address, { terms: escrowTerms });
+    await nftSwap.agreeTrade(1, escrowTerms, { account: from.account });
+    await nftSwap.agreeTrade(1, escrowTerms, { account: to.account });
+    await nftSwap.confirmTrade(1, { account: to.account });
+    await nftSwap.proposeTrade(from.account.address, to.account.address, { terms: terms(5, 6) });
+    await nftSwap.agreeTrade(2, terms(5, 6), { account: from.account });
+    await nftSwap.agreeTrade(2, terms(5, 6), { account: to.account });
+    await nftSwap.confirmTrade(2, { account: from.account });
+    await nftSwap.confirmTrade(2, { account: to.account });
+
+    const trades = await Promise.all([0, 1, 2].map((tradeId) => nftSwap.getTrade(tradeId)));
+    const userTrades = await nftSwap.getTradesByUser(from.account.address);
+    const openTrades = await nftSwap.getOpenTrades();
+    const feeSchedule = await nftSwap.getFeeSchedule();
+    const balance = await publicClient.getBalance({ address: nftSwap.address });
+    const implementation = await getImplementation();
+
+    // Act: Upgrade to a new implementation
+    await upgradeNftSwap({ publicClient, walletClient: walletClientOwner, address: nftSwap.address, libraries });
+
+    // Assert: The proxy runs the new implementation on the same state
+    expect(await getImplementation()).to.not.equal(implementation);
+    for (const [tradeId, trade] of trades.entries()) {
+      expect(await nftSwap.getTrade(tradeId)).to.deep.equal(trade);
+    }
+    expect(await nftSwap.getTradesByUser(from.account.address)).to.deep.equal(userTrades);
+    expect(await nftSwap.getOpenTrades()).to.deep.equal(openTrades);
+    expect(await nftSwap.getFeeSchedule()).to.deep.equal(feeSchedule);
+    expect(await nftSwap.getPermissionlessProposals()).to.equal(true);
+    expect(await nftSwap.getOwner()).to.equal(getAddress(contractOwner.account.address));
+    expect(await publicClient.getBalance({ address: nftSwap.address })).to.equal(balance);
+
+    // Assert: The trades carry on with the new implementation
+    const fromBalance = await publicClient.getBalance({ address: from.account.address });
+    const { receipt } = await nftSwap.confirmTrade(1, { account: from.account, version: trades[1].version });
+    expect((await nftSwap.getTrade(1)).status).to.equal(TradeStatus.Completed);
+    expect(await nftContract.read.ownerOf([3])).to.equal(getAddress(to.account.address));
+    expect(await publicClient.getBalance({ address: from.account.address })).to.equal(
+      fromBalance + nativeAmount - receipt.gasUsed * receipt.effectiveGasPrice
+    );
+
+    await nftSwap.agreeTrade(0, terms(1, 2), { account: from.account });
+    expect((await nftSwap.getTrade(0)).fromHasAgreed).to.equal(true);
+  });
+  it('Should only allow the owner to upgrade', async function () {
+    const walletClientFrom = createWalletClient({ chain: hardhat, transport: http(), account: from.account });
+
+    const upgradeCall = upgradeNftSwap({ publicClient, walletClient: walletClientFrom, address: nftSwap.address, libraries });
+
+    await expect(upgradeCall).to.be.rejectedWith('Only owner can perform this action');
+  });
+  it('Should not allow initializing twice', async function () {
+    const initializeCall = publicClient.simulateContract({
+      address: nftSwap.address,
+      abi: NftSwap.abi,
+      functionName: 'initialize',
+      args: [from.account.address],
+      account: from.account
+    });
+
+    // The node doesn't decode the custom error of Initializable, only returns its selector
+    await expect(initializeCall).to.be.rejectedWith(toFunctionSelector('InvalidInitialization()'));
+    expect(await nftSwap.getOwner()).to.equal(getAddress(contractOwner.account.address));
+    expect(await nftSwap.getPendingOwner()).to.equal(zeroAddress);
+  });
+  it('Should share the storage layout between NftSwap and NftSwapExtension', async function () {
+    const layout = await getStorageLayout('contracts/NftSwap.sol', 'NftSwap');
+    const extensionLayout = await getStorageLayout('contracts/NftSwapExtension.sol', 'NftSwapExtension');
+
+    expect(checkStorageLayout(layout, extensionLayout)).to.deep.equal([]);
+    expect(checkStorageLayout(extensionLayout, layout)).to.deep.equal([]);
+  });
+  it('Should only accept storage layouts appending state', async function () {
+    const layout = await getStorageLayout('contracts/NftSwap.sol', 'NftSwap');
+    const last = layout.storage[layout.storage.length - 1];
+    const typeId = (label: string) => Object.keys(layout.types!).find((id) => id.startsWith(label))!;
+    const withStruct = (id: string) => {
+      const type = layout.types![id];
+      const member = { label: 'added', slot: String(Number(type.numberOfBytes) / 32), offset: 0, type: 't_uint256' };
+      return { ...layout, types: { ...layout.types, [id]: { ...type, members: [...type.members!, member] } } };
+    };
+
+    // Appending a variable or a member to a struct held in a mapping is safe
+    const appended = { ...layout, storage: [...layout.storage, { ...last, label: 'added', slot: String(Number(last.slot) + 1) }] };
+    expect(checkStorageLayout(layout, appended)).to.deep.equal([]);
+    expect(checkStorageLayout(layout, withStruct(typeId('t_struct(CollectionFee)')))).to.deep.equal([]);
+
+    // Inserting, removing or retyping a variable, or growing the structs stored in the trades array is not
+    const inserted = { ...layout, storage: layout.storage.flatMap((v) => (v.label === 'owner' ? [{ ...v, label: 'added' }, v] : [v])) };
+    expect(checkStorageLayout(layout, inserted)).to.include('owner was replaced by added');
+    const removed = { ...layout, storage: layout.storage.filter((v) => v.label !== 'flatFee') };
+    expect(checkStorageLayout(layout, removed)).to.include('flatFee was replaced by collectionFees');
+    const retyped = { ...layout, storage: layout.storage.map((v) => (v.label === 'paused' ? { ...v, type: 't_uint256' } : v)) };
+    expect(checkStorageLayout(layout, retyped)).to.deep.equal([
+      'paused changed from bool (inplace, 1 bytes) to uint256 (inplace, 32 bytes)'
+    ]);
+    expect(checkStorageLayout(layout, withStruct(typeId('t_struct(Trade)')))).to.not.be.empty;
+  });
+});
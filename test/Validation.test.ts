@@ -2,30 +2,10 @@ import { expect } from 'chai';
 import hre from 'hardhat';
 import { Address, createPublicClient, createWalletClient, getAddress, getContract, http, PublicClient, WalletClient } from 'viem';
 import { hardhat } from 'viem/chains';
+import MockLegacyNft from '../artifacts/contracts/MockLegacyNft.sol/MockLegacyNft.json';
 import MockNft from '../artifacts/contracts/MockNft.sol/MockNft.json';
-import NftSwap from '../artifacts/contracts/NftSwap.sol/NftSwap.json';
-
-enum TradeStatus {
-  Proposed,
-  Agreed,
-  Confirmed,
-  Cancelled
-}
-type Trade = {
-  fromAddress: Address;
-  fromNftContract: Address;
-  fromNftId: bigint;
-  fromHasAgreed: boolean;
-  fromHasConfirmed: boolean;
-
-  toAddress: Address;
-  toNftContract: Address;
-  toNftId: bigint;
-  toHasAgreed: boolean;
-  toHasConfirmed: boolean;
-
-  status: TradeStatus;
-};
+import MockToken from '../artifacts/contracts/MockToken.sol/MockToken.json';
+import { deployNftSwap, NftSwapClient, TokenStandard, TradeItemInput, TradeTerms } from '../sdk';
 
 describe('Validation', function () {
   let publicClient: PublicClient;
@@ -34,7 +14,8 @@ describe('Validation', function () {
   let from: any;
   let to: any;
   let nftContract: any;
-  let nftSwap: any;
+  let nftSwap: NftSwapClient;
+  let terms: TradeTerms;
 
   const offeredNftId: number = 1,
     requestedNftId: number = 2;
@@ -66,17 +47,11 @@ describe('Validation', function () {
     const nftReceipt = await publicClient.waitForTransactionReceipt({ hash: nftHash });
     const nftAddress = nftReceipt.contractAddress!;
 
-    // Deploy the contract with Viem
-    const swapHash = await walletClientOwner.deployContract({
-      abi: NftSwap.abi,
-      bytecode: NftSwap.bytecode as Address,
-      account: contractOwner.account,
-      chain: hardhat
-    });
-    const receipt = await publicClient.waitForTransactionReceipt({ hash: swapHash });
+    // Deploy the contract, linked against its libraries
+    const { receipt } = await deployNftSwap({ publicClient, walletClient: walletClientOwner });
     const nftSwapAddress = receipt.contractAddress!;
 
-    // Get a contract instance with Viem
+    // Get contract instances with Viem
     nftContract = getContract({
       address: nftAddress,
       abi: MockNft.abi,
@@ -85,14 +60,7 @@ describe('Validation', function () {
         wallet: walletClientOwner
       }
     });
-    nftSwap = getContract({
-      address: nftSwapAddress,
-      abi: NftSwap.abi,
-      client: {
-        public: publicClient,
-        wallet: walletClientOwner
-      }
-    });
+    nftSwap = new NftSwapClient({ address: nftSwapAddress, publicClient, walletClient: walletClientOwner });
 
     // Mint NFTs to from and to
     await nftContract.write.mint([from.account.address, offeredNftId]);
@@ -104,6 +72,12 @@ describe('Validation', function () {
 
     expect(ownerOfferedNft).to.equal(getAddress(from.account.address));
     expect(ownerRequestedNft).to.equal(getAddress(to.account.address));
+
+    // Default trade terms: swap the offered NFT for the requested NFT
+    terms = {
+      fromItems: [{ nftContract: getAddress(nftContract.address), nftId: offeredNftId }],
+      toItems: [{ nftContract: getAddress(nftContract.address), nftId: requestedNftId }]
+    };
   });
 
   it('Should validate NFT contract addresses are valid', async function () {
@@ -112,29 +86,73 @@ describe('Validation', function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
 
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
     // Have FROM side agree
-    hash = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: from.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
 
     //
-    const invalidFromNft = nftSwap.write.agreeTrade(
-      [0, invalidContractAddress, offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
-    const invalidToNft = nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, invalidContractAddress, requestedNftId],
-      { account: to.account }
-    );
+    const invalidFromItems = [{ nftContract: invalidContractAddress, nftId: offeredNftId }];
+    const invalidToItems = [{ nftContract: invalidContractAddress, nftId: requestedNftId }];
 
     // Assert: The transaction should be rejected
-    await expect(invalidFromNft).to.be.rejected;
-    await expect(invalidToNft).to.be.rejected;
+    await expect(nftSwap.agreeTrade(0, { ...terms, fromItems: invalidFromItems }, { account: to.account })).to.be.rejected;
+    await expect(nftSwap.agreeTrade(0, { ...terms, toItems: invalidToItems }, { account: to.account })).to.be.rejected;
+  });
+  it('Should reject contracts not implementing the token standard of the items', async function () {
+    const tokenHash = await walletClientOwner.deployContract({
+      abi: MockToken.abi,
+      bytecode: MockToken.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const tokenAddress = (await publicClient.waitForTransactionReceipt({ hash: tokenHash })).contractAddress!;
+
+    const propose = (item: TradeItemInput) =>
+      nftSwap.proposeTrade(from.account.address, to.account.address, { terms: { ...terms, fromItems: [item] } });
+    const wallet = { nftContract: getAddress(to.account.address), nftId: offeredNftId };
+    const token = { nftContract: tokenAddress, nftId: offeredNftId };
+    const erc721As1155 = { nftContract: getAddress(nftContract.address), nftId: offeredNftId, standard: TokenStandard.ERC1155 };
+
+    // Assert: Wallets are rejected before querying them, other contracts fail the ownership check
+    await expect(propose(wallet)).to.be.rejectedWith('Collection does not support the token standard');
+    await expect(propose(token)).to.be.rejectedWith('Requested NFT does not exist');
+    await expect(propose(erc721As1155)).to.be.rejectedWith('Requested NFT does not exist');
+
+    // Assert: The ERC-165 interface check of allowed collections rejects the wrong standard
+    await nftSwap.setCollectionsAllowed([nftContract.address], true);
+    await nftSwap.setAllowlistEnabled(true);
+    await expect(propose(erc721As1155)).to.be.rejectedWith('Collection does not support the token standard');
+  });
+  it('Should trade collections predating ERC-165 while the allowlist is disabled', async function () {
+    // Arrange: A collection that doesn't report the ERC721 interface
+    const legacyHash = await walletClientOwner.deployContract({
+      abi: MockLegacyNft.abi,
+      bytecode: MockLegacyNft.bytecode as Address,
+      account: contractOwner.account,
+      chain: hardhat
+    });
+    const legacyNft: any = getContract({
+      address: (await publicClient.waitForTransactionReceipt({ hash: legacyHash })).contractAddress!,
+      abi: MockLegacyNft.abi,
+      client: { public: publicClient, wallet: walletClientOwner }
+    });
+    await legacyNft.write.mint([from.account.address, offeredNftId]);
+    await legacyNft.write.setApprovalForAll([nftSwap.address, true], { account: from.account });
+    await nftContract.write.setApprovalForAll([nftSwap.address, true], { account: to.account });
+    const legacyTerms = { ...terms, fromItems: [{ nftContract: getAddress(legacyNft.address), nftId: offeredNftId }] };
+
+    // Act: Trade it for the requested NFT
+    await nftSwap.proposeTrade(from.account.address, to.account.address, { terms: legacyTerms });
+    await nftSwap.agreeTrade(0, legacyTerms, { account: from.account });
+    await nftSwap.agreeTrade(0, legacyTerms, { account: to.account });
+    await nftSwap.confirmTrade(0, { account: from.account });
+    await nftSwap.confirmTrade(0, { account: to.account });
+
+    // Assert: The NFTs are swapped, but the collection can't be allowed
+    expect(await legacyNft.read.ownerOf([offeredNftId])).to.equal(getAddress(to.account.address));
+    expect(await nftContract.read.ownerOf([requestedNftId])).to.equal(getAddress(from.account.address));
+    await expect(nftSwap.setCollectionsAllowed([legacyNft.address], true)).to.be.rejectedWith('Collection is not an NFT contract');
   });
   it('Should validate NFT tokens exist', async function () {
     // Arrange: Use a non-existent NFT ID
@@ -149,19 +167,10 @@ describe('Validation', function () {
     const ownerOfferedNft = await nftContract.read.ownerOf([offeredNftId]);
     const ownerRequestedNft = await nftContract.read.ownerOf([requestedNftId]);
 
-    let hash = await nftSwap.write.proposeTrade([ownerOfferedNft, ownerRequestedNft]);
-    await publicClient.waitForTransactionReceipt({ hash });
+    await nftSwap.proposeTrade(ownerOfferedNft, ownerRequestedNft);
 
-    const agreeHashFrom = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: from.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHashFrom });
-    const agreeHashTo = await nftSwap.write.agreeTrade(
-      [0, getAddress(nftContract.address), offeredNftId, getAddress(nftContract.address), requestedNftId],
-      { account: to.account }
-    );
-    await publicClient.waitForTransactionReceipt({ hash: agreeHashTo });
+    await nftSwap.agreeTrade(0, terms, { account: from.account });
+    await nftSwap.agreeTrade(0, terms, { account: to.account });
 
     // Approve the contract to transfer the NFT
     const approveHash = await nftContract.write.approve([getAddress(nftSwap.address), offeredNftId], { account: from.account });
@@ -174,7 +183,7 @@ describe('Validation', function () {
     await publicClient.waitForTransactionReceipt({ hash: revokeHash });
 
     // Act: Attempt to confirm the trade
-    const confirmTradeCall = nftSwap.write.confirmTrade([0], { account: from.account });
+    const confirmTradeCall = nftSwap.confirmTrade(0, { account: from.account });
 
     // Assert: The transaction should be rejected with the correct error message
     await expect(confirmTradeCall).to.be.rejectedWith('Contract not approved to transfer NFT');